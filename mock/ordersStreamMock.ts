@@ -0,0 +1,81 @@
+import type { Plugin } from 'vite';
+import type { ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+// Development-only mock of the order push channel consumed by subscribeToOrderUpdates.
+// Stream tickets are issued to anyone and not checked.
+// Start the dev server with VITE_ORDERS_STREAM_URL=/mock/orders/stream, then publish
+// changes with:
+//   curl -X POST localhost:5173/mock/orders/events -H 'Content-Type: application/json' \
+//        -d '{"orderId": 12, "orderStatus": "READY", "tableNumber": 3, "totalPrice": 10, "orderBill": "[]", "orderDate": "2025-01-01T12:00:00"}'
+// The body is an order as returned by the backend (OrderResponseDTO), or an array of them.
+
+const HEARTBEAT_MS = 15_000;
+
+export default function ordersStreamMock(): Plugin {
+    const clients = new Set<ServerResponse>();
+
+    const broadcast = (order: unknown) => {
+        const payload = `event: order\ndata: ${JSON.stringify(order)}\n\n`;
+        clients.forEach(res => res.write(payload));
+    };
+
+    return {
+        name: 'orders-stream-mock',
+        apply: 'serve',
+        configureServer(server) {
+            // Vitest runs Vite without an HTTP server; there are no clients then, and the heartbeat would keep it alive
+            if (!server.httpServer) return;
+            const heartbeat = setInterval(() => clients.forEach(res => res.write(': ping\n\n')), HEARTBEAT_MS);
+            server.httpServer.on('close', () => clearInterval(heartbeat));
+
+            // Registered before the stream, which would otherwise match this path as a prefix
+            server.middlewares.use('/mock/orders/stream/ticket', (req, res) => {
+                if (req.method !== 'POST') {
+                    res.statusCode = 405;
+                    res.end();
+                    return;
+                }
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ ticket: randomUUID() }));
+            });
+
+            server.middlewares.use('/mock/orders/stream', (req, res) => {
+                if (req.method !== 'GET') {
+                    res.statusCode = 405;
+                    res.end();
+                    return;
+                }
+                res.writeHead(200, {
+                    'Content-Type': 'text/event-stream',
+                    'Cache-Control': 'no-cache',
+                    Connection: 'keep-alive'
+                });
+                res.write('retry: 5000\n\n');
+                clients.add(res);
+                req.on('close', () => clients.delete(res));
+            });
+
+            server.middlewares.use('/mock/orders/events', (req, res) => {
+                if (req.method !== 'POST') {
+                    res.statusCode = 405;
+                    res.end();
+                    return;
+                }
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', () => {
+                    try {
+                        const parsed: unknown = JSON.parse(body);
+                        (Array.isArray(parsed) ? parsed : [parsed]).forEach(broadcast);
+                        res.statusCode = 202;
+                        res.end(JSON.stringify({ delivered: clients.size }));
+                    } catch {
+                        res.statusCode = 400;
+                        res.end(JSON.stringify({ error: 'Body must be an order JSON object or array' }));
+                    }
+                });
+            });
+        }
+    };
+}
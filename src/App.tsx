@@ -14,8 +14,14 @@ import Supplier from "./views/Supplier.tsx";
 import './App.scss';
 import { getUserInfo } from './service/api';
 import Staff from "./views/Staff.tsx";
+import Menu from "./views/Menu.tsx";
+import Kitchen from "./views/Kitchen.tsx";
+import Cash from "./views/Cash.tsx";
+import Sales from "./views/Sales.tsx";
+import Expenses from "./views/Expenses.tsx";
+import Reports from "./views/Reports.tsx";
+import Purchasing from "./views/Purchasing.tsx";
 import HomeDashboard from './components/AdminDashboard/HomeDashboard';
-import UnavailableSection from './components/common/UnavailableSection';
 
 interface User {
     id: string;
@@ -155,8 +161,10 @@ function MainLayout() {
     useEffect(() => {
         const path = location.pathname;
         if (path.includes('/orders')) setActiveSection('orders');
+        else if (path.includes('/kitchen')) setActiveSection('kitchen');
         else if (path.includes('/inventory')) setActiveSection('inventory');
         else if (path.includes('/supplier')) setActiveSection('supplier');
+        else if (path.includes('/purchasing')) setActiveSection('purchasing');
         else if (path.includes('/menu')) setActiveSection('menu');
         else if (path.includes('/staff')) setActiveSection('staff');
         else if (path.includes('/cash')) setActiveSection('cash');
@@ -212,6 +220,13 @@ function MainLayout() {
                             </ProtectedRoute>
                         } />
 
+                        {/* Kitchen display - CHEF, ADMIN */}
+                        <Route path="/kitchen" element={
+                            <ProtectedRoute allowedRoles={['CHEF', 'ADMIN']} userType={user?.type}>
+                                <Kitchen key="kitchen" />
+                            </ProtectedRoute>
+                        } />
+
                         {/* Inventory - Solo ADMIN */}
                         <Route path="/inventory" element={
                             <ProtectedRoute allowedRoles={['ADMIN']} userType={user?.type}>
@@ -226,10 +241,17 @@ function MainLayout() {
                             </ProtectedRoute>
                         } />
 
+                        {/* Purchasing (supplier directory) - Solo ADMIN */}
+                        <Route path="/purchasing" element={
+                            <ProtectedRoute allowedRoles={['ADMIN']} userType={user?.type}>
+                                <Purchasing />
+                            </ProtectedRoute>
+                        } />
+
                         {/* Menu - Solo ADMIN */}
                         <Route path="/menu" element={
                             <ProtectedRoute allowedRoles={['ADMIN']} userType={user?.type}>
-                                <UnavailableSection title="Menu" />
+                                <Menu key="menu" />
                             </ProtectedRoute>
                         } />
 
@@ -243,28 +265,28 @@ function MainLayout() {
                         {/* Cash Register - Solo ADMIN */}
                         <Route path="/cash" element={
                             <ProtectedRoute allowedRoles={['ADMIN']} userType={user?.type}>
-                                <UnavailableSection title="Cash Register" />
+                                <Cash />
                             </ProtectedRoute>
                         } />
 
                         {/* Sales - Solo ADMIN */}
                         <Route path="/sales" element={
                             <ProtectedRoute allowedRoles={['ADMIN']} userType={user?.type}>
-                                <UnavailableSection title="Sales" />
+                                <Sales />
                             </ProtectedRoute>
                         } />
 
                         {/* Expenses - Solo ADMIN */}
                         <Route path="/expenses" element={
                             <ProtectedRoute allowedRoles={['ADMIN']} userType={user?.type}>
-                                <UnavailableSection title="Expenses" />
+                                <Expenses />
                             </ProtectedRoute>
                         } />
 
                         {/* Reports - Solo ADMIN */}
                         <Route path="/reports" element={
                             <ProtectedRoute allowedRoles={['ADMIN']} userType={user?.type}>
-                                <UnavailableSection title="Reports" />
+                                <Reports />
                             </ProtectedRoute>
                         } />
 
@@ -299,8 +321,11 @@ function AppContent() {
     const handleLoginSuccess = (token: string, userData?: { name?: string; type?: string; id?: string }) => {
         login(token, userData);
         const incomingType = (userData?.type || '').toUpperCase();
-        // ADMIN goes to dashboard (/home), SUPPLIER goes to /supplier
-        const destination = incomingType === 'SUPPLIER' ? '/supplier' : incomingType === 'ADMIN' ? '/home' : '/orders';
+        // ADMIN goes to dashboard (/home), SUPPLIER goes to /supplier, CHEF goes to the kitchen display
+        const destination = incomingType === 'SUPPLIER' ? '/supplier'
+            : incomingType === 'ADMIN' ? '/home'
+            : incomingType === 'CHEF' ? '/kitchen'
+            : '/orders';
         // Slight delay to ensure context state committed before navigation
         setTimeout(() => {
             navigate(destination, { replace: true });
@@ -324,7 +349,7 @@ function AppContent() {
         }
         if (!supplier && !admin) {
             if (current === '/' || current === '/login') {
-                navigate('/orders', { replace: true });
+                navigate(user?.type === 'CHEF' ? '/kitchen' : '/orders', { replace: true });
             }
         }
     }, [isAuthenticated, isLoading, user?.type, location.pathname, navigate]);
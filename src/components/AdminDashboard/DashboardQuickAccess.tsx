@@ -1,9 +1,10 @@
-import React, { useEffect, useState } from 'react';
-import { Card, Row, Col, Modal, Button, Container } from 'react-bootstrap';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, Row, Col, Modal, Button, Container, Badge } from 'react-bootstrap';
 import { ClipboardData, CartCheck, Box, PeopleFill } from 'react-bootstrap-icons';
 import { useNavigate } from 'react-router-dom';
 import type { AlertItem } from './DashboardNotifications';
-import { getDailyEarnings } from '../../service/api';
+import { getDailyEarnings, subscribeToOrderUpdates, type OrderStreamMode } from '../../service/api';
+import { PAYMENT_RECORDED_EVENT } from '../../service/payments';
 
 const GoalCircle: React.FC<{ progress: number; target: number }> = ({ progress, target }) => {
     // Calculate percentage and stroke parameters
@@ -59,30 +60,59 @@ const DashboardQuickAccess: React.FC<QuickAccessProps> = ({ alerts, onCloseAlert
     const [isLoadingSales, setIsLoadingSales] = useState<boolean>(false);
     const [now, setNow] = useState<Date>(new Date());
     const [localAlerts, setLocalAlerts] = useState<AlertItem[]>([]);
+    const [streamMode, setStreamMode] = useState<OrderStreamMode>('connecting');
+
+    const fetchDailySales = useCallback(async () => {
+        try {
+            setIsLoadingSales(true);
+            // Build ISO date string YYYY-MM-DD for today (local time)
+            const now = new Date();
+            const yyyy = now.getFullYear();
+            const mm = String(now.getMonth() + 1).padStart(2, '0');
+            const dd = String(now.getDate()).padStart(2, '0');
+            const isoDate = `${yyyy}-${mm}-${dd}`;
+            const resp = await getDailyEarnings(isoDate);
+            const total = Number(resp.totalEarnings) || 0;
+            setDailySales(total);
+        } catch {
+            // noop
+        } finally {
+            setIsLoadingSales(false);
+        }
+    }, []);
 
     useEffect(() => {
-        const fetchDailySales = async () => {
-            try {
-                setIsLoadingSales(true);
-                // Build ISO date string YYYY-MM-DD for today (local time)
-                const now = new Date();
-                const yyyy = now.getFullYear();
-                const mm = String(now.getMonth() + 1).padStart(2, '0');
-                const dd = String(now.getDate()).padStart(2, '0');
-                const isoDate = `${yyyy}-${mm}-${dd}`;
-                const resp = await getDailyEarnings(isoDate);
-                const total = Number(resp.totalEarnings) || 0;
-                setDailySales(total);
-            } catch {
-                // noop
-            } finally {
-                setIsLoadingSales(false);
-            }
-        };
         fetchDailySales();
         const t = setInterval(() => setNow(new Date()), 1000);
-        return () => clearInterval(t);
-    }, []);
+        // Payments taken at checkout update the paid breakdown of the day
+        window.addEventListener(PAYMENT_RECORDED_EVENT, fetchDailySales);
+        return () => {
+            clearInterval(t);
+            window.removeEventListener(PAYMENT_RECORDED_EVENT, fetchDailySales);
+        };
+    }, [fetchDailySales]);
+
+    // Live order feed: delivered orders move the daily sales, ready/cancelled ones raise an alert
+    useEffect(() => {
+        return subscribeToOrderUpdates(event => {
+            if (event.type === 'refresh') {
+                fetchDailySales();
+                return;
+            }
+            const { order } = event;
+            const status = (order.status || '').toUpperCase();
+            if (status === 'DELIVERED') fetchDailySales();
+            if (status === 'READY' || status === 'CANCELLED') {
+                const alert: AlertItem = {
+                    id: `order-${order.id}-${status}`,
+                    message: status === 'READY' ? `${order.code} is ready to be served` : `${order.code} was cancelled`,
+                    timestamp: new Date().toISOString(),
+                    severity: status === 'READY' ? 'info' : 'warning'
+                };
+                setLocalAlerts(prev => prev.some(a => a.id === alert.id) ? prev : [alert, ...prev].slice(0, 10));
+            }
+        }, setStreamMode);
+    }, [fetchDailySales]);
 
     const handleNavigate = (path: string) => {
         navigate(path);
@@ -140,7 +170,11 @@ const DashboardQuickAccess: React.FC<QuickAccessProps> = ({ alerts, onCloseAlert
                             <h2 className="mb-1 rounded-heading">DASHBOARD</h2>
                             <div className="small text-muted">Activity Management</div>
                         </div>
-                        <div className="text-end" />
+                        <div className="text-end">
+                            <Badge bg={streamMode === 'live' ? 'success' : 'light'} text={streamMode === 'live' ? undefined : 'dark'} className="border fw-normal">
+                                {streamMode === 'live' ? 'Live orders' : streamMode === 'polling' ? 'Orders auto-refresh' : 'Connecting...'}
+                            </Badge>
+                        </div>
                     </div>
 
                     {/* Top quick access */}
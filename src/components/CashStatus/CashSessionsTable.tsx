@@ -0,0 +1,67 @@
+import React from 'react';
+import { Table, Button } from 'react-bootstrap';
+import { Download } from 'react-bootstrap-icons';
+import { getCashSessionTotals, type CashSession } from '../../service/cashRegister';
+
+interface CashSessionsTableProps {
+    sessions: CashSession[];
+    onExport: (session: CashSession) => void;
+}
+
+const formatDateTime = (iso: string): string => new Date(iso).toLocaleString('en-US', {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false
+});
+
+const CashSessionsTable: React.FC<CashSessionsTableProps> = ({ sessions, onExport }) => {
+    if (sessions.length === 0) {
+        return <div className="text-center text-muted py-4">No closed drawer sessions yet</div>;
+    }
+
+    return (
+        <Table striped bordered hover responsive className="mt-2">
+            <thead>
+            <tr>
+                <th>Opened</th>
+                <th>Closed</th>
+                <th>By</th>
+                <th>Float</th>
+                <th>Cash Sales</th>
+                <th>Pay-ins / Pay-outs</th>
+                <th>Expected</th>
+                <th>Counted</th>
+                <th>Variance</th>
+                <th style={{ width: '60px' }}></th>
+            </tr>
+            </thead>
+            <tbody>
+            {sessions.map(s => {
+                if (!s.close) return null;
+                const totals = getCashSessionTotals(s);
+                const variance = s.close.variance;
+                return (
+                    <tr key={s.id}>
+                        <td><small>{formatDateTime(s.openedAt)}</small></td>
+                        <td><small>{formatDateTime(s.close.closedAt)}</small></td>
+                        <td><small>{s.openedBy}{s.close.closedBy !== s.openedBy ? ` / ${s.close.closedBy}` : ''}</small></td>
+                        <td>${s.openingFloat.toFixed(2)}</td>
+                        <td>${totals.cashSales.toFixed(2)}</td>
+                        <td>+${totals.payIns.toFixed(2)} / -${totals.payOuts.toFixed(2)}</td>
+                        <td>${s.close.expectedCash.toFixed(2)}</td>
+                        <td>${s.close.countedCash.toFixed(2)}</td>
+                        <td className={variance === 0 ? 'text-success fw-semibold' : 'text-danger fw-semibold'} title={s.close.notes || undefined}>
+                            {variance > 0 ? '+' : ''}{variance.toFixed(2)}
+                        </td>
+                        <td>
+                            <Button variant="outline-secondary" size="sm" onClick={() => onExport(s)} title="Export session">
+                                <Download size={14} />
+                            </Button>
+                        </td>
+                    </tr>
+                );
+            })}
+            </tbody>
+        </Table>
+    );
+};
+
+export default CashSessionsTable;
@@ -0,0 +1,371 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Container, Row, Col, Form, Button, Badge, Modal, Alert } from 'react-bootstrap';
+import {
+    Clock,
+    CashCoin,
+    CreditCard,
+    PiggyBank,
+    Receipt,
+    Unlock,
+    Lock,
+    BoxArrowInDown,
+    BoxArrowUp,
+    Download,
+    CheckCircle,
+    XCircle
+} from 'react-bootstrap-icons';
+import PaymentsTable from './PaymentsTable';
+import CashSessionsTable from './CashSessionsTable';
+import CloseDrawerModal from './CloseDrawerModal';
+import { addCashMovement, closeCashSession, getCashSessions, getPayments, openCashSession } from '../../service/api';
+import { summarizePayments, PAYMENT_RECORDED_EVENT, type OrderPayment } from '../../service/payments';
+import {
+    getCashSessionTotals,
+    getOpenCashSession,
+    DENOMINATIONS,
+    type CashMovementType,
+    type CashSession
+} from '../../service/cashRegister';
+import { downloadCsv } from '../../service/exportFile';
+
+interface CashStatusProps {
+    onToast: (msg: string, type?: string) => void;
+}
+
+const toIsoDate = (d: Date): string => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const SESSION_CSV_HEADERS = [
+    'Session', 'Opened At', 'Opened By', 'Closed At', 'Closed By', 'Opening Float', 'Cash Sales',
+    'Pay-ins', 'Pay-outs', 'Expected Cash', 'Counted Cash', 'Variance', 'Notes'
+];
+
+const toSessionRow = (s: CashSession) => {
+    const totals = getCashSessionTotals(s);
+    return [
+        s.id, s.openedAt, s.openedBy, s.close?.closedAt, s.close?.closedBy, s.openingFloat.toFixed(2), totals.cashSales.toFixed(2),
+        totals.payIns.toFixed(2), totals.payOuts.toFixed(2), totals.expectedCash.toFixed(2),
+        s.close?.countedCash.toFixed(2), s.close?.variance.toFixed(2), s.close?.notes
+    ];
+};
+
+const CashStatus: React.FC<CashStatusProps> = ({ onToast }) => {
+    const [currentTime, setCurrentTime] = useState<Date>(new Date());
+    const [date, setDate] = useState<string>(() => toIsoDate(new Date()));
+    const [payments, setPayments] = useState<OrderPayment[]>([]);
+    // Payments taken since the open drawer was opened, for its expected cash
+    const [sessionPayments, setSessionPayments] = useState<OrderPayment[]>([]);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [sessions, setSessions] = useState<CashSession[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const [showOpenModal, setShowOpenModal] = useState(false);
+    const [floatInput, setFloatInput] = useState('');
+    const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+    const [movementAmount, setMovementAmount] = useState('');
+    const [movementReason, setMovementReason] = useState('');
+    const [showCloseModal, setShowCloseModal] = useState(false);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setCurrentTime(new Date()), 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    // Sessions and payments from the backend; the open session's expected cash needs the payments
+    // taken since it was opened, which can reach back before the day shown
+    const reload = useCallback(async () => {
+        try {
+            const [current, dayPayments] = await Promise.all([getCashSessions(), getPayments({ date })]);
+            const open = getOpenCashSession(current);
+            setSessions(current);
+            setPayments(dayPayments);
+            setSessionPayments(open ? await getPayments({ from: open.openedAt, to: new Date().toISOString() }) : []);
+            setLoadError(null);
+        } catch (err) {
+            setLoadError(err instanceof Error ? err.message : 'Could not load the cash register');
+        }
+    }, [date]);
+
+    useEffect(() => {
+        reload();
+        window.addEventListener(PAYMENT_RECORDED_EVENT, reload);
+        return () => window.removeEventListener(PAYMENT_RECORDED_EVENT, reload);
+    }, [reload]);
+
+    const summary = useMemo(() => summarizePayments(payments), [payments]);
+    const changeGiven = payments.reduce((sum, p) => sum + p.changeDue, 0);
+    const sortedPayments = useMemo(() => [...payments].sort((a, b) => b.paidAt.localeCompare(a.paidAt)), [payments]);
+
+    const openSession = getOpenCashSession(sessions);
+    // Follows new checkouts: every recorded payment reloads the session payments
+    const openTotals = openSession ? getCashSessionTotals(openSession, sessionPayments) : null;
+    const closedSessions = useMemo(
+        () => sessions.filter(s => s.close !== null).sort((a, b) => b.openedAt.localeCompare(a.openedAt)),
+        [sessions]
+    );
+
+    const handleDateChange = (value: string) => {
+        if (!value) return;
+        if (value > toIsoDate(new Date())) {
+            onToast('Cannot show payments for a future date', 'warning');
+            return;
+        }
+        setDate(value);
+    };
+
+    // Every change is answered with the session as the backend stored it
+    const storeSession = (session: CashSession) => {
+        setSessions(prev => prev.some(s => s.id === session.id) ? prev.map(s => s.id === session.id ? session : s) : [...prev, session]);
+    };
+
+    const handleOpenDrawer = async () => {
+        setSaving(true);
+        try {
+            const session = await openCashSession(parseFloat(floatInput.replace(/,/g, '.')) || 0, sessions);
+            storeSession(session);
+            setSessionPayments([]);
+            setShowOpenModal(false);
+            setFloatInput('');
+            onToast(`Drawer opened with a $${session.openingFloat.toFixed(2)} float`, 'success');
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not open the drawer', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleMovement = async () => {
+        if (!movementType || !openSession) return;
+        setSaving(true);
+        try {
+            const amount = parseFloat(movementAmount.replace(/,/g, '.'));
+            storeSession(await addCashMovement(openSession, { type: movementType, amount, reason: movementReason }, sessionPayments));
+            onToast(`${movementType === 'PAY_IN' ? 'Pay-in' : 'Pay-out'} of $${amount.toFixed(2)} recorded`, 'success');
+            setMovementType(null);
+            setMovementAmount('');
+            setMovementReason('');
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not record the movement', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCloseDrawer = async (counts: Record<string, number>, notes: string) => {
+        if (!openSession) return;
+        setSaving(true);
+        try {
+            const session = await closeCashSession(openSession, counts, notes);
+            storeSession(session);
+            setShowCloseModal(false);
+            const variance = session.close?.variance ?? 0;
+            if (variance === 0) onToast('Drawer closed and balanced', 'success');
+            else onToast(`Drawer closed ${variance > 0 ? 'over' : 'short'} by $${Math.abs(variance).toFixed(2)}`, 'warning');
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not close the drawer', 'danger');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleExportAll = () => {
+        if (closedSessions.length === 0) {
+            onToast('There are no closed sessions to export', 'info');
+            return;
+        }
+        downloadCsv(SESSION_CSV_HEADERS, closedSessions.map(toSessionRow), `cash_sessions_${toIsoDate(new Date())}.csv`);
+    };
+
+    // One file per session: summary, movements and the denomination count
+    const handleExportSession = (session: CashSession) => {
+        const rows = [
+            ...SESSION_CSV_HEADERS.map((h, i) => ['Summary', h, toSessionRow(session)[i]]),
+            ...session.movements.map(m => [m.type === 'PAY_IN' ? 'Pay-in' : 'Pay-out', `${m.at} ${m.by}: ${m.reason}`, m.amount.toFixed(2)]),
+            ...DENOMINATIONS.map(d => ['Count', String(d), session.close?.counts[String(d)] ?? 0])
+        ];
+        downloadCsv(['Section', 'Field', 'Value'], rows, `${session.id.toLowerCase()}.csv`);
+    };
+
+    const tiles = [
+        { label: 'Sales', value: summary.sales, icon: <Receipt size={18} /> },
+        { label: 'Tips', value: summary.tips, icon: <PiggyBank size={18} /> },
+        { label: 'Cash', value: summary.cash, icon: <CashCoin size={18} /> },
+        { label: 'Card', value: summary.card, icon: <CreditCard size={18} /> }
+    ];
+
+    return (
+        <div className="d-flex flex-column" style={{ backgroundColor: 'white' }}>
+            <Container fluid className="py-4">
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    {loadError && <Alert variant="warning" className="py-2 small">{loadError}</Alert>}
+                    <div className="d-flex justify-content-between align-items-center mb-4 flex-wrap gap-2">
+                        <div>
+                            <h2 className="mb-1 rounded-heading">CASH REGISTER</h2>
+                            <small className="text-muted"><Clock size={14} className="me-1" />{currentTime.toLocaleTimeString()}</small>
+                        </div>
+                        <div className="d-flex gap-2 align-items-center flex-wrap">
+                            {openSession ? (
+                                <>
+                                    <Badge bg="success" className="fs-6">Drawer open</Badge>
+                                    <Button variant="outline-secondary" size="sm" onClick={() => setMovementType('PAY_IN')}>
+                                        <BoxArrowInDown size={16} className="me-1" /> Pay In
+                                    </Button>
+                                    <Button variant="outline-secondary" size="sm" onClick={() => setMovementType('PAY_OUT')}>
+                                        <BoxArrowUp size={16} className="me-1" /> Pay Out
+                                    </Button>
+                                    <Button size="sm" onClick={() => setShowCloseModal(true)} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                                        <Lock size={16} className="me-1" /> Close Drawer
+                                    </Button>
+                                </>
+                            ) : (
+                                <>
+                                    <Badge bg="secondary" className="fs-6">Drawer closed</Badge>
+                                    <Button size="sm" onClick={() => setShowOpenModal(true)} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                                        <Unlock size={16} className="me-1" /> Open Drawer
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+
+                    {openSession && openTotals ? (
+                        <>
+                            <small className="text-muted d-block mb-2">
+                                Opened by {openSession.openedBy} at {new Date(openSession.openedAt).toLocaleTimeString()}
+                            </small>
+                            <Row className="g-3 mb-3">
+                                {[
+                                    { label: 'Opening Float', value: openTotals.openingFloat },
+                                    { label: 'Cash Sales', value: openTotals.cashSales },
+                                    { label: 'Pay-ins', value: openTotals.payIns },
+                                    { label: 'Pay-outs', value: -openTotals.payOuts },
+                                    { label: 'Expected in Drawer', value: openTotals.expectedCash }
+                                ].map(t => (
+                                    <Col key={t.label} xs={6} lg>
+                                        <div className="border rounded-3 p-3 h-100" style={t.label === 'Expected in Drawer' ? { backgroundColor: '#e8f7ff' } : {}}>
+                                            <div className="text-muted small text-uppercase mb-1">{t.label}</div>
+                                            <div className="fs-4 fw-bold">{t.value < 0 ? '-' : ''}${Math.abs(t.value).toFixed(2)}</div>
+                                        </div>
+                                    </Col>
+                                ))}
+                            </Row>
+                            {openSession.movements.length > 0 && (
+                                <div className="mb-2">
+                                    <h6 className="fw-bold small text-uppercase">Pay-ins and Pay-outs</h6>
+                                    {[...openSession.movements].reverse().map(m => (
+                                        <div key={m.id} className="d-flex justify-content-between small border-bottom py-1">
+                                            <span>{new Date(m.at).toLocaleTimeString()} · {m.reason} · <span className="text-muted">{m.by}</span></span>
+                                            <span className={m.type === 'PAY_IN' ? 'text-success' : 'text-danger'}>
+                                                {m.type === 'PAY_IN' ? '+' : '-'}${m.amount.toFixed(2)}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <div className="text-center text-muted py-3">Open the drawer with a starting float to begin a shift</div>
+                    )}
+                </div>
+
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    <div className="d-flex justify-content-between align-items-center mb-3 flex-wrap gap-2">
+                        <h5 className="mb-0 fw-bold">Payments</h5>
+                        <Form.Control
+                            type="date"
+                            size="sm"
+                            style={{ width: 180 }}
+                            value={date}
+                            max={toIsoDate(new Date())}
+                            onChange={e => handleDateChange(e.target.value)}
+                        />
+                    </div>
+                    <Row className="g-3 mb-3">
+                        {tiles.map(t => (
+                            <Col key={t.label} xs={6} lg={3}>
+                                <div className="border rounded-3 p-3 h-100">
+                                    <div className="d-flex align-items-center text-muted small text-uppercase mb-1">{t.icon}<span className="ms-2">{t.label}</span></div>
+                                    <div className="fs-4 fw-bold">${t.value.toFixed(2)}</div>
+                                </div>
+                            </Col>
+                        ))}
+                    </Row>
+                    <div className="d-flex gap-4 small text-muted mb-2">
+                        <span>Paid orders: <strong className="text-dark">{summary.orders}</strong></span>
+                        <span>Payments: <strong className="text-dark">{summary.payments}</strong></span>
+                        <span>Change given: <strong className="text-dark">${changeGiven.toFixed(2)}</strong></span>
+                    </div>
+
+                    <PaymentsTable payments={sortedPayments} />
+                </div>
+
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    <div className="d-flex justify-content-between align-items-center mb-2">
+                        <h5 className="mb-0 fw-bold">Closed Sessions</h5>
+                        <Button variant="outline-secondary" size="sm" onClick={handleExportAll}>
+                            <Download size={16} className="me-1" /> Export CSV
+                        </Button>
+                    </div>
+                    <CashSessionsTable sessions={closedSessions} onExport={handleExportSession} />
+                </div>
+            </Container>
+
+            <Modal show={showOpenModal} onHide={() => setShowOpenModal(false)} centered>
+                <Modal.Header closeButton>
+                    <Modal.Title><Unlock size={20} className="me-2" />OPEN DRAWER</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    <Form.Group controlId="openingFloat">
+                        <Form.Label>Starting float</Form.Label>
+                        <Form.Control type="number" min={0} step="0.01" value={floatInput} onChange={e => setFloatInput(e.target.value)} placeholder="0.00" autoFocus />
+                    </Form.Group>
+                </Modal.Body>
+                <Modal.Footer>
+                    <Button variant="outline-secondary" onClick={() => setShowOpenModal(false)}><XCircle size={16} className="me-2" />Cancel</Button>
+                    <Button onClick={handleOpenDrawer} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                        <CheckCircle size={16} className="me-2" />Open Drawer
+                    </Button>
+                </Modal.Footer>
+            </Modal>
+
+            <Modal show={movementType !== null} onHide={() => setMovementType(null)} centered>
+                <Modal.Header closeButton>
+                    <Modal.Title>
+                        {movementType === 'PAY_IN'
+                            ? <><BoxArrowInDown size={20} className="me-2" />PAY IN</>
+                            : <><BoxArrowUp size={20} className="me-2" />PAY OUT</>}
+                    </Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    <Form.Group controlId="movementAmount" className="mb-3">
+                        <Form.Label>Amount</Form.Label>
+                        <Form.Control type="number" min={0} step="0.01" value={movementAmount} onChange={e => setMovementAmount(e.target.value)} placeholder="0.00" autoFocus />
+                    </Form.Group>
+                    <Form.Group controlId="movementReason">
+                        <Form.Label>Reason</Form.Label>
+                        <Form.Control
+                            value={movementReason}
+                            onChange={e => setMovementReason(e.target.value)}
+                            placeholder={movementType === 'PAY_IN' ? 'e.g. Extra change from the bank' : 'e.g. Paid delivery driver'}
+                        />
+                    </Form.Group>
+                </Modal.Body>
+                <Modal.Footer>
+                    <Button variant="outline-secondary" onClick={() => setMovementType(null)}><XCircle size={16} className="me-2" />Cancel</Button>
+                    <Button onClick={handleMovement} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                        <CheckCircle size={16} className="me-2" />Record
+                    </Button>
+                </Modal.Footer>
+            </Modal>
+
+            <CloseDrawerModal
+                show={showCloseModal}
+                totals={openTotals}
+                saving={saving}
+                onHide={() => setShowCloseModal(false)}
+                onConfirm={handleCloseDrawer}
+            />
+        </div>
+    );
+};
+
+export default CashStatus;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Row, Col, Alert } from 'react-bootstrap';
+import { Safe, CheckCircle, XCircle } from 'react-bootstrap-icons';
+import { countDenominations, DENOMINATIONS, type CashSessionTotals } from '../../service/cashRegister';
+import { roundMoney } from '../../service/payments';
+
+interface CloseDrawerModalProps {
+    show: boolean;
+    totals: CashSessionTotals | null;
+    saving: boolean;
+    onHide: () => void;
+    onConfirm: (counts: Record<string, number>, notes: string) => void;
+}
+
+const formatDenomination = (d: number): string => d >= 1 ? `$${d}` : `${Math.round(d * 100)}¢`;
+
+const CloseDrawerModal: React.FC<CloseDrawerModalProps> = ({ show, totals, saving, onHide, onConfirm }) => {
+    const [counts, setCounts] = useState<Record<string, number>>({});
+    const [notes, setNotes] = useState('');
+
+    useEffect(() => {
+        if (!show) return;
+        setCounts({});
+        setNotes('');
+    }, [show]);
+
+    const counted = countDenominations(counts);
+    const expected = totals?.expectedCash ?? 0;
+    const variance = roundMoney(counted - expected);
+
+    return (
+        <Modal show={show} onHide={onHide} size="lg" centered>
+            <Modal.Header closeButton>
+                <Modal.Title><Safe size={20} className="me-2" />CLOSE DRAWER</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <p className="small text-muted mb-3">Count the bills and coins in the drawer. The count is compared with the cash expected from the float, cash payments, pay-ins and pay-outs.</p>
+                <Row className="g-2 mb-3">
+                    {DENOMINATIONS.map(d => (
+                        <Col key={d} xs={6} md={4} lg={3}>
+                            <Form.Group controlId={`denomination-${d}`}>
+                                <Form.Label className="small mb-1">{formatDenomination(d)}</Form.Label>
+                                <Form.Control
+                                    type="number"
+                                    min={0}
+                                    size="sm"
+                                    value={counts[String(d)] ?? ''}
+                                    placeholder="0"
+                                    onChange={e => {
+                                        const pieces = Math.max(0, parseInt(e.target.value, 10) || 0);
+                                        setCounts(prev => ({ ...prev, [String(d)]: pieces }));
+                                    }}
+                                />
+                            </Form.Group>
+                        </Col>
+                    ))}
+                </Row>
+                <Form.Group controlId="closeDrawerNotes" className="mb-3">
+                    <Form.Label className="small">Notes</Form.Label>
+                    <Form.Control as="textarea" rows={2} value={notes} onChange={e => setNotes(e.target.value)} placeholder="Explain any difference (optional)" />
+                </Form.Group>
+                <div className="border-top pt-3">
+                    <div className="d-flex justify-content-between"><span>Expected in drawer</span><span>${expected.toFixed(2)}</span></div>
+                    <div className="d-flex justify-content-between"><span>Counted</span><span>${counted.toFixed(2)}</span></div>
+                    <div className={`d-flex justify-content-between fw-bold fs-5 ${variance === 0 ? 'text-success' : 'text-danger'}`}>
+                        <span>Variance</span><span>{variance > 0 ? '+' : ''}{variance.toFixed(2)}</span>
+                    </div>
+                </div>
+                {variance !== 0 && (
+                    <Alert variant="warning" className="py-2 small mt-3 mb-0">
+                        The drawer is {variance > 0 ? 'over' : 'short'} by ${Math.abs(variance).toFixed(2)}.
+                    </Alert>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="outline-secondary" onClick={onHide}><XCircle size={16} className="me-2" />Cancel</Button>
+                <Button onClick={() => onConfirm(counts, notes)} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                    <CheckCircle size={16} className="me-2" />Close Drawer
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default CloseDrawerModal;
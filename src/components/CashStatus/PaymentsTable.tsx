@@ -0,0 +1,56 @@
+import React from 'react';
+import { Table, Badge } from 'react-bootstrap';
+import type { OrderPayment } from '../../service/payments';
+
+interface PaymentsTableProps {
+    payments: OrderPayment[];
+}
+
+const PaymentsTable: React.FC<PaymentsTableProps> = ({ payments }) => {
+    if (payments.length === 0) {
+        return <div className="text-center text-muted py-4">No payments recorded for this day</div>;
+    }
+
+    return (
+        <Table striped bordered hover responsive className="mt-2">
+            <thead>
+            <tr>
+                <th>Time</th>
+                <th>Order</th>
+                <th>Table</th>
+                <th>Split</th>
+                <th>Tender</th>
+                <th>Amount</th>
+                <th>Tip</th>
+                <th>Change</th>
+                <th>By</th>
+            </tr>
+            </thead>
+            <tbody>
+            {payments.map(p => (
+                <tr key={p.id}>
+                    <td><small className="text-muted">{new Date(p.paidAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })}</small></td>
+                    <td><strong className="text-black">{p.orderCode}</strong></td>
+                    <td>
+                        <Badge bg="light" text="dark">{p.tableNumber > 0 ? `Table ${p.tableNumber}` : 'Takeout'}</Badge>
+                    </td>
+                    <td>{p.label}</td>
+                    <td>
+                        {p.tenders.map(t => (
+                            <Badge key={t.method} bg={t.method === 'CASH' ? 'success' : 'info'} className="me-1">
+                                {t.method === 'CASH' ? 'Cash' : 'Card'} ${t.amount.toFixed(2)}
+                            </Badge>
+                        ))}
+                    </td>
+                    <td>${p.subtotal.toFixed(2)}</td>
+                    <td>${p.tip.toFixed(2)}</td>
+                    <td>{p.changeDue > 0 ? `$${p.changeDue.toFixed(2)}` : '-'}</td>
+                    <td><small>{p.paidBy}</small></td>
+                </tr>
+            ))}
+            </tbody>
+        </Table>
+    );
+};
+
+export default PaymentsTable;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Row, Col } from 'react-bootstrap';
+import { Wallet2, CheckCircle, XCircle, Paperclip, Trash } from 'react-bootstrap-icons';
+import { saveManualExpense } from '../../service/api';
+import {
+    EXPENSE_CATEGORY_LABELS,
+    EXPENSE_RECURRENCE_LABELS,
+    MAX_ATTACHMENT_BYTES,
+    type ExpenseAttachment,
+    type ExpenseCategory,
+    type ExpenseRecurrence,
+    type ManualExpense
+} from '../../service/expenses';
+
+interface ExpenseFormModalProps {
+    show: boolean;
+    expense: ManualExpense | null; // null to create
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+interface ExpenseForm {
+    date: string;
+    category: ExpenseCategory;
+    description: string;
+    amount: string;
+    recurrence: ExpenseRecurrence;
+    recurrenceEnd: string;
+    attachments: ExpenseAttachment[];
+}
+
+// Labor and supplies come from shifts and purchase orders; manual entries use the rest
+const MANUAL_CATEGORIES: ExpenseCategory[] = ['RENT', 'UTILITIES', 'MAINTENANCE', 'MARKETING', 'SUPPLIES', 'OTHER'];
+
+const today = (): string => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+});
+
+const ExpenseFormModal: React.FC<ExpenseFormModalProps> = ({ show, expense, onHide, onToast }) => {
+    const [form, setForm] = useState<ExpenseForm>({
+        date: today(), category: 'RENT', description: '', amount: '', recurrence: 'NONE', recurrenceEnd: '', attachments: []
+    });
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!show) return;
+        setForm(expense ? {
+            date: expense.date,
+            category: expense.category,
+            description: expense.description,
+            amount: String(expense.amount),
+            recurrence: expense.recurrence,
+            recurrenceEnd: expense.recurrenceEnd || '',
+            attachments: expense.attachments
+        } : { date: today(), category: 'RENT', description: '', amount: '', recurrence: 'NONE', recurrenceEnd: '', attachments: [] });
+    }, [show, expense]);
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files) return;
+        const added: ExpenseAttachment[] = [];
+        for (const file of Array.from(files)) {
+            if (file.size > MAX_ATTACHMENT_BYTES) {
+                onToast(`${file.name} is larger than ${Math.round(MAX_ATTACHMENT_BYTES / 1024)} KB`, 'warning');
+                continue;
+            }
+            try {
+                added.push({ name: file.name, type: file.type, size: file.size, dataUrl: await readAsDataUrl(file) });
+            } catch (err) {
+                onToast(err instanceof Error ? err.message : `Could not read ${file.name}`, 'warning');
+            }
+        }
+        setForm(f => ({ ...f, attachments: [...f.attachments, ...added] }));
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await saveManualExpense({
+                id: expense?.id,
+                date: form.date,
+                category: form.category,
+                description: form.description,
+                amount: parseFloat(form.amount.replace(/,/g, '.')),
+                recurrence: form.recurrence,
+                recurrenceEnd: form.recurrenceEnd || null,
+                attachments: form.attachments
+            });
+            onToast(expense ? 'Expense updated' : 'Expense added', 'success');
+            onHide();
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not save the expense', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onHide} size="lg" centered>
+            <Modal.Header closeButton>
+                <Modal.Title><Wallet2 size={20} className="me-2" />{expense ? 'EDIT EXPENSE' : 'ADD EXPENSE'}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <Form>
+                    <Row className="g-3">
+                        <Col md={8}>
+                            <Form.Group controlId="expenseDescription">
+                                <Form.Label>Description *</Form.Label>
+                                <Form.Control value={form.description} onChange={e => setForm(f => ({ ...f, description: e.target.value }))} placeholder="e.g. Monthly rent" />
+                            </Form.Group>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Group controlId="expenseAmount">
+                                <Form.Label>Amount *</Form.Label>
+                                <Form.Control type="number" min={0} step="0.01" value={form.amount} onChange={e => setForm(f => ({ ...f, amount: e.target.value }))} placeholder="0.00" />
+                            </Form.Group>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Group controlId="expenseDate">
+                                <Form.Label>{form.recurrence === 'NONE' ? 'Date *' : 'First date *'}</Form.Label>
+                                <Form.Control type="date" value={form.date} onChange={e => setForm(f => ({ ...f, date: e.target.value }))} />
+                            </Form.Group>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Group controlId="expenseCategory">
+                                <Form.Label>Category</Form.Label>
+                                <Form.Select value={form.category} onChange={e => setForm(f => ({ ...f, category: e.target.value as ExpenseCategory }))}>
+                                    {MANUAL_CATEGORIES.map(c => <option key={c} value={c}>{EXPENSE_CATEGORY_LABELS[c]}</option>)}
+                                </Form.Select>
+                            </Form.Group>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Group controlId="expenseRecurrence">
+                                <Form.Label>Repeats</Form.Label>
+                                <Form.Select value={form.recurrence} onChange={e => setForm(f => ({ ...f, recurrence: e.target.value as ExpenseRecurrence }))}>
+                                    {(Object.keys(EXPENSE_RECURRENCE_LABELS) as ExpenseRecurrence[]).map(r => <option key={r} value={r}>{EXPENSE_RECURRENCE_LABELS[r]}</option>)}
+                                </Form.Select>
+                            </Form.Group>
+                        </Col>
+                        {form.recurrence !== 'NONE' && (
+                            <Col md={{ span: 4, offset: 8 }}>
+                                <Form.Group controlId="expenseRecurrenceEnd">
+                                    <Form.Label>Ends (optional)</Form.Label>
+                                    <Form.Control type="date" value={form.recurrenceEnd} min={form.date} onChange={e => setForm(f => ({ ...f, recurrenceEnd: e.target.value }))} />
+                                </Form.Group>
+                            </Col>
+                        )}
+                        <Col xs={12}>
+                            <Form.Group controlId="expenseAttachments">
+                                <Form.Label className="d-flex align-items-center"><Paperclip size={14} className="me-1" />Attachments</Form.Label>
+                                <Form.Control type="file" multiple accept="image/*,application/pdf" onChange={e => { handleFiles((e.target as HTMLInputElement).files); (e.target as HTMLInputElement).value = ''; }} />
+                                <Form.Text muted>Receipts or invoices up to {Math.round(MAX_ATTACHMENT_BYTES / 1024)} KB each.</Form.Text>
+                            </Form.Group>
+                            {form.attachments.map((a, i) => (
+                                <div key={`${a.name}-${i}`} className="d-flex justify-content-between align-items-center small border-bottom py-1">
+                                    <a href={a.dataUrl} download={a.name}>{a.name}</a>
+                                    <span className="d-flex align-items-center gap-2">
+                                        <span className="text-muted">{Math.ceil(a.size / 1024)} KB</span>
+                                        <Button variant="link" size="sm" className="p-0 text-danger" onClick={() => setForm(f => ({ ...f, attachments: f.attachments.filter((_, idx) => idx !== i) }))}>
+                                            <Trash size={14} />
+                                        </Button>
+                                    </span>
+                                </div>
+                            ))}
+                        </Col>
+                    </Row>
+                </Form>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="outline-secondary" onClick={onHide}><XCircle size={16} className="me-2" />Cancel</Button>
+                <Button onClick={handleSave} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                    <CheckCircle size={16} className="me-2" />Save Expense
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default ExpenseFormModal;
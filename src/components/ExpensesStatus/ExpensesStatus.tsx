@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Container, Row, Col, Form, Button, Alert, Spinner, Table, Modal, InputGroup } from 'react-bootstrap';
+import { Clock, PlusCircle, Search, ArrowClockwise, Trash } from 'react-bootstrap-icons';
+import ExpensesTable from './ExpensesTable';
+import ExpenseFormModal from './ExpenseFormModal';
+import { deleteManualExpense, getManualExpenses, getPurchaseOrders, getShifts, type PurchaseOrder } from '../../service/api';
+import { SHIFTS_UPDATED_EVENT, type ShiftRecord } from '../../service/labor';
+import {
+    expandManualExpenses,
+    laborExpenses,
+    purchaseOrderExpenses,
+    summarizeExpensesByMonth,
+    EXPENSE_CATEGORY_LABELS,
+    EXPENSES_UPDATED_EVENT,
+    type ExpenseCategory,
+    type ExpenseSource,
+    type ManualExpense
+} from '../../service/expenses';
+
+interface ExpensesStatusProps {
+    onToast: (msg: string, type?: string) => void;
+}
+
+const toIsoDate = (d: Date): string => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const monthLabel = (month: string): string => {
+    const [y, m] = month.split('-').map(Number);
+    return new Date(y, m - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+const CATEGORIES = Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[];
+
+const ExpensesStatus: React.FC<ExpensesStatusProps> = ({ onToast }) => {
+    const [currentTime, setCurrentTime] = useState<Date>(new Date());
+    const [from, setFrom] = useState<string>(() => {
+        const d = new Date();
+        return toIsoDate(new Date(d.getFullYear(), d.getMonth() - 2, 1));
+    });
+    const [to, setTo] = useState<string>(() => toIsoDate(new Date()));
+    const [categoryFilter, setCategoryFilter] = useState<ExpenseCategory | 'ALL'>('ALL');
+    const [sourceFilter, setSourceFilter] = useState<ExpenseSource | 'ALL'>('ALL');
+    const [searchTerm, setSearchTerm] = useState('');
+
+    const [manualExpenses, setManualExpenses] = useState<ManualExpense[]>([]);
+    const [expensesError, setExpensesError] = useState<string | null>(null);
+    const [shifts, setShifts] = useState<ShiftRecord[]>([]);
+    const [shiftsError, setShiftsError] = useState<string | null>(null);
+    const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+    const [loadingOrders, setLoadingOrders] = useState(true);
+    const [ordersError, setOrdersError] = useState<string | null>(null);
+
+    const [showForm, setShowForm] = useState(false);
+    const [expenseToEdit, setExpenseToEdit] = useState<ManualExpense | null>(null);
+    const [expenseToDelete, setExpenseToDelete] = useState<ManualExpense | null>(null);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setCurrentTime(new Date()), 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    const loadShifts = useCallback(async () => {
+        setShiftsError(null);
+        try {
+            setShifts(await getShifts());
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setShiftsError(`The shift log could not be loaded (${msg}). Labor totals are missing.`);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadShifts();
+        window.addEventListener(SHIFTS_UPDATED_EVENT, loadShifts);
+        return () => window.removeEventListener(SHIFTS_UPDATED_EVENT, loadShifts);
+    }, [loadShifts]);
+
+    const loadManualExpenses = useCallback(async () => {
+        setExpensesError(null);
+        try {
+            setManualExpenses(await getManualExpenses());
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setExpensesError(`Expenses could not be loaded (${msg}). Manual expenses are missing from the totals.`);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadManualExpenses();
+        window.addEventListener(EXPENSES_UPDATED_EVENT, loadManualExpenses);
+        return () => window.removeEventListener(EXPENSES_UPDATED_EVENT, loadManualExpenses);
+    }, [loadManualExpenses]);
+
+    const loadPurchaseOrders = useCallback(async () => {
+        setLoadingOrders(true);
+        setOrdersError(null);
+        try {
+            setPurchaseOrders(await getPurchaseOrders());
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setOrdersError(`Purchase orders could not be loaded (${msg}). Supplies totals are incomplete.`);
+        } finally {
+            setLoadingOrders(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadPurchaseOrders();
+    }, [loadPurchaseOrders]);
+
+    const entries = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        return [
+            ...expandManualExpenses(manualExpenses, from, to),
+            ...purchaseOrderExpenses(purchaseOrders, from, to),
+            ...laborExpenses(shifts, from, to)
+        ]
+            .filter(e => categoryFilter === 'ALL' || e.category === categoryFilter)
+            .filter(e => sourceFilter === 'ALL' || e.source === sourceFilter)
+            .filter(e => !term || e.description.toLowerCase().includes(term))
+            .sort((a, b) => b.date.localeCompare(a.date) || a.description.localeCompare(b.description));
+    }, [manualExpenses, purchaseOrders, shifts, from, to, categoryFilter, sourceFilter, searchTerm]);
+
+    const monthly = useMemo(() => summarizeExpensesByMonth(entries), [entries]);
+    const total = entries.reduce((sum, e) => sum + e.amount, 0);
+    const usedCategories = CATEGORIES.filter(c => monthly.some(m => m.byCategory[c]));
+
+    const handleRangeChange = (nextFrom: string, nextTo: string) => {
+        if (!nextFrom || !nextTo) return;
+        if (nextFrom > nextTo) {
+            onToast('The start date must be before the end date', 'warning');
+            return;
+        }
+        setFrom(nextFrom);
+        setTo(nextTo);
+    };
+
+    const confirmDelete = async () => {
+        if (!expenseToDelete) return;
+        try {
+            await deleteManualExpense(expenseToDelete.id);
+            onToast(`Expense "${expenseToDelete.description}" deleted`, 'success');
+            setExpenseToDelete(null);
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not delete the expense', 'warning');
+        }
+    };
+
+    return (
+        <div className="d-flex flex-column" style={{ backgroundColor: 'white' }}>
+            <Container fluid className="py-4">
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    <div className="d-flex justify-content-between align-items-center mb-4 flex-wrap gap-2">
+                        <div>
+                            <h2 className="mb-1 rounded-heading">EXPENSES</h2>
+                            <small className="text-muted"><Clock size={14} className="me-1" />{currentTime.toLocaleTimeString()}</small>
+                        </div>
+                        <div className="d-flex gap-2 align-items-center">
+                            <Button variant="outline-secondary" size="sm" onClick={() => { loadPurchaseOrders(); loadManualExpenses(); loadShifts(); }} disabled={loadingOrders}>
+                                {loadingOrders ? <Spinner as="span" animation="border" size="sm" /> : <ArrowClockwise size={16} />}
+                            </Button>
+                            <Button
+                                variant="primary"
+                                onClick={() => { setExpenseToEdit(null); setShowForm(true); }}
+                                className="d-flex align-items-center"
+                                style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                            >
+                                <PlusCircle size={18} className="me-2" />Add Expense
+                            </Button>
+                        </div>
+                    </div>
+
+                    {ordersError && <Alert variant="warning" className="py-2 small">{ordersError}</Alert>}
+                    {expensesError && <Alert variant="warning" className="py-2 small">{expensesError}</Alert>}
+                    {shiftsError && <Alert variant="warning" className="py-2 small">{shiftsError}</Alert>}
+
+                    <Row className="g-2 mb-3 align-items-end">
+                        <Col md={2}>
+                            <Form.Label className="small mb-1">From</Form.Label>
+                            <Form.Control type="date" size="sm" value={from} onChange={e => handleRangeChange(e.target.value, to)} />
+                        </Col>
+                        <Col md={2}>
+                            <Form.Label className="small mb-1">To</Form.Label>
+                            <Form.Control type="date" size="sm" value={to} onChange={e => handleRangeChange(from, e.target.value)} />
+                        </Col>
+                        <Col md={2}>
+                            <Form.Label className="small mb-1">Category</Form.Label>
+                            <Form.Select size="sm" value={categoryFilter} onChange={e => setCategoryFilter(e.target.value as ExpenseCategory | 'ALL')}>
+                                <option value="ALL">All categories</option>
+                                {CATEGORIES.map(c => <option key={c} value={c}>{EXPENSE_CATEGORY_LABELS[c]}</option>)}
+                            </Form.Select>
+                        </Col>
+                        <Col md={2}>
+                            <Form.Label className="small mb-1">Source</Form.Label>
+                            <Form.Select size="sm" value={sourceFilter} onChange={e => setSourceFilter(e.target.value as ExpenseSource | 'ALL')}>
+                                <option value="ALL">All sources</option>
+                                <option value="MANUAL">Manual</option>
+                                <option value="PURCHASE_ORDER">Purchase orders</option>
+                                <option value="LABOR">Labor</option>
+                            </Form.Select>
+                        </Col>
+                        <Col md={4}>
+                            <InputGroup size="sm">
+                                <InputGroup.Text><Search size={14} /></InputGroup.Text>
+                                <Form.Control placeholder="Search expenses..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} />
+                            </InputGroup>
+                        </Col>
+                    </Row>
+
+                    <h6 className="mb-2 text-muted">
+                        Total: <span className="text-dark fw-bold">${total.toFixed(2)}</span> · {entries.length} entries
+                    </h6>
+
+                    {monthly.length > 0 && (
+                        <Table size="sm" bordered responsive className="mb-4">
+                            <thead>
+                            <tr>
+                                <th>Month</th>
+                                {usedCategories.map(c => <th key={c}>{EXPENSE_CATEGORY_LABELS[c]}</th>)}
+                                <th>Total</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {monthly.map(m => (
+                                <tr key={m.month}>
+                                    <td>{monthLabel(m.month)}</td>
+                                    {usedCategories.map(c => <td key={c}>{m.byCategory[c] ? `$${m.byCategory[c]?.toFixed(2)}` : '-'}</td>)}
+                                    <td className="fw-bold">${m.total.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </Table>
+                    )}
+
+                    <ExpensesTable
+                        entries={entries}
+                        manualExpenses={manualExpenses}
+                        onEdit={exp => { setExpenseToEdit(exp); setShowForm(true); }}
+                        onDelete={setExpenseToDelete}
+                    />
+                </div>
+            </Container>
+
+            <ExpenseFormModal
+                show={showForm}
+                expense={expenseToEdit}
+                onHide={() => setShowForm(false)}
+                onToast={onToast}
+            />
+
+            <Modal show={!!expenseToDelete} onHide={() => setExpenseToDelete(null)} centered>
+                <Modal.Header closeButton>
+                    <Modal.Title><Trash size={20} className="me-2 text-danger" />DELETE EXPENSE</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    Delete <strong>{expenseToDelete?.description}</strong>
+                    {expenseToDelete && expenseToDelete.recurrence !== 'NONE' ? ' and all of its occurrences' : ''}?
+                </Modal.Body>
+                <Modal.Footer>
+                    <Button variant="secondary" onClick={() => setExpenseToDelete(null)}>Cancel</Button>
+                    <Button variant="danger" onClick={confirmDelete}><Trash size={16} className="me-1" />Delete</Button>
+                </Modal.Footer>
+            </Modal>
+        </div>
+    );
+};
+
+export default ExpensesStatus;
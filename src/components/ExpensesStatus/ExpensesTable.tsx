@@ -0,0 +1,98 @@
+import React from 'react';
+import { Table, Badge, Dropdown } from 'react-bootstrap';
+import { ThreeDots, PencilSquare, Trash, Paperclip, ArrowRepeat } from 'react-bootstrap-icons';
+import {
+    EXPENSE_CATEGORY_LABELS,
+    EXPENSE_RECURRENCE_LABELS,
+    type ExpenseEntry,
+    type ExpenseSource,
+    type ManualExpense
+} from '../../service/expenses';
+
+interface ExpensesTableProps {
+    entries: ExpenseEntry[];
+    manualExpenses: ManualExpense[];
+    onEdit: (expense: ManualExpense) => void;
+    onDelete: (expense: ManualExpense) => void;
+}
+
+const SOURCE_LABELS: Record<ExpenseSource, string> = {
+    MANUAL: 'Manual',
+    PURCHASE_ORDER: 'Purchase Order',
+    LABOR: 'Labor'
+};
+
+const SOURCE_STYLES: Record<ExpenseSource, React.CSSProperties> = {
+    MANUAL: { backgroundColor: '#e9ecef', color: '#000' },
+    PURCHASE_ORDER: { backgroundColor: '#86e5ff', color: '#000' },
+    LABOR: { backgroundColor: '#FFE4B5', color: '#000' }
+};
+
+const formatDate = (day: string): string => {
+    const [y, m, d] = day.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString();
+};
+
+const ExpensesTable: React.FC<ExpensesTableProps> = ({ entries, manualExpenses, onEdit, onDelete }) => {
+    if (entries.length === 0) {
+        return <div className="text-center text-muted py-4">No expenses match the filters</div>;
+    }
+
+    return (
+        <Table striped bordered hover responsive className="mt-2">
+            <thead>
+            <tr>
+                <th>Date</th>
+                <th>Category</th>
+                <th>Description</th>
+                <th>Source</th>
+                <th>Amount</th>
+                <th style={{ width: '60px' }}>Actions</th>
+            </tr>
+            </thead>
+            <tbody>
+            {entries.map(e => {
+                const manual = e.manualId ? manualExpenses.find(m => m.id === e.manualId) : undefined;
+                return (
+                    <tr key={e.id}>
+                        <td><small>{formatDate(e.date)}</small></td>
+                        <td><Badge bg="light" text="dark" className="border">{EXPENSE_CATEGORY_LABELS[e.category]}</Badge></td>
+                        <td>
+                            {e.description}
+                            {manual && manual.recurrence !== 'NONE' && (
+                                <small className="text-muted ms-2" title={EXPENSE_RECURRENCE_LABELS[manual.recurrence]}><ArrowRepeat size={12} /> {EXPENSE_RECURRENCE_LABELS[manual.recurrence]}</small>
+                            )}
+                            {manual && manual.attachments.length > 0 && (
+                                <span className="ms-2">
+                                    {manual.attachments.map((a, i) => (
+                                        <a key={`${a.name}-${i}`} href={a.dataUrl} download={a.name} className="me-1 small" title={a.name}><Paperclip size={12} />{a.name}</a>
+                                    ))}
+                                </span>
+                            )}
+                        </td>
+                        <td><span className="badge" style={SOURCE_STYLES[e.source]}>{SOURCE_LABELS[e.source]}</span></td>
+                        <td>${e.amount.toFixed(2)}</td>
+                        <td>
+                            {manual ? (
+                                <Dropdown>
+                                    <Dropdown.Toggle variant="outline-secondary" size="sm"><ThreeDots size={16} /></Dropdown.Toggle>
+                                    <Dropdown.Menu>
+                                        <Dropdown.Item onClick={() => onEdit(manual)}>
+                                            <PencilSquare size={16} className="me-2" /> Edit{manual.recurrence !== 'NONE' ? ' Series' : ''}
+                                        </Dropdown.Item>
+                                        <Dropdown.Item onClick={() => onDelete(manual)} className="text-danger">
+                                            <Trash size={16} className="me-2" /> Delete{manual.recurrence !== 'NONE' ? ' Series' : ''}
+                                        </Dropdown.Item>
+                                    </Dropdown.Menu>
+                                </Dropdown>
+                            ) : <small className="text-muted">Auto</small>}
+                        </td>
+                    </tr>
+                );
+            })}
+            </tbody>
+        </Table>
+    );
+};
+
+export default ExpensesTable;
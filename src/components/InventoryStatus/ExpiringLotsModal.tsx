@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Modal, Button, Form, Table, Badge, Row, Col, Alert } from 'react-bootstrap';
+import { CalendarX, XCircle, Trash } from 'react-bootstrap-icons';
+import {
+    getDaysUntilExpiry,
+    getExpiryStatus,
+    getExpiryWarningDays,
+    getOpenLots,
+    LOTS_UPDATED_EVENT,
+    type StockLot
+} from '../../service/lots';
+import { getLots, recordStockMovement, setLotExpiry } from '../../service/api';
+import { STOCK_LEDGER_EVENT } from '../../service/stockLedger';
+import { formatQuantity, getAllItemUnits, getItemUnits, ITEM_UNITS_EVENT, type ItemUnits } from '../../service/units';
+
+interface ExpiringLotsModalProps {
+    show: boolean;
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+const formatDate = (iso: string): string => new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const describeExpiry = (lot: StockLot, warningDays: number): { label: string; bg: string; text?: string } => {
+    const status = getExpiryStatus(lot, warningDays);
+    if (status === 'NO_EXPIRY' || !lot.expiryDate) return { label: 'No expiry', bg: 'light', text: 'dark' };
+    const days = getDaysUntilExpiry(lot.expiryDate);
+    if (status === 'EXPIRED') return { label: `Expired ${-days}d ago`, bg: 'danger' };
+    if (status === 'EXPIRING') return { label: days === 0 ? 'Expires today' : `Expires in ${days}d`, bg: 'warning', text: 'dark' };
+    return { label: `${days} days left`, bg: 'success' };
+};
+
+const ExpiringLotsModal: React.FC<ExpiringLotsModalProps> = ({ show, onHide, onToast }) => {
+    const [lots, setLots] = useState<StockLot[]>([]);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [warningDays, setWarningDays] = useState<number>(() => getExpiryWarningDays());
+    const [showAll, setShowAll] = useState(false);
+    const [units, setUnits] = useState<ItemUnits[]>(() => getAllItemUnits());
+
+    const reload = useCallback(() => {
+        getLots()
+            .then(list => {
+                setLots(list);
+                setLoadError(null);
+            })
+            .catch(err => setLoadError(err instanceof Error ? err.message : 'Could not load lots'));
+    }, []);
+
+    useEffect(() => {
+        if (!show) return;
+        reload();
+        setUnits(getAllItemUnits());
+        setWarningDays(getExpiryWarningDays());
+        setShowAll(false);
+    }, [show, reload]);
+
+    // Write-offs and expiry changes are applied by the backend; reload what is left in each lot
+    useEffect(() => {
+        const reloadUnits = () => setUnits(getAllItemUnits());
+        window.addEventListener(LOTS_UPDATED_EVENT, reload);
+        window.addEventListener(STOCK_LEDGER_EVENT, reload);
+        window.addEventListener(ITEM_UNITS_EVENT, reloadUnits);
+        return () => {
+            window.removeEventListener(LOTS_UPDATED_EVENT, reload);
+            window.removeEventListener(STOCK_LEDGER_EVENT, reload);
+            window.removeEventListener(ITEM_UNITS_EVENT, reloadUnits);
+        };
+    }, [reload]);
+
+    const unitOf = (lot: StockLot) => getItemUnits(lot.itemId, units).baseUnit;
+
+    const visible = useMemo(() => getOpenLots(lots).filter(l => {
+        if (showAll) return true;
+        const status = getExpiryStatus(l, warningDays);
+        return status === 'EXPIRED' || status === 'EXPIRING';
+    }), [lots, warningDays, showAll]);
+
+    const updateExpiry = async (lot: StockLot, value: string) => {
+        try {
+            await setLotExpiry(lot.id, value || null);
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not update the expiry date', 'warning');
+        }
+    };
+
+    const writeOff = async (lot: StockLot) => {
+        try {
+            await recordStockMovement({
+                type: 'SPOILAGE',
+                itemId: lot.itemId,
+                itemName: lot.itemName,
+                quantity: -lot.quantityRemaining,
+                reason: lot.expiryDate ? `Lot ${lot.lotCode} expired ${lot.expiryDate}` : `Lot ${lot.lotCode} written off`,
+                lotId: lot.id
+            });
+            onToast(`Lot ${lot.lotCode} of "${lot.itemName}" written off (${formatQuantity(lot.quantityRemaining, unitOf(lot))})`, 'success');
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not write off the lot', 'danger');
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onHide} size="lg" centered scrollable>
+            <Modal.Header closeButton>
+                <Modal.Title><CalendarX size={20} className="me-2" />EXPIRING LOTS</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {loadError && <Alert variant="warning" className="py-2 small">Lots could not be loaded ({loadError}).</Alert>}
+                <Row className="g-2 align-items-end mb-3">
+                    <Col xs={5}>
+                        <Form.Label className="small mb-1">Expiring within (days)</Form.Label>
+                        <Form.Control
+                            size="sm"
+                            type="number"
+                            min={0}
+                            value={warningDays}
+                            disabled={showAll}
+                            onChange={e => setWarningDays(Math.max(0, Number(e.target.value) || 0))}
+                        />
+                    </Col>
+                    <Col xs={7} className="d-flex justify-content-end">
+                        <Form.Check type="switch" id="lotsShowAll" label="Show all open lots" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+                    </Col>
+                </Row>
+                <Table size="sm" bordered hover responsive className="mb-0">
+                    <thead>
+                    <tr>
+                        <th>Item</th>
+                        <th style={{ width: '110px' }}>Lot</th>
+                        <th style={{ width: '110px' }}>Received</th>
+                        <th style={{ width: '150px' }}>Expiry</th>
+                        <th style={{ width: '130px' }}>Status</th>
+                        <th style={{ width: '90px' }}>Remaining</th>
+                        <th style={{ width: '60px' }}></th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {visible.length === 0 ? (
+                        <tr><td colSpan={7} className="text-center text-muted">{showAll ? 'No open lots.' : 'Nothing expires in this window.'}</td></tr>
+                    ) : visible.map(l => {
+                        const expiry = describeExpiry(l, warningDays);
+                        return (
+                            <tr key={l.id}>
+                                <td>{l.itemName}</td>
+                                <td><small>{l.lotCode}</small></td>
+                                <td><small>{formatDate(l.receivedAt)}</small></td>
+                                <td>
+                                    <Form.Control size="sm" type="date" value={l.expiryDate ?? ''} onChange={e => updateExpiry(l, e.target.value)} />
+                                </td>
+                                <td><Badge bg={expiry.bg} text={expiry.text}>{expiry.label}</Badge></td>
+                                <td>{l.quantityRemaining} / {formatQuantity(l.quantityReceived, unitOf(l))}</td>
+                                <td className="text-center">
+                                    <Button variant="outline-danger" size="sm" title="Write off as spoilage" onClick={() => writeOff(l)}>
+                                        <Trash size={14} />
+                                    </Button>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </Table>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Close
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default ExpiringLotsModal;
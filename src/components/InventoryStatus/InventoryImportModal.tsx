@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button, Form, Table, Badge, ProgressBar, Alert } from 'react-bootstrap';
+import { FileEarmarkArrowUp, ArrowLeft, ArrowRight, CheckCircle, XCircle, Download, Upload } from 'react-bootstrap-icons';
+import { getSuppliers, type InventoryProduct } from '../../service/api';
+import { downloadCsv } from '../../service/exportFile';
+import {
+    guessColumnMapping,
+    importInventoryRows,
+    parseCsv,
+    validateImportRows,
+    IMPORT_FIELDS,
+    IMPORT_TEMPLATE_HEADERS,
+    type ColumnMapping,
+    type ImportResult,
+    type ParsedCsv
+} from '../../service/inventoryImport';
+
+interface InventoryImportModalProps {
+    show: boolean;
+    existingItems: InventoryProduct[];
+    knownSuppliers: string[]; // suppliers already present in the inventory
+    onHide: () => void;
+    onImported: (products: InventoryProduct[]) => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'import';
+
+const STEP_LABELS: Record<ImportStep, string> = {
+    upload: '1. Upload',
+    map: '2. Map columns',
+    preview: '3. Preview',
+    import: '4. Import'
+};
+
+const RESULT_BADGES: Record<ImportResult['status'], string> = {
+    IMPORTED: 'success',
+    FAILED: 'danger',
+    SKIPPED: 'secondary'
+};
+
+const EMPTY_MAPPING: ColumnMapping = { name: null, category: null, stockQuantity: null, price: null, supplier: null };
+
+const InventoryImportModal: React.FC<InventoryImportModalProps> = ({ show, existingItems, knownSuppliers, onHide, onImported, onToast }) => {
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [fileName, setFileName] = useState('');
+    const [csv, setCsv] = useState<ParsedCsv | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+    const [directorySuppliers, setDirectorySuppliers] = useState<string[]>([]);
+    const [problemsOnly, setProblemsOnly] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [results, setResults] = useState<ImportResult[]>([]);
+
+    useEffect(() => {
+        if (!show) return;
+        setStep('upload');
+        setFileName('');
+        setCsv(null);
+        setMapping(EMPTY_MAPPING);
+        setProblemsOnly(false);
+        setResults([]);
+        // Suppliers without inventory yet are valid too; the inventory list alone is the fallback
+        getSuppliers()
+            .then(list => setDirectorySuppliers(list.map(s => s.name)))
+            .catch(err => console.warn('Supplier list unavailable for import validation', err));
+    }, [show]);
+
+    const suppliers = useMemo(() => Array.from(new Set([...knownSuppliers, ...directorySuppliers])), [knownSuppliers, directorySuppliers]);
+
+    const rows = useMemo(
+        () => csv ? validateImportRows(csv, mapping, existingItems, suppliers) : [],
+        [csv, mapping, existingItems, suppliers]
+    );
+    const errorCount = rows.filter(r => r.errors.length > 0).length;
+    const warningCount = rows.filter(r => r.errors.length === 0 && r.warnings.length > 0).length;
+    const importable = rows.length - errorCount;
+    const visibleRows = problemsOnly ? rows.filter(r => r.errors.length > 0 || r.warnings.length > 0) : rows;
+    const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const parsed = parseCsv(await file.text());
+            if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+                onToast('The file has no data rows', 'warning');
+                return;
+            }
+            setFileName(file.name);
+            setCsv(parsed);
+            setMapping(guessColumnMapping(parsed.headers));
+            setStep('map');
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : `Could not read ${file.name}`, 'danger');
+        }
+    };
+
+    const handleImport = async () => {
+        setStep('import');
+        setImporting(true);
+        try {
+            const final = await importInventoryRows(rows, setResults);
+            setResults(final);
+            const imported = final.filter(r => r.status === 'IMPORTED' && r.product).map(r => r.product as InventoryProduct);
+            onImported(imported);
+            const failed = final.filter(r => r.status === 'FAILED').length;
+            onToast(
+                `Imported ${imported.length} of ${rows.length} rows${failed ? `, ${failed} failed` : ''}`,
+                failed ? 'warning' : 'success'
+            );
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const downloadTemplate = () => {
+        downloadCsv(IMPORT_TEMPLATE_HEADERS, [['Tomatoes', 'Produce', 24, 1.25, suppliers[0] || 'Supplier name']], 'inventory-import-template.csv');
+    };
+
+    const downloadReport = () => {
+        downloadCsv(
+            ['Line', 'Name', 'Result', 'Message'],
+            results.map(r => [r.line, r.name, r.status, r.message]),
+            `${fileName.replace(/\.[^.]+$/, '') || 'inventory'}-import-report.csv`
+        );
+    };
+
+    const sampleValue = (index: number | null): string => (index === null || !csv ? '' : csv.rows[0]?.[index] ?? '');
+
+    return (
+        <Modal show={show} onHide={() => { if (!importing) onHide(); }} size="xl" centered backdrop={importing ? 'static' : true}>
+            <Modal.Header closeButton={!importing}>
+                <Modal.Title><FileEarmarkArrowUp size={20} className="me-2" />IMPORT INVENTORY</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <div className="d-flex gap-2 mb-3 small">
+                    {(Object.keys(STEP_LABELS) as ImportStep[]).map(s => (
+                        <Badge key={s} bg={s === step ? 'info' : 'light'} text="dark" className="border fw-normal">{STEP_LABELS[s]}</Badge>
+                    ))}
+                </div>
+
+                {step === 'upload' && (
+                    <>
+                        <Form.Group controlId="inventoryImportFile" className="mb-3">
+                            <Form.Label>CSV file</Form.Label>
+                            <Form.Control type="file" accept=".csv,text/csv" onChange={e => handleFile((e.target as HTMLInputElement).files?.[0])} />
+                            <Form.Text muted>
+                                One product per row with a header line. Comma, semicolon and tab separated files are accepted.
+                            </Form.Text>
+                        </Form.Group>
+                        <Button variant="link" size="sm" className="p-0" onClick={downloadTemplate}>
+                            <Download size={14} className="me-1" />Download a template
+                        </Button>
+                    </>
+                )}
+
+                {step === 'map' && csv && (
+                    <>
+                        <p className="text-muted small mb-2">
+                            <strong>{fileName}</strong>: {csv.rows.length} rows. Choose the column that holds each product field.
+                        </p>
+                        <Table size="sm" bordered>
+                            <thead>
+                            <tr>
+                                <th style={{ width: '25%' }}>Field</th>
+                                <th style={{ width: '35%' }}>Column</th>
+                                <th>First row</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {IMPORT_FIELDS.map(f => (
+                                <tr key={f.field}>
+                                    <td>{f.label}{f.required && ' *'}</td>
+                                    <td>
+                                        <Form.Select
+                                            size="sm"
+                                            value={mapping[f.field] ?? ''}
+                                            onChange={e => setMapping(m => ({ ...m, [f.field]: e.target.value === '' ? null : Number(e.target.value) }))}
+                                        >
+                                            <option value="">Not mapped</option>
+                                            {csv.headers.map((h, i) => <option key={`${h}-${i}`} value={i}>{h || `Column ${i + 1}`}</option>)}
+                                        </Form.Select>
+                                    </td>
+                                    <td><small className="text-muted">{sampleValue(mapping[f.field])}</small></td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </Table>
+                        {mapping.stockQuantity === null && <Form.Text muted>Without a stock column every product is created with 0 units.</Form.Text>}
+                    </>
+                )}
+
+                {step === 'preview' && (
+                    <>
+                        <div className="d-flex justify-content-between align-items-center mb-2 flex-wrap gap-2">
+                            <div className="d-flex gap-2">
+                                <Badge bg="success">{importable - warningCount} ready</Badge>
+                                <Badge bg="warning" text="dark">{warningCount} with warnings</Badge>
+                                <Badge bg="danger">{errorCount} with errors (skipped)</Badge>
+                            </div>
+                            <Form.Check
+                                type="switch"
+                                id="importProblemsOnly"
+                                label="Only rows with problems"
+                                checked={problemsOnly}
+                                onChange={e => setProblemsOnly(e.target.checked)}
+                            />
+                        </div>
+                        <div style={{ maxHeight: 420, overflowY: 'auto' }}>
+                            <Table size="sm" bordered hover className="mb-0">
+                                <thead className="sticky-top bg-white">
+                                <tr>
+                                    <th>Line</th>
+                                    <th>Name</th>
+                                    <th>Category</th>
+                                    <th>Stock</th>
+                                    <th>Price</th>
+                                    <th>Supplier</th>
+                                    <th>Issues</th>
+                                </tr>
+                                </thead>
+                                <tbody>
+                                {visibleRows.map(r => (
+                                    <tr key={r.line} className={r.errors.length ? 'table-danger' : r.warnings.length ? 'table-warning' : ''}>
+                                        <td>{r.line}</td>
+                                        <td>{r.name}</td>
+                                        <td>{r.category}</td>
+                                        <td>{r.stockQuantity}</td>
+                                        <td>${r.price.toFixed(2)}</td>
+                                        <td>{r.supplier}</td>
+                                        <td><small>{[...r.errors, ...r.warnings].join('; ')}</small></td>
+                                    </tr>
+                                ))}
+                                </tbody>
+                            </Table>
+                        </div>
+                    </>
+                )}
+
+                {step === 'import' && (
+                    <>
+                        <ProgressBar
+                            now={rows.length ? (results.length / rows.length) * 100 : 100}
+                            label={`${results.length}/${rows.length}`}
+                            animated={importing}
+                            className="mb-3"
+                        />
+                        {importing ? (
+                            <div className="text-muted small">Importing in batches, keep this window open...</div>
+                        ) : (
+                            <>
+                                <Alert variant={results.some(r => r.status === 'FAILED') ? 'warning' : 'success'} className="py-2 small">
+                                    {results.filter(r => r.status === 'IMPORTED').length} imported,{' '}
+                                    {results.filter(r => r.status === 'FAILED').length} failed,{' '}
+                                    {results.filter(r => r.status === 'SKIPPED').length} skipped.
+                                </Alert>
+                                <div style={{ maxHeight: 360, overflowY: 'auto' }}>
+                                    <Table size="sm" bordered className="mb-0">
+                                        <thead className="sticky-top bg-white">
+                                        <tr>
+                                            <th>Line</th>
+                                            <th>Name</th>
+                                            <th>Result</th>
+                                            <th>Message</th>
+                                        </tr>
+                                        </thead>
+                                        <tbody>
+                                        {results.map(r => (
+                                            <tr key={r.line}>
+                                                <td>{r.line}</td>
+                                                <td>{r.name}</td>
+                                                <td><Badge bg={RESULT_BADGES[r.status]}>{r.status}</Badge></td>
+                                                <td><small>{r.message}</small></td>
+                                            </tr>
+                                        ))}
+                                        </tbody>
+                                    </Table>
+                                </div>
+                            </>
+                        )}
+                    </>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                {step === 'map' && (
+                    <>
+                        <Button variant="outline-secondary" onClick={() => setStep('upload')}><ArrowLeft size={16} className="me-2" />Back</Button>
+                        <Button
+                            disabled={missingRequired.length > 0}
+                            title={missingRequired.length ? `Map ${missingRequired.map(f => f.label).join(', ')}` : undefined}
+                            onClick={() => setStep('preview')}
+                            style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                        >
+                            Preview<ArrowRight size={16} className="ms-2" />
+                        </Button>
+                    </>
+                )}
+                {step === 'preview' && (
+                    <>
+                        <Button variant="outline-secondary" onClick={() => setStep('map')}><ArrowLeft size={16} className="me-2" />Back</Button>
+                        <Button disabled={importable === 0} onClick={handleImport} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                            <Upload size={16} className="me-2" />Import {importable} row{importable === 1 ? '' : 's'}
+                        </Button>
+                    </>
+                )}
+                {step === 'import' && !importing && (
+                    <>
+                        <Button variant="outline-secondary" onClick={downloadReport}><Download size={16} className="me-2" />Download Report</Button>
+                        <Button onClick={onHide} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                            <CheckCircle size={16} className="me-2" />Done
+                        </Button>
+                    </>
+                )}
+                {step === 'upload' && (
+                    <Button variant="outline-secondary" onClick={onHide}><XCircle size={16} className="me-2" />Cancel</Button>
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default InventoryImportModal;
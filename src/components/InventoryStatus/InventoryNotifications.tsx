@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Alert, Button, Collapse, Form } from 'react-bootstrap';
 import { BellSlash, InfoCircle, CheckCircle, ExclamationTriangle, BoxSeam } from 'react-bootstrap-icons';
-import { getAllInventoryItems } from '../../service/api';
+import { getAllInventoryItems, getLots } from '../../service/api';
+import { STOCK_LEDGER_EVENT } from '../../service/stockLedger';
+import { DEFAULT_EXPIRY_WARNING_DAYS, getDaysUntilExpiry, getExpiryStatus, getOpenLots, LOTS_UPDATED_EVENT } from '../../service/lots';
 import type { InventoryItem } from './InventoryStatus';
 
 export type NotificationType = 'success' | 'warning' | 'danger' | 'info';
@@ -34,7 +36,9 @@ const InventoryNotifications: React.FC = () => {
     const [showSettings, setShowSettings] = useState(false);
     const [lowStockThreshold, setLowStockThreshold] = useState<number>(DEFAULT_LOW_STOCK_THRESHOLD);
     const [criticalStockThreshold, setCriticalStockThreshold] = useState<number>(DEFAULT_CRITICAL_STOCK_THRESHOLD);
+    const [expiryWarningDays, setExpiryWarningDays] = useState<number>(DEFAULT_EXPIRY_WARNING_DAYS);
     const lastInventoryStatesRef = useRef<Record<string, LastInventoryState>>({});
+    const notifiedLotsRef = useRef<Record<string, 'EXPIRING' | 'EXPIRED'>>({});
     const checkIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
     // Load persisted thresholds
@@ -45,6 +49,7 @@ const InventoryNotifications: React.FC = () => {
                 const parsed = JSON.parse(raw);
                 if (parsed.lowStockThreshold) setLowStockThreshold(parsed.lowStockThreshold);
                 if (parsed.criticalStockThreshold) setCriticalStockThreshold(parsed.criticalStockThreshold);
+                if (typeof parsed.expiryWarningDays === 'number') setExpiryWarningDays(parsed.expiryWarningDays);
             }
         } catch (error) {
             console.error('Error loading inventory notification thresholds from localStorage:', error);
@@ -54,7 +59,8 @@ const InventoryNotifications: React.FC = () => {
     const persistThresholds = () => {
         localStorage.setItem(LS_THRESHOLDS_KEY, JSON.stringify({
             lowStockThreshold,
-            criticalStockThreshold
+            criticalStockThreshold,
+            expiryWarningDays
         }));
     };
 
@@ -134,7 +140,40 @@ const InventoryNotifications: React.FC = () => {
         }));
     }, [addNotification]);
 
+    // Lots past or close to their expiry date; each lot is announced once per state
+    const checkLotExpiry = useCallback(async (): Promise<void> => {
+        let lots;
+        try {
+            lots = await getLots();
+        } catch (error) {
+            console.warn('Could not load lots to check their expiry', error);
+            return;
+        }
+        getOpenLots(lots).forEach(lot => {
+            const status = getExpiryStatus(lot, expiryWarningDays);
+            if ((status !== 'EXPIRED' && status !== 'EXPIRING') || !lot.expiryDate) return;
+            if (notifiedLotsRef.current[lot.id] === status) return;
+            notifiedLotsRef.current[lot.id] = status;
+            const days = getDaysUntilExpiry(lot.expiryDate);
+            if (status === 'EXPIRED') {
+                addNotification(
+                    `Lot ${lot.lotCode} of "${lot.itemName}" EXPIRED on ${lot.expiryDate}. ${lot.quantityRemaining} units should be written off.`,
+                    'danger',
+                    lot.itemName,
+                    false
+                );
+            } else {
+                addNotification(
+                    `Lot ${lot.lotCode} of "${lot.itemName}" expires ${days === 0 ? 'today' : `in ${days} day${days === 1 ? '' : 's'}`} (${lot.expiryDate}). ${lot.quantityRemaining} units left.`,
+                    'warning',
+                    lot.itemName
+                );
+            }
+        });
+    }, [addNotification, expiryWarningDays]);
+
     const checkInventoryStatus = useCallback(async (): Promise<void> => {
+        checkLotExpiry();
         try {
             const response = await getAllInventoryItems();
             const items: InventoryItem[] = response.data || [];
@@ -292,7 +331,7 @@ const InventoryNotifications: React.FC = () => {
         } catch (error) {
             console.error('Error checking inventory status:', error);
         }
-    }, [addNotification, sendPurchaseOrderToSupplier, lowStockThreshold, criticalStockThreshold]);
+    }, [addNotification, sendPurchaseOrderToSupplier, lowStockThreshold, criticalStockThreshold, checkLotExpiry]);
 
     useEffect(() => {
         // Initial check
@@ -375,13 +414,18 @@ const InventoryNotifications: React.FC = () => {
 
         window.addEventListener('inventory-item-added', handleItemAdded as EventListener);
         window.addEventListener('inventory-stock-updated', handleStockUpdated as EventListener);
+        // Recorded movements change the counts and lots; re-check so low/critical alerts follow them
+        window.addEventListener(STOCK_LEDGER_EVENT, checkInventoryStatus);
+        window.addEventListener(LOTS_UPDATED_EVENT, checkLotExpiry);
 
         return () => {
             if (checkIntervalRef.current) clearInterval(checkIntervalRef.current);
             window.removeEventListener('inventory-item-added', handleItemAdded as EventListener);
             window.removeEventListener('inventory-stock-updated', handleStockUpdated as EventListener);
+            window.removeEventListener(STOCK_LEDGER_EVENT, checkInventoryStatus);
+            window.removeEventListener(LOTS_UPDATED_EVENT, checkLotExpiry);
         };
-    }, [addNotification, checkInventoryStatus]);
+    }, [addNotification, checkInventoryStatus, checkLotExpiry]);
 
     const removeNotification = (id: string): void => {
         setNotifications(prev => prev.filter(notif => notif.id !== id));
@@ -391,9 +435,9 @@ const InventoryNotifications: React.FC = () => {
 
     const handleSaveSettings = (e: React.FormEvent) => {
         e.preventDefault();
-        if (criticalStockThreshold < 1 || lowStockThreshold <= criticalStockThreshold) {
+        if (criticalStockThreshold < 1 || lowStockThreshold <= criticalStockThreshold || expiryWarningDays < 0) {
             addNotification(
-                'Invalid thresholds. Low stock must be greater than critical stock and both > 0.',
+                'Invalid thresholds. Low stock must be greater than critical stock and both > 0; expiry warning cannot be negative.',
                 'danger',
                 'Settings'
             );
@@ -468,6 +512,16 @@ const InventoryNotifications: React.FC = () => {
                                 />
                                 <Form.Text className="text-muted">Send warning</Form.Text>
                             </div>
+                            <div className="col-6">
+                                <Form.Label className="mb-1">Expiry Warning (days)</Form.Label>
+                                <Form.Control
+                                    type="number"
+                                    min={0}
+                                    value={expiryWarningDays}
+                                    onChange={e => setExpiryWarningDays(Number(e.target.value))}
+                                />
+                                <Form.Text className="text-muted">Warn before a lot expires</Form.Text>
+                            </div>
                         </div>
                         <div className="mt-3 d-flex gap-2">
                             <Button
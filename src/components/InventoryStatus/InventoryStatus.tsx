@@ -8,11 +8,20 @@ import {
     CheckCircle,
     Plus,
     Check2Circle,
-    Trash
+    Trash,
+    CartPlus,
+    ClipboardCheck,
+    CalendarX
 } from 'react-bootstrap-icons';
 import InventoryTable from './InventoryTable';
 import InventorySearch from './InventorySearch';
 import InventoryNotifications from "./InventoryNotifications.tsx";
+import ReorderModal from './ReorderModal';
+import StockTakeModal from './StockTakeModal';
+import ExpiringLotsModal from './ExpiringLotsModal';
+import { formatQuantity, getItemUnits, getPurchaseUnit } from '../../service/units';
+import { getActiveSuppliers, getPurchaseOrders, getSupplierCatalog } from '../../service/api';
+import { buildSupplierScorecards, formatRate, formatScorecardSummary, type SupplierScorecard } from '../../service/supplierScorecards';
 
 export interface InventoryItem {
     id: number | null;
@@ -40,17 +49,6 @@ interface ProductOption {
     price: number;
     supplier: string;
 }
-// Tipo flexible para items del supplier que pueden venir con distintos nombres de campos
-interface RawSupplierItem {
-    id?: unknown;
-    itemId?: unknown;
-    name?: unknown;
-    itemName?: unknown;
-    price?: unknown;
-    unitPrice?: unknown;
-    cost?: unknown;
-    supplier?: unknown;
-}
 
 interface OrderItemDraft {
     productId: number;
@@ -90,18 +88,6 @@ interface PurchaseOrderDTO {
 const AUTH_TOKEN_KEY = 'authToken';
 // REMOVED INVENTORY_LIST_ENDPOINT (ya no se usa para el modal de orden de compra)
 const ADMIN_BASE = 'https://kitcheniq-api.onrender.com/kitcheniq/api/v1/admin';
-const SUPPLIER_LIST_ENDPOINT = `${ADMIN_BASE}/supplier-list`;
-const SUPPLIER_ITEMS_ENDPOINT = `${ADMIN_BASE}/supplier-inventory-items`;
-
-// Helper para extraer arreglos de respuestas flexibles (array directo o { data: [...] })
-function extractArrayPayload(raw: unknown): unknown[] {
-    if (Array.isArray(raw)) return raw;
-    if (raw && typeof raw === 'object' && 'data' in raw) {
-        const maybe = (raw as { data: unknown }).data;
-        if (Array.isArray(maybe)) return maybe;
-    }
-    return [];
-}
 
 const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
     const [searchTerm] = useState<string>('');
@@ -109,12 +95,16 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
 
     // Create Supplier Order modal states
     const [showCreateModal, setShowCreateModal] = useState<boolean>(false);
+    const [showReorderModal, setShowReorderModal] = useState<boolean>(false);
+    const [showStockTakeModal, setShowStockTakeModal] = useState<boolean>(false);
+    const [showLotsModal, setShowLotsModal] = useState<boolean>(false);
     const [step, setStep] = useState<'supplier' | 'items'>('supplier');
 
     // Supplier selection
     const [selectedSupplierId, setSelectedSupplierId] = useState<string | null>(null);
     const [suppliers, setSuppliers] = useState<Supplier[]>([]);
     const [loadingSuppliers, setLoadingSuppliers] = useState<boolean>(false);
+    const [scorecards, setScorecards] = useState<SupplierScorecard[]>([]);
 
     // Product selection
     const [products, setProducts] = useState<ProductOption[]>([]);
@@ -129,7 +119,12 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
     // El total ahora se calcula únicamente con los items locales pendientes
     const orderTotal = useMemo(() => orderItems.reduce((sum, it) => sum + (it.unitPrice * it.quantity), 0), [orderItems]);
 
+    // Purchase orders are placed in the supplier pack unit of each item
+    const purchaseUnitOf = (productId: number) => getPurchaseUnit(getItemUnits(productId));
+
     const selectedSupplier = suppliers.find(s => s.id === selectedSupplierId) || null;
+    const scorecardOf = (supplierId: string) => scorecards.find(c => c.supplierId === supplierId) || null;
+    const selectedScorecard = selectedSupplierId ? scorecardOf(selectedSupplierId) : null;
 
     // Generic helpers
     const buildHeaders = (): HeadersInit => {
@@ -139,25 +134,11 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
         return base;
     };
 
-    // Fetch suppliers list
+    // Fetch suppliers list; deactivated ones in the supplier directory are left out
     const fetchSuppliers = async (): Promise<Supplier[]> => {
         setLoadingSuppliers(true);
         try {
-            const resp = await fetch(SUPPLIER_LIST_ENDPOINT, { headers: buildHeaders() });
-            if (!resp.ok) {
-                onToast(`Supplier list failed (${resp.status})`, 'error');
-                return [];
-            }
-            const data: unknown = await resp.json().catch(() => ({}));
-            const arr = extractArrayPayload(data);
-            return arr.map((s, idx): Supplier => {
-                const o = (typeof s === 'object' && s !== null) ? s as Record<string, unknown> : {};
-                return {
-                    id: String(o.id ?? `SUP${idx + 1}`),
-                    name: String(o.name ?? `Supplier ${idx + 1}`),
-                    contactInfo: o.contactInfo ? String(o.contactInfo) : undefined
-                };
-            });
+            return await getActiveSuppliers();
         } catch (e) {
             const msg = e instanceof Error ? e.message : 'Error obteniendo suppliers';
             onToast(msg, 'error');
@@ -167,31 +148,11 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
         }
     };
 
-    // Fetch items for a supplier (InventoryItemDTO)
+    // Fetch the items a supplier delivers, from its catalog
     const fetchSupplierItems = async (supplierId: string): Promise<ProductOption[]> => {
         setLoadingProducts(true);
         try {
-            const url = `${SUPPLIER_ITEMS_ENDPOINT}?supplierId=${encodeURIComponent(supplierId)}`;
-            const resp = await fetch(url, { headers: buildHeaders() });
-            if (!resp.ok) {
-                onToast(`Supplier items failed (${resp.status})`, 'error');
-                return [];
-            }
-            const data: unknown = await resp.json().catch(() => ({}));
-            const arr = extractArrayPayload(data);
-            return arr.map((p, idx): ProductOption => {
-                const o: RawSupplierItem = (typeof p === 'object' && p !== null) ? p as RawSupplierItem : {};
-                const idRaw = o.id ?? o.itemId ?? idx + 1;
-                const nameRaw = o.name ?? o.itemName ?? `Product ${idx + 1}`;
-                const priceRaw = o.price ?? o.unitPrice ?? o.cost ?? 0;
-                const supplierRaw = o.supplier ?? supplierId;
-                return {
-                    id: Number(idRaw),
-                    name: String(nameRaw),
-                    price: Number(priceRaw),
-                    supplier: String(supplierRaw)
-                };
-            });
+            return (await getSupplierCatalog(supplierId)).map(p => ({ ...p, supplier: supplierId }));
         } catch (e) {
             const msg = e instanceof Error ? e.message : 'Error obteniendo productos del supplier';
             onToast(msg, 'error');
@@ -217,7 +178,7 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
     // Agregar item a la orden
     const addItemToPurchaseOrder = async (params: { orderId: number; itemId: number; itemName: string; quantity: number }): Promise<PurchaseOrderDTO> => {
         const unitPriceRaw = products.find(p => p.id === params.itemId)?.price ?? 0;
-        const unitPrice = Number(unitPriceRaw);
+        const unitPrice = Number(unitPriceRaw); // supplier catalog prices are per purchase unit already
         const subTotal = parseFloat((unitPrice * params.quantity).toFixed(2));
         const body: PurchaseOrderItemBody = {
             orderId: params.orderId,
@@ -294,8 +255,11 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
         setOrderId(null);
         setProducts([]);
         setShowCreateModal(true);
-        const list = await fetchSuppliers();
+        setScorecards([]);
+        // Scorecards are a hint for choosing; the order can still be placed without past orders
+        const [list, pastOrders] = await Promise.all([fetchSuppliers(), getPurchaseOrders().catch(() => [])]);
         setSuppliers(list);
+        setScorecards(buildSupplierScorecards(pastOrders, list));
         if (list.length === 0) onToast('No hay suppliers disponibles', 'warning');
     };
 
@@ -430,15 +394,41 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
                                 {currentTime.toLocaleTimeString()}
                             </small>
                         </div>
-                        <Button
-                            variant="primary"
-                            onClick={openCreateOrderModal}
-                            className="d-flex align-items-center"
-                            style={{ backgroundColor: '#B1E5FF', borderColor: '#B1E5FF', color: '#000' }}
-                        >
-                            <PlusCircle size={18} className="me-2" />
-                            Create Order Supplier
-                        </Button>
+                        <div className="d-flex flex-wrap justify-content-end gap-2">
+                            <Button
+                                variant="outline-secondary"
+                                onClick={() => setShowLotsModal(true)}
+                                className="d-flex align-items-center"
+                            >
+                                <CalendarX size={18} className="me-2" />
+                                Expiring Lots
+                            </Button>
+                            <Button
+                                variant="outline-secondary"
+                                onClick={() => setShowStockTakeModal(true)}
+                                className="d-flex align-items-center"
+                            >
+                                <ClipboardCheck size={18} className="me-2" />
+                                Stock Take
+                            </Button>
+                            <Button
+                                variant="outline-secondary"
+                                onClick={() => setShowReorderModal(true)}
+                                className="d-flex align-items-center"
+                            >
+                                <CartPlus size={18} className="me-2" />
+                                Reorder Suggestions
+                            </Button>
+                            <Button
+                                variant="primary"
+                                onClick={openCreateOrderModal}
+                                className="d-flex align-items-center"
+                                style={{ backgroundColor: '#B1E5FF', borderColor: '#B1E5FF', color: '#000' }}
+                            >
+                                <PlusCircle size={18} className="me-2" />
+                                Create Order Supplier
+                            </Button>
+                        </div>
                     </div>
                     <InventoryTable
                         searchTerm={searchTerm}
@@ -459,6 +449,10 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
                 </Row>
             </Container>
 
+            <ReorderModal show={showReorderModal} onHide={() => setShowReorderModal(false)} onToast={onToast} />
+            <StockTakeModal show={showStockTakeModal} onHide={() => setShowStockTakeModal(false)} onToast={onToast} />
+            <ExpiringLotsModal show={showLotsModal} onHide={() => setShowLotsModal(false)} onToast={onToast} />
+
             {/* Create Supplier Order Modal */}
             <Modal
                 show={showCreateModal}
@@ -489,12 +483,21 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
                                             disabled={loadingSuppliers}
                                         >
                                             <option value="">Select a supplier</option>
-                                            {suppliers.map(s => (
-                                                <option key={s.id} value={s.id}>{s.name}</option>
-                                            ))}
+                                            {suppliers.map(s => {
+                                                const card = scorecardOf(s.id);
+                                                return <option key={s.id} value={s.id}>{card ? `${s.name} (${formatScorecardSummary(card)})` : s.name}</option>;
+                                            })}
                                         </Form.Select>
                                         {loadingSuppliers && <Spinner animation="border" size="sm" />}
                                     </div>
+                                    {selectedScorecard && selectedScorecard.orders > 0 && (
+                                        <div className="small mt-2 p-2 bg-light rounded">
+                                            <strong>Scorecard</strong> · {selectedScorecard.orders} orders · {formatRate(selectedScorecard.onTimeRate)} on time
+                                            (lead time {selectedScorecard.leadTimeDays} d{selectedScorecard.averageLeadDays !== null ? `, avg ${selectedScorecard.averageLeadDays} d` : ''})
+                                            · {formatRate(selectedScorecard.fillRate)} fill · {formatRate(selectedScorecard.cancelledRate)} cancelled
+                                            {selectedScorecard.priceChanges.length > 0 && ` · ${selectedScorecard.priceChanges.filter(p => p.changePct > 0).length} price increase(s)`}
+                                        </div>
+                                    )}
                                     <Form.Text className="text-muted">Seleccione un supplier para continuar.</Form.Text>
                                 </Form.Group>
                             </Form>
@@ -545,7 +548,7 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
                                         </Col>
                                         <Col md={4}>
                                             <Form.Group controlId="quantityInput">
-                                                <Form.Label>Quantity *</Form.Label>
+                                                <Form.Label>Quantity ({currentProductId ? purchaseUnitOf(currentProductId).unit : 'units'}) *</Form.Label>
                                                 <Form.Control
                                                     type="number"
                                                     min={1}
@@ -588,7 +591,7 @@ const InventoryStatus: React.FC<InventoryStatusProps> = ({ onToast }) => {
                                     ) : orderItems.map((it, idx) => (
                                         <tr key={`${it.productId}-${idx}`}>
                                             <td>{it.productName}</td>
-                                            <td>{it.quantity}</td>
+                                            <td>{formatQuantity(it.quantity, purchaseUnitOf(it.productId).unit)}</td>
                                             <td>${it.unitPrice.toFixed(2)}</td>
                                             <td>${(it.unitPrice * it.quantity).toFixed(2)}</td>
                                             <td className="text-center">
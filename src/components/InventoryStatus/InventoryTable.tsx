@@ -1,22 +1,24 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { Table, Spinner, Alert, Dropdown, Modal, Button, Form } from 'react-bootstrap';
-import { ThreeDots, Plus, PencilSquare, Trash, XCircle, Check2Circle, BoxSeam } from 'react-bootstrap-icons';
+import { Table, Spinner, Alert, Dropdown, Modal, Button, Form, Badge } from 'react-bootstrap';
+import { ThreeDots, Plus, PencilSquare, Trash, XCircle, Check2Circle, BoxSeam, FileEarmarkArrowUp, Sliders2, ClockHistory, Rulers } from 'react-bootstrap-icons';
+import { getItemUnitDefinitions, getReorderLevels, mapInventoryList, type InventoryProduct } from '../../service/api';
+import ExportMenu from '../common/ExportMenu';
+import InventoryImportModal from './InventoryImportModal';
+import { STOCK_LEDGER_EVENT } from '../../service/stockLedger';
+import StockAdjustmentModal from './StockAdjustmentModal';
+import StockHistoryModal from './StockHistoryModal';
+import UnitsModal from './UnitsModal';
+import { getDefaultReorderLevel, getItemReorderLevel, REORDER_LEVELS_EVENT, type ReorderLevel } from '../../service/reorder';
+import type { ExportColumn } from '../../service/exportFile';
+import { formatStock, getAllItemUnits, getBaseUnitCost, getItemUnits, getPriceUnit, getPurchaseUnit, ITEM_UNITS_EVENT, type ItemUnits } from '../../service/units';
 
 interface InventoryTableProps {
     searchTerm: string;
     onToast: (msg: string, type?: string) => void;
 }
 
-// Product interface
-interface Product {
-    id: number | null;
-    name: string;
-    description: string; // se mantiene para items existentes
-    category: string; // se mantiene para items existentes
-    stockQuantity: number;
-    price: number;
-    supplier: string;
-}
+// Product interface (shared with reports through the api service)
+type Product = InventoryProduct;
 
 interface RawProduct {
     id?: number;
@@ -34,12 +36,28 @@ interface RawProduct {
     supplier?: string;
 }
 
+const EXPORT_COLUMNS: ExportColumn<Product>[] = [
+    { header: 'ID', value: p => p.id },
+    { header: 'Name', value: p => p.name, width: 28 },
+    { header: 'Description', value: p => p.description, width: 40 },
+    { header: 'Category', value: p => p.category, width: 16 },
+    { header: 'Supplier', value: p => p.supplier, width: 20 },
+    { header: 'Price', value: p => p.price, format: 'currency', width: 12 },
+    { header: 'Price Unit', value: p => getPriceUnit(getItemUnits(p.id)) },
+    { header: 'Purchase Unit', value: p => getPurchaseUnit(getItemUnits(p.id)).unit },
+    { header: 'Stock Quantity', value: p => p.stockQuantity, format: 'number' },
+    { header: 'Unit', value: p => getItemUnits(p.id).baseUnit },
+    { header: 'Stock Value', value: p => Math.round(getBaseUnitCost(p.price, getItemUnits(p.id)) * p.stockQuantity * 100) / 100, format: 'currency', width: 14 }
+];
+
 const INVENTORY_LIST_ENDPOINT = 'https://kitcheniq-api.onrender.com/kitcheniq/api/v1/admin/inventory-list';
 const CREATE_ENDPOINT = 'https://kitcheniq-api.onrender.com/kitcheniq/api/v1/admin/add-inventory-item'; // updated
 const TOKEN_KEY = 'authToken';
 
 const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast }) => {
     const [items, setItems] = useState<Product[]>([]);
+    const [reorderLevels, setReorderLevels] = useState<ReorderLevel[]>([]);
+    const [itemUnits, setItemUnits] = useState<ItemUnits[]>(() => getAllItemUnits());
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -47,10 +65,15 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
     const [showAddModal, setShowAddModal] = useState(false);
     const [newProduct, setNewProduct] = useState<Omit<Product, 'id'>>({ name: '', description: '', category: '', stockQuantity: 0, price: 0, supplier: '' });
     const [savingAdd, setSavingAdd] = useState(false);
+    const [showImportModal, setShowImportModal] = useState(false);
 
     const [showEditModal, setShowEditModal] = useState(false);
     const [productToEdit, setProductToEdit] = useState<Product | null>(null);
 
+    const [productToAdjust, setProductToAdjust] = useState<Product | null>(null);
+    const [productHistory, setProductHistory] = useState<Product | null>(null);
+    const [productUnits, setProductUnits] = useState<Product | null>(null);
+
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     const [productToDelete, setProductToDelete] = useState<Product | null>(null);
 
@@ -74,18 +97,6 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
         return fallback;
     };
 
-    const mapRawProducts = (arr: RawProduct[]): Product[] => {
-        return arr.map((p: RawProduct, idx: number) => ({
-            id: typeof p.id === 'number' ? p.id : (typeof p.itemId === 'number' ? p.itemId : idx + 1),
-            name: p.name ?? p.itemName ?? 'Unnamed',
-            description: p.description ?? '',
-            category: p.category ?? p.type ?? 'General',
-            stockQuantity: typeof p.stockQuantity === 'number' ? p.stockQuantity : (typeof p.quantity === 'number' ? p.quantity : 0),
-            price: parseNumeric(p.price ?? p.unitPrice ?? p.cost, 0),
-            supplier: p.supplier ?? 'Unknown'
-        }));
-    };
-
     // Single source load (no fallbacks)
     const getAllProducts = useCallback(async (): Promise<Product[]> => {
         console.log('[InventoryTable] Fetching inventory list...');
@@ -103,25 +114,7 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
             throw new Error('Invalid inventory response (JSON parse failed)');
         }
 
-        const extractArray = (src: unknown): RawProduct[] => {
-            if (Array.isArray(src)) return src as RawProduct[];
-            if (typeof src === 'object' && src !== null) {
-                const obj = src as Record<string, unknown>;
-                const keys = ['data','items','inventory','inventoryItems','inventoryList'];
-                for (const k of keys) {
-                    const v = obj[k];
-                    if (Array.isArray(v)) return v as RawProduct[];
-                }
-            }
-            return [];
-        };
-
-        const arr = extractArray(data);
-        if (!Array.isArray(arr)) {
-            console.error('[InventoryTable] Expected array, got:', arr);
-            throw new Error('Inventory response format not recognized');
-        }
-        const mapped = mapRawProducts(arr);
+        const mapped = mapInventoryList(data);
         console.log(`[InventoryTable] Mapped products (${mapped.length}):`, mapped);
         return mapped;
     }, []);
@@ -200,6 +193,41 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
         return () => { mounted = false; clearInterval(intervalId); };
     }, [getAllProducts, error, onToast]);
 
+    // Recorded movements change the backend count; reload it
+    useEffect(() => {
+        const reload = () => {
+            getAllProducts()
+                .then(setItems)
+                .catch(err => console.warn('[InventoryTable] Could not reload stock after a movement:', err));
+        };
+        window.addEventListener(STOCK_LEDGER_EVENT, reload);
+        return () => window.removeEventListener(STOCK_LEDGER_EVENT, reload);
+    }, [getAllProducts]);
+
+    // Without levels every item uses the defaults until they load
+    useEffect(() => {
+        const reload = () => {
+            getReorderLevels()
+                .then(setReorderLevels)
+                .catch(err => console.warn('[InventoryTable] Could not load reorder levels:', err));
+        };
+        reload();
+        window.addEventListener(REORDER_LEVELS_EVENT, reload);
+        return () => window.removeEventListener(REORDER_LEVELS_EVENT, reload);
+    }, []);
+
+    // Until the definitions load every item counts in plain units
+    useEffect(() => {
+        const reload = () => setItemUnits(getAllItemUnits());
+        getItemUnitDefinitions().catch(err => console.warn('[InventoryTable] Could not load item units:', err));
+        window.addEventListener(ITEM_UNITS_EVENT, reload);
+        return () => window.removeEventListener(ITEM_UNITS_EVENT, reload);
+    }, []);
+
+    const reorderDefaults = getDefaultReorderLevel();
+    const needsReorder = (item: Product) =>
+        item.stockQuantity <= getItemReorderLevel(item.id, reorderLevels, reorderDefaults).reorderPoint;
+
     // Filtering
     const filteredItems = useMemo(() => {
         if (!searchTerm) return items;
@@ -289,6 +317,20 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
         }
     };
 
+    const handleImported = (created: Product[]) => {
+        if (created.length === 0) return;
+        setItems(prev => [...prev, ...created]);
+        created.forEach(p => window.dispatchEvent(new CustomEvent('inventory-item-added', {
+            detail: {
+                itemId: p.id,
+                itemName: p.name,
+                quantity: p.stockQuantity,
+                supplier: p.supplier,
+                timestamp: Date.now()
+            }
+        })));
+    };
+
     const openEditModal = (p: Product) => {
         setProductToEdit({ ...p });
         setShowEditModal(true);
@@ -335,7 +377,11 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
                     <Button variant="outline-light" size="sm" onClick={retryLoad}>Retry</Button>
                 </Alert>
             )}
-            <div className="d-flex justify-content-end mb-2">
+            <div className="d-flex justify-content-end gap-2 mb-2">
+                <ExportMenu rows={filteredItems} columns={EXPORT_COLUMNS} fileName="inventory" onToast={onToast} />
+                <Button variant="outline-secondary" size="sm" onClick={() => setShowImportModal(true)} className="d-flex align-items-center">
+                    <FileEarmarkArrowUp size={14} className="me-1" /> Import CSV
+                </Button>
                 <Button variant="primary" size="sm" onClick={openAddModal} style={{ backgroundColor: '#B1E5FF', borderColor: '#B1E5FF', color: '#000' }}>
                     <Plus size={16} className="me-1" /> Add Product
                 </Button>
@@ -367,8 +413,14 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
                             <td>{item.id}</td>
                             <td>{item.name}</td>
                             <td>{item.supplier}</td>
-                            <td>${item.price.toFixed(2)}</td>
-                            <td>{item.stockQuantity}</td>
+                            <td>
+                                ${item.price.toFixed(2)}
+                                <small className="text-muted"> / {getPriceUnit(getItemUnits(item.id, itemUnits))}</small>
+                            </td>
+                            <td>
+                                {formatStock(item.stockQuantity, getItemUnits(item.id, itemUnits))}
+                                {needsReorder(item) && <Badge bg="warning" text="dark" className="ms-2">Reorder</Badge>}
+                            </td>
                             <td>
                                 <Dropdown>
                                     <Dropdown.Toggle variant="outline-secondary" size="sm">
@@ -378,6 +430,15 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
                                         <Dropdown.Item onClick={() => openEditModal(item)}>
                                             <PencilSquare size={16} className="me-2" /> Edit Product
                                         </Dropdown.Item>
+                                        <Dropdown.Item onClick={() => setProductToAdjust(item)} disabled={item.id == null}>
+                                            <Sliders2 size={16} className="me-2" /> Adjust Stock
+                                        </Dropdown.Item>
+                                        <Dropdown.Item onClick={() => setProductHistory(item)} disabled={item.id == null}>
+                                            <ClockHistory size={16} className="me-2" /> Stock History
+                                        </Dropdown.Item>
+                                        <Dropdown.Item onClick={() => setProductUnits(item)} disabled={item.id == null}>
+                                            <Rulers size={16} className="me-2" /> Units of Measure
+                                        </Dropdown.Item>
                                         <Dropdown.Item onClick={() => openDeleteModal(item)} className="text-danger">
                                             <Trash size={16} className="me-2" /> Delete Product
                                         </Dropdown.Item>
@@ -430,7 +491,7 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
                                 <div className="text-danger small mt-1">Invalid format. Use 12.34 or 12,34 (max 2 decimals).</div>
                             )}
                         </Form.Group>
-                        <Form.Text className="text-muted">Stock Quantity is fixed to 0 when creating a product.</Form.Text>
+                        <Form.Text className="text-muted">Stock Quantity is fixed to 0 when creating a product. Set its units of measure from the actions menu once it is created.</Form.Text>
                     </Form>
                 </Modal.Body>
                 <Modal.Footer>
@@ -443,6 +504,19 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ searchTerm, onToast })
                 </Modal.Footer>
             </Modal>
 
+            <InventoryImportModal
+                show={showImportModal}
+                existingItems={items}
+                knownSuppliers={suppliers}
+                onHide={() => setShowImportModal(false)}
+                onImported={handleImported}
+                onToast={onToast}
+            />
+
+            <StockAdjustmentModal product={productToAdjust} onHide={() => setProductToAdjust(null)} onToast={onToast} />
+            <StockHistoryModal product={productHistory} onHide={() => setProductHistory(null)} />
+            <UnitsModal product={productUnits} onHide={() => setProductUnits(null)} onToast={onToast} />
+
             {/* Modal: Edit (placeholder) */}
             <Modal show={showEditModal} onHide={() => setShowEditModal(false)} centered>
                 <Modal.Header closeButton>
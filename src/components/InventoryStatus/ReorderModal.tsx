@@ -0,0 +1,373 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Modal, Button, Form, Table, Spinner, Alert, Nav, Badge, InputGroup } from 'react-bootstrap';
+import { CartPlus, Send, XCircle, ArrowCounterclockwise, Check2Circle } from 'react-bootstrap-icons';
+import {
+    addItemToPurchaseOrder,
+    cancelPurchaseOrder,
+    clearReorderLevel,
+    finalizePurchaseOrder,
+    getInventoryProducts,
+    getActiveSuppliers,
+    getPurchaseOrders,
+    getReorderLevels,
+    getSupplierCatalog,
+    initializePurchaseOrder,
+    saveReorderLevel,
+    type InventoryProduct,
+    type SupplierSummary
+} from '../../service/api';
+import {
+    buildReorderDrafts,
+    getDefaultReorderLevel,
+    getItemReorderLevel,
+    getQuantitiesOnOrder,
+    type ReorderDraft,
+    type ReorderLevel
+} from '../../service/reorder';
+import { buildSupplierScorecards, formatScorecardSummary, type SupplierScorecard } from '../../service/supplierScorecards';
+import { formatQuantity, formatStock, getAllItemUnits, getItemUnits, ITEM_UNITS_EVENT, type ItemUnits } from '../../service/units';
+
+interface ReorderModalProps {
+    show: boolean;
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+type ReorderTab = 'drafts' | 'levels';
+
+const lineKey = (supplier: string, itemId: number) => `${supplier}|${itemId}`;
+
+// Inventory items only carry the supplier name; match it against the supplier list
+const matchSupplier = (name: string, suppliers: SupplierSummary[]): SupplierSummary | undefined => {
+    const target = name.trim().toLowerCase();
+    return suppliers.find(s => s.name.trim().toLowerCase() === target || s.id.toLowerCase() === target);
+};
+
+const ReorderModal: React.FC<ReorderModalProps> = ({ show, onHide, onToast }) => {
+    const [tab, setTab] = useState<ReorderTab>('drafts');
+    const [products, setProducts] = useState<InventoryProduct[]>([]);
+    const [suppliers, setSuppliers] = useState<SupplierSummary[]>([]);
+    const [onOrder, setOnOrder] = useState<Map<number, number>>(new Map());
+    const [scorecards, setScorecards] = useState<SupplierScorecard[]>([]);
+    const [levels, setLevels] = useState<ReorderLevel[]>([]);
+    const [units, setUnits] = useState<ItemUnits[]>(() => getAllItemUnits());
+    const [loading, setLoading] = useState(false);
+    const [warnings, setWarnings] = useState<string[]>([]);
+
+    // Review state of the drafts
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [supplierChoice, setSupplierChoice] = useState<Record<string, string>>({});
+    const [submitting, setSubmitting] = useState<string | null>(null);
+
+    // Level edits not saved yet
+    const [levelEdits, setLevelEdits] = useState<Record<number, { reorderPoint: string; parLevel: string }>>({});
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        const [inventoryResult, suppliersResult, ordersResult, levelsResult] = await Promise.allSettled([
+            getInventoryProducts(),
+            getActiveSuppliers(),
+            getPurchaseOrders(),
+            getReorderLevels()
+        ]);
+        const failed: string[] = [];
+        if (inventoryResult.status === 'fulfilled') setProducts(inventoryResult.value);
+        else failed.push('Inventory could not be loaded.');
+        if (suppliersResult.status === 'fulfilled') setSuppliers(suppliersResult.value);
+        else failed.push('Suppliers could not be loaded; drafts cannot be submitted.');
+        if (ordersResult.status === 'fulfilled') {
+            setOnOrder(getQuantitiesOnOrder(ordersResult.value));
+            setScorecards(buildSupplierScorecards(ordersResult.value));
+        }
+        else failed.push('Open purchase orders could not be loaded; quantities already on order are not deducted.');
+        if (levelsResult.status === 'fulfilled') setLevels(levelsResult.value);
+        else failed.push('Reorder levels could not be loaded; every item uses the default levels.');
+        setWarnings(failed);
+        setLoading(false);
+    }, []);
+
+    useEffect(() => {
+        if (!show) return;
+        setQuantities({});
+        setExcluded(new Set());
+        setSupplierChoice({});
+        setLevelEdits({});
+        setUnits(getAllItemUnits());
+        load();
+    }, [show, load]);
+
+    useEffect(() => {
+        const reloadUnits = () => setUnits(getAllItemUnits());
+        window.addEventListener(ITEM_UNITS_EVENT, reloadUnits);
+        return () => window.removeEventListener(ITEM_UNITS_EVENT, reloadUnits);
+    }, []);
+
+    const drafts = useMemo(() => buildReorderDrafts(products, levels, onOrder, units), [products, levels, onOrder, units]);
+    const defaults = getDefaultReorderLevel();
+
+    const quantityOf = (supplier: string, itemId: number, suggested: number) => quantities[lineKey(supplier, itemId)] ?? suggested;
+    const draftTotal = (draft: ReorderDraft) => draft.lines
+        .filter(l => !excluded.has(lineKey(draft.supplier, l.itemId)))
+        .reduce((sum, l) => sum + l.unitPrice * quantityOf(draft.supplier, l.itemId, l.suggestedQuantity), 0);
+
+    const toggleLine = (key: string) => setExcluded(prev => {
+        const next = new Set(prev);
+        if (next.has(key)) next.delete(key); else next.add(key);
+        return next;
+    });
+
+    const submitDraft = async (draft: ReorderDraft) => {
+        const supplierId = supplierChoice[draft.supplier] ?? matchSupplier(draft.supplier, suppliers)?.id;
+        if (!supplierId) { onToast(`Choose the supplier for "${draft.supplier}"`, 'warning'); return; }
+        const lines = draft.lines
+            .filter(l => !excluded.has(lineKey(draft.supplier, l.itemId)))
+            .map(l => ({ ...l, quantity: quantityOf(draft.supplier, l.itemId, l.suggestedQuantity) }))
+            .filter(l => l.quantity > 0);
+        if (lines.length === 0) { onToast('Select at least one item with a quantity', 'warning'); return; }
+
+        setSubmitting(draft.supplier);
+        let orderId: number | null = null;
+        try {
+            // Order the supplier's own item ids and prices
+            const catalog = await getSupplierCatalog(supplierId);
+            const matched = lines.map(l => ({
+                line: l,
+                item: catalog.find(c => c.id === l.itemId) ?? catalog.find(c => c.name.trim().toLowerCase() === l.itemName.trim().toLowerCase())
+            }));
+            const missing = matched.filter(m => !m.item).map(m => m.line.itemName);
+            const orderable = matched.filter(m => m.item);
+            if (orderable.length === 0) throw new Error(`The supplier does not list ${missing.join(', ')}`);
+
+            const po = await initializePurchaseOrder(supplierId);
+            orderId = po.orderId;
+            for (const { line, item } of orderable) {
+                if (!item) continue;
+                await addItemToPurchaseOrder(po.orderId, { itemId: item.id, itemName: item.name, quantity: line.quantity, unitPrice: item.price });
+            }
+            const finalized = await finalizePurchaseOrder(po.orderId);
+            const estimated = orderable.reduce((sum, { line, item }) => sum + (item?.price ?? 0) * line.quantity, 0);
+            onToast(`Purchase order #${po.orderId} sent to ${draft.supplier} (Total: $${(finalized.totalAmount || estimated).toFixed(2)})`, 'success');
+            if (missing.length > 0) onToast(`Not in the supplier's catalog, left out: ${missing.join(', ')}`, 'warning');
+            setOnOrder(prev => {
+                const next = new Map(prev);
+                orderable.forEach(({ line }) => next.set(line.itemId, (next.get(line.itemId) || 0) + line.quantity));
+                return next;
+            });
+        } catch (e) {
+            if (orderId != null) {
+                await cancelPurchaseOrder(orderId).catch(err => console.warn('Could not cancel incomplete purchase order', err));
+            }
+            onToast(e instanceof Error ? e.message : 'Could not submit the purchase order', 'danger');
+        } finally {
+            setSubmitting(null);
+        }
+    };
+
+    const levelEditOf = (p: InventoryProduct) => {
+        const current = getItemReorderLevel(p.id, levels, defaults);
+        return levelEdits[p.id as number] ?? { reorderPoint: String(current.reorderPoint), parLevel: String(current.parLevel) };
+    };
+
+    const saveLevel = async (p: InventoryProduct) => {
+        if (p.id == null) return;
+        const edit = levelEditOf(p);
+        try {
+            const saved = await saveReorderLevel(p.id, Number(edit.reorderPoint), Number(edit.parLevel));
+            setLevels(prev => [...prev.filter(l => l.itemId !== saved.itemId), saved]);
+            setLevelEdits(prev => {
+                const next = { ...prev };
+                delete next[p.id as number];
+                return next;
+            });
+            onToast(`Reorder levels saved for "${p.name}"`, 'success');
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not save reorder levels', 'warning');
+        }
+    };
+
+    const resetLevel = async (p: InventoryProduct) => {
+        if (p.id == null) return;
+        try {
+            await clearReorderLevel(p.id);
+            setLevels(prev => prev.filter(l => l.itemId !== p.id));
+            setLevelEdits(prev => {
+                const next = { ...prev };
+                delete next[p.id as number];
+                return next;
+            });
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not reset reorder levels', 'warning');
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onHide} size="xl" centered scrollable>
+            <Modal.Header closeButton>
+                <Modal.Title><CartPlus size={20} className="me-2" />REORDER SUGGESTIONS</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <Nav variant="pills" activeKey={tab} onSelect={k => k && setTab(k as ReorderTab)} className="mb-3">
+                    {(['drafts', 'levels'] as const).map(t => (
+                        <Nav.Item key={t}>
+                            <Nav.Link eventKey={t} className={tab === t ? 'text-dark' : ''} style={tab === t ? { backgroundColor: '#86e5ff' } : {}}>
+                                {t === 'drafts' ? `Draft Orders (${drafts.length})` : 'Reorder Levels'}
+                            </Nav.Link>
+                        </Nav.Item>
+                    ))}
+                </Nav>
+                {warnings.map(w => <Alert key={w} variant="warning" className="py-2 small">{w}</Alert>)}
+                {loading ? (
+                    <div className="text-center py-4"><Spinner animation="border" size="sm" className="me-2" />Loading inventory...</div>
+                ) : tab === 'drafts' ? (
+                    drafts.length === 0 ? (
+                        <p className="text-center text-muted my-4">Every item is above its reorder point. Nothing to order.</p>
+                    ) : drafts.map(draft => {
+                        const matched = matchSupplier(draft.supplier, suppliers);
+                        const busy = submitting === draft.supplier;
+                        return (
+                            <div key={draft.supplier} className="border rounded-3 p-3 mb-3">
+                                <div className="d-flex justify-content-between align-items-center flex-wrap gap-2 mb-2">
+                                    <div className="fw-semibold">{draft.supplier}</div>
+                                    <div className="d-flex align-items-center gap-2">
+                                        <Form.Select
+                                            size="sm"
+                                            style={{ width: '320px' }}
+                                            value={supplierChoice[draft.supplier] ?? matched?.id ?? ''}
+                                            onChange={e => setSupplierChoice(prev => ({ ...prev, [draft.supplier]: e.target.value }))}
+                                            disabled={busy}
+                                        >
+                                            <option value="">Select supplier account</option>
+                                            {suppliers.map(s => {
+                                                const card = scorecards.find(c => c.supplierId === s.id);
+                                                return <option key={s.id} value={s.id}>{card ? `${s.name} (${formatScorecardSummary(card)})` : s.name}</option>;
+                                            })}
+                                        </Form.Select>
+                                        <Button
+                                            size="sm"
+                                            onClick={() => submitDraft(draft)}
+                                            disabled={submitting !== null}
+                                            style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                                        >
+                                            {busy ? <Spinner as="span" animation="border" size="sm" /> : <><Send size={14} className="me-1" /> Submit Order</>}
+                                        </Button>
+                                    </div>
+                                </div>
+                                <Table size="sm" bordered responsive className="mb-1">
+                                    <thead>
+                                    <tr>
+                                        <th style={{ width: '40px' }}></th>
+                                        <th>Item</th>
+                                        <th style={{ width: '90px' }}>Stock</th>
+                                        <th style={{ width: '90px' }}>On Order</th>
+                                        <th style={{ width: '130px' }}>Reorder / Par</th>
+                                        <th style={{ width: '160px' }}>Quantity</th>
+                                        <th style={{ width: '110px' }}>Unit Price</th>
+                                        <th style={{ width: '110px' }}>Subtotal</th>
+                                    </tr>
+                                    </thead>
+                                    <tbody>
+                                    {draft.lines.map(l => {
+                                        const key = lineKey(draft.supplier, l.itemId);
+                                        const included = !excluded.has(key);
+                                        const quantity = quantityOf(draft.supplier, l.itemId, l.suggestedQuantity);
+                                        return (
+                                            <tr key={key} className={included ? '' : 'text-muted'}>
+                                                <td className="text-center">
+                                                    <Form.Check type="checkbox" checked={included} onChange={() => toggleLine(key)} disabled={busy} />
+                                                </td>
+                                                <td>
+                                                    {l.itemName}
+                                                    {l.stock === 0 && <Badge bg="danger" className="ms-2">Out</Badge>}
+                                                </td>
+                                                <td>{formatQuantity(l.stock, l.baseUnit)}</td>
+                                                <td>{l.onOrder ? formatQuantity(l.onOrder, l.baseUnit) : '-'}</td>
+                                                <td>
+                                                    {l.reorderPoint} / {formatQuantity(l.parLevel, l.baseUnit)}
+                                                    {!l.customLevel && <small className="text-muted ms-1">(default)</small>}
+                                                </td>
+                                                <td>
+                                                    <InputGroup size="sm">
+                                                        <Form.Control
+                                                            type="number"
+                                                            min={0}
+                                                            value={quantity}
+                                                            disabled={!included || busy}
+                                                            onChange={e => setQuantities(prev => ({ ...prev, [key]: Math.max(0, Math.round(Number(e.target.value) || 0)) }))}
+                                                        />
+                                                        <InputGroup.Text>{l.purchaseUnit}</InputGroup.Text>
+                                                    </InputGroup>
+                                                    {l.packFactor !== 1 && <small className="text-muted">{formatQuantity(quantity * l.packFactor, l.baseUnit)}</small>}
+                                                </td>
+                                                <td>${l.unitPrice.toFixed(2)}</td>
+                                                <td>${included ? (l.unitPrice * quantity).toFixed(2) : '0.00'}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                    </tbody>
+                                </Table>
+                                <div className="d-flex justify-content-end small">
+                                    <span className="fw-bold">Estimated total: ${draftTotal(draft).toFixed(2)}</span>
+                                </div>
+                            </div>
+                        );
+                    })
+                ) : (
+                    <>
+                        <p className="text-muted small">
+                            An item is suggested once its stock plus what is already on order falls to the reorder point; the draft brings it back up to par.
+                            Levels are in the item's base unit; drafts are rounded up to whole purchase units.
+                            Items without their own levels use {defaults.reorderPoint} / {defaults.parLevel}, from the low stock threshold.
+                        </p>
+                        <Table size="sm" bordered hover responsive>
+                            <thead>
+                            <tr>
+                                <th>Item</th>
+                                <th>Supplier</th>
+                                <th style={{ width: '90px' }}>Stock</th>
+                                <th style={{ width: '130px' }}>Reorder Point</th>
+                                <th style={{ width: '130px' }}>Par Level</th>
+                                <th style={{ width: '110px' }}></th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {products.filter(p => p.id != null).map(p => {
+                                const edit = levelEditOf(p);
+                                const custom = getItemReorderLevel(p.id, levels, defaults).customLevel;
+                                const setEdit = (field: 'reorderPoint' | 'parLevel', value: string) =>
+                                    setLevelEdits(prev => ({ ...prev, [p.id as number]: { ...edit, [field]: value } }));
+                                return (
+                                    <tr key={p.id}>
+                                        <td>{p.name} {custom && <Badge bg="light" text="dark" className="ms-1">Custom</Badge>}</td>
+                                        <td>{p.supplier}</td>
+                                        <td>{formatStock(p.stockQuantity, getItemUnits(p.id, units))}</td>
+                                        <td><Form.Control size="sm" type="number" min={0} value={edit.reorderPoint} onChange={e => setEdit('reorderPoint', e.target.value)} /></td>
+                                        <td><Form.Control size="sm" type="number" min={1} value={edit.parLevel} onChange={e => setEdit('parLevel', e.target.value)} /></td>
+                                        <td className="text-nowrap">
+                                            <Button variant="outline-success" size="sm" className="me-1" onClick={() => saveLevel(p)} title="Save">
+                                                <Check2Circle size={14} />
+                                            </Button>
+                                            {custom && (
+                                                <Button variant="outline-secondary" size="sm" onClick={() => resetLevel(p)} title="Use defaults">
+                                                    <ArrowCounterclockwise size={14} />
+                                                </Button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            </tbody>
+                        </Table>
+                    </>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Close
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default ReorderModal;
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Row, Col } from 'react-bootstrap';
+import { Sliders2, XCircle, Check2Circle } from 'react-bootstrap-icons';
+import { getLots, recordStockMovement, type InventoryProduct } from '../../service/api';
+import {
+    MANUAL_MOVEMENT_TYPES,
+    STOCK_MOVEMENT_LABELS,
+    type StockMovementType
+} from '../../service/stockLedger';
+import { getOpenLots, type StockLot } from '../../service/lots';
+import { formatQuantity, formatStock, getConversions, getItemUnits, toBaseQuantity, type ItemUnits } from '../../service/units';
+
+interface StockAdjustmentModalProps {
+    product: InventoryProduct | null; // null hides the modal
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+const HINTS: Partial<Record<StockMovementType, string>> = {
+    RECEIVING: 'Stock received outside a supplier purchase order.',
+    WASTE: 'Prepared or opened stock thrown away (burnt, dropped, returned plates).',
+    SPOILAGE: 'Stock that expired or went bad before use.',
+    COUNT_CORRECTION: 'Enter the quantity counted on the shelf; the difference is posted.',
+    TRANSFER: 'Stock moved to or from another location.'
+};
+
+const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({ product, onHide, onToast }) => {
+    const [type, setType] = useState<StockMovementType>('WASTE');
+    const [amount, setAmount] = useState<string>('');
+    const [unit, setUnit] = useState<string>('');
+    const [itemUnits, setItemUnits] = useState<ItemUnits>(() => getItemUnits(null));
+    const [direction, setDirection] = useState<'IN' | 'OUT'>('OUT');
+    const [location, setLocation] = useState<string>('');
+    const [reason, setReason] = useState<string>('');
+    const [lotCode, setLotCode] = useState<string>('');
+    const [expiryDate, setExpiryDate] = useState<string>('');
+    const [lotId, setLotId] = useState<string>('');
+    const [openLots, setOpenLots] = useState<StockLot[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!product) return;
+        setType('WASTE');
+        setAmount('');
+        const units = getItemUnits(product.id);
+        setItemUnits(units);
+        setUnit(units.baseUnit);
+        setDirection('OUT');
+        setLocation('');
+        setReason('');
+        setLotCode('');
+        setExpiryDate('');
+        setLotId('');
+        setOpenLots([]);
+        const itemId = product.id;
+        if (itemId != null) {
+            getLots()
+                .then(lots => setOpenLots(getOpenLots(lots, itemId)))
+                .catch(err => console.warn('Could not load lots; outflows are drawn first-expiry-first-out', err));
+        }
+    }, [product]);
+
+    const stock = product?.stockQuantity ?? 0;
+    // Entered in any unit of the item, posted in base units
+    const value = toBaseQuantity(Number(amount.replace(/,/g, '.')), unit, itemUnits);
+    const validAmount = amount.trim() !== '' && Number.isFinite(value) && (type === 'COUNT_CORRECTION' ? value >= 0 : value > 0);
+
+    // Signed change the movement will post
+    const delta = !validAmount ? 0
+        : type === 'COUNT_CORRECTION' ? Math.round((value - stock) * 1000) / 1000
+            : type === 'RECEIVING' || (type === 'TRANSFER' && direction === 'IN') ? value
+                : -value;
+
+    const handleSave = async () => {
+        if (!product || product.id == null) return;
+        const details = type === 'TRANSFER' && location.trim()
+            ? `${direction === 'IN' ? 'From' : 'To'} ${location.trim()}: ${reason.trim()}`
+            : reason;
+        setSaving(true);
+        try {
+            await recordStockMovement({
+                type,
+                itemId: product.id,
+                itemName: product.name,
+                quantity: delta,
+                reason: details,
+                lotCode: type === 'RECEIVING' ? lotCode : undefined,
+                expiryDate: type === 'RECEIVING' ? expiryDate || null : undefined,
+                lotId: delta < 0 && lotId ? lotId : undefined
+            }, stock);
+            onToast(`${STOCK_MOVEMENT_LABELS[type]} of ${delta > 0 ? '+' : ''}${formatQuantity(delta, itemUnits.baseUnit)} posted for "${product.name}"`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not post the stock movement', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={product !== null} onHide={onHide} centered>
+            <Modal.Header closeButton>
+                <Modal.Title><Sliders2 size={18} className="me-2" />ADJUST STOCK</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {product && (
+                    <Form>
+                        <div className="text-muted small mb-3">
+                            {product.name} · current stock <strong className="text-dark">{formatStock(stock, itemUnits)}</strong>
+                        </div>
+                        <Form.Group className="mb-3" controlId="adjType">
+                            <Form.Label>Movement *</Form.Label>
+                            <Form.Select value={type} onChange={e => setType(e.target.value as StockMovementType)}>
+                                {MANUAL_MOVEMENT_TYPES.map(t => <option key={t} value={t}>{STOCK_MOVEMENT_LABELS[t]}</option>)}
+                            </Form.Select>
+                            <Form.Text className="text-muted">{HINTS[type]}</Form.Text>
+                        </Form.Group>
+                        {type === 'TRANSFER' && (
+                            <Row className="g-2 mb-3">
+                                <Col xs={5}>
+                                    <Form.Select value={direction} onChange={e => setDirection(e.target.value as 'IN' | 'OUT')}>
+                                        <option value="OUT">Transfer out</option>
+                                        <option value="IN">Transfer in</option>
+                                    </Form.Select>
+                                </Col>
+                                <Col xs={7}>
+                                    <Form.Control placeholder={direction === 'IN' ? 'From location' : 'To location'} value={location} onChange={e => setLocation(e.target.value)} />
+                                </Col>
+                            </Row>
+                        )}
+                        <Form.Group className="mb-3" controlId="adjAmount">
+                            <Form.Label>{type === 'COUNT_CORRECTION' ? 'Counted quantity *' : 'Quantity *'}</Form.Label>
+                            <Row className="g-2">
+                                <Col xs={8}>
+                                    <Form.Control
+                                        type="text"
+                                        inputMode="decimal"
+                                        value={amount}
+                                        onChange={e => setAmount(e.target.value)}
+                                        isInvalid={amount !== '' && !validAmount}
+                                    />
+                                </Col>
+                                <Col xs={4}>
+                                    <Form.Select value={unit} onChange={e => setUnit(e.target.value)} aria-label="Unit">
+                                        <option value={itemUnits.baseUnit}>{itemUnits.baseUnit}</option>
+                                        {getConversions(itemUnits).map(c => <option key={c.unit} value={c.unit}>{c.unit}</option>)}
+                                    </Form.Select>
+                                </Col>
+                            </Row>
+                            {validAmount && (
+                                <Form.Text className={stock + delta < 0 ? 'text-danger' : 'text-muted'}>
+                                    Change {delta > 0 ? '+' : ''}{formatQuantity(delta, itemUnits.baseUnit)} · stock after: {formatQuantity(Math.round((stock + delta) * 1000) / 1000, itemUnits.baseUnit)}
+                                </Form.Text>
+                            )}
+                        </Form.Group>
+                        {type === 'RECEIVING' && (
+                            <Row className="g-2 mb-3">
+                                <Col xs={6}>
+                                    <Form.Label>Lot code</Form.Label>
+                                    <Form.Control value={lotCode} onChange={e => setLotCode(e.target.value)} placeholder="Optional" />
+                                </Col>
+                                <Col xs={6}>
+                                    <Form.Label>Expiry date</Form.Label>
+                                    <Form.Control type="date" value={expiryDate} onChange={e => setExpiryDate(e.target.value)} />
+                                </Col>
+                            </Row>
+                        )}
+                        {delta < 0 && openLots.length > 0 && (
+                            <Form.Group className="mb-3" controlId="adjLot">
+                                <Form.Label>From lot</Form.Label>
+                                <Form.Select value={lotId} onChange={e => setLotId(e.target.value)}>
+                                    <option value="">First to expire first</option>
+                                    {openLots.map(l => (
+                                        <option key={l.id} value={l.id}>
+                                            {l.lotCode} · {formatQuantity(l.quantityRemaining, itemUnits.baseUnit)} left{l.expiryDate ? ` · expires ${l.expiryDate}` : ''}
+                                        </option>
+                                    ))}
+                                </Form.Select>
+                            </Form.Group>
+                        )}
+                        <Form.Group controlId="adjReason">
+                            <Form.Label>Reason *</Form.Label>
+                            <Form.Control as="textarea" rows={2} value={reason} onChange={e => setReason(e.target.value)} placeholder="What happened?" />
+                        </Form.Group>
+                    </Form>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Cancel
+                </Button>
+                <Button
+                    variant="primary"
+                    onClick={handleSave}
+                    disabled={saving || !validAmount || delta === 0 || !reason.trim() || stock + delta < 0}
+                    style={{ backgroundColor: '#B1E5FF', borderColor: '#B1E5FF', color: '#000' }}
+                >
+                    <Check2Circle size={16} className="me-1" /> Post Movement
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default StockAdjustmentModal;
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button, Table, Badge, Alert, Spinner } from 'react-bootstrap';
+import { ClockHistory, XCircle } from 'react-bootstrap-icons';
+import { getItemMovements, type InventoryProduct } from '../../service/api';
+import {
+    STOCK_MOVEMENT_LABELS,
+    withRunningBalance,
+    type StockMovement,
+    type StockMovementType
+} from '../../service/stockLedger';
+import { getItemUnits } from '../../service/units';
+
+interface StockHistoryModalProps {
+    product: InventoryProduct | null; // null hides the modal
+    onHide: () => void;
+}
+
+const TYPE_COLORS: Record<StockMovementType, string> = {
+    OPENING: 'secondary',
+    RECEIVING: 'success',
+    WASTE: 'danger',
+    SPOILAGE: 'danger',
+    COUNT_CORRECTION: 'warning',
+    TRANSFER: 'info',
+    CONSUMPTION: 'primary'
+};
+
+const formatDateTime = (iso: string): string => new Date(iso).toLocaleString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false
+});
+
+const StockHistoryModal: React.FC<StockHistoryModalProps> = ({ product, onHide }) => {
+    const [movements, setMovements] = useState<StockMovement[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setMovements([]);
+        setLoadError(null);
+        if (product?.id == null) return;
+        setLoading(true);
+        getItemMovements(product.id)
+            .then(setMovements)
+            .catch(err => setLoadError(err instanceof Error ? err.message : 'Could not load the stock history'))
+            .finally(() => setLoading(false));
+    }, [product]);
+
+    // Newest first, with the balance left after each movement
+    const history = useMemo(
+        () => product ? withRunningBalance(movements, product.stockQuantity).reverse() : [],
+        [product, movements]
+    );
+    const unit = getItemUnits(product?.id ?? null).baseUnit;
+
+    return (
+        <Modal show={product !== null} onHide={onHide} size="lg" centered scrollable>
+            <Modal.Header closeButton>
+                <Modal.Title><ClockHistory size={18} className="me-2" />STOCK HISTORY · {product?.name.toUpperCase()}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {loadError && <Alert variant="warning" className="py-2 small">The stock history could not be loaded ({loadError}).</Alert>}
+                <Table size="sm" bordered hover responsive className="mb-0">
+                    <thead>
+                    <tr>
+                        <th style={{ width: '150px' }}>Date</th>
+                        <th style={{ width: '140px' }}>Movement</th>
+                        <th style={{ width: '90px' }}>Change ({unit})</th>
+                        <th style={{ width: '90px' }}>Balance ({unit})</th>
+                        <th>Reason</th>
+                        <th style={{ width: '120px' }}>User</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {loading ? (
+                        <tr><td colSpan={6} className="text-center"><Spinner animation="border" size="sm" /></td></tr>
+                    ) : history.length === 0 ? (
+                        <tr><td colSpan={6} className="text-center text-muted">No movements recorded for this item.</td></tr>
+                    ) : history.map(m => (
+                        <tr key={m.id}>
+                            <td><small>{formatDateTime(m.timestamp)}</small></td>
+                            <td><Badge bg={TYPE_COLORS[m.type]}>{STOCK_MOVEMENT_LABELS[m.type]}</Badge></td>
+                            <td className={m.type === 'OPENING' ? '' : m.quantity < 0 ? 'text-danger' : 'text-success'}>
+                                {m.type !== 'OPENING' && m.quantity > 0 ? '+' : ''}{m.quantity}
+                            </td>
+                            <td>{m.balance}</td>
+                            <td>
+                                <small>{m.reason}</small>
+                                {m.lots && m.lots.length > 0 && (
+                                    <div><small className="text-muted">Lots: {m.lots.map(l => `${l.lotCode} (${l.quantity})`).join(', ')}</small></div>
+                                )}
+                            </td>
+                            <td><small>{m.user}</small></td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </Table>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Close
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default StockHistoryModal;
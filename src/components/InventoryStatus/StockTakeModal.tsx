@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button, Form, Table, Spinner, Alert, Row, Col } from 'react-bootstrap';
+import { ClipboardCheck, XCircle, Check2Circle, Trash } from 'react-bootstrap-icons';
+import {
+    approveStockTake,
+    discardStockTake,
+    getInventoryProducts,
+    getStockTakes,
+    getStorageAreas,
+    saveStockTakeCounts,
+    setStorageArea,
+    startStockTake,
+    type InventoryProduct
+} from '../../service/api';
+import {
+    buildStockTakeLines,
+    groupStockTakeLines,
+    setStockTakeCount,
+    type StockTakeDraft,
+    type StockTakeGrouping,
+    type StockTakeRecord
+} from '../../service/stockTake';
+import { formatQuantity } from '../../service/units';
+
+interface StockTakeModalProps {
+    show: boolean;
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const formatDateTime = (iso: string): string => new Date(iso).toLocaleString('en-US', {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false
+});
+
+const StockTakeModal: React.FC<StockTakeModalProps> = ({ show, onHide, onToast }) => {
+    const [products, setProducts] = useState<InventoryProduct[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [draft, setDraft] = useState<StockTakeDraft | null>(null);
+    const [lastTake, setLastTake] = useState<StockTakeRecord | null>(null);
+    const [areas, setAreas] = useState<Record<number, string>>({});
+    const [grouping, setGrouping] = useState<StockTakeGrouping>('CATEGORY');
+    const [groupFilter, setGroupFilter] = useState<string>('');
+    const [onlyVariances, setOnlyVariances] = useState(false);
+    const [confirming, setConfirming] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!show) return;
+        setDraft(null);
+        setGroupFilter('');
+        setOnlyVariances(false);
+        setConfirming(false);
+        setLoading(true);
+        setLoadError(null);
+        // Continues the count in progress, or starts one
+        const loadCount = getStockTakes().then(async takes => {
+            setLastTake(takes.completed[0] ?? null);
+            setDraft(takes.open ?? await startStockTake());
+        });
+        Promise.all([getInventoryProducts().then(setProducts), getStorageAreas().then(setAreas), loadCount])
+            .catch(err => setLoadError(err instanceof Error ? err.message : 'Could not load the stock take'))
+            .finally(() => setLoading(false));
+    }, [show]);
+
+    const lines = useMemo(() => buildStockTakeLines(products, draft?.counts ?? {}, areas), [products, draft, areas]);
+    const groups = useMemo(() => groupStockTakeLines(lines, grouping), [lines, grouping]);
+    const knownAreas = useMemo(() => [...new Set(Object.values(areas))].sort(), [areas]);
+
+    const visibleGroups = groups
+        .filter(([name]) => !groupFilter || name === groupFilter)
+        .map(([name, list]): [string, typeof list] => [name, onlyVariances ? list.filter(l => l.variance !== 0) : list])
+        .filter(([, list]) => list.length > 0);
+
+    const counted = lines.filter(l => l.counted !== null);
+    const withVariance = counted.filter(l => l.variance !== 0);
+    const netValue = counted.reduce((sum, l) => sum + l.varianceValue, 0);
+    const lossValue = counted.reduce((sum, l) => sum + Math.min(0, l.varianceValue), 0);
+
+    const setCount = (itemId: number, raw: string) => {
+        if (draft) setDraft(setStockTakeCount(draft, itemId, raw));
+    };
+
+    // Counts are sent when a field is left, so the count can be continued elsewhere
+    const saveCounts = () => {
+        if (!draft) return;
+        saveStockTakeCounts(draft).catch(e => onToast(e instanceof Error ? `Counts not saved: ${e.message}` : 'Counts not saved', 'warning'));
+    };
+
+    const updateArea = async (itemId: number, area: string) => {
+        if ((areas[itemId] || '') === area.trim()) return;
+        try {
+            await setStorageArea(itemId, area);
+            setAreas(prev => {
+                const next = { ...prev };
+                if (area.trim()) next[itemId] = area.trim();
+                else delete next[itemId];
+                return next;
+            });
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not save the storage area', 'warning');
+        }
+    };
+
+    const handleDiscard = async () => {
+        if (!draft) return;
+        setSaving(true);
+        try {
+            await discardStockTake(draft);
+            setDraft(await startStockTake());
+            onToast('Stock take discarded; a new count was started', 'info');
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not discard the stock take', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleApprove = async () => {
+        if (!draft) return;
+        setSaving(true);
+        try {
+            const record = await approveStockTake(draft, lines);
+            onToast(`Stock take ${record.id} applied: ${record.adjustments} adjustment(s), net ${formatMoney(record.varianceValue)}`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not apply the stock take', 'danger');
+            setConfirming(false);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onHide} size="xl" centered scrollable backdrop="static">
+            <Modal.Header closeButton>
+                <Modal.Title><ClipboardCheck size={20} className="me-2" />STOCK TAKE</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {draft && (
+                    <div className="d-flex justify-content-between align-items-center small text-muted mb-3">
+                        <span>
+                            Count started {formatDateTime(draft.startedAt)} by {draft.startedBy}. Counts are saved as you go.
+                            {lastTake && ` Last stock take: ${formatDateTime(lastTake.completedAt)} by ${lastTake.user}.`}
+                        </span>
+                        <Button variant="outline-danger" size="sm" onClick={handleDiscard} disabled={saving || counted.length === 0}>
+                            <Trash size={14} className="me-1" /> Discard Counts
+                        </Button>
+                    </div>
+                )}
+                <Row className="g-2 align-items-end mb-3">
+                    <Col md={3}>
+                        <Form.Label className="small mb-1">Group by</Form.Label>
+                        <Form.Select size="sm" value={grouping} onChange={e => { setGrouping(e.target.value as StockTakeGrouping); setGroupFilter(''); }}>
+                            <option value="CATEGORY">Category</option>
+                            <option value="AREA">Storage area</option>
+                        </Form.Select>
+                    </Col>
+                    <Col md={4}>
+                        <Form.Label className="small mb-1">{grouping === 'AREA' ? 'Area' : 'Category'}</Form.Label>
+                        <Form.Select size="sm" value={groupFilter} onChange={e => setGroupFilter(e.target.value)}>
+                            <option value="">All</option>
+                            {groups.map(([name]) => <option key={name} value={name}>{name}</option>)}
+                        </Form.Select>
+                    </Col>
+                    <Col md={5} className="d-flex justify-content-end">
+                        <Form.Check type="switch" id="stockTakeVariances" label="Only items with a variance" checked={onlyVariances} onChange={e => setOnlyVariances(e.target.checked)} />
+                    </Col>
+                </Row>
+                {loadError && <Alert variant="danger" className="py-2 small">Inventory could not be loaded ({loadError}).</Alert>}
+                {loading ? (
+                    <div className="text-center py-4"><Spinner animation="border" size="sm" className="me-2" />Loading inventory...</div>
+                ) : (
+                    <Table size="sm" bordered hover responsive className="mb-0">
+                        <thead>
+                        <tr>
+                            <th>Item</th>
+                            <th style={{ width: '170px' }}>Storage Area</th>
+                            <th style={{ width: '90px' }}>System</th>
+                            <th style={{ width: '120px' }}>Counted</th>
+                            <th style={{ width: '90px' }}>Variance</th>
+                            <th style={{ width: '110px' }}>Value</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {visibleGroups.length === 0 ? (
+                            <tr><td colSpan={6} className="text-center text-muted">No items to count.</td></tr>
+                        ) : visibleGroups.map(([name, list]) => (
+                            <React.Fragment key={name}>
+                                <tr className="table-light">
+                                    <td colSpan={5} className="fw-semibold">{name}</td>
+                                    <td className="fw-semibold">{formatMoney(list.reduce((sum, l) => sum + l.varianceValue, 0))}</td>
+                                </tr>
+                                {list.map(l => (
+                                    <tr key={l.item.id}>
+                                        <td>
+                                            {l.item.name}
+                                            <div><small className="text-muted">{l.item.supplier} · ${l.item.price.toFixed(2)}</small></div>
+                                        </td>
+                                        <td>
+                                            <Form.Control
+                                                key={`${l.item.id}-${areas[l.item.id] ?? ''}`}
+                                                size="sm"
+                                                list="stockTakeAreas"
+                                                placeholder="Unassigned"
+                                                defaultValue={areas[l.item.id] ?? ''}
+                                                onBlur={e => updateArea(l.item.id, e.target.value)}
+                                            />
+                                        </td>
+                                        <td>{formatQuantity(l.system, l.unit)}</td>
+                                        <td>
+                                            <Form.Control
+                                                size="sm"
+                                                type="number"
+                                                min={0}
+                                                step="any"
+                                                value={l.counted ?? ''}
+                                                onChange={e => setCount(l.item.id, e.target.value)}
+                                                onBlur={saveCounts}
+                                            />
+                                        </td>
+                                        <td className={l.variance < 0 ? 'text-danger' : l.variance > 0 ? 'text-success' : ''}>
+                                            {l.counted === null ? '-' : `${l.variance > 0 ? '+' : ''}${formatQuantity(l.variance, l.unit)}`}
+                                        </td>
+                                        <td className={l.varianceValue < 0 ? 'text-danger' : l.varianceValue > 0 ? 'text-success' : ''}>
+                                            {l.counted === null ? '-' : formatMoney(l.varianceValue)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </React.Fragment>
+                        ))}
+                        </tbody>
+                    </Table>
+                )}
+                <datalist id="stockTakeAreas">
+                    {knownAreas.map(a => <option key={a} value={a} />)}
+                </datalist>
+            </Modal.Body>
+            <Modal.Footer className="justify-content-between">
+                <div className="small">
+                    Counted <strong>{counted.length}</strong> of {lines.length} · {withVariance.length} with variance ·
+                    net <strong className={netValue < 0 ? 'text-danger' : ''}>{formatMoney(netValue)}</strong>
+                    {lossValue < 0 && <> · losses <span className="text-danger">{formatMoney(lossValue)}</span></>}
+                </div>
+                {confirming ? (
+                    <div className="d-flex align-items-center gap-2">
+                        <span className="small">Post {withVariance.length} count correction(s) to the stock ledger?</span>
+                        <Button variant="secondary" size="sm" onClick={() => setConfirming(false)}>
+                            <XCircle size={14} className="me-1" /> Back
+                        </Button>
+                        <Button size="sm" onClick={handleApprove} disabled={saving} style={{ backgroundColor: '#B1E5FF', borderColor: '#B1E5FF', color: '#000' }}>
+                            <Check2Circle size={14} className="me-1" /> Confirm
+                        </Button>
+                    </div>
+                ) : (
+                    <div className="d-flex gap-2">
+                        <Button variant="secondary" onClick={onHide}>
+                            <XCircle size={16} className="me-1" /> Close
+                        </Button>
+                        <Button
+                            variant="primary"
+                            onClick={() => setConfirming(true)}
+                            disabled={counted.length === 0 || loading}
+                            style={{ backgroundColor: '#B1E5FF', borderColor: '#B1E5FF', color: '#000' }}
+                        >
+                            <Check2Circle size={16} className="me-1" /> Approve &amp; Apply
+                        </Button>
+                    </div>
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default StockTakeModal;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Table, Row, Col } from 'react-bootstrap';
+import { Rulers, XCircle, Check2Circle, Plus, Trash } from 'react-bootstrap-icons';
+import { saveItemUnits, type InventoryProduct } from '../../service/api';
+import {
+    BASE_UNITS,
+    formatStock,
+    getItemUnits,
+    STANDARD_CONVERSIONS,
+    type BaseUnit
+} from '../../service/units';
+
+interface UnitsModalProps {
+    product: InventoryProduct | null; // null hides the modal
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+interface ConversionDraft {
+    unit: string;
+    factor: string;
+}
+
+const UnitsModal: React.FC<UnitsModalProps> = ({ product, onHide, onToast }) => {
+    const [baseUnit, setBaseUnit] = useState<BaseUnit>('unit');
+    const [conversions, setConversions] = useState<ConversionDraft[]>([]);
+    const [purchaseUnit, setPurchaseUnit] = useState<string>('');
+    const [priceUnit, setPriceUnit] = useState<string>('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!product) return;
+        const units = getItemUnits(product.id);
+        setBaseUnit(units.baseUnit);
+        setConversions(units.conversions.map(c => ({ unit: c.unit, factor: String(c.factor) })));
+        setPurchaseUnit(units.purchaseUnit ?? '');
+        setPriceUnit(units.priceUnit ?? '');
+    }, [product]);
+
+    const updateConversion = (index: number, field: keyof ConversionDraft, value: string) =>
+        setConversions(prev => prev.map((c, i) => i === index ? { ...c, [field]: value } : c));
+
+    const purchaseOptions = [
+        ...STANDARD_CONVERSIONS[baseUnit].map(c => c.unit),
+        ...conversions.map(c => c.unit.trim().toLowerCase()).filter(Boolean)
+    ];
+
+    const handleSave = async () => {
+        if (!product || product.id == null) return;
+        setSaving(true);
+        try {
+            const saved = await saveItemUnits({
+                itemId: product.id,
+                baseUnit,
+                conversions: conversions.map(c => ({ unit: c.unit, factor: Number(c.factor.replace(/,/g, '.')) })),
+                purchaseUnit: purchaseOptions.includes(purchaseUnit) ? purchaseUnit : null,
+                priceUnit: purchaseOptions.includes(priceUnit) ? priceUnit : null
+            });
+            onToast(`Units saved for "${product.name}": stock ${formatStock(product.stockQuantity, saved)}`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not save the units', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={product !== null} onHide={onHide} centered>
+            <Modal.Header closeButton>
+                <Modal.Title><Rulers size={18} className="me-2" />UNITS OF MEASURE</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {product && (
+                    <Form>
+                        <div className="text-muted small mb-3">{product.name}</div>
+                        <Row className="g-2 mb-3">
+                            <Col xs={6}>
+                                <Form.Label>Base unit *</Form.Label>
+                                <Form.Select value={baseUnit} onChange={e => setBaseUnit(e.target.value as BaseUnit)}>
+                                    {BASE_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                                </Form.Select>
+                                <Form.Text className="text-muted">Stock, recipes and counts use this unit.</Form.Text>
+                            </Col>
+                            <Col xs={6}>
+                                <Form.Label>Purchase unit</Form.Label>
+                                <Form.Select value={purchaseUnit} onChange={e => setPurchaseUnit(e.target.value)}>
+                                    <option value="">{baseUnit}</option>
+                                    {purchaseOptions.map(u => <option key={u} value={u}>{u}</option>)}
+                                </Form.Select>
+                                <Form.Text className="text-muted">Supplier orders use this unit.</Form.Text>
+                            </Col>
+                            <Col xs={6}>
+                                <Form.Label>Price per</Form.Label>
+                                <Form.Select value={priceUnit} onChange={e => setPriceUnit(e.target.value)}>
+                                    <option value="">{baseUnit}</option>
+                                    {purchaseOptions.map(u => <option key={u} value={u}>{u}</option>)}
+                                </Form.Select>
+                                <Form.Text className="text-muted">The item price (${product.price.toFixed(2)}) is for one {priceUnit || baseUnit}.</Form.Text>
+                            </Col>
+                        </Row>
+                        <Form.Label>Conversions</Form.Label>
+                        <Table size="sm" bordered className="mb-2">
+                            <thead>
+                            <tr>
+                                <th>Unit</th>
+                                <th style={{ width: '150px' }}>{baseUnit} per unit</th>
+                                <th style={{ width: '50px' }}></th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {STANDARD_CONVERSIONS[baseUnit].map(c => (
+                                <tr key={c.unit} className="text-muted">
+                                    <td>{c.unit} <small>(standard)</small></td>
+                                    <td>{c.factor}</td>
+                                    <td></td>
+                                </tr>
+                            ))}
+                            {conversions.map((c, i) => (
+                                <tr key={i}>
+                                    <td><Form.Control size="sm" placeholder="case, box, bag..." value={c.unit} onChange={e => updateConversion(i, 'unit', e.target.value)} /></td>
+                                    <td><Form.Control size="sm" type="text" inputMode="decimal" value={c.factor} onChange={e => updateConversion(i, 'factor', e.target.value)} /></td>
+                                    <td className="text-center">
+                                        <Button variant="outline-danger" size="sm" onClick={() => setConversions(prev => prev.filter((_, j) => j !== i))}>
+                                            <Trash size={14} />
+                                        </Button>
+                                    </td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </Table>
+                        <Button variant="outline-secondary" size="sm" onClick={() => setConversions(prev => [...prev, { unit: '', factor: '' }])}>
+                            <Plus size={16} className="me-1" /> Add Unit
+                        </Button>
+                    </Form>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Cancel
+                </Button>
+                <Button variant="primary" onClick={handleSave} disabled={saving} style={{ backgroundColor: '#B1E5FF', borderColor: '#B1E5FF', color: '#000' }}>
+                    <Check2Circle size={16} className="me-1" /> Save Units
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default UnitsModal;
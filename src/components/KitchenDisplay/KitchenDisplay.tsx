@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Container, Row, Col, Button, Spinner, Alert, Badge } from 'react-bootstrap';
+import { ArrowClockwise, ArrowsFullscreen, FullscreenExit, Clock, Fire } from 'react-bootstrap-icons';
+import KitchenTicket, { type KitchenTicketData } from './KitchenTicket';
+import { getOrdersByStatus, updateOrderStatus, parseOrderBillItems, subscribeToOrderUpdates, type OrderData } from '../../service/api';
+
+interface KitchenDisplayProps {
+    onToast: (msg: string, type?: string) => void;
+}
+
+const LS_THRESHOLDS_KEY = 'order_notif_thresholds';
+const DEFAULT_WARNING_MIN = 15;
+const DEFAULT_LATE_MIN = 30;
+
+// Reuse the thresholds configured in OrderNotifications so colors match the alerts
+const loadThresholds = (): { warningMin: number; lateMin: number } => {
+    try {
+        const raw = localStorage.getItem(LS_THRESHOLDS_KEY);
+        if (raw) {
+            const parsed = JSON.parse(raw);
+            return {
+                warningMin: Number(parsed.pendingWarningMin) || DEFAULT_WARNING_MIN,
+                lateMin: Number(parsed.pendingUrgentMin) || DEFAULT_LATE_MIN
+            };
+        }
+    } catch { /* ignore */ }
+    return { warningMin: DEFAULT_WARNING_MIN, lateMin: DEFAULT_LATE_MIN };
+};
+
+const loadNotes = (): Record<string, string> => {
+    try {
+        const raw = localStorage.getItem('order_notes');
+        return raw ? JSON.parse(raw) as Record<string, string> : {};
+    } catch {
+        return {};
+    }
+};
+
+const KitchenDisplay: React.FC<KitchenDisplayProps> = ({ onToast }) => {
+    const [tickets, setTickets] = useState<KitchenTicketData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [now, setNow] = useState<number>(Date.now());
+    const [busyIds, setBusyIds] = useState<Set<number>>(new Set());
+    const [isFullscreen, setIsFullscreen] = useState(false);
+    const [thresholds] = useState(loadThresholds);
+    const boardRef = useRef<HTMLDivElement | null>(null);
+    // First time an order was seen, for orders without a usable backend timestamp
+    const firstSeenRef = useRef<Record<number, number>>({});
+    const isFetchingRef = useRef(false);
+
+    const resolveStartedAt = (order: OrderData, id: number): number => {
+        if (order.orderDate) {
+            const t = new Date(order.orderDate).getTime();
+            if (!isNaN(t) && order.orderDate.length > 10) return t;
+        }
+        if (!firstSeenRef.current[id]) firstSeenRef.current[id] = Date.now();
+        return firstSeenRef.current[id];
+    };
+
+    const loadTickets = useCallback(async () => {
+        if (isFetchingRef.current) return;
+        isFetchingRef.current = true;
+        try {
+            setError(null);
+            const [pending, inProgress] = await Promise.all([
+                getOrdersByStatus('PENDING'),
+                getOrdersByStatus('IN_PROGRESS')
+            ]);
+            const notes = loadNotes();
+            const mapped: KitchenTicketData[] = [...pending.data, ...inProgress.data]
+                .filter(o => o.id != null && (o.status === 'PENDING' || o.status === 'IN_PROGRESS'))
+                .map(o => {
+                    const id = o.id as number;
+                    return {
+                        id,
+                        code: o.code || `ORD-${id}`,
+                        status: o.status as 'PENDING' | 'IN_PROGRESS',
+                        table: o.table,
+                        items: parseOrderBillItems(o.orderBill || '[]'),
+                        notes: notes[String(id)],
+                        startedAt: resolveStartedAt(o, id)
+                    };
+                })
+                .sort((a, b) => a.startedAt - b.startedAt);
+            setTickets(mapped);
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Error loading kitchen orders';
+            setError(msg);
+        } finally {
+            setLoading(false);
+            isFetchingRef.current = false;
+        }
+    }, []);
+
+    useEffect(() => {
+        loadTickets();
+        // Any pushed change can add, move or remove a ticket, so refetch both queues
+        const unsubscribe = subscribeToOrderUpdates(() => { loadTickets(); });
+        const clockId = setInterval(() => setNow(Date.now()), 1000);
+        // React immediately to orders created or updated elsewhere in the app
+        const handleOrderEvent = () => { loadTickets(); };
+        window.addEventListener('order-created', handleOrderEvent);
+        window.addEventListener('order-status-changed', handleOrderEvent);
+        window.addEventListener('order-updated', handleOrderEvent);
+        return () => {
+            unsubscribe();
+            clearInterval(clockId);
+            window.removeEventListener('order-created', handleOrderEvent);
+            window.removeEventListener('order-status-changed', handleOrderEvent);
+            window.removeEventListener('order-updated', handleOrderEvent);
+        };
+    }, [loadTickets]);
+
+    useEffect(() => {
+        const handleChange = () => setIsFullscreen(document.fullscreenElement === boardRef.current);
+        document.addEventListener('fullscreenchange', handleChange);
+        return () => document.removeEventListener('fullscreenchange', handleChange);
+    }, []);
+
+    const toggleFullscreen = async () => {
+        try {
+            if (document.fullscreenElement) await document.exitFullscreen();
+            else await boardRef.current?.requestFullscreen();
+        } catch {
+            onToast('Full screen is not available in this browser', 'warning');
+        }
+    };
+
+    const changeStatus = async (ticket: KitchenTicketData, newStatus: 'IN_PROGRESS' | 'READY') => {
+        setBusyIds(prev => new Set(prev).add(ticket.id));
+        try {
+            await updateOrderStatus(ticket.id, newStatus, ticket.status);
+            const english = newStatus === 'READY' ? 'Ready' : 'In Progress';
+            if (newStatus === 'READY') {
+                setTickets(prev => prev.filter(t => t.id !== ticket.id));
+            } else {
+                setTickets(prev => prev.map(t => t.id === ticket.id ? { ...t, status: 'IN_PROGRESS' } : t));
+            }
+            try {
+                window.dispatchEvent(new CustomEvent('order-status-changed', {
+                    detail: {
+                        id: ticket.id,
+                        code: ticket.code,
+                        previousStatus: ticket.status === 'PENDING' ? 'Pending' : 'In Progress',
+                        newStatus: english,
+                        timestamp: Date.now()
+                    }
+                }));
+            } catch { /* noop */ }
+            onToast(`Order ${ticket.code} updated to ${english}`, 'success');
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : `Error updating order ${ticket.code}`;
+            onToast(msg, 'danger');
+        } finally {
+            setBusyIds(prev => {
+                const next = new Set(prev);
+                next.delete(ticket.id);
+                return next;
+            });
+        }
+    };
+
+    const pendingCount = tickets.filter(t => t.status === 'PENDING').length;
+    const inProgressCount = tickets.length - pendingCount;
+
+    return (
+        <div ref={boardRef} className="d-flex flex-column kitchen-board" style={{ backgroundColor: 'white', minHeight: '100%', overflowY: 'auto' }}>
+            <Container fluid className="py-4">
+                <div className="p-3 border rounded-4 shadow">
+                    <div className="d-flex justify-content-between align-items-center mb-4 flex-wrap gap-2">
+                        <div>
+                            <h2 className="mb-1 rounded-heading d-flex align-items-center"><Fire size={24} className="me-2" />KITCHEN DISPLAY</h2>
+                            <small className="text-muted"><Clock size={14} className="me-1" />{new Date(now).toLocaleTimeString()}</small>
+                        </div>
+                        <div className="d-flex gap-2 align-items-center">
+                            <Badge bg="light" text="dark" className="border fs-6">Pending: {pendingCount}</Badge>
+                            <Badge bg="light" text="dark" className="border fs-6">In Progress: {inProgressCount}</Badge>
+                            <Button variant="outline-secondary" size="sm" onClick={() => loadTickets()}>
+                                <ArrowClockwise size={16} className="me-1" /> Refresh
+                            </Button>
+                            <Button variant="outline-dark" size="sm" onClick={toggleFullscreen}>
+                                {isFullscreen
+                                    ? <><FullscreenExit size={16} className="me-1" /> Exit Full Screen</>
+                                    : <><ArrowsFullscreen size={16} className="me-1" /> Full Screen</>}
+                            </Button>
+                        </div>
+                    </div>
+
+                    {error && (
+                        <Alert variant="danger" className="d-flex justify-content-between align-items-center">
+                            <span>{error}</span>
+                            <Button variant="outline-danger" size="sm" onClick={() => loadTickets()}>Retry</Button>
+                        </Alert>
+                    )}
+
+                    {loading ? (
+                        <div className="p-5 text-center">
+                            <Spinner animation="border" variant="primary" />
+                            <div className="mt-2 text-muted">Loading kitchen orders...</div>
+                        </div>
+                    ) : tickets.length === 0 ? (
+                        <div className="text-center text-muted py-5">
+                            <Fire size={32} className="mb-2 opacity-50" />
+                            <div className="fw-semibold">No orders waiting</div>
+                            <small>New orders appear here automatically</small>
+                        </div>
+                    ) : (
+                        <Row className="g-3">
+                            {tickets.map(t => (
+                                <Col key={t.id} xs={12} sm={6} lg={4} xxl={3}>
+                                    <KitchenTicket
+                                        ticket={t}
+                                        now={now}
+                                        warningMin={thresholds.warningMin}
+                                        lateMin={thresholds.lateMin}
+                                        busy={busyIds.has(t.id)}
+                                        onAdvance={tk => changeStatus(tk, tk.status === 'PENDING' ? 'IN_PROGRESS' : 'READY')}
+                                    />
+                                </Col>
+                            ))}
+                        </Row>
+                    )}
+                </div>
+            </Container>
+        </div>
+    );
+};
+
+export default KitchenDisplay;
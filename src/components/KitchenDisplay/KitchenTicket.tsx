@@ -0,0 +1,100 @@
+import React from 'react';
+import { Card, Button, Spinner } from 'react-bootstrap';
+import { Stopwatch, CheckCircle, PlayFill } from 'react-bootstrap-icons';
+import type { OrderComponentData } from '../../service/api';
+import { getNextOrderStatus } from '../../service/orderLifecycle';
+
+export interface KitchenTicketData {
+    id: number;
+    code: string;
+    status: 'PENDING' | 'IN_PROGRESS';
+    table: string;
+    items: OrderComponentData[];
+    notes?: string;
+    startedAt: number; // epoch ms used for the elapsed timer
+}
+
+interface KitchenTicketProps {
+    ticket: KitchenTicketData;
+    now: number;
+    warningMin: number;
+    lateMin: number;
+    busy: boolean;
+    onAdvance: (ticket: KitchenTicketData) => void; // pending tickets are started, started ones bumped to ready
+}
+
+const formatElapsed = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const KitchenTicket: React.FC<KitchenTicketProps> = ({ ticket, now, warningMin, lateMin, busy, onAdvance }) => {
+    const elapsedMs = now - ticket.startedAt;
+    const elapsedMin = elapsedMs / 60000;
+    // Header color escalates with waiting time (same thresholds as order notifications)
+    const headerStyle: React.CSSProperties = elapsedMin >= lateMin
+        ? { backgroundColor: '#F8D7DA', borderBottom: '2px solid #EA868F' }
+        : elapsedMin >= warningMin
+            ? { backgroundColor: '#FFE4B5', borderBottom: '2px solid #DEB887' }
+            : { backgroundColor: '#D1FFD7', borderBottom: '2px solid #A3C6B0' };
+
+    // Group repeated products into a single line
+    const lines = ticket.items.reduce<{ name: string; quantity: number }[]>((acc, it) => {
+        const name = it.productName || `Item ${it.id}`;
+        const qty = typeof it.quantity === 'number' ? it.quantity : 1;
+        const existing = acc.find(l => l.name.toLowerCase() === name.toLowerCase());
+        if (existing) existing.quantity += qty; else acc.push({ name, quantity: qty });
+        return acc;
+    }, []);
+
+    // Ready is only reachable from In Progress, so a pending ticket has to be started first
+    const bumps = getNextOrderStatus(ticket.status) === 'READY';
+
+    return (
+        <Card className="shadow-sm h-100 kitchen-ticket">
+            <Card.Header className="d-flex justify-content-between align-items-center" style={headerStyle}>
+                <div>
+                    <div className="fw-bold fs-5">{ticket.code}</div>
+                    <small>{ticket.table !== 'N/A' ? `Table ${ticket.table}` : 'Takeout'}</small>
+                </div>
+                <div className="text-end">
+                    <div className="fw-bold fs-5 d-flex align-items-center"><Stopwatch size={18} className="me-1" />{formatElapsed(elapsedMs)}</div>
+                    <small>{ticket.status === 'PENDING' ? 'Pending' : 'In Progress'}</small>
+                </div>
+            </Card.Header>
+            <Card.Body className="d-flex flex-column">
+                {lines.length === 0 ? (
+                    <div className="text-muted fst-italic">No items parsed</div>
+                ) : (
+                    <ul className="list-unstyled mb-2 flex-grow-1">
+                        {lines.map(l => (
+                            <li key={l.name} className="d-flex justify-content-between border-bottom py-1 fs-6">
+                                <span className="fw-semibold">{l.name}</span>
+                                <span className="fw-bold">x{l.quantity}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {ticket.notes && (
+                    <div className="small bg-light border rounded p-2 mb-2" style={{ whiteSpace: 'pre-wrap' }}>{ticket.notes}</div>
+                )}
+                <div className="d-grid gap-2 mt-auto">
+                    <Button
+                        size="lg"
+                        onClick={() => onAdvance(ticket)}
+                        disabled={busy}
+                        style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                    >
+                        {busy ? <Spinner as="span" animation="border" size="sm" />
+                            : bumps ? <><CheckCircle size={18} className="me-2" />Bump to Ready</>
+                                : <><PlayFill size={18} className="me-2" />Start</>}
+                    </Button>
+                </div>
+            </Card.Body>
+        </Card>
+    );
+};
+
+export default KitchenTicket;
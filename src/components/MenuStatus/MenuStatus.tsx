@@ -0,0 +1,340 @@
+import React, { useEffect, useState } from 'react';
+import { Container, Button, Modal, Form, Row, Col, InputGroup, Table, Alert } from 'react-bootstrap';
+import { Clock, PlusCircle, Journal, Search, Plus, Trash, XCircle, Check2Circle } from 'react-bootstrap-icons';
+import MenuTable from './MenuTable';
+import RecipeModal from './RecipeModal';
+import type { Recipe } from '../../service/recipes';
+import { getItemUnitDefinitions, getMenuItems, getRecipes, saveMenuItem, setMenuItemActive } from '../../service/api';
+import {
+    getMenuCatalog,
+    getComboListPrice,
+    MENU_UPDATED_EVENT,
+    type MenuItem,
+    type MenuItemType,
+    type ComboComponent
+} from '../../service/menu';
+
+interface MenuStatusProps {
+    onToast: (msg: string, type?: string) => void;
+}
+
+interface MenuForm {
+    id: number | null;
+    name: string;
+    description: string;
+    type: MenuItemType;
+    price: string;
+    components: ComboComponent[];
+}
+
+const EMPTY_FORM: MenuForm = { id: null, name: '', description: '', type: 'PRODUCT', price: '', components: [] };
+
+const MenuStatus: React.FC<MenuStatusProps> = ({ onToast }) => {
+    const [currentTime, setCurrentTime] = useState<Date>(new Date());
+    const [items, setItems] = useState<MenuItem[]>(() => getMenuCatalog());
+    const [searchTerm, setSearchTerm] = useState<string>('');
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const [showModal, setShowModal] = useState(false);
+    const [form, setForm] = useState<MenuForm>(EMPTY_FORM);
+    const [componentProductId, setComponentProductId] = useState<string>('');
+    const [componentQuantity, setComponentQuantity] = useState<number>(1);
+
+    const [itemToToggle, setItemToToggle] = useState<MenuItem | null>(null);
+    const [recipes, setRecipes] = useState<Recipe[]>([]);
+    const [recipesError, setRecipesError] = useState<string | null>(null);
+    const [recipeProduct, setRecipeProduct] = useState<MenuItem | null>(null);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setCurrentTime(new Date()), 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    useEffect(() => {
+        getMenuItems().catch(e => {
+            const msg = e instanceof Error ? e.message : 'Unknown error';
+            setLoadError(`The menu could not be loaded (${msg}). The list below may be out of date.`);
+        });
+        getRecipes().then(setRecipes).catch(e => {
+            const msg = e instanceof Error ? e.message : 'Unknown error';
+            setRecipesError(`Recipes could not be loaded (${msg}).`);
+        });
+        getItemUnitDefinitions().catch(e => console.warn('Could not load item units, recipes show base quantities as plain units', e));
+    }, []);
+
+    useEffect(() => {
+        const reload = () => {
+            setItems(getMenuCatalog());
+        };
+        window.addEventListener(MENU_UPDATED_EVENT, reload);
+        window.addEventListener('storage', reload);
+        return () => {
+            window.removeEventListener(MENU_UPDATED_EVENT, reload);
+            window.removeEventListener('storage', reload);
+        };
+    }, []);
+
+    const products = items.filter(i => i.type === 'PRODUCT' && i.active);
+    const priceNormalized = form.price.replace(/,/g, '.');
+    const priceValid = /^\d+(\.\d{0,2})?$/.test(priceNormalized);
+    const comboListPrice = form.type === 'COMBO' ? getComboListPrice(form.components, items) : 0;
+
+    const openCreateModal = () => {
+        setForm(EMPTY_FORM);
+        setComponentProductId('');
+        setComponentQuantity(1);
+        setShowModal(true);
+    };
+
+    const openEditModal = (item: MenuItem) => {
+        setForm({
+            id: item.id,
+            name: item.name,
+            description: item.description || '',
+            type: item.type,
+            price: item.price.toFixed(2),
+            components: item.components ? item.components.map(c => ({ ...c })) : []
+        });
+        setComponentProductId('');
+        setComponentQuantity(1);
+        setShowModal(true);
+    };
+
+    const addComponent = () => {
+        const productId = Number(componentProductId);
+        if (!productId) return;
+        setForm(f => {
+            const idx = f.components.findIndex(c => c.productId === productId);
+            const components = idx >= 0
+                ? f.components.map((c, i) => i === idx ? { ...c, quantity: c.quantity + componentQuantity } : c)
+                : [...f.components, { productId, quantity: componentQuantity }];
+            return { ...f, components };
+        });
+        setComponentProductId('');
+        setComponentQuantity(1);
+    };
+
+    const removeComponent = (productId: number) => {
+        setForm(f => ({ ...f, components: f.components.filter(c => c.productId !== productId) }));
+    };
+
+    const handleSave = async () => {
+        if (!priceValid) { onToast('Enter a valid price', 'error'); return; }
+        try {
+            const existing = items.find(i => i.id === form.id);
+            const saved = await saveMenuItem({
+                id: form.id,
+                name: form.name,
+                description: form.description.trim() || undefined,
+                type: form.type,
+                price: Number(priceNormalized),
+                active: existing ? existing.active : true,
+                components: form.components
+            });
+            onToast(form.id == null ? `"${saved.name}" added to the menu` : `"${saved.name}" updated`, 'success');
+            setShowModal(false);
+        } catch (e) {
+            const msg = e instanceof Error ? e.message : 'Could not save menu item';
+            onToast(msg, 'error');
+        }
+    };
+
+    const confirmToggleActive = async () => {
+        if (!itemToToggle) return;
+        try {
+            const updated = await setMenuItemActive(itemToToggle.id, !itemToToggle.active);
+            onToast(`"${updated.name}" ${updated.active ? 'reactivated' : 'deactivated'}`, updated.active ? 'success' : 'warning');
+            // Deactivating a product leaves combos that contain it unsellable
+            if (!updated.active && updated.type === 'PRODUCT') {
+                const affected = items.filter(i => i.type === 'COMBO' && i.active && i.components?.some(c => c.productId === updated.id));
+                if (affected.length > 0) {
+                    onToast(`Review combos that include "${updated.name}": ${affected.map(a => a.name).join(', ')}`, 'warning');
+                }
+            }
+        } catch (e) {
+            const msg = e instanceof Error ? e.message : 'Could not update menu item';
+            onToast(msg, 'error');
+        } finally {
+            setItemToToggle(null);
+        }
+    };
+
+    const isSaveDisabled = !form.name.trim() || !priceValid || (form.type === 'COMBO' && form.components.length === 0);
+
+    return (
+        <div className="d-flex flex-column" style={{ backgroundColor: 'white' }}>
+            <Container fluid className="py-4">
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    <div className="d-flex justify-content-between align-items-center mb-4">
+                        <div>
+                            <h2 className="mb-1 rounded-heading">MENU</h2>
+                            <small className="text-muted"><Clock size={14} className="me-1" />{currentTime.toLocaleTimeString()}</small>
+                        </div>
+                        <div className="d-flex gap-2 align-items-center">
+                            <InputGroup size="sm" style={{ width: 240 }}>
+                                <InputGroup.Text><Search size={14} /></InputGroup.Text>
+                                <Form.Control
+                                    placeholder="Search menu..."
+                                    value={searchTerm}
+                                    onChange={e => setSearchTerm(e.target.value)}
+                                />
+                            </InputGroup>
+                            <Button variant="primary" onClick={openCreateModal} className="d-flex align-items-center" style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                                <PlusCircle size={18} className="me-2" />Create Item
+                            </Button>
+                        </div>
+                    </div>
+                    {loadError && <Alert variant="warning" className="py-2 small">{loadError}</Alert>}
+                    {recipesError && <Alert variant="warning" className="py-2 small">{recipesError}</Alert>}
+                    <MenuTable
+                        items={items}
+                        searchTerm={searchTerm}
+                        onEdit={openEditModal}
+                        onToggleActive={setItemToToggle}
+                        recipes={recipes}
+                        onEditRecipe={setRecipeProduct}
+                    />
+                </div>
+            </Container>
+
+            {/* Create / Edit modal */}
+            <Modal show={showModal} onHide={() => setShowModal(false)} size="lg" centered>
+                <Modal.Header closeButton>
+                    <Modal.Title><Journal size={20} className="me-2" />{form.id == null ? 'CREATE MENU ITEM' : `EDIT MENU ITEM #${form.id}`}</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    <Form>
+                        <Row className="g-3">
+                            <Col md={8}>
+                                <Form.Group controlId="menuName">
+                                    <Form.Label>Name *</Form.Label>
+                                    <Form.Control value={form.name} onChange={e => setForm(f => ({ ...f, name: e.target.value }))} placeholder="e.g. Cheeseburger" />
+                                </Form.Group>
+                            </Col>
+                            <Col md={4}>
+                                <Form.Group controlId="menuType">
+                                    <Form.Label>Type *</Form.Label>
+                                    <Form.Select
+                                        value={form.type}
+                                        onChange={e => setForm(f => ({ ...f, type: e.target.value as MenuItemType }))}
+                                        disabled={form.id != null}
+                                    >
+                                        <option value="PRODUCT">Product</option>
+                                        <option value="COMBO">Combo</option>
+                                    </Form.Select>
+                                </Form.Group>
+                            </Col>
+                            <Col md={8}>
+                                <Form.Group controlId="menuDescription">
+                                    <Form.Label>Description</Form.Label>
+                                    <Form.Control value={form.description} onChange={e => setForm(f => ({ ...f, description: e.target.value }))} placeholder="Optional" />
+                                </Form.Group>
+                            </Col>
+                            <Col md={4}>
+                                <Form.Group controlId="menuPrice">
+                                    <Form.Label>Price *</Form.Label>
+                                    <Form.Control
+                                        type="text"
+                                        inputMode="decimal"
+                                        placeholder="e.g. 8.50"
+                                        value={form.price}
+                                        onChange={e => setForm(f => ({ ...f, price: e.target.value }))}
+                                        isInvalid={form.price !== '' && !priceValid}
+                                    />
+                                    <Form.Control.Feedback type="invalid">Use 12.34 or 12,34 (max 2 decimals).</Form.Control.Feedback>
+                                </Form.Group>
+                            </Col>
+                        </Row>
+
+                        {form.type === 'COMBO' && (
+                            <div className="mt-4">
+                                <h6 className="mb-2">Combo contents *</h6>
+                                <Row className="g-2 align-items-end">
+                                    <Col md={7}>
+                                        <Form.Select value={componentProductId} onChange={e => setComponentProductId(e.target.value)}>
+                                            <option value="">Select product</option>
+                                            {products.map(p => <option key={p.id} value={p.id}>{p.name} - ${p.price.toFixed(2)}</option>)}
+                                        </Form.Select>
+                                    </Col>
+                                    <Col md={3}>
+                                        <Form.Control type="number" min={1} value={componentQuantity} onChange={e => setComponentQuantity(Math.max(1, Number(e.target.value) || 1))} />
+                                    </Col>
+                                    <Col md={2} className="d-grid">
+                                        <Button variant="outline-primary" onClick={addComponent} disabled={!componentProductId}>
+                                            <Plus size={16} /> Add
+                                        </Button>
+                                    </Col>
+                                </Row>
+                                <Table size="sm" bordered className="mt-3 mb-2">
+                                    <thead>
+                                    <tr>
+                                        <th>Product</th>
+                                        <th style={{ width: '100px' }}>Quantity</th>
+                                        <th style={{ width: '60px' }}></th>
+                                    </tr>
+                                    </thead>
+                                    <tbody>
+                                    {form.components.length === 0 ? (
+                                        <tr><td colSpan={3} className="text-center text-muted">No products in this combo yet.</td></tr>
+                                    ) : form.components.map(c => (
+                                        <tr key={c.productId}>
+                                            <td>{items.find(i => i.id === c.productId)?.name || `Product ${c.productId}`}</td>
+                                            <td>{c.quantity}</td>
+                                            <td className="text-center">
+                                                <Button variant="outline-danger" size="sm" onClick={() => removeComponent(c.productId)}><Trash size={14} /></Button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    </tbody>
+                                </Table>
+                                <Form.Text className="text-muted">
+                                    Products bought separately: ${comboListPrice.toFixed(2)}. Combos are expanded into their products when an order is created.
+                                </Form.Text>
+                            </div>
+                        )}
+                    </Form>
+                </Modal.Body>
+                <Modal.Footer>
+                    <Button variant="secondary" onClick={() => setShowModal(false)}>
+                        <XCircle size={16} className="me-1" /> Cancel
+                    </Button>
+                    <Button variant="primary" onClick={handleSave} disabled={isSaveDisabled} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                        <Check2Circle size={16} className="me-1" /> {form.id == null ? 'Create Item' : 'Save Changes'}
+                    </Button>
+                </Modal.Footer>
+            </Modal>
+
+            <RecipeModal
+                product={recipeProduct}
+                recipe={recipes.find(r => r.productId === recipeProduct?.id)}
+                onHide={() => setRecipeProduct(null)}
+                onSaved={(productId, saved) => setRecipes(prev => [...prev.filter(r => r.productId !== productId), ...(saved ? [saved] : [])])}
+                onToast={onToast}
+            />
+
+            {/* Deactivate / reactivate confirmation */}
+            <Modal show={itemToToggle !== null} onHide={() => setItemToToggle(null)} centered>
+                <Modal.Header closeButton>
+                    <Modal.Title>{itemToToggle?.active ? 'DEACTIVATE ITEM' : 'REACTIVATE ITEM'}</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    {itemToToggle && (
+                        <p className="mb-0">
+                            {itemToToggle.active
+                                ? <>"{itemToToggle.name}" will no longer be offered when creating orders.</>
+                                : <>"{itemToToggle.name}" will be offered again when creating orders.</>}
+                        </p>
+                    )}
+                </Modal.Body>
+                <Modal.Footer>
+                    <Button variant="secondary" onClick={() => setItemToToggle(null)}>Cancel</Button>
+                    <Button variant={itemToToggle?.active ? 'danger' : 'primary'} onClick={confirmToggleActive}>
+                        {itemToToggle?.active ? 'Deactivate' : 'Reactivate'}
+                    </Button>
+                </Modal.Footer>
+            </Modal>
+        </div>
+    );
+};
+
+export default MenuStatus;
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Table, Dropdown, Button, Badge } from 'react-bootstrap';
+import { ThreeDots, PencilSquare, EyeSlash, Eye, CardChecklist } from 'react-bootstrap-icons';
+import type { MenuItem } from '../../service/menu';
+import type { Recipe } from '../../service/recipes';
+import { formatQuantity, getAllItemUnits, getItemUnits, ITEM_UNITS_EVENT, type ItemUnits } from '../../service/units';
+
+interface MenuTableProps {
+    items: MenuItem[];
+    searchTerm: string;
+    onEdit: (item: MenuItem) => void;
+    onToggleActive: (item: MenuItem) => void;
+    recipes: Recipe[];
+    onEditRecipe: (item: MenuItem) => void;
+}
+
+const MenuTable: React.FC<MenuTableProps> = ({ items, searchTerm, onEdit, onToggleActive, recipes, onEditRecipe }) => {
+    const [typeFilter, setTypeFilter] = useState<'ALL' | 'PRODUCT' | 'COMBO'>('ALL');
+    const [showInactive, setShowInactive] = useState(false);
+    const [units, setUnits] = useState<ItemUnits[]>(() => getAllItemUnits());
+
+    useEffect(() => {
+        const reload = () => setUnits(getAllItemUnits());
+        window.addEventListener(ITEM_UNITS_EVENT, reload);
+        return () => window.removeEventListener(ITEM_UNITS_EVENT, reload);
+    }, []);
+
+    const filteredItems = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        return items
+            .filter(i => showInactive || i.active)
+            .filter(i => typeFilter === 'ALL' || i.type === typeFilter)
+            .filter(i => !term || i.name.toLowerCase().includes(term) || (i.description || '').toLowerCase().includes(term))
+            .sort((a, b) => a.type === b.type ? a.id - b.id : (a.type === 'PRODUCT' ? -1 : 1));
+    }, [items, searchTerm, typeFilter, showInactive]);
+
+    const describeComponents = (item: MenuItem): string => {
+        if (item.type !== 'COMBO' || !item.components) return '';
+        return item.components
+            .map(c => `${c.quantity} x ${items.find(i => i.id === c.productId)?.name || `Product ${c.productId}`}`)
+            .join(', ');
+    };
+
+    const describeRecipe = (item: MenuItem): string => {
+        const recipe = recipes.find(r => r.productId === item.id);
+        return recipe ? recipe.ingredients.map(i => `${formatQuantity(i.quantity, getItemUnits(i.inventoryItemId, units).baseUnit)} ${i.itemName}`).join(', ') : '';
+    };
+
+    return (
+        <div>
+            <div className="p-3 border-bottom bg-white d-flex justify-content-between align-items-center flex-wrap gap-2">
+                <h6 className="mb-0 text-muted">
+                    Total items: <span className="text-dark">{filteredItems.length}</span>
+                </h6>
+                <div className="d-flex gap-2 align-items-center">
+                    {(['ALL', 'PRODUCT', 'COMBO'] as const).map(t => (
+                        <Button
+                            key={t}
+                            size="sm"
+                            variant={typeFilter === t ? 'primary' : 'outline-secondary'}
+                            onClick={() => setTypeFilter(t)}
+                            style={typeFilter === t ? { backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' } : {}}
+                        >
+                            {t === 'ALL' ? 'All' : t === 'PRODUCT' ? 'Products' : 'Combos'}
+                        </Button>
+                    ))}
+                    <Button size="sm" variant={showInactive ? 'outline-secondary' : 'outline-dark'} onClick={() => setShowInactive(s => !s)}>
+                        {showInactive ? 'Hide Inactive' : 'Show Inactive'}
+                    </Button>
+                </div>
+            </div>
+            <Table striped bordered hover responsive className="mt-2">
+                <thead>
+                <tr>
+                    <th style={{ width: '80px' }}>ID</th>
+                    <th>Name</th>
+                    <th style={{ width: '110px' }}>Type</th>
+                    <th>Contents</th>
+                    <th style={{ width: '120px' }}>Price</th>
+                    <th style={{ width: '110px' }}>Status</th>
+                    <th style={{ width: '70px' }}>Actions</th>
+                </tr>
+                </thead>
+                <tbody>
+                {filteredItems.length === 0 ? (
+                    <tr>
+                        <td colSpan={7} className="text-center text-muted">No menu items found.</td>
+                    </tr>
+                ) : filteredItems.map(item => (
+                    <tr key={item.id} className={item.active ? '' : 'text-muted'}>
+                        <td>{item.id}</td>
+                        <td>
+                            <div className="fw-semibold">{item.name}</div>
+                            {item.description && <small className="text-muted">{item.description}</small>}
+                        </td>
+                        <td><Badge bg="light" text="dark">{item.type === 'COMBO' ? 'Combo' : 'Product'}</Badge></td>
+                        <td>
+                            {item.type === 'COMBO'
+                                ? <small>{describeComponents(item) || '-'}</small>
+                                : describeRecipe(item)
+                                    ? <small><CardChecklist size={12} className="me-1 text-muted" />{describeRecipe(item)}</small>
+                                    : <small className="text-muted">No recipe</small>}
+                        </td>
+                        <td>${item.price.toFixed(2)}</td>
+                        <td>
+                            <span
+                                className="badge"
+                                style={item.active
+                                    ? { backgroundColor: '#D1FFD7', border: '1px solid #A3C6B0', color: '#000' }
+                                    : { backgroundColor: '#F8D7DA', border: '1px solid #EA868F', color: '#000' }}
+                            >
+                                {item.active ? 'Active' : 'Inactive'}
+                            </span>
+                        </td>
+                        <td>
+                            <Dropdown>
+                                <Dropdown.Toggle variant="outline-secondary" size="sm">
+                                    <ThreeDots size={16} />
+                                </Dropdown.Toggle>
+                                <Dropdown.Menu className="dropdown-menu-super" popperConfig={{ strategy: 'fixed' }}>
+                                    <Dropdown.Item onClick={() => onEdit(item)}>
+                                        <PencilSquare size={16} className="me-2" /> Edit Item
+                                    </Dropdown.Item>
+                                    {item.type === 'PRODUCT' && (
+                                        <Dropdown.Item onClick={() => onEditRecipe(item)}>
+                                            <CardChecklist size={16} className="me-2" /> Edit Recipe
+                                        </Dropdown.Item>
+                                    )}
+                                    <Dropdown.Item onClick={() => onToggleActive(item)} className={item.active ? 'text-danger' : ''}>
+                                        {item.active
+                                            ? <><EyeSlash size={16} className="me-2" /> Deactivate</>
+                                            : <><Eye size={16} className="me-2" /> Reactivate</>}
+                                    </Dropdown.Item>
+                                </Dropdown.Menu>
+                            </Dropdown>
+                        </td>
+                    </tr>
+                ))}
+                </tbody>
+            </Table>
+        </div>
+    );
+};
+
+export default MenuTable;
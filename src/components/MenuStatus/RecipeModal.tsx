@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Row, Col, Table, Spinner, Alert, InputGroup } from 'react-bootstrap';
+import { CardChecklist, Plus, Trash, XCircle, Check2Circle } from 'react-bootstrap-icons';
+import { getInventoryProducts, getItemUnitDefinitions, saveRecipe, type InventoryProduct } from '../../service/api';
+import type { Recipe, RecipeIngredient } from '../../service/recipes';
+import type { MenuItem } from '../../service/menu';
+import { getAllItemUnits, getBaseUnitCost, getConversions, getItemUnits, toBaseQuantity, type ItemUnits } from '../../service/units';
+
+interface RecipeModalProps {
+    product: MenuItem | null; // null hides the modal
+    recipe: Recipe | undefined;
+    onHide: () => void;
+    onSaved: (productId: number, recipe: Recipe | null) => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+const RecipeModal: React.FC<RecipeModalProps> = ({ product, recipe, onHide, onSaved, onToast }) => {
+    const [inventory, setInventory] = useState<InventoryProduct[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
+    const [itemId, setItemId] = useState<string>('');
+    const [quantity, setQuantity] = useState<string>('1');
+    const [unit, setUnit] = useState<string>('');
+    const [units, setUnits] = useState<ItemUnits[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!product) return;
+        setIngredients(recipe?.ingredients.map(i => ({ ...i })) ?? []);
+        setItemId('');
+        setQuantity('1');
+        setUnit('');
+        setUnits(getAllItemUnits());
+        setLoading(true);
+        setLoadError(null);
+        // Ingredient costs depend on each item's price unit, so both load together
+        Promise.all([getInventoryProducts(), getItemUnitDefinitions()])
+            .then(([products, itemUnits]) => {
+                setInventory(products);
+                setUnits(itemUnits);
+            })
+            .catch(err => setLoadError(err instanceof Error ? err.message : 'Could not load inventory'))
+            .finally(() => setLoading(false));
+        // The recipe is only read when another product is opened, not while this one is edited
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [product]);
+
+    // Ingredients are kept in base units; the quantity to add can be entered in any unit of the item
+    const unitsOf = (id: number | null) => getItemUnits(id, units);
+    const selectedUnits = unitsOf(itemId ? Number(itemId) : null);
+    const parsedQuantity = toBaseQuantity(Number(quantity.replace(/,/g, '.')), unit || selectedUnits.baseUnit, selectedUnits);
+    const priceOf = (id: number) => getBaseUnitCost(inventory.find(p => p.id === id)?.price ?? 0, unitsOf(id));
+    const unitCost = ingredients.reduce((sum, i) => sum + priceOf(i.inventoryItemId) * i.quantity, 0);
+
+    const addIngredient = () => {
+        const item = inventory.find(p => p.id === Number(itemId));
+        if (!item || item.id == null || !(parsedQuantity > 0)) return;
+        const id = item.id;
+        setIngredients(list => list.some(i => i.inventoryItemId === id)
+            ? list.map(i => i.inventoryItemId === id ? { ...i, quantity: Math.round((i.quantity + parsedQuantity) * 1000) / 1000 } : i)
+            : [...list, { inventoryItemId: id, itemName: item.name, quantity: parsedQuantity }]);
+        setItemId('');
+        setQuantity('1');
+        setUnit('');
+    };
+
+    const handleSave = async () => {
+        if (!product) return;
+        setSaving(true);
+        try {
+            const saved = await saveRecipe(product.id, ingredients);
+            onSaved(product.id, saved);
+            onToast(saved ? `Recipe for "${product.name}" saved` : `Recipe for "${product.name}" removed`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not save the recipe', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={product !== null} onHide={onHide} size="lg" centered>
+            <Modal.Header closeButton>
+                <Modal.Title><CardChecklist size={20} className="me-2" />RECIPE · {product?.name.toUpperCase()}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <p className="text-muted small">
+                    Inventory used by one unit. Delivered orders deduct these quantities from stock, including when the product is sold inside a combo.
+                </p>
+                {loadError && <Alert variant="warning" className="py-2 small">Inventory could not be loaded ({loadError}).</Alert>}
+                <Row className="g-2 align-items-end">
+                    <Col md={6}>
+                        <Form.Label className="small mb-1">Inventory item</Form.Label>
+                        <Form.Select value={itemId} onChange={e => { setItemId(e.target.value); setUnit(''); }} disabled={loading}>
+                            <option value="">{loading ? 'Loading inventory...' : 'Select item'}</option>
+                            {inventory.filter(p => p.id != null).map(p => (
+                                <option key={p.id} value={p.id ?? ''}>{p.name} ({p.supplier})</option>
+                            ))}
+                        </Form.Select>
+                    </Col>
+                    <Col md={4}>
+                        <Form.Label className="small mb-1">Quantity per unit</Form.Label>
+                        <InputGroup>
+                            <Form.Control type="text" inputMode="decimal" value={quantity} onChange={e => setQuantity(e.target.value)} isInvalid={quantity !== '' && !(parsedQuantity > 0)} />
+                            <Form.Select value={unit || selectedUnits.baseUnit} onChange={e => setUnit(e.target.value)} aria-label="Unit" style={{ maxWidth: '95px' }}>
+                                <option value={selectedUnits.baseUnit}>{selectedUnits.baseUnit}</option>
+                                {getConversions(selectedUnits).map(c => <option key={c.unit} value={c.unit}>{c.unit}</option>)}
+                            </Form.Select>
+                        </InputGroup>
+                    </Col>
+                    <Col md={2} className="d-grid">
+                        <Button variant="outline-primary" onClick={addIngredient} disabled={!itemId || !(parsedQuantity > 0)}>
+                            {loading ? <Spinner as="span" animation="border" size="sm" /> : <><Plus size={16} /> Add</>}
+                        </Button>
+                    </Col>
+                </Row>
+                <Table size="sm" bordered className="mt-3 mb-2">
+                    <thead>
+                    <tr>
+                        <th>Ingredient</th>
+                        <th style={{ width: '170px' }}>Quantity</th>
+                        <th style={{ width: '110px' }}>Cost</th>
+                        <th style={{ width: '60px' }}></th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {ingredients.length === 0 ? (
+                        <tr><td colSpan={4} className="text-center text-muted">No ingredients yet. Sales of this product won't change stock.</td></tr>
+                    ) : ingredients.map(i => (
+                        <tr key={i.inventoryItemId}>
+                            <td>{i.itemName}</td>
+                            <td>
+                                <InputGroup size="sm">
+                                    <Form.Control
+                                        type="number"
+                                        min={0}
+                                        step="any"
+                                        value={i.quantity}
+                                        onChange={e => {
+                                            const next = Number(e.target.value);
+                                            setIngredients(list => list.map(x => x.inventoryItemId === i.inventoryItemId ? { ...x, quantity: next } : x));
+                                        }}
+                                    />
+                                    <InputGroup.Text>{unitsOf(i.inventoryItemId).baseUnit}</InputGroup.Text>
+                                </InputGroup>
+                            </td>
+                            <td>${(priceOf(i.inventoryItemId) * i.quantity).toFixed(2)}</td>
+                            <td className="text-center">
+                                <Button variant="outline-danger" size="sm" onClick={() => setIngredients(list => list.filter(x => x.inventoryItemId !== i.inventoryItemId))}>
+                                    <Trash size={14} />
+                                </Button>
+                            </td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </Table>
+                {product && ingredients.length > 0 && (
+                    <Form.Text className="text-muted">
+                        Ingredient cost per unit: ${unitCost.toFixed(2)}
+                        {product.price > 0 && ` (${Math.round((unitCost / product.price) * 100)}% of the $${product.price.toFixed(2)} price)`}
+                    </Form.Text>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Cancel
+                </Button>
+                <Button variant="primary" onClick={handleSave} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                    <Check2Circle size={16} className="me-1" /> Save Recipe
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default RecipeModal;
@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button, Form, Row, Col, Alert, ButtonGroup, Table } from 'react-bootstrap';
+import { CashCoin, CreditCard, Printer, CheckCircle, Receipt, XCircle } from 'react-bootstrap-icons';
+import { clearTable, recordOrderPayment, type OrderComponentData, type OrderData } from '../../service/api';
+import {
+    getPaidItemQuantities,
+    roundMoney,
+    splitEvenly,
+    type OrderPayment,
+    type PaidItem,
+    type PaymentTender
+} from '../../service/payments';
+import { escapeHtml, printDocument } from '../../service/exportFile';
+
+export interface CheckoutOrder {
+    id: number;
+    code: string;
+    tableNumber: number;
+    totalPrice: number;
+    items: OrderComponentData[];
+    payments: OrderPayment[];
+    paidAmount: number;
+    balance: number;
+}
+
+interface CheckoutModalProps {
+    order: CheckoutOrder | null;
+    onHide: () => void;
+    onPaid: (updated: OrderData, payment: OrderPayment) => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+type SplitMode = 'FULL' | 'EVEN' | 'ITEMS';
+type TenderMode = 'CASH' | 'CARD' | 'MIXED';
+
+interface BillLine {
+    productId: number;
+    productName: string;
+    unitPrice: number;
+    quantity: number;
+}
+
+const TIP_PERCENTAGES = [10, 15, 20];
+
+const RECEIPT_CSS = `
+body{font-family:monospace;font-size:12px;margin:16px;}
+h1{font-size:16px;text-align:center;margin:0 0 4px;}
+.c{text-align:center}.r{text-align:right}
+table{width:100%;border-collapse:collapse;}
+hr{border:0;border-top:1px dashed #000;margin:8px 0;}
+`;
+
+// Narrow printable receipt; returns false when the pop-up was blocked
+const printReceipt = (payment: OrderPayment, lines: BillLine[]): boolean => {
+    const itemRows = (payment.items.length > 0
+        ? payment.items.map(i => ({ name: i.productName, quantity: i.quantity, amount: i.amount }))
+        : lines.map(l => ({ name: l.productName, quantity: l.quantity, amount: l.unitPrice * l.quantity })))
+        .map(r => `<tr><td>${r.quantity} x ${escapeHtml(r.name)}</td><td class="r">$${r.amount.toFixed(2)}</td></tr>`)
+        .join('');
+    const tenderRows = payment.tenders
+        .filter(t => t.amount > 0)
+        .map(t => `<tr><td>${t.method === 'CASH' ? 'Cash' : 'Card'}</td><td class="r">$${t.amount.toFixed(2)}</td></tr>`)
+        .join('');
+    return printDocument(`Receipt ${payment.orderCode}`, `
+<h1>KitchenIQ</h1>
+<div class="c">${escapeHtml(new Date(payment.paidAt).toLocaleString())}</div>
+<div class="c">${escapeHtml(payment.orderCode)} · ${payment.tableNumber > 0 ? `Table ${payment.tableNumber}` : 'Takeout'} · ${escapeHtml(payment.label)}</div>
+<hr/>
+<table>${itemRows}</table>
+<hr/>
+<table>
+<tr><td>Subtotal</td><td class="r">$${payment.subtotal.toFixed(2)}</td></tr>
+<tr><td>Tip</td><td class="r">$${payment.tip.toFixed(2)}</td></tr>
+<tr><td><b>Total</b></td><td class="r"><b>$${(payment.subtotal + payment.tip).toFixed(2)}</b></td></tr>
+</table>
+<hr/>
+<table>${tenderRows}
+${payment.cashReceived > 0 ? `<tr><td>Cash received</td><td class="r">$${payment.cashReceived.toFixed(2)}</td></tr><tr><td>Change</td><td class="r">$${payment.changeDue.toFixed(2)}</td></tr>` : ''}
+</table>
+<hr/>
+<div class="c">Served by ${escapeHtml(payment.paidBy)}</div>
+<div class="c">Thank you!</div>`, RECEIPT_CSS, 'width=380,height=640');
+};
+
+const toBillLines = (items: OrderComponentData[]): BillLine[] => {
+    const lines: BillLine[] = [];
+    items.forEach(it => {
+        const productId = it.productId ?? it.id;
+        const quantity = typeof it.quantity === 'number' ? it.quantity : 1;
+        const existing = lines.find(l => l.productId === productId);
+        if (existing) existing.quantity += quantity;
+        else lines.push({ productId, productName: it.productName || `Product ${productId}`, unitPrice: it.productPrice ?? 0, quantity });
+    });
+    return lines;
+};
+
+const CheckoutModal: React.FC<CheckoutModalProps> = ({ order, onHide, onPaid, onToast }) => {
+    // Payments, paid amount and balance as last returned by the backend
+    const [settled, setSettled] = useState<{ payments: OrderPayment[]; paid: number; balance: number }>({ payments: [], paid: 0, balance: 0 });
+    const [saving, setSaving] = useState(false);
+    const [splitMode, setSplitMode] = useState<SplitMode>('FULL');
+    const [guests, setGuests] = useState('2');
+    const [itemSelection, setItemSelection] = useState<Record<number, number>>({});
+    const [tipInput, setTipInput] = useState('');
+    const [tenderMode, setTenderMode] = useState<TenderMode>('CASH');
+    const [cardInput, setCardInput] = useState('');
+    const [cashReceivedInput, setCashReceivedInput] = useState('');
+    const [lastPayment, setLastPayment] = useState<OrderPayment | null>(null);
+
+    const lines = useMemo(() => order ? toBillLines(order.items) : [], [order]);
+
+    useEffect(() => {
+        if (!order) return;
+        setSettled({ payments: order.payments, paid: order.paidAmount, balance: order.balance });
+        setSplitMode('FULL');
+        setGuests('2');
+        setItemSelection({});
+        setTipInput('');
+        setTenderMode('CASH');
+        setCardInput('');
+        setCashReceivedInput('');
+        setLastPayment(null);
+    }, [order]);
+
+    const total = order?.totalPrice ?? 0;
+    const { payments, paid, balance } = settled;
+
+    const paidQuantities = useMemo<Record<number, number>>(() => getPaidItemQuantities(payments), [payments]);
+
+    const guestCount = Math.max(2, parseInt(guests, 10) || 2);
+    // Guests of the current even split who already paid
+    const evenPaidCount = payments.filter(p => p.label.endsWith(` of ${guestCount}`) && p.label.startsWith('Guest ')).length;
+
+    const amountDue = useMemo(() => {
+        if (splitMode === 'FULL') return balance;
+        if (splitMode === 'EVEN') {
+            if (evenPaidCount >= guestCount - 1) return balance; // last guest settles any rounding
+            return Math.min(balance, splitEvenly(total, guestCount)[evenPaidCount]);
+        }
+        const selected = roundMoney(lines.reduce((sum, l) => sum + (itemSelection[l.productId] || 0) * l.unitPrice, 0));
+        const allRemainingSelected = lines.every(l => (itemSelection[l.productId] || 0) === l.quantity - (paidQuantities[l.productId] || 0));
+        return allRemainingSelected && selected > 0 ? balance : Math.min(balance, selected);
+    }, [splitMode, balance, evenPaidCount, guestCount, total, lines, itemSelection, paidQuantities]);
+
+    const tip = Math.max(0, roundMoney(parseFloat(tipInput) || 0));
+    const dueWithTip = roundMoney(amountDue + tip);
+    const cardPortion = tenderMode === 'CARD' ? dueWithTip
+        : tenderMode === 'CASH' ? 0
+            : Math.min(dueWithTip, Math.max(0, roundMoney(parseFloat(cardInput) || 0)));
+    const cashPortion = roundMoney(dueWithTip - cardPortion);
+    const cashReceived = cashReceivedInput === '' ? cashPortion : Math.max(0, parseFloat(cashReceivedInput) || 0);
+    const changeDue = Math.max(0, roundMoney(cashReceived - cashPortion));
+    const cashShort = cashReceived + 0.001 < cashPortion;
+
+    const handleRecord = async () => {
+        if (!order || saving) return;
+        const tenders: PaymentTender[] = [];
+        if (cashPortion > 0) tenders.push({ method: 'CASH', amount: cashPortion });
+        if (cardPortion > 0) tenders.push({ method: 'CARD', amount: cardPortion });
+        const items: PaidItem[] = splitMode === 'ITEMS'
+            ? lines.filter(l => (itemSelection[l.productId] || 0) > 0).map(l => ({
+                productId: l.productId,
+                productName: l.productName,
+                quantity: itemSelection[l.productId],
+                amount: roundMoney(itemSelection[l.productId] * l.unitPrice)
+            }))
+            : [];
+        const label = splitMode === 'FULL' ? (paid > 0 ? 'Remaining balance' : 'Full bill')
+            : splitMode === 'EVEN' ? `Guest ${evenPaidCount + 1} of ${guestCount}`
+                : 'Items';
+        setSaving(true);
+        try {
+            const { data, payment } = await recordOrderPayment({ id: order.id, code: order.code, balance }, {
+                label,
+                items,
+                subtotal: amountDue,
+                tip,
+                tenders,
+                cashReceived: cashPortion > 0 ? cashReceived : 0
+            });
+            const newBalance = data.balance ?? 0;
+            setSettled({ payments: data.payments ?? [], paid: data.paidAmount ?? 0, balance: newBalance });
+            setLastPayment(payment);
+            setItemSelection({});
+            setTipInput('');
+            setCardInput('');
+            setCashReceivedInput('');
+            // A settled table is free for the next guests
+            if (newBalance === 0 && order.tableNumber > 0) {
+                const tableNumber = order.tableNumber;
+                clearTable(tableNumber).catch(err => onToast(`Payment recorded, but table ${tableNumber} could not be cleared: ${err instanceof Error ? err.message : 'unknown error'}`, 'warning'));
+            }
+            onPaid(data, payment);
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not record payment', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handlePrint = (payment: OrderPayment) => {
+        if (!printReceipt(payment, lines)) onToast('Allow pop-ups to print the receipt', 'warning');
+    };
+
+    return (
+        <Modal show={!!order} onHide={onHide} size="lg" centered>
+            <Modal.Header closeButton>
+                <Modal.Title><Receipt size={20} className="me-2" />CHECKOUT {order?.code}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <Row className="mb-3 text-center g-2">
+                    <Col><div className="border rounded-3 p-2"><small className="text-muted d-block">Total</small><strong>${total.toFixed(2)}</strong></div></Col>
+                    <Col><div className="border rounded-3 p-2"><small className="text-muted d-block">Paid</small><strong>${paid.toFixed(2)}</strong></div></Col>
+                    <Col><div className="border rounded-3 p-2" style={{ backgroundColor: balance > 0 ? '#feffd4' : '#D1FFD7' }}><small className="text-muted d-block">Balance</small><strong>${balance.toFixed(2)}</strong></div></Col>
+                </Row>
+
+                {lastPayment && (
+                    <Alert variant="success" className="d-flex justify-content-between align-items-center py-2">
+                        <span>
+                            <CheckCircle size={16} className="me-2" />
+                            {lastPayment.label}: ${(lastPayment.subtotal + lastPayment.tip).toFixed(2)} received
+                            {lastPayment.changeDue > 0 && <> · <strong>Change ${lastPayment.changeDue.toFixed(2)}</strong></>}
+                        </span>
+                        <Button size="sm" variant="outline-dark" onClick={() => handlePrint(lastPayment)}>
+                            <Printer size={14} className="me-1" />Print Receipt
+                        </Button>
+                    </Alert>
+                )}
+
+                {balance === 0 ? (
+                    <div className="text-center text-muted py-3">
+                        <CheckCircle size={28} className="mb-2 text-success" />
+                        <div className="fw-semibold">This order is fully paid</div>
+                    </div>
+                ) : (
+                    <>
+                        <Form.Label className="fw-semibold small text-uppercase">Split</Form.Label>
+                        <div className="mb-3">
+                            <ButtonGroup>
+                                {(['FULL', 'EVEN', 'ITEMS'] as SplitMode[]).map(m => (
+                                    <Button key={m} variant={splitMode === m ? 'dark' : 'outline-dark'} size="sm" onClick={() => setSplitMode(m)}>
+                                        {m === 'FULL' ? 'Whole Bill' : m === 'EVEN' ? 'Evenly' : 'By Item'}
+                                    </Button>
+                                ))}
+                            </ButtonGroup>
+                        </div>
+
+                        {splitMode === 'EVEN' && (
+                            <Row className="mb-3 align-items-end">
+                                <Col sm={4}>
+                                    <Form.Label className="small">Guests</Form.Label>
+                                    <Form.Control type="number" min={2} value={guests} onChange={e => setGuests(e.target.value)} />
+                                </Col>
+                                <Col sm={8} className="small text-muted">
+                                    Paying guest {Math.min(evenPaidCount + 1, guestCount)} of {guestCount}
+                                </Col>
+                            </Row>
+                        )}
+
+                        {splitMode === 'ITEMS' && (
+                            <Table size="sm" bordered className="mb-3">
+                                <thead>
+                                <tr><th>Item</th><th style={{ width: '90px' }}>Price</th><th style={{ width: '90px' }}>Left</th><th style={{ width: '110px' }}>Paying</th></tr>
+                                </thead>
+                                <tbody>
+                                {lines.map(l => {
+                                    const remaining = Math.max(0, l.quantity - (paidQuantities[l.productId] || 0));
+                                    return (
+                                        <tr key={l.productId} className={remaining === 0 ? 'text-muted' : ''}>
+                                            <td>{l.productName}</td>
+                                            <td>${l.unitPrice.toFixed(2)}</td>
+                                            <td>{remaining}</td>
+                                            <td>
+                                                <Form.Control
+                                                    size="sm"
+                                                    type="number"
+                                                    min={0}
+                                                    max={remaining}
+                                                    disabled={remaining === 0}
+                                                    value={itemSelection[l.productId] || 0}
+                                                    onChange={e => {
+                                                        const q = Math.min(remaining, Math.max(0, parseInt(e.target.value, 10) || 0));
+                                                        setItemSelection(prev => ({ ...prev, [l.productId]: q }));
+                                                    }}
+                                                />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                </tbody>
+                            </Table>
+                        )}
+
+                        <Row className="g-3 mb-3">
+                            <Col md={6}>
+                                <Form.Label className="fw-semibold small text-uppercase">Tip</Form.Label>
+                                <div className="d-flex gap-1">
+                                    <Form.Control type="number" min={0} step="0.01" placeholder="0.00" value={tipInput} onChange={e => setTipInput(e.target.value)} />
+                                    {TIP_PERCENTAGES.map(pct => (
+                                        <Button key={pct} size="sm" variant="outline-secondary" onClick={() => setTipInput(roundMoney(amountDue * pct / 100).toFixed(2))}>
+                                            {pct}%
+                                        </Button>
+                                    ))}
+                                </div>
+                            </Col>
+                            <Col md={6}>
+                                <Form.Label className="fw-semibold small text-uppercase">Tender</Form.Label>
+                                <div>
+                                    <ButtonGroup>
+                                        <Button size="sm" variant={tenderMode === 'CASH' ? 'dark' : 'outline-dark'} onClick={() => setTenderMode('CASH')}><CashCoin size={14} className="me-1" />Cash</Button>
+                                        <Button size="sm" variant={tenderMode === 'CARD' ? 'dark' : 'outline-dark'} onClick={() => setTenderMode('CARD')}><CreditCard size={14} className="me-1" />Card</Button>
+                                        <Button size="sm" variant={tenderMode === 'MIXED' ? 'dark' : 'outline-dark'} onClick={() => setTenderMode('MIXED')}>Mixed</Button>
+                                    </ButtonGroup>
+                                </div>
+                            </Col>
+                        </Row>
+
+                        <Row className="g-3">
+                            {tenderMode === 'MIXED' && (
+                                <Col md={6}>
+                                    <Form.Label className="small">Card amount</Form.Label>
+                                    <Form.Control type="number" min={0} step="0.01" value={cardInput} onChange={e => setCardInput(e.target.value)} placeholder="0.00" />
+                                </Col>
+                            )}
+                            {cashPortion > 0 && (
+                                <Col md={6}>
+                                    <Form.Label className="small">Cash received (cash due ${cashPortion.toFixed(2)})</Form.Label>
+                                    <Form.Control type="number" min={0} step="0.01" value={cashReceivedInput} onChange={e => setCashReceivedInput(e.target.value)} placeholder={cashPortion.toFixed(2)} isInvalid={cashShort} />
+                                    <Form.Control.Feedback type="invalid">Not enough cash received</Form.Control.Feedback>
+                                </Col>
+                            )}
+                        </Row>
+
+                        <div className="border-top mt-3 pt-3">
+                            <div className="d-flex justify-content-between"><span>Amount</span><span>${amountDue.toFixed(2)}</span></div>
+                            <div className="d-flex justify-content-between"><span>Tip</span><span>${tip.toFixed(2)}</span></div>
+                            <div className="d-flex justify-content-between fw-bold fs-5"><span>To Pay</span><span className="text-primary">${dueWithTip.toFixed(2)}</span></div>
+                            {tenderMode === 'MIXED' && <div className="d-flex justify-content-between small text-muted"><span>Card / Cash</span><span>${cardPortion.toFixed(2)} / ${cashPortion.toFixed(2)}</span></div>}
+                            {cashPortion > 0 && <div className="d-flex justify-content-between fw-semibold"><span>Change Due</span><span>${changeDue.toFixed(2)}</span></div>}
+                        </div>
+                    </>
+                )}
+
+                {payments.length > 0 && (
+                    <div className="mt-3">
+                        <h6 className="fw-bold small text-uppercase">Payments</h6>
+                        {payments.map(p => (
+                            <div key={p.id} className="d-flex justify-content-between align-items-center small border-bottom py-1">
+                                <span>{p.label} · {p.tenders.map(t => t.method === 'CASH' ? 'Cash' : 'Card').join(' + ')} · {new Date(p.paidAt).toLocaleTimeString()}</span>
+                                <span className="d-flex align-items-center gap-2">
+                                    ${(p.subtotal + p.tip).toFixed(2)}
+                                    <Button size="sm" variant="link" className="p-0" onClick={() => handlePrint(p)} title="Print receipt"><Printer size={14} /></Button>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="outline-secondary" onClick={onHide}><XCircle size={16} className="me-2" />Close</Button>
+                {balance > 0 && (
+                    <Button
+                        onClick={handleRecord}
+                        disabled={amountDue <= 0 || cashShort || saving}
+                        style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                    >
+                        <CheckCircle size={16} className="me-2" />Take Payment - ${dueWithTip.toFixed(2)}
+                    </Button>
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default CheckoutModal;
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Spinner, Alert } from 'react-bootstrap';
+import { PencilSquare, Trash, CheckCircle, XCircle, BoxSeam, Cart } from 'react-bootstrap-icons';
+import { updateOrderItems, type OrderBillLine, type OrderComponentData, type OrderData } from '../../service/api';
+import { getActiveMenuItems, assertComboAvailable, type MenuItem } from '../../service/menu';
+
+export interface EditableOrder {
+    id: number;
+    code: string;
+    status: string;
+    items: OrderComponentData[];
+}
+
+interface EditOrderModalProps {
+    order: EditableOrder | null;
+    onHide: () => void;
+    onSaved: (updated: OrderData) => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+// Orders that already left the kitchen flow can no longer change their lines
+const isOrderEditable = (status: string): boolean => {
+    const s = status.toUpperCase();
+    return s !== 'DELIVERED' && s !== 'CANCELLED';
+};
+
+// Collapse the parsed bill into one line per product or combo
+const toBillLines = (items: OrderComponentData[]): OrderBillLine[] => {
+    const lines: OrderBillLine[] = [];
+    items.forEach(it => {
+        const productId = it.productId ?? it.id;
+        const quantity = typeof it.quantity === 'number' ? it.quantity : 1;
+        const existing = lines.find(l => l.productId === productId);
+        if (existing) existing.quantity += quantity;
+        else lines.push({ productId, productName: it.productName || `Product ${productId}`, productPrice: it.productPrice ?? 0, quantity });
+    });
+    return lines;
+};
+
+const EditOrderModal: React.FC<EditOrderModalProps> = ({ order, onHide, onSaved, onToast }) => {
+    const [lines, setLines] = useState<OrderBillLine[]>([]);
+    const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!order) return;
+        setLines(toBillLines(order.items));
+        setMenuItems(getActiveMenuItems());
+    }, [order]);
+
+    // Combos are one line at the combo price, same as when creating an order
+    const handleAddItem = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const id = parseInt(e.target.value, 10);
+        e.target.value = '';
+        const item = menuItems.find(m => m.id === id);
+        if (!item) return;
+        if (item.type === 'COMBO') {
+            try {
+                assertComboAvailable(item);
+            } catch (e) {
+                onToast(e instanceof Error ? e.message : 'This combo cannot be added', 'warning');
+                return;
+            }
+        }
+        setLines(prev => {
+            const idx = prev.findIndex(l => l.productId === item.id);
+            if (idx >= 0) return prev.map((l, i) => i === idx ? { ...l, quantity: l.quantity + 1 } : l);
+            return [...prev, { productId: item.id, productName: item.name, productPrice: item.price, quantity: 1 }];
+        });
+    };
+
+    const setQuantity = (index: number, quantity: number) => {
+        setLines(prev => prev.map((l, i) => i === index ? { ...l, quantity: Math.max(1, quantity || 1) } : l));
+    };
+
+    const removeLine = (index: number) => setLines(prev => prev.filter((_, i) => i !== index));
+
+    const total = lines.reduce((sum, l) => sum + l.productPrice * l.quantity, 0);
+    const editable = !!order && isOrderEditable(order.status);
+
+    const handleSave = async () => {
+        if (!order) return;
+        if (!editable) {
+            onToast(`Order ${order.code} is ${order.status} and can no longer be edited`, 'warning');
+            return;
+        }
+        if (lines.length === 0) {
+            onToast('An order needs at least one item. Cancel the order instead.', 'warning');
+            return;
+        }
+        setSaving(true);
+        try {
+            const resp = await updateOrderItems(order.id, lines);
+            onSaved(resp.data);
+            try {
+                window.dispatchEvent(new CustomEvent('order-updated', { detail: { id: order.id, code: order.code, timestamp: Date.now() } }));
+            } catch { /* noop */ }
+            onToast(`Order ${order.code} updated. New total $${(resp.data.totalPrice ?? total).toFixed(2)}`, 'success');
+            onHide();
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : `Could not update order ${order.code}`;
+            onToast(msg, 'danger');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={!!order} onHide={onHide} size="lg" centered>
+            <Modal.Header closeButton>
+                <Modal.Title><PencilSquare size={20} className="me-2" />EDIT ORDER {order?.code}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {!editable && order && (
+                    <Alert variant="warning" className="py-2 small">
+                        This order is {order.status.toLowerCase()} and can no longer be edited.
+                    </Alert>
+                )}
+                <Form.Group controlId="editOrderAddItem" className="mb-3">
+                    <Form.Label className="fw-semibold small text-uppercase d-flex align-items-center"><BoxSeam size={14} className="me-1" /> Add Product or Combo</Form.Label>
+                    <Form.Select onChange={handleAddItem} defaultValue="" disabled={!editable} className="shadow-sm">
+                        <option value="">Select product or combo</option>
+                        <optgroup label="Products">
+                            {menuItems.filter(i => i.type === 'PRODUCT').map(i => <option key={i.id} value={i.id}>{i.name} - ${i.price.toFixed(2)}</option>)}
+                        </optgroup>
+                        <optgroup label="Combos">
+                            {menuItems.filter(i => i.type === 'COMBO').map(i => <option key={i.id} value={i.id}>{i.name} - ${i.price.toFixed(2)}</option>)}
+                        </optgroup>
+                    </Form.Select>
+                </Form.Group>
+
+                <div className="border rounded-3 p-3 bg-light-subtle">
+                    {lines.length === 0 ? (
+                        <div className="text-center text-muted py-3">
+                            <Cart size={24} className="mb-2 opacity-75" />
+                            <div className="fw-semibold">No items left</div>
+                            <small>Add at least one product to keep the order</small>
+                        </div>
+                    ) : lines.map((line, index) => (
+                        <div key={line.productId} className="d-flex align-items-center py-2 border-bottom">
+                            <div className="flex-grow-1">
+                                <div className="fw-semibold">{line.productName}</div>
+                                <small className="text-muted">${line.productPrice.toFixed(2)} each</small>
+                            </div>
+                            <div className="d-flex align-items-center gap-1 me-3">
+                                <Button variant="light" size="sm" className="px-2 border" disabled={!editable || line.quantity === 1} onClick={() => setQuantity(index, line.quantity - 1)}>-</Button>
+                                <Form.Control
+                                    type="number"
+                                    min={1}
+                                    value={line.quantity}
+                                    disabled={!editable}
+                                    onChange={e => setQuantity(index, parseInt(e.target.value, 10))}
+                                    className="text-center px-1"
+                                    style={{ width: '56px' }}
+                                />
+                                <Button variant="light" size="sm" className="px-2 border" disabled={!editable} onClick={() => setQuantity(index, line.quantity + 1)}>+</Button>
+                            </div>
+                            <div className="text-end me-3 fw-semibold small" style={{ minWidth: '70px' }}>${(line.productPrice * line.quantity).toFixed(2)}</div>
+                            <Button variant="outline-danger" size="sm" disabled={!editable} onClick={() => removeLine(index)}><Trash size={14} /></Button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="d-flex justify-content-between align-items-center mt-3">
+                    <span className="fw-semibold">New Total</span>
+                    <span className="fs-5 text-primary fw-bold">${total.toFixed(2)}</span>
+                </div>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="outline-secondary" onClick={onHide} disabled={saving}><XCircle size={16} className="me-2" />Cancel</Button>
+                <Button
+                    onClick={handleSave}
+                    disabled={saving || !editable || lines.length === 0}
+                    style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                >
+                    {saving ? <Spinner as="span" animation="border" size="sm" className="me-2" /> : <CheckCircle size={16} className="me-2" />}
+                    Save Changes
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default EditOrderModal;
@@ -0,0 +1,364 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Row, Col, Button, Modal, Form, Spinner, Alert, Badge, Table } from 'react-bootstrap';
+import { ArrowClockwise, Gear, People, PlusCircle, Trash, PencilSquare, CheckCircle } from 'react-bootstrap-icons';
+import {
+    clearTable,
+    getAllOrders,
+    getFloorPlan,
+    parseOrderBillItems,
+    removeTable,
+    saveTable,
+    subscribeToOrderUpdates,
+    type OrderData
+} from '../../service/api';
+import {
+    getOpenOrdersForTable,
+    getStaleOpenOrders,
+    deriveTableState,
+    TABLES_UPDATED_EVENT,
+    type ClearedTables,
+    type DiningTable,
+    type TableState
+} from '../../service/tables';
+import { getOrderStatusLabel } from '../../service/orderLifecycle';
+
+interface FloorPlanProps {
+    onNewOrder: (tableNumber: number) => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+const STATE_STYLES: Record<TableState, { label: string; style: React.CSSProperties }> = {
+    FREE: { label: 'Free', style: { backgroundColor: '#FFFFFF', border: '2px solid #dee2e6' } },
+    OCCUPIED: { label: 'Occupied', style: { backgroundColor: '#B1E5FF', border: '2px solid #86e5ff' } },
+    AWAITING_FOOD: { label: 'Awaiting Food', style: { backgroundColor: '#FFE4B5', border: '2px solid #DEB887' } },
+    READY_TO_SERVE: { label: 'Ready to Serve', style: { backgroundColor: '#D1FFD7', border: '2px solid #A3C6B0' } }
+};
+
+const FloorPlan: React.FC<FloorPlanProps> = ({ onNewOrder, onToast }) => {
+    const [tables, setTables] = useState<DiningTable[]>([]);
+    const [orders, setOrders] = useState<OrderData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [tablesError, setTablesError] = useState<string | null>(null);
+    const [cleared, setCleared] = useState<ClearedTables>({});
+    const [saving, setSaving] = useState(false);
+    const [areaFilter, setAreaFilter] = useState('ALL');
+    const [selectedTable, setSelectedTable] = useState<DiningTable | null>(null);
+    const [showSettings, setShowSettings] = useState(false);
+    const [tableForm, setTableForm] = useState<{ number: string; seats: string; area: string }>({ number: '', seats: '4', area: '' });
+    const [editingNumber, setEditingNumber] = useState<number | null>(null);
+
+    const loadOrders = useCallback(async () => {
+        try {
+            setError(null);
+            const resp = await getAllOrders();
+            setOrders(resp.data);
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Error loading orders';
+            setError(msg);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const loadTables = useCallback(async () => {
+        setTablesError(null);
+        try {
+            const plan = await getFloorPlan();
+            setTables(plan.tables);
+            setCleared(plan.cleared);
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setTablesError(`The floor plan could not be loaded (${msg}).`);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadOrders();
+        loadTables();
+        const unsubscribe = subscribeToOrderUpdates(event => {
+            if (event.type === 'refresh') {
+                loadOrders();
+                return;
+            }
+            const pushed = event.order;
+            setOrders(prev => prev.some(o => o.id === pushed.id)
+                ? prev.map(o => o.id === pushed.id ? pushed : o)
+                : [pushed, ...prev]);
+        });
+        const handleOrderEvent = () => { loadOrders(); };
+        window.addEventListener('order-created', handleOrderEvent);
+        window.addEventListener('order-status-changed', handleOrderEvent);
+        window.addEventListener(TABLES_UPDATED_EVENT, loadTables);
+        return () => {
+            unsubscribe();
+            window.removeEventListener('order-created', handleOrderEvent);
+            window.removeEventListener('order-status-changed', handleOrderEvent);
+            window.removeEventListener(TABLES_UPDATED_EVENT, loadTables);
+        };
+    }, [loadOrders, loadTables]);
+
+    const tableInfo = useMemo(() => {
+        const info: Record<number, { openOrders: OrderData[]; state: TableState }> = {};
+        tables.forEach(t => {
+            const openOrders = getOpenOrdersForTable(orders, t.number, cleared);
+            info[t.number] = { openOrders, state: deriveTableState(openOrders) };
+        });
+        return info;
+    }, [tables, orders, cleared]);
+
+    const staleOrders = useMemo(() => getStaleOpenOrders(orders), [orders]);
+
+    const areas = useMemo(() => Array.from(new Set(tables.map(t => t.area).filter(Boolean))), [tables]);
+    const visibleTables = tables.filter(t => areaFilter === 'ALL' || t.area === areaFilter);
+
+    const stateCounts = useMemo(() => {
+        const counts: Record<TableState, number> = { FREE: 0, OCCUPIED: 0, AWAITING_FOOD: 0, READY_TO_SERVE: 0 };
+        Object.values(tableInfo).forEach(i => { counts[i.state] += 1; });
+        return counts;
+    }, [tableInfo]);
+
+    const handleTableClick = (table: DiningTable) => {
+        if (tableInfo[table.number]?.state === 'FREE') onNewOrder(table.number);
+        else setSelectedTable(table);
+    };
+
+    const handleClearTable = async (table: DiningTable) => {
+        setSaving(true);
+        try {
+            await clearTable(table.number);
+            setSelectedTable(null);
+            onToast(`Table ${table.number} is free again`, 'success');
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not clear table', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const resetTableForm = () => {
+        setTableForm({ number: '', seats: '4', area: '' });
+        setEditingNumber(null);
+    };
+
+    const handleSaveTable = async () => {
+        setSaving(true);
+        try {
+            await saveTable({
+                number: Number(tableForm.number),
+                seats: Number(tableForm.seats),
+                area: tableForm.area
+            }, editingNumber, tables);
+            onToast(editingNumber == null ? `Table ${tableForm.number} added` : `Table ${tableForm.number} updated`, 'success');
+            resetTableForm();
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not save table', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRemoveTable = async (table: DiningTable) => {
+        if (tableInfo[table.number]?.state !== 'FREE') {
+            onToast(`Table ${table.number} has open orders and cannot be removed`, 'warning');
+            return;
+        }
+        setSaving(true);
+        try {
+            await removeTable(table.number);
+            if (editingNumber === table.number) resetTableForm();
+            onToast(`Table ${table.number} removed`, 'info');
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not remove table', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const selectedInfo = selectedTable ? tableInfo[selectedTable.number] : null;
+    const canClearSelected = !!selectedInfo && selectedInfo.state === 'OCCUPIED';
+
+    return (
+        <div>
+            <div className="p-3 border-bottom bg-white d-flex justify-content-between align-items-center flex-wrap gap-2">
+                <div className="d-flex gap-2 flex-wrap">
+                    {(Object.keys(STATE_STYLES) as TableState[]).map(s => (
+                        <span key={s} className="badge text-dark" style={STATE_STYLES[s].style}>
+                            {STATE_STYLES[s].label}: {stateCounts[s]}
+                        </span>
+                    ))}
+                </div>
+                <div className="d-flex gap-2 align-items-center">
+                    {areas.length > 1 && (
+                        <Form.Select size="sm" value={areaFilter} onChange={e => setAreaFilter(e.target.value)} style={{ width: 'auto' }}>
+                            <option value="ALL">All areas</option>
+                            {areas.map(a => <option key={a} value={a}>{a}</option>)}
+                        </Form.Select>
+                    )}
+                    <Button variant="outline-secondary" size="sm" onClick={() => { loadOrders(); loadTables(); }}>
+                        <ArrowClockwise size={16} />
+                    </Button>
+                    <Button variant="outline-dark" size="sm" onClick={() => setShowSettings(true)}>
+                        <Gear size={16} className="me-1" /> Tables
+                    </Button>
+                </div>
+            </div>
+
+            {error && <Alert variant="danger" className="mt-3 mb-0">{error}</Alert>}
+            {tablesError && <Alert variant="warning" className="mt-3 mb-0 py-2 small">{tablesError}</Alert>}
+            {staleOrders.length > 0 && (
+                <Alert variant="warning" className="mt-3 mb-0 py-2 small">
+                    {staleOrders.length} order{staleOrders.length > 1 ? 's' : ''} from earlier days {staleOrders.length > 1 ? 'are' : 'is'} still open
+                    ({staleOrders.map(o => `#${o.id}`).join(', ')}) and no longer shown on the tables. Deliver or cancel {staleOrders.length > 1 ? 'them' : 'it'} from the order list.
+                </Alert>
+            )}
+
+            {loading ? (
+                <div className="p-5 text-center">
+                    <Spinner animation="border" variant="primary" />
+                    <div className="mt-2 text-muted">Loading tables...</div>
+                </div>
+            ) : visibleTables.length === 0 ? (
+                <div className="text-center text-muted py-5">No tables configured. Use the Tables button to add some.</div>
+            ) : (
+                <Row className="g-3 mt-1">
+                    {visibleTables.map(t => {
+                        const info = tableInfo[t.number];
+                        const state = info?.state || 'FREE';
+                        return (
+                            <Col key={t.number} xs={6} sm={4} md={3} xl={2}>
+                                <div
+                                    role="button"
+                                    className="rounded-4 p-3 text-center shadow-sm h-100"
+                                    style={STATE_STYLES[state].style}
+                                    onClick={() => handleTableClick(t)}
+                                >
+                                    <div className="fw-bold fs-4">{t.number}</div>
+                                    <small className="d-block text-muted"><People size={12} className="me-1" />{t.seats} seats{t.area ? ` · ${t.area}` : ''}</small>
+                                    <div className="fw-semibold small mt-1">{STATE_STYLES[state].label}</div>
+                                    {info && info.openOrders.length > 0 && (
+                                        <Badge bg="light" text="dark" className="border mt-1">
+                                            {info.openOrders.length} order{info.openOrders.length > 1 ? 's' : ''}
+                                        </Badge>
+                                    )}
+                                </div>
+                            </Col>
+                        );
+                    })}
+                </Row>
+            )}
+
+            {/* Open orders of a busy table */}
+            <Modal show={!!selectedTable} onHide={() => setSelectedTable(null)} centered>
+                <Modal.Header closeButton>
+                    <Modal.Title>TABLE {selectedTable?.number}</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    {selectedInfo && selectedInfo.openOrders.length === 0 && (
+                        <div className="text-muted">No open orders for this table.</div>
+                    )}
+                    {selectedInfo?.openOrders.map(o => {
+                        const items = parseOrderBillItems(o.orderBill || '[]');
+                        return (
+                            <div key={o.id} className="border rounded-3 p-2 mb-2">
+                                <div className="d-flex justify-content-between align-items-center">
+                                    <strong>{o.code}</strong>
+                                    <Badge bg="light" text="dark" className="border">{getOrderStatusLabel(o.status)}</Badge>
+                                </div>
+                                <small className="text-muted d-block">Requested at {o.requestTime || 'N/A'}</small>
+                                <ul className="small mb-1 ps-3">
+                                    {items.map((it, idx) => (
+                                        <li key={idx}>{it.quantity ?? 1} x {it.productName || `Item ${it.id}`}</li>
+                                    ))}
+                                </ul>
+                                {typeof o.totalPrice === 'number' && <div className="text-end small fw-semibold">${o.totalPrice.toFixed(2)}</div>}
+                            </div>
+                        );
+                    })}
+                </Modal.Body>
+                <Modal.Footer>
+                    {canClearSelected && selectedTable && (
+                        <Button variant="outline-secondary" onClick={() => handleClearTable(selectedTable)} disabled={saving}>
+                            <CheckCircle size={16} className="me-2" />Clear Table
+                        </Button>
+                    )}
+                    <Button
+                        onClick={() => {
+                            if (!selectedTable) return;
+                            const number = selectedTable.number;
+                            setSelectedTable(null);
+                            onNewOrder(number);
+                        }}
+                        style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                    >
+                        <PlusCircle size={16} className="me-2" />New Order
+                    </Button>
+                </Modal.Footer>
+            </Modal>
+
+            {/* Table configuration */}
+            <Modal show={showSettings} onHide={() => { setShowSettings(false); resetTableForm(); }} centered size="lg">
+                <Modal.Header closeButton>
+                    <Modal.Title><Gear size={20} className="me-2" />CONFIGURE TABLES</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    <Row className="g-2 align-items-end mb-3">
+                        <Col sm={3}>
+                            <Form.Label className="small fw-semibold">Number *</Form.Label>
+                            <Form.Control type="number" min={1} value={tableForm.number} onChange={e => setTableForm(f => ({ ...f, number: e.target.value }))} />
+                        </Col>
+                        <Col sm={3}>
+                            <Form.Label className="small fw-semibold">Seats *</Form.Label>
+                            <Form.Control type="number" min={1} value={tableForm.seats} onChange={e => setTableForm(f => ({ ...f, seats: e.target.value }))} />
+                        </Col>
+                        <Col sm={3}>
+                            <Form.Label className="small fw-semibold">Area</Form.Label>
+                            <Form.Control value={tableForm.area} onChange={e => setTableForm(f => ({ ...f, area: e.target.value }))} placeholder="e.g. Terrace" list="floor-areas" />
+                            <datalist id="floor-areas">{areas.map(a => <option key={a} value={a} />)}</datalist>
+                        </Col>
+                        <Col sm={3} className="d-flex gap-1">
+                            <Button className="flex-grow-1" onClick={handleSaveTable} disabled={!tableForm.number || saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                                {editingNumber == null ? 'Add' : 'Save'}
+                            </Button>
+                            {editingNumber != null && <Button variant="outline-secondary" onClick={resetTableForm}>Cancel</Button>}
+                        </Col>
+                    </Row>
+                    <Table size="sm" bordered hover responsive className="mb-0">
+                        <thead>
+                        <tr>
+                            <th>Table</th>
+                            <th>Seats</th>
+                            <th>Area</th>
+                            <th>State</th>
+                            <th style={{ width: '100px' }}>Actions</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {tables.map(t => (
+                            <tr key={t.number}>
+                                <td>{t.number}</td>
+                                <td>{t.seats}</td>
+                                <td>{t.area || '-'}</td>
+                                <td>{STATE_STYLES[tableInfo[t.number]?.state || 'FREE'].label}</td>
+                                <td className="d-flex gap-1">
+                                    <Button size="sm" variant="outline-secondary" onClick={() => {
+                                        setEditingNumber(t.number);
+                                        setTableForm({ number: String(t.number), seats: String(t.seats), area: t.area });
+                                    }}>
+                                        <PencilSquare size={14} />
+                                    </Button>
+                                    <Button size="sm" variant="outline-danger" onClick={() => handleRemoveTable(t)} disabled={saving}>
+                                        <Trash size={14} />
+                                    </Button>
+                                </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </Table>
+                </Modal.Body>
+            </Modal>
+        </div>
+    );
+};
+
+export default FloorPlan;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Alert, Button, Collapse, Form } from 'react-bootstrap';
 import { BellSlash, InfoCircle, CheckCircle, ExclamationTriangle } from 'react-bootstrap-icons';
-import { getAllOrders, type OrderData } from '../../service/api';
+import { getAllOrders, subscribeToOrderUpdates, type OrderData } from '../../service/api';
 
 export type NotificationType = 'success' | 'warning' | 'danger' | 'info';
 
@@ -27,7 +27,7 @@ interface LastOrderState {
 const DEFAULT_PENDING_WARNING_MIN = 15;
 const DEFAULT_PENDING_URGENT_MIN = 30;
 const DEFAULT_READY_WARNING_MIN = 15;
-const POLL_INTERVAL_MS = 60_000;
+const AGING_CHECK_INTERVAL_MS = 60_000;
 const LS_THRESHOLDS_KEY = 'order_notif_thresholds';
 
 const OrderNotifications: React.FC = () => {
@@ -38,6 +38,8 @@ const OrderNotifications: React.FC = () => {
     const [readyWarningMin, setReadyWarningMin] = useState<number>(DEFAULT_READY_WARNING_MIN);
     const lastOrderStatesRef = useRef<Record<string, LastOrderState | number>>({});
     const checkIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    // Latest known orders, kept current by the order stream so aging checks need no extra requests
+    const knownOrdersRef = useRef<Map<string, OrderData>>(new Map());
 
     // Load persisted thresholds
     useEffect(() => {
@@ -102,10 +104,8 @@ const OrderNotifications: React.FC = () => {
         return null;
     };
 
-    const checkOrdersStatus = useCallback(async (): Promise<void> => {
+    const evaluateOrders = useCallback((orders: OrderData[]): void => {
          try {
-            const response = await getAllOrders() as { data: OrderData[] };
-            const orders = response?.data || [];
             if (orders.length === 0) return;
              const currentTime = new Date();
              const currentTimestamp = currentTime.getTime();
@@ -292,12 +292,43 @@ const OrderNotifications: React.FC = () => {
         }
     }, [addNotification, pendingWarningMin, pendingUrgentMin, readyWarningMin]);
 
+    const checkOrdersStatus = useCallback(async (): Promise<void> => {
+        try {
+            const response = await getAllOrders() as { data: OrderData[] };
+            const orders = response?.data || [];
+            knownOrdersRef.current = new Map(orders.map(o => [String(o.id ?? o.code), o]));
+            evaluateOrders(orders);
+        } catch (error) {
+            console.error('Error checking order status:', error);
+        }
+    }, [evaluateOrders]);
+
+    // Latest checkers for the long-lived stream subscription below
+    const checkOrdersStatusRef = useRef(checkOrdersStatus);
+    const evaluateOrdersRef = useRef(evaluateOrders);
+    useEffect(() => {
+        checkOrdersStatusRef.current = checkOrdersStatus;
+        evaluateOrdersRef.current = evaluateOrders;
+    }, [checkOrdersStatus, evaluateOrders]);
+
+    // Pushed status changes are evaluated right away instead of waiting for the next check
+    useEffect(() => {
+        return subscribeToOrderUpdates(event => {
+            if (event.type === 'refresh') {
+                checkOrdersStatusRef.current().catch(() => {});
+                return;
+            }
+            knownOrdersRef.current.set(String(event.order.id ?? event.order.code), event.order);
+            evaluateOrdersRef.current(Array.from(knownOrdersRef.current.values()));
+        });
+    }, []);
+
     useEffect(() => {
         // Initial load
         checkOrdersStatus().catch(()=>{});
 
-        // Poll aging every minute
-        checkIntervalRef.current = setInterval(checkOrdersStatus, POLL_INTERVAL_MS);
+        // Re-check aging every minute against the known orders
+        checkIntervalRef.current = setInterval(() => evaluateOrders(Array.from(knownOrdersRef.current.values())), AGING_CHECK_INTERVAL_MS);
 
         // Real-time event listeners (status transitions + creation)
         const handleStatusChanged = (e: Event) => {
@@ -355,7 +386,7 @@ const OrderNotifications: React.FC = () => {
             window.removeEventListener('order-status-changed', handleStatusChanged as EventListener);
             window.removeEventListener('order-created', handleOrderCreated as EventListener);
         };
-    }, [addNotification, checkOrdersStatus]);
+    }, [addNotification, checkOrdersStatus, evaluateOrders]);
 
     const removeNotification = (id: string): void => {
          setNotifications(prev => prev.filter(notif => notif.id !== id));
@@ -2,6 +2,7 @@ import React, { useState, useCallback } from 'react';
 import { Form, Button, InputGroup, Row, Col, Card, Spinner, Alert } from 'react-bootstrap';
 import { Search, Clock, CurrencyDollar } from 'react-bootstrap-icons';
 import { getOrderById, getAllOrders } from '../../service/api';
+import { normalizeOrderStatus, getOrderStatusLabel } from '../../service/orderLifecycle';
 
 interface Order {
     id: number;
@@ -30,17 +31,7 @@ interface OrderBackend {
 }
 
 // Normalize backend status variants to canonical frontend representation
-const normalizeBackendStatus = (status?: string): string => {
-    const s = status?.toUpperCase() || 'PENDING';
-    switch (s) {
-        case 'COMPLETED':
-            return 'READY';
-        case 'SERVED':
-            return 'DELIVERED';
-        default:
-            return s; // PENDING, IN_PROGRESS, READY, DELIVERED, CANCELLED
-    }
-};
+const normalizeBackendStatus = (status?: string): string => normalizeOrderStatus(status);
 
 interface OrderSearchProps {
     onSearch?: (results: Order[]) => void;
@@ -83,23 +74,7 @@ const OrderSearch: React.FC<OrderSearchProps> = ({ onSearch }) => {
         }
     };
 
-    const translateStatus = (status: string | undefined): string => {
-        const s = normalizeBackendStatus(status);
-        switch (s) {
-            case 'PENDING':
-                return 'Pending';
-            case 'IN_PROGRESS':
-                return 'In Progress';
-            case 'READY':
-                return 'Ready';
-            case 'DELIVERED':
-                return 'Delivered';
-            case 'CANCELLED':
-                return 'Cancelled';
-            default:
-                return 'Unknown';
-        }
-    };
+    const translateStatus = (status: string | undefined): string => getOrderStatusLabel(status);
 
     const parseItems = (raw: string | undefined): string[] => {
         if (!raw) return [];
@@ -10,35 +10,22 @@ import {
     CheckCircle,
     XCircle,
     Clock,
-    BoxSeam
+    BoxSeam,
+    ListUl,
+    Grid3x3Gap
 } from 'react-bootstrap-icons';
 import OrderTable from './OrderTable';
 import OrderSearch from './OrderSearch';
-import { createOrder, type OrderData } from '../../service/api';
+import { createOrder, getFloorPlan, getMenuItems, type OrderData } from '../../service/api';
 import OrderNotifications from './OrderNotifications';
+import FloorPlan from './FloorPlan';
+import { getActiveMenuItems, assertComboAvailable, MENU_UPDATED_EVENT, type MenuItem } from '../../service/menu';
+import { TABLES_UPDATED_EVENT, type DiningTable } from '../../service/tables';
 
-interface MenuItem { id: number; name: string; price: number; type: string; }
 interface OrderItem { item: MenuItem; quantity: number; }
 interface NewOrder { tableNumber: string; selectedItems: OrderItem[]; notes: string; }
 interface OrderStatusProps { onToast: (msg: string, type?: string) => void; }
 
-// Menu items (base products + combos)
-const menuItems: MenuItem[] = [
-    { id: 1, name: 'Hamburger', price: 8.5, type: 'PRODUCT' },
-    { id: 2, name: 'French Fries', price: 3.25, type: 'PRODUCT' },
-    { id: 3, name: 'Drink', price: 2.0, type: 'PRODUCT' },
-    { id: 4, name: 'Hamburger + French Fries', price: 8.5 + 3.25, type: 'COMBO' },
-    { id: 5, name: 'Hamburger + Drink', price: 8.5 + 2.0, type: 'COMBO' },
-    { id: 6, name: '2 Hamburgers + 2 French Fries + 2 Drinks', price: (2 * 8.5) + (2 * 3.25) + (2 * 2.0), type: 'COMBO' }
-];
-
-// Combo breakdown to product components (used to expand combos into individual product quantities)
-const comboComponents: Record<number, { productId: number; quantity: number }[]> = {
-    4: [ { productId: 1, quantity: 1 }, { productId: 2, quantity: 1 } ],
-    5: [ { productId: 1, quantity: 1 }, { productId: 3, quantity: 1 } ],
-    6: [ { productId: 1, quantity: 2 }, { productId: 2, quantity: 2 }, { productId: 3, quantity: 2 } ]
-};
-
 declare global {
     interface Window {
         updateOrderTable?: (newOrder: { data?: { id?: number | string }, requestTime?: string, tableNumber?: string | number }) => void;
@@ -50,29 +37,50 @@ const OrderStatus: React.FC<OrderStatusProps> = ({ onToast }) => {
     const [currentTime, setCurrentTime] = useState<Date>(new Date());
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [newOrder, setNewOrder] = useState<NewOrder>({ tableNumber: '', selectedItems: [], notes: '' });
+    // Menu items (base products + combos) from the managed catalog
+    const [menuItems, setMenuItems] = useState<MenuItem[]>(() => getActiveMenuItems());
+    const [tables, setTables] = useState<DiningTable[]>([]);
+    const [viewMode, setViewMode] = useState<'list' | 'floor'>('list');
 
     useEffect(() => {
         const intervalId = setInterval(() => setCurrentTime(new Date()), 1000);
         return () => clearInterval(intervalId);
     }, []);
 
-    // Add product (or expand combo) by id
+    // Load the catalog from the backend and keep it in sync with edits made in the Menu section
+    useEffect(() => {
+        const reload = () => setMenuItems(getActiveMenuItems());
+        window.addEventListener(MENU_UPDATED_EVENT, reload);
+        getMenuItems().catch(e => console.warn('Could not load the menu, using the last known items', e));
+        return () => window.removeEventListener(MENU_UPDATED_EVENT, reload);
+    }, []);
+
+    useEffect(() => {
+        const reload = () => {
+            getFloorPlan()
+                .then(plan => setTables(plan.tables))
+                .catch(e => console.warn('Could not load the floor plan, tables can still be typed in', e));
+        };
+        reload();
+        window.addEventListener(TABLES_UPDATED_EVENT, reload);
+        return () => window.removeEventListener(TABLES_UPDATED_EVENT, reload);
+    }, []);
+
+    // Opening an order from the floor plan prefills its table
+    const openCreateModalForTable = (tableNumber: number) => {
+        setNewOrder(o => ({ ...o, tableNumber: String(tableNumber) }));
+        setShowCreateModal(true);
+    };
+
+    // Add a product or combo by id; combos are one line at the combo price
     const addItemById = (id: number) => {
         const selectedItem = menuItems.find(m => m.id === id);
         if (!selectedItem) return;
         if (selectedItem.type === 'COMBO') {
-            const parts = comboComponents[selectedItem.id];
-            if (parts) {
-                setNewOrder(o => {
-                    const updated = [...o.selectedItems];
-                    parts.forEach(part => {
-                        const product = menuItems.find(m => m.id === part.productId && m.type === 'PRODUCT');
-                        if (!product) return;
-                        const idx = updated.findIndex(u => u.item.id === product.id);
-                        if (idx >= 0) updated[idx].quantity += part.quantity; else updated.push({ item: product, quantity: part.quantity });
-                    });
-                    return { ...o, selectedItems: updated };
-                });
+            try {
+                assertComboAvailable(selectedItem);
+            } catch (e) {
+                onToast(e instanceof Error ? e.message : 'This combo cannot be added', 'warning');
                 return;
             }
         }
@@ -83,7 +91,7 @@ const OrderStatus: React.FC<OrderStatusProps> = ({ onToast }) => {
         });
     };
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setNewOrder(o => ({ ...o, [name]: value }));
     };
@@ -128,9 +136,12 @@ const OrderStatus: React.FC<OrderStatusProps> = ({ onToast }) => {
         if (newOrder.tableNumber.trim() === '') { onToast('Table number is required', 'error'); return; }
         if (newOrder.selectedItems.length === 0) { onToast('Must select at least one product or combo', 'error'); return; }
 
-        const components = newOrder.selectedItems.flatMap(orderItem =>
-            Array.from({ length: orderItem.quantity }, () => ({ id: orderItem.item.id, type: orderItem.item.type === 'COMBO' ? 'COMBO' : 'PRODUCT' }))
-        );
+        // One line per product or combo with its real quantity
+        const components = newOrder.selectedItems.map(orderItem => ({
+            id: orderItem.item.id,
+            type: orderItem.item.type === 'COMBO' ? 'COMBO' : 'PRODUCT',
+            quantity: orderItem.quantity
+        }));
 
         const localTime = new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
 
@@ -190,11 +201,23 @@ const OrderStatus: React.FC<OrderStatusProps> = ({ onToast }) => {
                             <h2 className="mb-1 rounded-heading">ORDER STATUS</h2>
                             <small className="text-muted"><Clock size={14} className="me-1" />{currentTime.toLocaleTimeString()}</small>
                         </div>
-                        <Button variant="primary" onClick={() => setShowCreateModal(true)} className="d-flex align-items-center" style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
-                            <PlusCircle size={18} className="me-2" />Create Order
-                        </Button>
+                        <div className="d-flex gap-2 align-items-center">
+                            <div className="btn-group">
+                                <Button variant={viewMode === 'list' ? 'dark' : 'outline-dark'} onClick={() => setViewMode('list')} className="d-flex align-items-center">
+                                    <ListUl size={16} className="me-1" />List
+                                </Button>
+                                <Button variant={viewMode === 'floor' ? 'dark' : 'outline-dark'} onClick={() => setViewMode('floor')} className="d-flex align-items-center">
+                                    <Grid3x3Gap size={16} className="me-1" />Floor Plan
+                                </Button>
+                            </div>
+                            <Button variant="primary" onClick={() => setShowCreateModal(true)} className="d-flex align-items-center" style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                                <PlusCircle size={18} className="me-2" />Create Order
+                            </Button>
+                        </div>
                     </div>
-                    <OrderTable searchTerm={searchTerm} onToast={onToast} />
+                    {viewMode === 'list'
+                        ? <OrderTable searchTerm={searchTerm} onToast={onToast} />
+                        : <FloorPlan onNewOrder={openCreateModalForTable} onToast={onToast} />}
                 </div>
                 <Row>
                     <Col md={6}><div className="p-3 border rounded-4 shadow h-100" style={{ minHeight: 0 }}><OrderSearch onSearch={() => {}} /></div></Col>
@@ -211,8 +234,18 @@ const OrderStatus: React.FC<OrderStatusProps> = ({ onToast }) => {
                                 <Row className="mb-3">
                                     <Col md={6}>
                                         <Form.Group controlId="tableNumber" className="mb-3">
-                                            <Form.Label className="fw-semibold small text-uppercase"><TableIcon size={14} className="me-1" /> Table Number *</Form.Label>
-                                            <Form.Control type="number" name="tableNumber" value={newOrder.tableNumber} onChange={handleInputChange} placeholder="e.g. 12 (0 = Takeout)" min={0} required className="shadow-sm" />
+                                            <Form.Label className="fw-semibold small text-uppercase"><TableIcon size={14} className="me-1" /> Table *</Form.Label>
+                                            <Form.Select name="tableNumber" value={newOrder.tableNumber} onChange={handleInputChange} required className="shadow-sm">
+                                                <option value="">Select table</option>
+                                                <option value="0">Takeout</option>
+                                                {tables.map(t => (
+                                                    <option key={t.number} value={String(t.number)}>Table {t.number}{t.area ? ` - ${t.area}` : ''} ({t.seats} seats)</option>
+                                                ))}
+                                                {/* Keep a prefilled table selectable even if it was removed from the plan */}
+                                                {newOrder.tableNumber !== '' && newOrder.tableNumber !== '0' && !tables.some(t => String(t.number) === newOrder.tableNumber) && (
+                                                    <option value={newOrder.tableNumber}>Table {newOrder.tableNumber}</option>
+                                                )}
+                                            </Form.Select>
                                         </Form.Group>
                                     </Col>
                                     <Col md={6}>
@@ -295,7 +328,7 @@ const OrderStatus: React.FC<OrderStatusProps> = ({ onToast }) => {
                                         <div className="d-flex justify-content-between align-items-center mb-3"><span className="fw-semibold">Total</span><span className="fs-5 text-primary fw-bold">${total.toFixed(2)}</span></div>
                                         {isCreateDisabled && (
                                           <div className="alert alert-warning py-2 small mb-3">
-                                            {newOrder.selectedItems.length === 0 ? 'Add at least one product.' : 'Enter a table number (use 0 for Takeout).'}
+                                            {newOrder.selectedItems.length === 0 ? 'Add at least one product.' : 'Select a table (or Takeout).'}
                                           </div>
                                         )}
                                         <div className="d-grid gap-2">
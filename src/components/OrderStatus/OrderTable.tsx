@@ -9,9 +9,32 @@ import {
     XCircle,
     Trash,
     Plus,
-    Dash
+    Dash,
+    PencilSquare,
+    CashCoin
 } from 'react-bootstrap-icons';
-import { getAllOrders, updateOrderStatus, deleteOrder, type OrderComponentData, type OrderData } from '../../service/api';
+import {
+    getAllOrders,
+    updateOrderStatus,
+    deleteOrder,
+    parseOrderBillItems,
+    subscribeToOrderUpdates,
+    type OrderComponentData,
+    type OrderData,
+    type OrderStreamMode
+} from '../../service/api';
+import EditOrderModal, { type EditableOrder } from './EditOrderModal';
+import CheckoutModal, { type CheckoutOrder } from './CheckoutModal';
+import ExportMenu from '../common/ExportMenu';
+import { parseExportDate, type ExportColumn } from '../../service/exportFile';
+import { getOrderBalance, getPaidAmount, type OrderPayment } from '../../service/payments';
+import {
+    canTransition,
+    getOrderStatusLabel,
+    ORDER_STATUS_LABELS,
+    type OrderStatusCode,
+    type OrderStatusHistoryEntry
+} from '../../service/orderLifecycle';
 
 // Event hook used by external components to inject a newly created order placeholder
 interface UpdateOrderEvent {
@@ -32,6 +55,7 @@ interface OrderTableRow {
     status: string;
     requestTime: string | null;
     deliveryTime: string | null;
+    orderDate: string | null;
     requestingClient: string;
     table: string;
     items: OrderComponentData[];
@@ -39,6 +63,10 @@ interface OrderTableRow {
     originalStatus?: string;
     components: OrderComponentData[];
     totalPrice: number;
+    statusHistory: OrderStatusHistoryEntry[];
+    payments: OrderPayment[];
+    paidAmount: number;
+    balance: number;
 }
 
 interface OrderTableProps {
@@ -74,60 +102,13 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
     // New state variables: status filter and recent highlight set
     const [statusFilter, setStatusFilter] = useState<string>('ALL');
     const [recentOrders, setRecentOrders] = useState<Set<number>>(new Set());
-
-    const mapStatusToEnglish = useCallback((status: string | null | undefined): string => {
-        if (!status) return 'Pending';
-        const s = status.toUpperCase();
-        const statusMap: Record<string, string> = {
-            'PENDING': 'Pending',
-            'IN_PROGRESS': 'In Progress',
-            'COMPLETED': 'Ready',      // backend canonical -> UI label
-            'READY': 'Ready',          // compatibility (old frontend)
-            'SERVED': 'Delivered',     // backend canonical -> UI label
-            'DELIVERED': 'Delivered',  // compatibility (old frontend)
-            'CANCELLED': 'Cancelled'
-        };
-        return statusMap[s] || 'Pending';
-    }, []);
-
-    const mapStatusToBackend = useCallback((englishStatus: string): string => {
-        // Backend currently expects these canonical codes
-        const m: Record<string,string> = {
-            'Pending': 'PENDING',
-            'In Progress': 'IN_PROGRESS',
-            'Ready': 'COMPLETED',
-            'Delivered': 'SERVED',
-            'Cancelled': 'CANCELLED'
-        };
-        return m[englishStatus] || 'PENDING';
-    }, []);
+    const [streamMode, setStreamMode] = useState<OrderStreamMode>('connecting');
+    const [orderToEdit, setOrderToEdit] = useState<EditableOrder | null>(null);
+    const [orderToCheckout, setOrderToCheckout] = useState<CheckoutOrder | null>(null);
 
     const mapOrderData = useCallback((raw: RawOrder): OrderTableRow => {
         const orderId = raw.orderId ?? raw.id ?? null;
 
-        const parseOrderItems = (orderBillJson: string): OrderComponentData[] => {
-            interface ParsedBillItem {
-                productId?: number;
-                quantity?: number;
-                productName?: string;
-                productPrice?: number;
-            }
-            try {
-                const parsed: unknown = JSON.parse(orderBillJson);
-                if (!Array.isArray(parsed)) return [];
-                return (parsed as ParsedBillItem[]).map((item, idx) => ({
-                    id: (item.productId ?? (idx + 1)) as number,
-                    quantity: (item.quantity ?? 1) as number,
-                    productId: item.productId,
-                    productName: item.productName || `Product ${item.productId}`,
-                    productPrice: item.productPrice ?? 0,
-                    type: 'PRODUCT'
-                }));
-            } catch {
-                return [];
-            }
-        };
-
         const formatTime = (iso: string | null | undefined): string | null => {
             if (!iso) return null;
             // If it already comes formatted as HH:MM or HH:MM:SS, accept it directly
@@ -146,11 +127,12 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
         const tableNumber = raw.tableNumber ?? (raw.table ? parseInt(raw.table, 10) : 0);
         const tableDisplay = tableNumber > 0 ? String(tableNumber) : 'N/A';
 
-        const items = parseOrderItems(raw.orderBill || raw.details || '[]');
+        const items = parseOrderBillItems(raw.orderBill || raw.details || '[]');
         const totalPrice = typeof raw.totalPrice === 'number' ? raw.totalPrice : (items.reduce((s, it) => s + ((it.productPrice || 0) * (it.quantity || 1)), 0));
 
+        const payments = raw.payments ?? [];
         const backendStatus = raw.status || raw.orderStatus || 'PENDING';
-        const statusEnglish = mapStatusToEnglish(backendStatus);
+        const statusEnglish = getOrderStatusLabel(backendStatus);
 
         return {
             id: orderId,
@@ -160,13 +142,18 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
             status: statusEnglish,
             requestTime,
             deliveryTime: deliveryTime || null,
+            orderDate: raw.orderDate ?? null,
             items,
             details: raw.orderBill || raw.details || '',
             originalStatus: backendStatus,
             components: items,
-            totalPrice
+            totalPrice,
+            statusHistory: raw.statusHistory ?? [],
+            payments,
+            paidAmount: raw.paidAmount ?? getPaidAmount(payments),
+            balance: raw.balance ?? getOrderBalance(totalPrice, payments)
         };
-    }, [mapStatusToEnglish]);
+    }, []);
 
     const loadOrders = useCallback(async (opts?: { showSpinner?: boolean }) => {
          if (isFetchingRef.current) return; // avoid concurrent fetches
@@ -271,14 +258,21 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
-    // Single auto-refresh every 30 seconds
+    // Live updates: apply pushed orders in place, refetch when the stream asks for it
+    // (reconnect or polling fallback)
     useEffect(() => {
-        const intervalId = setInterval(() => {
-            loadOrders({ showSpinner: false }).then(() => {});
-        }, 30000);
-        return () => clearInterval(intervalId);
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+        return subscribeToOrderUpdates(event => {
+            if (event.type === 'refresh') {
+                loadOrders({ showSpinner: false }).then(() => {});
+                return;
+            }
+            const row = mapOrderData(event.order);
+            if (row.id == null) return;
+            setOrders(prev => prev.some(o => o.id === row.id)
+                ? prev.map(o => o.id === row.id ? row : o)
+                : [row, ...prev]);
+        }, setStreamMode);
+    }, [loadOrders, mapOrderData]);
 
     const handleRefresh = async () => {
         try {
@@ -310,21 +304,20 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
         }
     }, []);
 
-    const handleStatusChange = async (code: string, newStatus: string) => {
+    const handleStatusChange = async (code: string, newStatus: OrderStatusCode) => {
         try {
             const order = orders.find(o => o.code === code);
             if (!order) {
                 onToast('Order not found', 'error');
                 return;
             }
-            if (order.status === 'Cancelled') {
-                onToast('Cannot change a cancelled order', 'warning');
+            if (!canTransition(order.status, newStatus)) {
+                onToast(`Order ${code} cannot go from ${order.status} to ${ORDER_STATUS_LABELS[newStatus]}`, 'warning');
                 return;
             }
             setUpdatingOrder(code);
 
-            const backendStatus = mapStatusToBackend(newStatus);
-            const resp = await updateOrderStatus(Number(order.id), backendStatus);
+            const resp = await updateOrderStatus(Number(order.id), newStatus, order.status);
             const data = resp.data || {};
             // backend may return delivery time under deliveryTime or deliverTime
             const respObj = data as unknown;
@@ -333,21 +326,22 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
                 const obj = respObj as Record<string, unknown>;
                 serverDeliveryRaw = obj['deliveryTime'] ?? obj['deliverTime'];
             }
-            let backendReported: string = backendStatus;
+            let backendReported: string = newStatus;
             if (data && typeof data === 'object') {
                 const d = (data as unknown) as Record<string, unknown>;
                 const s1 = d['status'];
                 const s2 = d['orderStatus'];
-                backendReported = typeof s1 === 'string' ? s1 : (typeof s2 === 'string' ? s2 : backendStatus);
+                backendReported = typeof s1 === 'string' ? s1 : (typeof s2 === 'string' ? s2 : newStatus);
             }
-            const english = mapStatusToEnglish(backendReported);
+            const english = getOrderStatusLabel(backendReported);
 
             const deliveryTimeUpd = english === 'Delivered'
                 ? (serverDeliveryRaw ? (() => { try { const dt = new Date(String(serverDeliveryRaw)); return isNaN(dt.getTime()) ? order.deliveryTime : dt.toLocaleTimeString('en-US',{hour:'2-digit',minute:'2-digit',hour12:false}); } catch { return order.deliveryTime; } })() : new Date().toLocaleTimeString('en-US',{hour:'2-digit',minute:'2-digit',hour12:false}))
                 : (serverDeliveryRaw ? String(serverDeliveryRaw) : order.deliveryTime);
 
             const prevStatus = order.status;
-            setOrders(prev => prev.map(o => o.code === code ? {...o, status: english, deliveryTime: deliveryTimeUpd} : o));
+            const statusHistory = resp.data?.statusHistory?.length ? resp.data.statusHistory : order.statusHistory;
+            setOrders(prev => prev.map(o => o.code === code ? {...o, status: english, deliveryTime: deliveryTimeUpd, statusHistory} : o));
 
             // Persist delivery time locally keyed by order id so table shows it reliably
             try {
@@ -414,6 +408,62 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
         }
     };
 
+    const handleEditClick = (order: OrderTableRow) => {
+        if (order.id == null) return;
+        if (order.status === 'Delivered' || order.status === 'Cancelled') {
+            onToast(`Order ${order.code} is ${order.status.toLowerCase()} and can no longer be edited`, 'warning');
+            return;
+        }
+        setOrderToEdit({ id: order.id, code: order.code, status: order.status, items: order.items });
+    };
+
+    const handleOrderEdited = (updated: OrderData) => {
+        const row = mapOrderData(updated);
+        setOrders(prev => prev.map(o => o.id === row.id ? { ...row, deliveryTime: o.deliveryTime } : o));
+    };
+
+    const handleCheckoutClick = (order: OrderTableRow) => {
+        if (order.id == null) return;
+        if (order.status !== 'Delivered') {
+            onToast(`Order ${order.code} must be delivered before taking payment`, 'warning');
+            return;
+        }
+        const tableNumber = order.table !== 'N/A' ? parseInt(order.table, 10) || 0 : 0;
+        setOrderToCheckout({
+            id: order.id,
+            code: order.code,
+            tableNumber,
+            totalPrice: order.totalPrice,
+            items: order.items,
+            payments: order.payments,
+            paidAmount: order.paidAmount,
+            balance: order.balance
+        });
+    };
+
+    // The backend answers with the order, so the row takes its payments and balance from it
+    const handlePaymentRecorded = (updated: OrderData, payment: OrderPayment) => {
+        const row = mapOrderData(updated);
+        setOrders(prev => prev.map(o => o.id === row.id ? { ...o, payments: row.payments, paidAmount: row.paidAmount, balance: row.balance } : o));
+        onToast(row.balance > 0
+            ? `Payment recorded for ${payment.orderCode}. $${row.balance.toFixed(2)} left to pay`
+            : `${payment.orderCode} fully paid`, 'success');
+    };
+
+    // Export mirrors the visible list (status filter, cancelled toggle and search term)
+    const exportColumns: ExportColumn<OrderTableRow>[] = [
+        { header: 'Code', value: o => o.code },
+        { header: 'Date', value: o => parseExportDate(o.orderDate), format: 'date', width: 12 },
+        { header: 'Table', value: o => o.table !== 'N/A' ? `Table ${o.table}` : 'Takeout' },
+        { header: 'Status', value: o => o.status },
+        { header: 'Items', value: o => o.items.map(it => `${it.quantity || 1}x ${it.productName || it.name || 'Item'}`).join('; '), width: 50 },
+        { header: 'Total', value: o => o.totalPrice ?? 0, format: 'currency', width: 12 },
+        { header: 'Paid', value: o => o.paidAmount, format: 'currency', width: 12 },
+        { header: 'Balance', value: o => o.status === 'Delivered' ? o.balance : null, format: 'currency', width: 12 },
+        { header: 'Request Time', value: o => o.requestTime && o.requestTime !== 'N/A' ? o.requestTime : '' },
+        { header: 'Delivery Time', value: o => o.deliveryTime || (o.id != null ? localDeliveryTimes[o.id] : '') || '' }
+    ];
+
     const cancelDelete = () => {
         setShowDeleteModal(false);
         setOrderToDelete(null);
@@ -476,8 +526,17 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
                     <div className="d-flex justify-content-between align-items-center">
                         <h6 className="mb-0 text-muted">
                             Total orders: <span className="text-dark">{filteredOrders.length}</span>
+                            <Badge
+                                bg={streamMode === 'live' ? 'success' : 'light'}
+                                text={streamMode === 'live' ? undefined : 'dark'}
+                                className="ms-2 border fw-normal"
+                                title={streamMode === 'polling' ? 'Live updates unavailable, refreshing every 30 seconds' : undefined}
+                            >
+                                {streamMode === 'live' ? 'Live' : streamMode === 'polling' ? 'Auto-refresh' : 'Connecting...'}
+                            </Badge>
                         </h6>
                         <div className="d-flex gap-2 align-items-center flex-wrap">
+                            <ExportMenu rows={filteredOrders} columns={exportColumns} fileName="orders" onToast={onToast} />
                             <div className="d-flex gap-1">
                                 {['ALL','Pending','In Progress','Ready','Delivered'].map(s => (
                                     <Button
@@ -555,6 +614,9 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
                                         <span className="badge" style={getBadgeStyle(order.status)}>
                                             {order.status || 'N/A'}
                                         </span>
+                                        {order.status === 'Delivered' && (order.balance === 0
+                                            ? <Badge bg="success" className="ms-1">Paid</Badge>
+                                            : <Badge bg="warning" text="dark" className="ms-1">Balance ${order.balance.toFixed(2)}</Badge>)}
                                     </td>
                                     <td><small className="text-muted">{order.requestTime || 'N/A'}</small></td>
                                     <td><small className="text-muted">{order.deliveryTime || (order.id != null && localDeliveryTimes[order.id] ? localDeliveryTimes[order.id] : '--:--')}</small></td>
@@ -571,34 +633,41 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
                                             </Dropdown.Toggle>
                                             <Dropdown.Menu>
                                                 <Dropdown.Item
-                                                    onClick={() => handleStatusChange(order.code, 'Pending')}
-                                                    disabled={order.status === 'Pending' || order.status === 'Cancelled'}
+                                                    onClick={() => handleEditClick(order)}
+                                                    disabled={order.status === 'Delivered' || order.status === 'Cancelled'}
                                                 >
-                                                    <HourglassSplit size={16} className="me-2" /> Mark as Pending
+                                                    <PencilSquare size={16} className="me-2" /> Edit Items
                                                 </Dropdown.Item>
                                                 <Dropdown.Item
-                                                    onClick={() => handleStatusChange(order.code, 'In Progress')}
-                                                    disabled={order.status === 'In Progress' || order.status === 'Cancelled'}
+                                                    onClick={() => handleCheckoutClick(order)}
+                                                    disabled={order.status !== 'Delivered' || order.balance === 0}
+                                                >
+                                                    <CashCoin size={16} className="me-2" /> Take Payment
+                                                </Dropdown.Item>
+                                                <Dropdown.Divider />
+                                                <Dropdown.Item
+                                                    onClick={() => handleStatusChange(order.code, 'IN_PROGRESS')}
+                                                    disabled={!canTransition(order.status, 'IN_PROGRESS')}
                                                 >
                                                     <ArrowClockwise size={16} className="me-2" /> Mark as In Progress
                                                 </Dropdown.Item>
                                                 <Dropdown.Item
-                                                    onClick={() => handleStatusChange(order.code, 'Ready')}
-                                                    disabled={order.status === 'Ready' || order.status === 'Cancelled'}
+                                                    onClick={() => handleStatusChange(order.code, 'READY')}
+                                                    disabled={!canTransition(order.status, 'READY')}
                                                 >
                                                     <CheckCircle size={16} className="me-2" /> Mark as Ready
                                                 </Dropdown.Item>
                                                 <Dropdown.Item
-                                                    onClick={() => handleStatusChange(order.code, 'Delivered')}
-                                                    disabled={order.status === 'Delivered' || order.status === 'Cancelled'}
+                                                    onClick={() => handleStatusChange(order.code, 'DELIVERED')}
+                                                    disabled={!canTransition(order.status, 'DELIVERED')}
                                                 >
                                                     <Box size={16} className="me-2" /> Mark as Delivered
                                                 </Dropdown.Item>
                                                 <Dropdown.Divider />
                                                 <Dropdown.Item
-                                                    onClick={() => handleStatusChange(order.code, 'Cancelled')}
+                                                    onClick={() => handleStatusChange(order.code, 'CANCELLED')}
                                                     className="text-warning"
-                                                    disabled={order.status === 'Cancelled'}
+                                                    disabled={!canTransition(order.status, 'CANCELLED')}
                                                 >
                                                     <XCircle size={16} className="me-2" /> Cancel Order
                                                 </Dropdown.Item>
@@ -667,6 +736,25 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
                                                      ) : (
                                                          <div className="text-muted fst-italic">No items parsed</div>
                                                      )}
+                                                    <h6 className="fw-bold mt-3 mb-2">Status History</h6>
+                                                    {expandedRows.has(order.id) && (() => {
+                                                        const history = order.statusHistory;
+                                                        if (history.length === 0) return <div className="small text-muted fst-italic">No status changes recorded</div>;
+                                                        return (
+                                                            <div className="small">
+                                                                {history.map((h, idx) => (
+                                                                    <div key={idx} className="d-flex justify-content-between border-bottom py-1">
+                                                                        <span>
+                                                                            {h.from ? `${ORDER_STATUS_LABELS[h.from]} → ` : 'Created as '}
+                                                                            <strong>{ORDER_STATUS_LABELS[h.to]}</strong>
+                                                                            <span className="text-muted"> by {h.by}</span>
+                                                                        </span>
+                                                                        <span className="text-muted">{new Date(h.at).toLocaleString()}</span>
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        );
+                                                    })()}
                                                 </div>
                                             </Collapse>
                                         </td>
@@ -695,6 +783,20 @@ const OrderTable: React.FC<OrderTableProps> = ({ searchTerm, onToast }) => {
                 )}
             </div>
 
+            <EditOrderModal
+                order={orderToEdit}
+                onHide={() => setOrderToEdit(null)}
+                onSaved={handleOrderEdited}
+                onToast={onToast}
+            />
+
+            <CheckoutModal
+                order={orderToCheckout}
+                onHide={() => setOrderToCheckout(null)}
+                onPaid={handlePaymentRecorded}
+                onToast={onToast}
+            />
+
             <Modal show={showDeleteModal} onHide={cancelDelete} centered>
                 <Modal.Header closeButton>
                     <Modal.Title>
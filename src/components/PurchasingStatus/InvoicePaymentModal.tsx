@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Row, Col } from 'react-bootstrap';
+import { CashCoin, XCircle, Check2Circle } from 'react-bootstrap-icons';
+import { recordSupplierInvoicePayment } from '../../service/api';
+import {
+    buildInvoicePayment,
+    SUPPLIER_PAYMENT_METHOD_LABELS,
+    type SupplierInvoice,
+    type SupplierPaymentMethod
+} from '../../service/supplierInvoices';
+
+interface InvoicePaymentModalProps {
+    invoice: SupplierInvoice | null; // null hides the modal
+    onHide: () => void;
+    onPaid: (invoice: SupplierInvoice) => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+const today = (): string => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const InvoicePaymentModal: React.FC<InvoicePaymentModalProps> = ({ invoice, onHide, onPaid, onToast }) => {
+    const [paidDate, setPaidDate] = useState(today());
+    const [method, setMethod] = useState<SupplierPaymentMethod>('BANK_TRANSFER');
+    const [reference, setReference] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!invoice) return;
+        setPaidDate(today());
+        setMethod('BANK_TRANSFER');
+        setReference('');
+    }, [invoice]);
+
+    const save = async () => {
+        if (!invoice) return;
+        setSaving(true);
+        try {
+            onPaid(await recordSupplierInvoicePayment(invoice, buildInvoicePayment(invoice, { paidDate, method, reference })));
+            onToast(`Invoice ${invoice.invoiceNumber} marked paid`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not record the payment', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={invoice !== null} onHide={onHide} centered>
+            <Modal.Header closeButton>
+                <Modal.Title><CashCoin size={20} className="me-2" />MARK INVOICE PAID</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <p className="small text-muted">
+                    Invoice <strong>{invoice?.invoiceNumber}</strong> on PO #{invoice?.orderId} for <strong>${invoice?.amount.toFixed(2)}</strong>.
+                </p>
+                <Row className="g-3">
+                    <Col md={6}>
+                        <Form.Group controlId="invoicePaidDate">
+                            <Form.Label>Payment Date</Form.Label>
+                            <Form.Control type="date" value={paidDate} max={today()} onChange={e => setPaidDate(e.target.value)} />
+                        </Form.Group>
+                    </Col>
+                    <Col md={6}>
+                        <Form.Group controlId="invoicePaymentMethod">
+                            <Form.Label>Method</Form.Label>
+                            <Form.Select value={method} onChange={e => setMethod(e.target.value as SupplierPaymentMethod)}>
+                                {(Object.keys(SUPPLIER_PAYMENT_METHOD_LABELS) as SupplierPaymentMethod[]).map(m => (
+                                    <option key={m} value={m}>{SUPPLIER_PAYMENT_METHOD_LABELS[m]}</option>
+                                ))}
+                            </Form.Select>
+                        </Form.Group>
+                    </Col>
+                    <Col xs={12}>
+                        <Form.Group controlId="invoicePaymentReference">
+                            <Form.Label>Reference (optional)</Form.Label>
+                            <Form.Control value={reference} onChange={e => setReference(e.target.value)} placeholder="Transfer ID, check number..." />
+                        </Form.Group>
+                    </Col>
+                </Row>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Cancel
+                </Button>
+                <Button variant="primary" onClick={save} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                    <Check2Circle size={16} className="me-1" /> Mark Paid
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default InvoicePaymentModal;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Badge } from 'react-bootstrap';
+import { RECEIVING_STATUS_LABELS, type OrderReceivingStatus } from '../../service/purchaseOrders';
+import { INVOICE_MATCH_LABELS, type InvoiceMatchStatus } from '../../service/supplierInvoices';
+
+const STATUS_COLORS: Record<string, string> = {
+    PENDING: 'secondary',
+    ACCEPTED: 'info',
+    DISPATCHING: 'primary',
+    DELIVERED: 'success',
+    CANCELLED: 'danger'
+};
+
+const RECEIVING_COLORS: Record<OrderReceivingStatus, string> = {
+    NOT_RECEIVED: 'light',
+    SHORT: 'warning',
+    RECEIVED: 'success',
+    OVER: 'danger'
+};
+
+export const PurchaseOrderStatusBadge: React.FC<{ status: string }> = ({ status }) => (
+    <Badge bg={STATUS_COLORS[status] ?? 'secondary'}>{status}</Badge>
+);
+
+export const ReceivingStatusBadge: React.FC<{ status: OrderReceivingStatus }> = ({ status }) => (
+    <Badge bg={RECEIVING_COLORS[status]} text={status === 'NOT_RECEIVED' || status === 'SHORT' ? 'dark' : undefined} className={status === 'NOT_RECEIVED' ? 'border' : ''}>
+        {RECEIVING_STATUS_LABELS[status]}
+    </Badge>
+);
+
+const MATCH_COLORS: Record<InvoiceMatchStatus, string> = {
+    MATCHED: 'success',
+    RECEIPT_VARIANCE: 'info',
+    INVOICE_VARIANCE: 'danger',
+    NOT_RECEIVED: 'secondary'
+};
+
+export const InvoiceMatchBadge: React.FC<{ status: InvoiceMatchStatus }> = ({ status }) => (
+    <Badge bg={MATCH_COLORS[status]}>{INVOICE_MATCH_LABELS[status]}</Badge>
+);
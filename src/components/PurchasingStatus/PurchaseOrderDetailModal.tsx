@@ -0,0 +1,196 @@
+import React, { useMemo } from 'react';
+import { Modal, Button, Table, Row, Col, Badge } from 'react-bootstrap';
+import { FileEarmarkText, XCircle, BoxArrowInDown, CheckCircleFill, Circle } from 'react-bootstrap-icons';
+import type { PurchaseOrder } from '../../service/api';
+import {
+    buildReceivingLines,
+    formatOrderDate,
+    getOrderReceipts,
+    getOrderReceivingStatus,
+    RECEIVABLE_STATUSES
+} from '../../service/purchaseOrders';
+import { buildBackorderLines, getOrderShipments, getOrderShortClosures } from '../../service/shipments';
+import { getOrderInvoices, matchOrderInvoices } from '../../service/supplierInvoices';
+import { InvoiceMatchBadge, PurchaseOrderStatusBadge, ReceivingStatusBadge } from './PurchaseOrderBadges';
+
+interface PurchaseOrderDetailModalProps {
+    order: PurchaseOrder | null; // null hides the modal
+    onHide: () => void;
+    onReceive: (order: PurchaseOrder) => void;
+}
+
+const LIFECYCLE = ['PENDING', 'ACCEPTED', 'DISPATCHING', 'DELIVERED'];
+
+const PurchaseOrderDetailModal: React.FC<PurchaseOrderDetailModalProps> = ({ order, onHide, onReceive }) => {
+    const lines = useMemo(() => order ? buildReceivingLines(order) : [], [order]);
+    const orderReceipts = useMemo(() => order ? getOrderReceipts(order) : [], [order]);
+    const shipping = useMemo(() => order ? buildBackorderLines(order) : [], [order]);
+    const shipments = useMemo(() => order ? getOrderShipments(order) : [], [order]);
+    const closures = useMemo(() => order ? getOrderShortClosures(order) : [], [order]);
+    const invoices = useMemo(() => order ? getOrderInvoices(order) : [], [order]);
+    const match = useMemo(() => order ? matchOrderInvoices(order) : null, [order]);
+    const reached = order ? LIFECYCLE.indexOf(order.status) : -1;
+
+    return (
+        <Modal show={order !== null} onHide={onHide} size="lg" centered scrollable>
+            <Modal.Header closeButton>
+                <Modal.Title><FileEarmarkText size={20} className="me-2" />PURCHASE ORDER #{order?.orderId}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {order && (
+                    <>
+                        <Row className="mb-3 small">
+                            <Col md={6}>
+                                <div><span className="text-muted">Supplier:</span> <strong>{order.supplierName}</strong></div>
+                                <div><span className="text-muted">Ordered:</span> {formatOrderDate(order.orderDate)}</div>
+                                <div><span className="text-muted">Last update:</span> {formatOrderDate(order.updateDate)}</div>
+                            </Col>
+                            <Col md={6} className="text-md-end">
+                                <div className="mb-1"><PurchaseOrderStatusBadge status={order.status} /></div>
+                                {order.status !== 'CANCELLED' && <div className="mb-1"><ReceivingStatusBadge status={getOrderReceivingStatus(lines)} /></div>}
+                                <div><span className="text-muted">Total:</span> <strong>${order.totalAmount.toFixed(2)}</strong></div>
+                            </Col>
+                        </Row>
+
+                        {order.status === 'CANCELLED' ? (
+                            <div className="mb-3"><Badge bg="danger">Cancelled</Badge> <small className="text-muted">This order will not be delivered.</small></div>
+                        ) : (
+                            <div className="d-flex flex-wrap gap-3 mb-3 small">
+                                {LIFECYCLE.map((s, idx) => (
+                                    <span key={s} className={idx <= reached ? 'text-success fw-bold' : 'text-muted'}>
+                                        {idx <= reached ? <CheckCircleFill size={14} className="me-1" /> : <Circle size={14} className="me-1" />}{s}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+
+                        <h6 className="text-muted">Lines</h6>
+                        <Table size="sm" bordered hover responsive className="mb-3">
+                            <thead>
+                            <tr>
+                                <th>Item</th>
+                                <th style={{ width: '110px' }}>Unit Price</th>
+                                <th style={{ width: '110px' }}>Ordered</th>
+                                <th style={{ width: '110px' }}>Shipped</th>
+                                <th style={{ width: '110px' }}>Backorder</th>
+                                <th style={{ width: '110px' }}>Received</th>
+                                <th style={{ width: '110px' }}>Subtotal</th>
+                                <th style={{ width: '110px' }}>Receiving</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {order.items.map(i => {
+                                const line = lines.find(l => l.itemId === i.itemId);
+                                const shipped = shipping.find(l => l.itemId === i.itemId);
+                                return (
+                                    <tr key={i.itemId}>
+                                        <td>{i.itemName}</td>
+                                        <td>${i.unitPrice.toFixed(2)}</td>
+                                        <td>{i.quantity} {line?.unit}</td>
+                                        <td>
+                                            {shipped?.shipped ?? 0} {line?.unit}
+                                            {shipped && shipped.shortClosed > 0 && <div className="text-muted small">{shipped.shortClosed} short-closed</div>}
+                                        </td>
+                                        <td>{shipments.length > 0 && order.status !== 'CANCELLED' && shipped && shipped.outstanding > 0 ? `${shipped.outstanding} ${line?.unit}` : '-'}</td>
+                                        <td>{line?.received ?? 0} {line?.unit}</td>
+                                        <td>${i.subtotal.toFixed(2)}</td>
+                                        <td>{line && <ReceivingStatusBadge status={line.status} />}</td>
+                                    </tr>
+                                );
+                            })}
+                            </tbody>
+                        </Table>
+
+                        <h6 className="text-muted">Supplier Shipments</h6>
+                        {shipments.length === 0 ? (
+                            <div className="text-muted small mb-3">The supplier has not recorded any shipment for this order.</div>
+                        ) : (
+                            <Table size="sm" bordered responsive className="mb-3 small">
+                                <thead>
+                                <tr>
+                                    <th style={{ width: '170px' }}>Shipped</th>
+                                    <th style={{ width: '120px' }}>By</th>
+                                    <th>Items</th>
+                                </tr>
+                                </thead>
+                                <tbody>
+                                {shipments.map(sh => (
+                                    <tr key={sh.id}>
+                                        <td>{new Date(sh.shippedAt).toLocaleString()}</td>
+                                        <td>{sh.user}</td>
+                                        <td>{sh.lines.map(l => `${l.itemName} × ${l.quantity}`).join(', ')}</td>
+                                    </tr>
+                                ))}
+                                {closures.map(c => (
+                                    <tr key={`${c.itemId}-${c.closedAt}`} className="text-muted">
+                                        <td>{new Date(c.closedAt).toLocaleString()}</td>
+                                        <td>{c.user}</td>
+                                        <td>Short-closed {c.quantity} of {order.items.find(i => i.itemId === c.itemId)?.itemName ?? `item ${c.itemId}`}: {c.reason}</td>
+                                    </tr>
+                                ))}
+                                </tbody>
+                            </Table>
+                        )}
+
+                        <h6 className="text-muted">Invoices</h6>
+                        {invoices.length === 0 || !match ? (
+                            <div className="text-muted small mb-3">The supplier has not attached an invoice yet.</div>
+                        ) : (
+                            <div className="small mb-3">
+                                <div className="d-flex flex-wrap gap-3 align-items-center mb-1">
+                                    <span><span className="text-muted">PO:</span> ${match.orderAmount.toFixed(2)}</span>
+                                    <span><span className="text-muted">Received:</span> {match.receivedAmount != null ? `$${match.receivedAmount.toFixed(2)}` : '-'}</span>
+                                    <span><span className="text-muted">Invoiced:</span> ${match.invoicedAmount.toFixed(2)}</span>
+                                    <InvoiceMatchBadge status={match.status} />
+                                </div>
+                                {invoices.map(i => (
+                                    <div key={i.id}>
+                                        {i.invoiceNumber} · {i.invoiceDate} · ${i.amount.toFixed(2)} · {i.payment ? `paid ${i.payment.paidDate}` : 'unpaid'}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <h6 className="text-muted">Receipts</h6>
+                        {orderReceipts.length === 0 ? (
+                            <div className="text-muted small">Nothing received against this order yet.</div>
+                        ) : (
+                            <Table size="sm" bordered responsive className="mb-0 small">
+                                <thead>
+                                <tr>
+                                    <th style={{ width: '170px' }}>Received</th>
+                                    <th style={{ width: '120px' }}>By</th>
+                                    <th>Items</th>
+                                    <th>Notes</th>
+                                </tr>
+                                </thead>
+                                <tbody>
+                                {orderReceipts.map(r => (
+                                    <tr key={r.id}>
+                                        <td>{new Date(r.receivedAt).toLocaleString()}</td>
+                                        <td>{r.user}</td>
+                                        <td>{r.lines.map(l => `${l.itemName} × ${l.quantity}${l.lotCode ? ` (lot ${l.lotCode})` : ''}`).join(', ')}</td>
+                                        <td>{r.notes || '-'}</td>
+                                    </tr>
+                                ))}
+                                </tbody>
+                            </Table>
+                        )}
+                    </>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Close
+                </Button>
+                {order && RECEIVABLE_STATUSES.includes(order.status) && (
+                    <Button variant="primary" onClick={() => onReceive(order)} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                        <BoxArrowInDown size={16} className="me-1" /> Receive Items
+                    </Button>
+                )}
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default PurchaseOrderDetailModal;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Table, Dropdown, Badge } from 'react-bootstrap';
+import { ThreeDots, Eye, BoxArrowInDown } from 'react-bootstrap-icons';
+import type { PurchaseOrder } from '../../service/api';
+import { formatOrderDate, RECEIVABLE_STATUSES, type OrderReceivingStatus } from '../../service/purchaseOrders';
+import { getBackorderedLines } from '../../service/shipments';
+import { PurchaseOrderStatusBadge, ReceivingStatusBadge } from './PurchaseOrderBadges';
+
+interface PurchaseOrdersTableProps {
+    orders: PurchaseOrder[];
+    receivingStatus: (order: PurchaseOrder) => OrderReceivingStatus;
+    onView: (order: PurchaseOrder) => void;
+    onReceive: (order: PurchaseOrder) => void;
+}
+
+const PurchaseOrdersTable: React.FC<PurchaseOrdersTableProps> = ({ orders, receivingStatus, onView, onReceive }) => {
+    if (orders.length === 0) {
+        return <div className="text-center text-muted py-4">No purchase orders match the filters</div>;
+    }
+
+    return (
+        <Table striped bordered hover responsive className="mt-2">
+            <thead>
+            <tr>
+                <th style={{ width: '90px' }}>PO #</th>
+                <th>Supplier</th>
+                <th style={{ width: '120px' }}>Status</th>
+                <th style={{ width: '130px' }}>Ordered</th>
+                <th style={{ width: '130px' }}>Updated</th>
+                <th style={{ width: '80px' }}>Lines</th>
+                <th style={{ width: '120px' }}>Total</th>
+                <th style={{ width: '130px' }}>Receiving</th>
+                <th style={{ width: '60px' }}>Actions</th>
+            </tr>
+            </thead>
+            <tbody>
+            {orders.map(o => (
+                <tr key={o.orderId}>
+                    <td>{o.orderId}</td>
+                    <td>{o.supplierName}</td>
+                    <td>
+                        <PurchaseOrderStatusBadge status={o.status} />
+                        {o.status !== 'CANCELLED' && getBackorderedLines(o).length > 0 && (
+                            <Badge bg="warning" text="dark" className="ms-1">Backorder</Badge>
+                        )}
+                    </td>
+                    <td><small>{formatOrderDate(o.orderDate)}</small></td>
+                    <td><small>{formatOrderDate(o.updateDate)}</small></td>
+                    <td>{o.items.length}</td>
+                    <td>${o.totalAmount.toFixed(2)}</td>
+                    <td>{o.status === 'CANCELLED' ? <small className="text-muted">-</small> : <ReceivingStatusBadge status={receivingStatus(o)} />}</td>
+                    <td>
+                        <Dropdown>
+                            <Dropdown.Toggle variant="outline-secondary" size="sm"><ThreeDots size={16} /></Dropdown.Toggle>
+                            <Dropdown.Menu popperConfig={{ strategy: 'fixed' }}>
+                                <Dropdown.Item onClick={() => onView(o)}>
+                                    <Eye size={16} className="me-2" /> View Details
+                                </Dropdown.Item>
+                                <Dropdown.Item onClick={() => onReceive(o)} disabled={!RECEIVABLE_STATUSES.includes(o.status)}>
+                                    <BoxArrowInDown size={16} className="me-2" /> Receive Items
+                                </Dropdown.Item>
+                            </Dropdown.Menu>
+                        </Dropdown>
+                    </td>
+                </tr>
+            ))}
+            </tbody>
+        </Table>
+    );
+};
+
+export default PurchaseOrdersTable;
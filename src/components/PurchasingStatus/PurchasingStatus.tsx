@@ -0,0 +1,443 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Container, Row, Col, Form, Button, Alert, Spinner, Modal, InputGroup, Nav } from 'react-bootstrap';
+import { Clock, PlusCircle, Search, ArrowClockwise, Trash, XCircle } from 'react-bootstrap-icons';
+import SupplierDirectoryTable from './SupplierDirectoryTable';
+import SupplierFormModal from './SupplierFormModal';
+import SupplierCatalogModal from './SupplierCatalogModal';
+import PurchaseOrdersTable from './PurchaseOrdersTable';
+import PurchaseOrderDetailModal from './PurchaseOrderDetailModal';
+import ReceivingModal from './ReceivingModal';
+import SupplierInvoicesTable, { type InvoiceRow } from './SupplierInvoicesTable';
+import SupplierAgingTable from './SupplierAgingTable';
+import InvoicePaymentModal from './InvoicePaymentModal';
+import SupplierScorecardTable from './SupplierScorecardTable';
+import SupplierPriceHistoryModal from './SupplierPriceHistoryModal';
+import { deleteSupplier, getItemUnitDefinitions, getPurchaseOrders, getSupplierDirectory, getSuppliers, setSupplierActive, type PurchaseOrder, type SupplierSummary } from '../../service/api';
+import {
+    buildReceivingLines,
+    getOrderReceivingStatus,
+    PURCHASE_ORDER_STATUSES,
+    type PurchaseOrderReceipt
+} from '../../service/purchaseOrders';
+import {
+    buildSupplierAging,
+    getInvoiceDueDate,
+    matchOrderInvoices,
+    type SupplierInvoice
+} from '../../service/supplierInvoices';
+import { buildSupplierScorecards, type SupplierScorecard } from '../../service/supplierScorecards';
+import {
+    buildSupplierDirectory,
+    getSupplierProfile,
+    getSupplierProfiles,
+    SUPPLIERS_UPDATED_EVENT,
+    type SupplierDirectoryEntry,
+    type SupplierProfile
+} from '../../service/suppliers';
+
+interface PurchasingStatusProps {
+    onToast: (msg: string, type?: string) => void;
+}
+
+type PurchasingTab = 'orders' | 'invoices' | 'scorecards' | 'suppliers';
+
+const PURCHASING_TABS: [PurchasingTab, string][] = [
+    ['orders', 'Purchase Orders'],
+    ['invoices', 'Invoices'],
+    ['scorecards', 'Scorecards'],
+    ['suppliers', 'Suppliers']
+];
+
+const todayIso = (): string => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const PurchasingStatus: React.FC<PurchasingStatusProps> = ({ onToast }) => {
+    const [currentTime, setCurrentTime] = useState<Date>(new Date());
+    const [tab, setTab] = useState<PurchasingTab>('orders');
+    const [accounts, setAccounts] = useState<SupplierSummary[]>([]);
+    const [profiles, setProfiles] = useState<SupplierProfile[]>(() => getSupplierProfiles());
+    const [loadingAccounts, setLoadingAccounts] = useState(false);
+    const [accountsError, setAccountsError] = useState<string | null>(null);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [showInactive, setShowInactive] = useState(false);
+
+    const [showForm, setShowForm] = useState(false);
+    const [supplierToEdit, setSupplierToEdit] = useState<SupplierDirectoryEntry | null>(null);
+    const [catalogSupplier, setCatalogSupplier] = useState<SupplierDirectoryEntry | null>(null);
+    const [supplierToDelete, setSupplierToDelete] = useState<SupplierDirectoryEntry | null>(null);
+
+    const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+    const [loadingOrders, setLoadingOrders] = useState(false);
+    const [ordersError, setOrdersError] = useState<string | null>(null);
+    const [statusFilter, setStatusFilter] = useState<string>('ALL');
+    const [supplierFilter, setSupplierFilter] = useState<string>('');
+    const [orderSearch, setOrderSearch] = useState('');
+    const [orderToView, setOrderToView] = useState<PurchaseOrder | null>(null);
+    const [orderToReceive, setOrderToReceive] = useState<PurchaseOrder | null>(null);
+
+    const [showPaidInvoices, setShowPaidInvoices] = useState(false);
+    const [invoiceSearch, setInvoiceSearch] = useState('');
+    const [invoiceToPay, setInvoiceToPay] = useState<SupplierInvoice | null>(null);
+
+    const [priceHistoryCard, setPriceHistoryCard] = useState<SupplierScorecard | null>(null);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setCurrentTime(new Date()), 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    useEffect(() => {
+        const reload = () => setProfiles(getSupplierProfiles());
+        window.addEventListener(SUPPLIERS_UPDATED_EVENT, reload);
+        return () => window.removeEventListener(SUPPLIERS_UPDATED_EVENT, reload);
+    }, []);
+
+    const loadAccounts = useCallback(async () => {
+        setLoadingAccounts(true);
+        setAccountsError(null);
+        const [accountsResult, directoryResult] = await Promise.allSettled([getSuppliers(), getSupplierDirectory()]);
+        const reasonOf = (result: PromiseRejectedResult) => result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        const failed: string[] = [];
+        if (accountsResult.status === 'fulfilled') setAccounts(accountsResult.value);
+        else failed.push(`Supplier accounts could not be loaded (${reasonOf(accountsResult)}). Only suppliers saved in the directory are listed.`);
+        if (directoryResult.status === 'rejected') {
+            failed.push(`The supplier directory could not be loaded (${reasonOf(directoryResult)}). Contacts, terms and catalogs may be missing.`);
+        }
+        setAccountsError(failed.length > 0 ? failed.join(' ') : null);
+        setLoadingAccounts(false);
+    }, []);
+
+    const loadOrders = useCallback(async () => {
+        setLoadingOrders(true);
+        setOrdersError(null);
+        try {
+            // Receiving shows quantities in each item's purchase unit, so the unit definitions load with the orders
+            const [list] = await Promise.all([
+                getPurchaseOrders(),
+                getItemUnitDefinitions().catch(err => console.warn('Could not load item units, receiving uses base units', err))
+            ]);
+            setOrders(list.sort((a, b) => b.orderId - a.orderId));
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setOrdersError(`Purchase orders could not be loaded (${msg}).`);
+        } finally {
+            setLoadingOrders(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadAccounts();
+        loadOrders();
+    }, [loadAccounts, loadOrders]);
+
+    const directory = useMemo(() => buildSupplierDirectory(accounts, profiles), [accounts, profiles]);
+
+    const visible = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        return directory
+            .filter(s => showInactive || s.active)
+            .filter(s => !term
+                || s.name.toLowerCase().includes(term)
+                || s.id.toLowerCase().includes(term)
+                || s.contacts.some(c => [c.name, c.email, c.phone].some(v => v.toLowerCase().includes(term))));
+    }, [directory, searchTerm, showInactive]);
+
+    const inactiveCount = directory.filter(s => !s.active).length;
+
+    const orderSuppliers = useMemo(() =>
+        Array.from(new Map(orders.map(o => [o.supplierId, o.supplierName])).entries()).sort((a, b) => a[1].localeCompare(b[1])), [orders]);
+
+    const visibleOrders = useMemo(() => {
+        const term = orderSearch.trim().toLowerCase();
+        return orders
+            .filter(o => statusFilter === 'ALL' || o.status === statusFilter)
+            .filter(o => !supplierFilter || o.supplierId === supplierFilter)
+            .filter(o => !term
+                || String(o.orderId).includes(term)
+                || o.supplierName.toLowerCase().includes(term)
+                || o.items.some(i => i.itemName.toLowerCase().includes(term)));
+    }, [orders, statusFilter, supplierFilter, orderSearch]);
+
+    const receivingStatus = useCallback((order: PurchaseOrder) => getOrderReceivingStatus(buildReceivingLines(order)), []);
+
+    const termsOf = useCallback((supplierId: string) => getSupplierProfile(supplierId, profiles)?.paymentTerms ?? null, [profiles]);
+
+    // Invoices come with their purchase order
+    const invoices = useMemo(() => orders.flatMap(o => o.invoices), [orders]);
+
+    // Receipts come with their purchase order too
+    const addReceipt = (receipt: PurchaseOrderReceipt) => setOrders(prev => prev.map(o => o.orderId !== receipt.orderId ? o
+        : { ...o, receipts: [...o.receipts, receipt] }));
+
+    const markInvoicePaid = (paid: SupplierInvoice) => setOrders(prev => prev.map(o => o.orderId !== paid.orderId ? o
+        : { ...o, invoices: o.invoices.map(i => i.id === paid.id ? paid : i) }));
+
+    // Unpaid invoices first, soonest due on top; paid ones after, latest payment first
+    const invoiceRows = useMemo((): InvoiceRow[] => {
+        const today = todayIso();
+        return invoices.map(invoice => {
+            const order = orders.find(o => o.orderId === invoice.orderId) ?? null;
+            const dueDate = getInvoiceDueDate(invoice, order ? termsOf(order.supplierId) : null);
+            return {
+                invoice,
+                order,
+                dueDate,
+                overdue: !invoice.payment && dueDate < today,
+                match: order ? matchOrderInvoices(order) : null
+            };
+        }).sort((a, b) => {
+            if (!!a.invoice.payment !== !!b.invoice.payment) return a.invoice.payment ? 1 : -1;
+            return a.invoice.payment && b.invoice.payment
+                ? b.invoice.payment.paidDate.localeCompare(a.invoice.payment.paidDate)
+                : a.dueDate.localeCompare(b.dueDate);
+        });
+    }, [invoices, orders, termsOf]);
+
+    const visibleInvoices = useMemo(() => {
+        const term = invoiceSearch.trim().toLowerCase();
+        return invoiceRows
+            .filter(r => showPaidInvoices || !r.invoice.payment)
+            .filter(r => !term
+                || r.invoice.invoiceNumber.toLowerCase().includes(term)
+                || String(r.invoice.orderId).includes(term)
+                || (r.order?.supplierName.toLowerCase().includes(term) ?? false));
+    }, [invoiceRows, invoiceSearch, showPaidInvoices]);
+
+    const aging = useMemo(() => buildSupplierAging(invoices, orders, termsOf), [invoices, orders, termsOf]);
+
+    // Scores read lead times from the directory profiles; shipments and receipts come with the orders
+    const scorecards = useMemo(
+        () => tab === 'scorecards' ? buildSupplierScorecards(orders, directory.filter(s => s.active)) : [],
+        [tab, orders, directory]
+    );
+
+    const refresh = () => {
+        loadAccounts();
+        loadOrders();
+    };
+
+    const openReceiving = (order: PurchaseOrder) => {
+        setOrderToView(null);
+        setOrderToReceive(order);
+    };
+
+    const toggleActive = async (supplier: SupplierDirectoryEntry) => {
+        try {
+            await setSupplierActive(supplier, !supplier.active);
+            onToast(supplier.active
+                ? `"${supplier.name}" deactivated; it no longer appears when creating purchase orders`
+                : `"${supplier.name}" reactivated`, 'success');
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not update the supplier', 'warning');
+        }
+    };
+
+    const confirmDelete = async () => {
+        if (!supplierToDelete) return;
+        try {
+            await deleteSupplier(supplierToDelete.id);
+            onToast(`Supplier "${supplierToDelete.name}" deleted`, 'success');
+            setSupplierToDelete(null);
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not delete the supplier', 'warning');
+        }
+    };
+
+    return (
+        <div className="d-flex flex-column" style={{ backgroundColor: 'white' }}>
+            <Container fluid className="py-4">
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    <div className="d-flex justify-content-between align-items-center mb-4 flex-wrap gap-2">
+                        <div>
+                            <h2 className="mb-1 rounded-heading">PURCHASING</h2>
+                            <small className="text-muted"><Clock size={14} className="me-1" />{currentTime.toLocaleTimeString()}</small>
+                        </div>
+                        <div className="d-flex gap-2 align-items-center">
+                            <Button variant="outline-secondary" size="sm" onClick={refresh} disabled={loadingAccounts || loadingOrders}>
+                                {loadingAccounts || loadingOrders ? <Spinner as="span" animation="border" size="sm" /> : <ArrowClockwise size={16} />}
+                            </Button>
+                            {tab === 'suppliers' && (
+                                <Button
+                                    variant="primary"
+                                    onClick={() => { setSupplierToEdit(null); setShowForm(true); }}
+                                    className="d-flex align-items-center"
+                                    style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                                >
+                                    <PlusCircle size={18} className="me-2" />Add Supplier
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+
+                    <Nav variant="pills" activeKey={tab} onSelect={k => k && setTab(k as PurchasingTab)} className="mb-3">
+                        {PURCHASING_TABS.map(([key, label]) => (
+                            <Nav.Item key={key}>
+                                <Nav.Link eventKey={key} className={tab === key ? 'text-dark' : ''} style={tab === key ? { backgroundColor: '#86e5ff' } : {}}>
+                                    {label}
+                                </Nav.Link>
+                            </Nav.Item>
+                        ))}
+                    </Nav>
+
+                    {tab === 'orders' && (
+                        <>
+                            {ordersError && <Alert variant="danger" className="py-2 small">{ordersError}</Alert>}
+
+                            <div className="d-flex flex-wrap gap-2 mb-3">
+                                {['ALL', ...PURCHASE_ORDER_STATUSES].map(s => (
+                                    <Button
+                                        key={s}
+                                        size="sm"
+                                        variant={statusFilter === s ? 'dark' : 'outline-secondary'}
+                                        onClick={() => setStatusFilter(s)}
+                                    >
+                                        {s} ({s === 'ALL' ? orders.length : orders.filter(o => o.status === s).length})
+                                    </Button>
+                                ))}
+                            </div>
+
+                            <Row className="g-2 mb-3">
+                                <Col md={6}>
+                                    <InputGroup size="sm">
+                                        <InputGroup.Text><Search size={14} /></InputGroup.Text>
+                                        <Form.Control placeholder="Search PO #, supplier or item..." value={orderSearch} onChange={e => setOrderSearch(e.target.value)} />
+                                    </InputGroup>
+                                </Col>
+                                <Col md={6}>
+                                    <Form.Select size="sm" value={supplierFilter} onChange={e => setSupplierFilter(e.target.value)}>
+                                        <option value="">All suppliers</option>
+                                        {orderSuppliers.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+                                    </Form.Select>
+                                </Col>
+                            </Row>
+
+                            <h6 className="mb-2 text-muted">Purchase Orders: <span className="text-dark fw-bold">{visibleOrders.length}</span></h6>
+
+                            {loadingOrders && orders.length === 0 ? (
+                                <div className="text-center py-4"><Spinner animation="border" size="sm" className="me-2" />Loading purchase orders...</div>
+                            ) : (
+                                <PurchaseOrdersTable
+                                    orders={visibleOrders}
+                                    receivingStatus={receivingStatus}
+                                    onView={setOrderToView}
+                                    onReceive={openReceiving}
+                                />
+                            )}
+                        </>
+                    )}
+
+                    {tab === 'invoices' && (
+                        <>
+                            {ordersError && <Alert variant="danger" className="py-2 small">{ordersError}</Alert>}
+
+                            <h6 className="mb-2 text-muted">Unpaid Balances by Supplier</h6>
+                            <SupplierAgingTable aging={aging} />
+
+                            <Row className="g-2 mb-3 align-items-center">
+                                <Col md={6}>
+                                    <InputGroup size="sm">
+                                        <InputGroup.Text><Search size={14} /></InputGroup.Text>
+                                        <Form.Control placeholder="Search invoice, PO # or supplier..." value={invoiceSearch} onChange={e => setInvoiceSearch(e.target.value)} />
+                                    </InputGroup>
+                                </Col>
+                                <Col md={6} className="d-flex justify-content-md-end">
+                                    <Form.Check
+                                        type="switch"
+                                        id="invoicesShowPaid"
+                                        label={`Show paid (${invoices.filter(i => i.payment).length})`}
+                                        checked={showPaidInvoices}
+                                        onChange={e => setShowPaidInvoices(e.target.checked)}
+                                    />
+                                </Col>
+                            </Row>
+
+                            <h6 className="mb-2 text-muted">Invoices: <span className="text-dark fw-bold">{visibleInvoices.length}</span></h6>
+
+                            <SupplierInvoicesTable rows={visibleInvoices} onMarkPaid={setInvoiceToPay} />
+                        </>
+                    )}
+
+                    {tab === 'scorecards' && (
+                        <>
+                            {ordersError && <Alert variant="danger" className="py-2 small">{ordersError}</Alert>}
+                            <p className="text-muted small mb-2">
+                                On time: orders whose first receipt came within the lead time in force when they were placed. Fill rate: ordered quantities shipped (or received when the supplier recorded no shipments) on delivered or fully short-closed orders.
+                                Cancelled: share of orders no longer pending that ended up cancelled, whether the restaurant or the supplier cancelled them.
+                            </p>
+                            <SupplierScorecardTable scorecards={scorecards} onShowPrices={setPriceHistoryCard} />
+                        </>
+                    )}
+
+                    {tab === 'suppliers' && (
+                        <>
+                            {accountsError && <Alert variant="warning" className="py-2 small">{accountsError}</Alert>}
+
+                            <Row className="g-2 mb-3 align-items-center">
+                                <Col md={6}>
+                                    <InputGroup size="sm">
+                                        <InputGroup.Text><Search size={14} /></InputGroup.Text>
+                                        <Form.Control placeholder="Search suppliers or contacts..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} />
+                                    </InputGroup>
+                                </Col>
+                                <Col md={6} className="d-flex justify-content-md-end">
+                                    <Form.Check
+                                        type="switch"
+                                        id="suppliersShowInactive"
+                                        label={`Show inactive (${inactiveCount})`}
+                                        checked={showInactive}
+                                        onChange={e => setShowInactive(e.target.checked)}
+                                    />
+                                </Col>
+                            </Row>
+
+                            <h6 className="mb-2 text-muted">Suppliers: <span className="text-dark fw-bold">{visible.length}</span></h6>
+
+                            <SupplierDirectoryTable
+                                suppliers={visible}
+                                onEdit={s => { setSupplierToEdit(s); setShowForm(true); }}
+                                onEditCatalog={setCatalogSupplier}
+                                onToggleActive={toggleActive}
+                                onDelete={setSupplierToDelete}
+                            />
+                        </>
+                    )}
+                </div>
+            </Container>
+
+            <SupplierFormModal
+                show={showForm}
+                supplier={supplierToEdit}
+                accounts={accounts.filter(a => !profiles.some(p => p.id === a.id))}
+                onHide={() => setShowForm(false)}
+                onToast={onToast}
+            />
+
+            <SupplierCatalogModal supplier={catalogSupplier} onHide={() => setCatalogSupplier(null)} onToast={onToast} />
+
+            <PurchaseOrderDetailModal order={orderToView} onHide={() => setOrderToView(null)} onReceive={openReceiving} />
+
+            <ReceivingModal order={orderToReceive} onHide={() => setOrderToReceive(null)} onReceived={addReceipt} onToast={onToast} />
+
+            <InvoicePaymentModal invoice={invoiceToPay} onHide={() => setInvoiceToPay(null)} onPaid={markInvoicePaid} onToast={onToast} />
+
+            <SupplierPriceHistoryModal scorecard={priceHistoryCard} onHide={() => setPriceHistoryCard(null)} />
+
+            <Modal show={!!supplierToDelete} onHide={() => setSupplierToDelete(null)} centered>
+                <Modal.Header closeButton>
+                    <Modal.Title><Trash size={20} className="me-2 text-danger" />DELETE SUPPLIER</Modal.Title>
+                </Modal.Header>
+                <Modal.Body>
+                    Delete <strong>{supplierToDelete?.name}</strong> and its catalog from the directory? Past purchase orders are not affected.
+                </Modal.Body>
+                <Modal.Footer>
+                    <Button variant="secondary" onClick={() => setSupplierToDelete(null)}><XCircle size={16} className="me-1" />Cancel</Button>
+                    <Button variant="danger" onClick={confirmDelete}><Trash size={16} className="me-1" />Delete</Button>
+                </Modal.Footer>
+            </Modal>
+        </div>
+    );
+};
+
+export default PurchasingStatus;
@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button, Form, Table, InputGroup } from 'react-bootstrap';
+import { BoxArrowInDown, XCircle, Check2Circle } from 'react-bootstrap-icons';
+import { receivePurchaseOrder, type PurchaseOrder } from '../../service/api';
+import { buildReceivingLines, getLineReceivingStatus, type PurchaseOrderReceipt, type ReceivingLine } from '../../service/purchaseOrders';
+import { buildBackorderLines, getOrderShipments } from '../../service/shipments';
+import { ReceivingStatusBadge } from './PurchaseOrderBadges';
+
+interface ReceivingModalProps {
+    order: PurchaseOrder | null; // null hides the modal
+    onHide: () => void;
+    onReceived: (receipt: PurchaseOrderReceipt) => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+interface ReceivingRow {
+    quantity: string;
+    lotCode: string;
+    expiryDate: string;
+}
+
+const parseQuantity = (value: string): number => value.trim() === '' ? 0 : Number(value.replace(/,/g, '.'));
+
+const rowStatus = (line: ReceivingLine, quantity: number) =>
+    getLineReceivingStatus(line.ordered, line.received + (Number.isFinite(quantity) ? quantity : 0));
+
+const ReceivingModal: React.FC<ReceivingModalProps> = ({ order, onHide, onReceived, onToast }) => {
+    const [lines, setLines] = useState<ReceivingLine[]>([]);
+    const [rows, setRows] = useState<Record<number, ReceivingRow>>({});
+    const [notes, setNotes] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    // Each line starts at what is still expected: shipped but not yet received once the supplier
+    // records shipments, otherwise whatever is outstanding, so a complete delivery is one click
+    useEffect(() => {
+        if (!order) return;
+        const current = buildReceivingLines(order);
+        const shipped = getOrderShipments(order).length > 0 ? buildBackorderLines(order) : null;
+        setLines(current);
+        setRows(Object.fromEntries(current.map(l => [l.itemId, {
+            quantity: String(Math.max(0, Math.round(((shipped?.find(s => s.itemId === l.itemId)?.shipped ?? l.ordered) - l.received) * 1000) / 1000)),
+            lotCode: '',
+            expiryDate: ''
+        }])));
+        setNotes('');
+        setSaving(false);
+    }, [order]);
+
+    const updateRow = (itemId: number, field: keyof ReceivingRow, value: string) =>
+        setRows(current => ({ ...current, [itemId]: { ...current[itemId], [field]: value } }));
+
+    const flagged = useMemo(() => lines.filter(l => {
+        const status = rowStatus(l, parseQuantity(rows[l.itemId]?.quantity ?? ''));
+        return status === 'SHORT' || status === 'OVER' || status === 'NOT_RECEIVED';
+    }).length, [lines, rows]);
+
+    const save = async () => {
+        if (!order) return;
+        setSaving(true);
+        try {
+            const receipt = await receivePurchaseOrder(order, lines.map(l => ({
+                itemId: l.itemId,
+                quantity: parseQuantity(rows[l.itemId]?.quantity ?? ''),
+                lotCode: rows[l.itemId]?.lotCode,
+                expiryDate: rows[l.itemId]?.expiryDate || null
+            })), notes);
+            onReceived(receipt);
+            onToast(`Receipt ${receipt.id} recorded for PO #${order.orderId}; inventory updated`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not record the receipt', 'warning');
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={order !== null} onHide={onHide} size="xl" centered scrollable>
+            <Modal.Header closeButton>
+                <Modal.Title><BoxArrowInDown size={20} className="me-2" />RECEIVE PO #{order?.orderId} · {order?.supplierName.toUpperCase()}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <p className="text-muted small">
+                    Count what arrived and enter it per line. Quantities are in purchase units and are added to inventory when the receipt is saved.
+                </p>
+                <Table size="sm" bordered hover responsive className="mb-3 align-middle">
+                    <thead>
+                    <tr>
+                        <th>Item</th>
+                        <th style={{ width: '110px' }}>Ordered</th>
+                        <th style={{ width: '110px' }}>Received</th>
+                        <th style={{ width: '170px' }}>Received Now</th>
+                        <th style={{ width: '150px' }}>Lot Code</th>
+                        <th style={{ width: '150px' }}>Expiry</th>
+                        <th style={{ width: '110px' }}>Result</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {lines.map(l => {
+                        const row = rows[l.itemId];
+                        const quantity = parseQuantity(row?.quantity ?? '');
+                        return (
+                            <tr key={l.itemId}>
+                                <td>{l.itemName}</td>
+                                <td>{l.ordered} {l.unit}</td>
+                                <td>{l.received} {l.unit}</td>
+                                <td>
+                                    <InputGroup size="sm">
+                                        <Form.Control
+                                            type="text"
+                                            inputMode="decimal"
+                                            value={row?.quantity ?? ''}
+                                            isInvalid={!Number.isFinite(quantity) || quantity < 0}
+                                            onChange={e => updateRow(l.itemId, 'quantity', e.target.value)}
+                                        />
+                                        <InputGroup.Text>{l.unit}</InputGroup.Text>
+                                    </InputGroup>
+                                </td>
+                                <td><Form.Control size="sm" value={row?.lotCode ?? ''} onChange={e => updateRow(l.itemId, 'lotCode', e.target.value)} placeholder="Optional" /></td>
+                                <td><Form.Control size="sm" type="date" value={row?.expiryDate ?? ''} onChange={e => updateRow(l.itemId, 'expiryDate', e.target.value)} /></td>
+                                <td><ReceivingStatusBadge status={rowStatus(l, quantity)} /></td>
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </Table>
+                {flagged > 0 && (
+                    <div className="small text-warning-emphasis mb-2">
+                        {flagged} line{flagged === 1 ? '' : 's'} will not match the ordered quantity after this receipt.
+                    </div>
+                )}
+                <Form.Group>
+                    <Form.Label className="small mb-1">Notes</Form.Label>
+                    <Form.Control as="textarea" rows={2} value={notes} onChange={e => setNotes(e.target.value)} placeholder="Damaged cases, substitutions, driver remarks..." />
+                </Form.Group>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Cancel
+                </Button>
+                <Button variant="primary" onClick={save} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                    <Check2Circle size={16} className="me-1" /> Save Receipt
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default ReceivingModal;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Table } from 'react-bootstrap';
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, type SupplierAging } from '../../service/supplierInvoices';
+
+interface SupplierAgingTableProps {
+    aging: SupplierAging[];
+}
+
+const SupplierAgingTable: React.FC<SupplierAgingTableProps> = ({ aging }) => {
+    if (aging.length === 0) {
+        return <div className="text-muted small mb-3">No unpaid supplier invoices.</div>;
+    }
+
+    const totals = AGING_BUCKETS.map(b => aging.reduce((sum, a) => sum + a.buckets[b], 0));
+    const grandTotal = aging.reduce((sum, a) => sum + a.total, 0);
+
+    return (
+        <Table size="sm" bordered responsive className="mb-4">
+            <thead>
+            <tr>
+                <th>Supplier</th>
+                <th style={{ width: '80px' }}>Invoices</th>
+                {AGING_BUCKETS.map(b => <th key={b} style={{ width: '110px' }}>{AGING_BUCKET_LABELS[b]}</th>)}
+                <th style={{ width: '120px' }}>Balance</th>
+            </tr>
+            </thead>
+            <tbody>
+            {aging.map(a => (
+                <tr key={a.supplierId}>
+                    <td>{a.supplierName}</td>
+                    <td>{a.invoices}</td>
+                    {AGING_BUCKETS.map(b => (
+                        <td key={b} className={b !== 'CURRENT' && a.buckets[b] > 0 ? 'text-danger' : ''}>
+                            {a.buckets[b] > 0 ? `$${a.buckets[b].toFixed(2)}` : '-'}
+                        </td>
+                    ))}
+                    <td className="fw-bold">${a.total.toFixed(2)}</td>
+                </tr>
+            ))}
+            </tbody>
+            <tfoot>
+            <tr className="fw-bold">
+                <td colSpan={2}>Total</td>
+                {totals.map((t, idx) => <td key={AGING_BUCKETS[idx]}>{t > 0 ? `$${t.toFixed(2)}` : '-'}</td>)}
+                <td>${grandTotal.toFixed(2)}</td>
+            </tr>
+            </tfoot>
+        </Table>
+    );
+};
+
+export default SupplierAgingTable;
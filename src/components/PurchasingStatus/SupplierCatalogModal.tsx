@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Table, Row, Col, Spinner, Alert, InputGroup } from 'react-bootstrap';
+import { CardList, XCircle, Check2Circle, Plus, Trash, ArrowCounterclockwise } from 'react-bootstrap-icons';
+import { getInventoryProducts, getPortalSupplierCatalog, saveSupplierCatalog, type InventoryProduct } from '../../service/api';
+import type { SupplierDirectoryEntry } from '../../service/suppliers';
+import { getAllItemUnits, getItemUnits, getPurchaseUnit, type ItemUnits } from '../../service/units';
+
+interface SupplierCatalogModalProps {
+    supplier: SupplierDirectoryEntry | null; // null hides the modal
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+interface CatalogRow {
+    itemId: number;
+    itemName: string;
+    price: string;
+    sku: string;
+}
+
+const SupplierCatalogModal: React.FC<SupplierCatalogModalProps> = ({ supplier, onHide, onToast }) => {
+    const [rows, setRows] = useState<CatalogRow[]>([]);
+    const [inventory, setInventory] = useState<InventoryProduct[]>([]);
+    const [units, setUnits] = useState<ItemUnits[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [warnings, setWarnings] = useState<string[]>([]);
+    const [itemToAdd, setItemToAdd] = useState<string>('');
+    const [saving, setSaving] = useState(false);
+
+    // Suppliers still on their portal items start from them, so the first save keeps their current prices
+    useEffect(() => {
+        if (!supplier) return;
+        let cancelled = false;
+        setRows((supplier.catalog ?? []).map(e => ({ itemId: e.itemId, itemName: e.itemName, price: String(e.price), sku: e.sku })));
+        setItemToAdd('');
+        setUnits(getAllItemUnits());
+        setWarnings([]);
+        setLoading(true);
+        Promise.allSettled([
+            getInventoryProducts(),
+            supplier.catalog || !supplier.hasAccount ? Promise.resolve(null) : getPortalSupplierCatalog(supplier.id)
+        ]).then(([inventoryResult, portalResult]) => {
+            if (cancelled) return;
+            const failed: string[] = [];
+            if (inventoryResult.status === 'fulfilled') setInventory(inventoryResult.value);
+            else failed.push('Inventory could not be loaded; items cannot be added.');
+            if (portalResult.status === 'fulfilled' && portalResult.value) {
+                setRows(portalResult.value.map(i => ({ itemId: i.id, itemName: i.name, price: String(i.price), sku: '' })));
+            } else if (portalResult.status === 'rejected') {
+                failed.push('The portal items could not be loaded; start the catalog from scratch or try again later.');
+            }
+            setWarnings(failed);
+            setLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [supplier]);
+
+    const updateRow = (itemId: number, field: 'price' | 'sku', value: string) =>
+        setRows(list => list.map(r => r.itemId === itemId ? { ...r, [field]: value } : r));
+
+    const addItem = () => {
+        const item = inventory.find(p => p.id === Number(itemToAdd));
+        if (!item || item.id == null) return;
+        const id = item.id;
+        setRows(list => [...list, { itemId: id, itemName: item.name, price: String(item.price), sku: '' }]);
+        setItemToAdd('');
+    };
+
+    const save = async (usePortal: boolean) => {
+        if (!supplier) return;
+        setSaving(true);
+        try {
+            await saveSupplierCatalog(supplier, usePortal ? null : rows.map(r => ({
+                itemId: r.itemId,
+                itemName: r.itemName,
+                price: r.price.trim() === '' ? NaN : Number(r.price.replace(/,/g, '.')),
+                sku: r.sku
+            })));
+            onToast(usePortal
+                ? `"${supplier.name}" uses its portal items again`
+                : `Catalog for "${supplier.name}" saved (${rows.length} item${rows.length === 1 ? '' : 's'})`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not save the catalog', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const available = inventory.filter(p => p.id != null && !rows.some(r => r.itemId === p.id));
+
+    return (
+        <Modal show={supplier !== null} onHide={onHide} size="lg" centered scrollable>
+            <Modal.Header closeButton>
+                <Modal.Title><CardList size={20} className="me-2" />CATALOG · {supplier?.name.toUpperCase()}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <p className="text-muted small">
+                    Items this supplier can deliver and their price per purchase unit. Purchase orders and reorder drafts for this supplier offer these items at these prices.
+                </p>
+                {warnings.map(w => <Alert key={w} variant="warning" className="py-2 small">{w}</Alert>)}
+                <Row className="g-2 align-items-end mb-3">
+                    <Col md={9}>
+                        <Form.Label className="small mb-1">Inventory item</Form.Label>
+                        <Form.Select value={itemToAdd} onChange={e => setItemToAdd(e.target.value)} disabled={loading}>
+                            <option value="">{loading ? 'Loading...' : 'Select item to add'}</option>
+                            {available.map(p => <option key={p.id} value={p.id ?? ''}>{p.name} ({p.supplier})</option>)}
+                        </Form.Select>
+                    </Col>
+                    <Col md={3} className="d-grid">
+                        <Button variant="outline-primary" onClick={addItem} disabled={!itemToAdd}>
+                            {loading ? <Spinner as="span" animation="border" size="sm" /> : <><Plus size={16} /> Add Item</>}
+                        </Button>
+                    </Col>
+                </Row>
+                <Table size="sm" bordered hover responsive className="mb-0">
+                    <thead>
+                    <tr>
+                        <th>Item</th>
+                        <th style={{ width: '160px' }}>Supplier SKU</th>
+                        <th style={{ width: '190px' }}>Price</th>
+                        <th style={{ width: '50px' }}></th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {rows.length === 0 ? (
+                        <tr><td colSpan={4} className="text-center text-muted">{loading ? 'Loading catalog...' : 'No items in the catalog.'}</td></tr>
+                    ) : rows.map(r => (
+                        <tr key={r.itemId}>
+                            <td>{r.itemName}</td>
+                            <td><Form.Control size="sm" value={r.sku} onChange={e => updateRow(r.itemId, 'sku', e.target.value)} placeholder="Optional" /></td>
+                            <td>
+                                <InputGroup size="sm">
+                                    <InputGroup.Text>$</InputGroup.Text>
+                                    <Form.Control type="text" inputMode="decimal" value={r.price} onChange={e => updateRow(r.itemId, 'price', e.target.value)} />
+                                    <InputGroup.Text>/ {getPurchaseUnit(getItemUnits(r.itemId, units)).unit}</InputGroup.Text>
+                                </InputGroup>
+                            </td>
+                            <td className="text-center">
+                                <Button variant="outline-danger" size="sm" onClick={() => setRows(list => list.filter(x => x.itemId !== r.itemId))}>
+                                    <Trash size={14} />
+                                </Button>
+                            </td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </Table>
+            </Modal.Body>
+            <Modal.Footer>
+                {supplier?.catalog && supplier.hasAccount && (
+                    <Button variant="outline-secondary" className="me-auto" onClick={() => save(true)} disabled={saving}>
+                        <ArrowCounterclockwise size={16} className="me-1" /> Use Portal Items
+                    </Button>
+                )}
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Cancel
+                </Button>
+                <Button variant="primary" onClick={() => save(false)} disabled={loading || saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                    <Check2Circle size={16} className="me-1" /> Save Catalog
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default SupplierCatalogModal;
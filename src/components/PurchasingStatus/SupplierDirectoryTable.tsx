@@ -0,0 +1,87 @@
+import React from 'react';
+import { Table, Badge, Dropdown } from 'react-bootstrap';
+import { ThreeDots, PencilSquare, Trash, CardList, PauseCircle, PlayCircle } from 'react-bootstrap-icons';
+import { PAYMENT_TERMS_LABELS, type SupplierDirectoryEntry } from '../../service/suppliers';
+
+interface SupplierDirectoryTableProps {
+    suppliers: SupplierDirectoryEntry[];
+    onEdit: (supplier: SupplierDirectoryEntry) => void;
+    onEditCatalog: (supplier: SupplierDirectoryEntry) => void;
+    onToggleActive: (supplier: SupplierDirectoryEntry) => void;
+    onDelete: (supplier: SupplierDirectoryEntry) => void;
+}
+
+const SupplierDirectoryTable: React.FC<SupplierDirectoryTableProps> = ({ suppliers, onEdit, onEditCatalog, onToggleActive, onDelete }) => {
+    if (suppliers.length === 0) {
+        return <div className="text-center text-muted py-4">No suppliers match the filters</div>;
+    }
+
+    return (
+        <Table striped bordered hover responsive className="mt-2">
+            <thead>
+            <tr>
+                <th>Supplier</th>
+                <th>Contacts</th>
+                <th style={{ width: '150px' }}>Payment Terms</th>
+                <th style={{ width: '110px' }}>Lead Time</th>
+                <th style={{ width: '120px' }}>Catalog</th>
+                <th style={{ width: '60px' }}>Actions</th>
+            </tr>
+            </thead>
+            <tbody>
+            {suppliers.map(s => (
+                <tr key={s.id} className={s.active ? '' : 'text-muted'}>
+                    <td>
+                        <div className="fw-semibold">{s.name}</div>
+                        <small className="text-muted">{s.id}</small>
+                        {!s.active && <Badge bg="secondary" className="ms-2">Inactive</Badge>}
+                        {!s.hasAccount && <Badge bg="warning" text="dark" className="ms-2" title="Purchase orders need a supplier portal account with this ID">No portal account</Badge>}
+                        {!s.hasProfile && <Badge bg="light" text="dark" className="ms-2 border">Not set up</Badge>}
+                    </td>
+                    <td>
+                        {s.contacts.length === 0 ? <small className="text-muted">No contacts</small> : s.contacts.map((c, i) => (
+                            <div key={i} className="small">
+                                {c.name && <strong className="me-1">{c.name}</strong>}
+                                {c.role && <span className="text-muted me-1">({c.role})</span>}
+                                {[c.phone, c.email].filter(Boolean).join(' · ')}
+                            </div>
+                        ))}
+                    </td>
+                    <td>{PAYMENT_TERMS_LABELS[s.paymentTerms]}</td>
+                    <td>{s.leadTimeDays} day{s.leadTimeDays === 1 ? '' : 's'}</td>
+                    <td>
+                        {s.catalog
+                            ? `${s.catalog.length} item${s.catalog.length === 1 ? '' : 's'}`
+                            : <small className="text-muted">From portal</small>}
+                    </td>
+                    <td>
+                        <Dropdown>
+                            <Dropdown.Toggle variant="outline-secondary" size="sm"><ThreeDots size={16} /></Dropdown.Toggle>
+                            <Dropdown.Menu popperConfig={{ strategy: 'fixed' }}>
+                                <Dropdown.Item onClick={() => onEdit(s)}>
+                                    <PencilSquare size={16} className="me-2" /> Edit Supplier
+                                </Dropdown.Item>
+                                <Dropdown.Item onClick={() => onEditCatalog(s)}>
+                                    <CardList size={16} className="me-2" /> Catalog & Prices
+                                </Dropdown.Item>
+                                <Dropdown.Item onClick={() => onToggleActive(s)}>
+                                    {s.active
+                                        ? <><PauseCircle size={16} className="me-2" /> Deactivate</>
+                                        : <><PlayCircle size={16} className="me-2" /> Reactivate</>}
+                                </Dropdown.Item>
+                                {s.hasProfile && !s.hasAccount && (
+                                    <Dropdown.Item onClick={() => onDelete(s)} className="text-danger">
+                                        <Trash size={16} className="me-2" /> Delete Supplier
+                                    </Dropdown.Item>
+                                )}
+                            </Dropdown.Menu>
+                        </Dropdown>
+                    </td>
+                </tr>
+            ))}
+            </tbody>
+        </Table>
+    );
+};
+
+export default SupplierDirectoryTable;
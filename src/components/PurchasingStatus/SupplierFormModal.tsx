@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Row, Col } from 'react-bootstrap';
+import { Shop, CheckCircle, XCircle, PersonPlus, Trash } from 'react-bootstrap-icons';
+import { createSupplier, updateSupplier, type SupplierSummary } from '../../service/api';
+import {
+    buildSupplierProfile,
+    DEFAULT_LEAD_TIME_DAYS,
+    PAYMENT_TERMS_LABELS,
+    type PaymentTerms,
+    type SupplierContact,
+    type SupplierDirectoryEntry
+} from '../../service/suppliers';
+
+interface SupplierFormModalProps {
+    show: boolean;
+    supplier: SupplierDirectoryEntry | null; // null to create
+    accounts: SupplierSummary[];             // portal accounts, suggested as IDs
+    onHide: () => void;
+    onToast: (msg: string, type?: string) => void;
+}
+
+interface SupplierForm {
+    id: string;
+    name: string;
+    active: boolean;
+    paymentTerms: PaymentTerms;
+    leadTimeDays: string;
+    notes: string;
+    contacts: SupplierContact[];
+}
+
+const PAYMENT_TERMS = Object.keys(PAYMENT_TERMS_LABELS) as PaymentTerms[];
+
+const emptyContact = (): SupplierContact => ({ name: '', role: '', phone: '', email: '' });
+
+const SupplierFormModal: React.FC<SupplierFormModalProps> = ({ show, supplier, accounts, onHide, onToast }) => {
+    const [form, setForm] = useState<SupplierForm>({
+        id: '', name: '', active: true, paymentTerms: 'COD', leadTimeDays: String(DEFAULT_LEAD_TIME_DAYS), notes: '', contacts: []
+    });
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!show) return;
+        setForm(supplier ? {
+            id: supplier.id,
+            name: supplier.name,
+            active: supplier.active,
+            paymentTerms: supplier.paymentTerms,
+            leadTimeDays: String(supplier.leadTimeDays),
+            notes: supplier.notes,
+            contacts: supplier.contacts.map(c => ({ ...c }))
+        } : {
+            id: '', name: '', active: true, paymentTerms: 'COD', leadTimeDays: String(DEFAULT_LEAD_TIME_DAYS), notes: '', contacts: [emptyContact()]
+        });
+    }, [show, supplier]);
+
+    const updateContact = (index: number, field: keyof SupplierContact, value: string) =>
+        setForm(f => ({ ...f, contacts: f.contacts.map((c, i) => i === index ? { ...c, [field]: value } : c) }));
+
+    // Picking a portal account ID fills in its name
+    const handleIdChange = (id: string) => {
+        const account = accounts.find(a => a.id === id);
+        setForm(f => ({ ...f, id, name: f.name || account?.name || '' }));
+    };
+
+    // Portal accounts without a profile are on the backend already; only new IDs create a supplier
+    const handleSave = async () => {
+        const profile = {
+            id: form.id,
+            name: form.name,
+            active: form.active,
+            contacts: form.contacts,
+            paymentTerms: form.paymentTerms,
+            leadTimeDays: Number(form.leadTimeDays),
+            notes: form.notes
+        };
+        setSaving(true);
+        try {
+            if (!supplier) buildSupplierProfile(profile, true); // refuses IDs already in the directory
+            const onBackend = supplier !== null || accounts.some(a => a.id === form.id.trim());
+            const saved = onBackend
+                ? await updateSupplier({ ...profile, catalog: supplier?.catalog ?? null })
+                : await createSupplier(profile);
+            onToast(`Supplier "${saved.name}" ${supplier ? 'updated' : 'added'}`, 'success');
+            onHide();
+        } catch (e) {
+            onToast(e instanceof Error ? e.message : 'Could not save the supplier', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onHide} size="lg" centered>
+            <Modal.Header closeButton>
+                <Modal.Title><Shop size={20} className="me-2" />{supplier ? 'EDIT SUPPLIER' : 'NEW SUPPLIER'}</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                <Form>
+                    <Row className="g-2 mb-3">
+                        <Col md={5}>
+                            <Form.Label>Supplier ID *</Form.Label>
+                            <Form.Control
+                                value={form.id}
+                                onChange={e => handleIdChange(e.target.value)}
+                                disabled={!!supplier}
+                                list="supplierAccountIds"
+                                placeholder="Portal login ID"
+                            />
+                            <datalist id="supplierAccountIds">
+                                {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </datalist>
+                            {!supplier && <Form.Text className="text-muted">Purchase orders reach suppliers whose portal account has this ID.</Form.Text>}
+                        </Col>
+                        <Col md={7}>
+                            <Form.Label>Name *</Form.Label>
+                            <Form.Control value={form.name} onChange={e => setForm(f => ({ ...f, name: e.target.value }))} />
+                        </Col>
+                    </Row>
+                    <Row className="g-2 mb-3 align-items-end">
+                        <Col md={5}>
+                            <Form.Label>Payment terms</Form.Label>
+                            <Form.Select value={form.paymentTerms} onChange={e => setForm(f => ({ ...f, paymentTerms: e.target.value as PaymentTerms }))}>
+                                {PAYMENT_TERMS.map(t => <option key={t} value={t}>{PAYMENT_TERMS_LABELS[t]}</option>)}
+                            </Form.Select>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Label>Lead time (days)</Form.Label>
+                            <Form.Control type="number" min={0} step={1} value={form.leadTimeDays} onChange={e => setForm(f => ({ ...f, leadTimeDays: e.target.value }))} />
+                        </Col>
+                        <Col md={3} className="pb-2">
+                            <Form.Check type="switch" id="supplierActive" label="Active" checked={form.active} onChange={e => setForm(f => ({ ...f, active: e.target.checked }))} />
+                        </Col>
+                    </Row>
+                    <div className="d-flex justify-content-between align-items-center mb-2">
+                        <Form.Label className="mb-0">Contacts</Form.Label>
+                        <Button variant="outline-secondary" size="sm" onClick={() => setForm(f => ({ ...f, contacts: [...f.contacts, emptyContact()] }))}>
+                            <PersonPlus size={14} className="me-1" /> Add Contact
+                        </Button>
+                    </div>
+                    {form.contacts.length === 0 && <div className="text-muted small mb-3">No contacts yet.</div>}
+                    {form.contacts.map((c, i) => (
+                        <Row key={i} className="g-2 mb-2">
+                            <Col md={3}><Form.Control size="sm" placeholder="Name" value={c.name} onChange={e => updateContact(i, 'name', e.target.value)} /></Col>
+                            <Col md={2}><Form.Control size="sm" placeholder="Role" value={c.role} onChange={e => updateContact(i, 'role', e.target.value)} /></Col>
+                            <Col md={3}><Form.Control size="sm" placeholder="Phone" value={c.phone} onChange={e => updateContact(i, 'phone', e.target.value)} /></Col>
+                            <Col md={3}><Form.Control size="sm" type="email" placeholder="Email" value={c.email} onChange={e => updateContact(i, 'email', e.target.value)} /></Col>
+                            <Col md={1} className="d-grid">
+                                <Button variant="outline-danger" size="sm" onClick={() => setForm(f => ({ ...f, contacts: f.contacts.filter((_, j) => j !== i) }))}>
+                                    <Trash size={14} />
+                                </Button>
+                            </Col>
+                        </Row>
+                    ))}
+                    <Form.Group className="mt-3" controlId="supplierNotes">
+                        <Form.Label>Notes</Form.Label>
+                        <Form.Control as="textarea" rows={2} value={form.notes} onChange={e => setForm(f => ({ ...f, notes: e.target.value }))} placeholder="Delivery days, minimum order..." />
+                    </Form.Group>
+                </Form>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" /> Cancel
+                </Button>
+                <Button variant="primary" onClick={handleSave} disabled={saving} style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}>
+                    <CheckCircle size={16} className="me-1" /> Save Supplier
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default SupplierFormModal;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Table, Badge, Button } from 'react-bootstrap';
+import { CashCoin, Paperclip } from 'react-bootstrap-icons';
+import type { PurchaseOrder } from '../../service/api';
+import { SUPPLIER_PAYMENT_METHOD_LABELS, type InvoiceMatch, type SupplierInvoice } from '../../service/supplierInvoices';
+import { InvoiceMatchBadge } from './PurchaseOrderBadges';
+
+export interface InvoiceRow {
+    invoice: SupplierInvoice;
+    order: PurchaseOrder | null; // null when the order is not in the loaded list
+    dueDate: string;
+    overdue: boolean;
+    match: InvoiceMatch | null;
+}
+
+interface SupplierInvoicesTableProps {
+    rows: InvoiceRow[];
+    onMarkPaid: (invoice: SupplierInvoice) => void;
+}
+
+const SupplierInvoicesTable: React.FC<SupplierInvoicesTableProps> = ({ rows, onMarkPaid }) => {
+    if (rows.length === 0) {
+        return <div className="text-center text-muted py-4">No supplier invoices match the filters</div>;
+    }
+
+    return (
+        <Table striped bordered hover responsive className="mt-2">
+            <thead>
+            <tr>
+                <th>Invoice</th>
+                <th style={{ width: '80px' }}>PO #</th>
+                <th>Supplier</th>
+                <th style={{ width: '110px' }}>Date</th>
+                <th style={{ width: '110px' }}>Due</th>
+                <th style={{ width: '110px' }}>PO Total</th>
+                <th style={{ width: '110px' }}>Received</th>
+                <th style={{ width: '110px' }}>Invoiced</th>
+                <th style={{ width: '160px' }}>Match</th>
+                <th style={{ width: '170px' }}>Payment</th>
+            </tr>
+            </thead>
+            <tbody>
+            {rows.map(({ invoice, order, dueDate, overdue, match }) => (
+                <tr key={invoice.id}>
+                    <td>
+                        {invoice.invoiceNumber}
+                        {invoice.file && (
+                            <a href={invoice.file.dataUrl} download={invoice.file.name} className="ms-2" title={invoice.file.name}>
+                                <Paperclip size={14} />
+                            </a>
+                        )}
+                        {invoice.notes && <div className="small text-muted">{invoice.notes}</div>}
+                    </td>
+                    <td>{invoice.orderId}</td>
+                    <td>{order?.supplierName ?? <span className="text-muted">Unknown</span>}</td>
+                    <td><small>{invoice.invoiceDate}</small></td>
+                    <td><small className={overdue ? 'text-danger fw-bold' : ''}>{dueDate}</small></td>
+                    <td>{match ? `$${match.orderAmount.toFixed(2)}` : '-'}</td>
+                    <td>{match?.receivedAmount != null ? `$${match.receivedAmount.toFixed(2)}` : '-'}</td>
+                    <td>
+                        ${invoice.amount.toFixed(2)}
+                        {match && match.invoicedAmount !== invoice.amount && (
+                            <div className="small text-muted">${match.invoicedAmount.toFixed(2)} on PO</div>
+                        )}
+                    </td>
+                    <td>{match ? <InvoiceMatchBadge status={match.status} /> : <small className="text-muted">Order not loaded</small>}</td>
+                    <td>
+                        {invoice.payment ? (
+                            <small>
+                                <Badge bg="success" className="me-1">Paid</Badge>
+                                {invoice.payment.paidDate} · {SUPPLIER_PAYMENT_METHOD_LABELS[invoice.payment.method]}
+                                {invoice.payment.reference && <div className="text-muted">Ref. {invoice.payment.reference}</div>}
+                            </small>
+                        ) : (
+                            <Button variant="outline-success" size="sm" onClick={() => onMarkPaid(invoice)}>
+                                <CashCoin size={14} className="me-1" /> Mark Paid
+                            </Button>
+                        )}
+                    </td>
+                </tr>
+            ))}
+            </tbody>
+        </Table>
+    );
+};
+
+export default SupplierInvoicesTable;
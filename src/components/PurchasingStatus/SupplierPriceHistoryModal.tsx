@@ -0,0 +1,54 @@
+import React from 'react';
+import { Modal, Button, Table } from 'react-bootstrap';
+import { GraphUpArrow, XCircle } from 'react-bootstrap-icons';
+import { formatOrderDate } from '../../service/purchaseOrders';
+import type { SupplierScorecard } from '../../service/supplierScorecards';
+
+interface SupplierPriceHistoryModalProps {
+    scorecard: SupplierScorecard | null; // null hides the modal
+    onHide: () => void;
+}
+
+const SupplierPriceHistoryModal: React.FC<SupplierPriceHistoryModalProps> = ({ scorecard, onHide }) => (
+    <Modal show={scorecard !== null} onHide={onHide} size="lg" centered scrollable>
+        <Modal.Header closeButton>
+            <Modal.Title><GraphUpArrow size={20} className="me-2" />PRICE CHANGES · {scorecard?.supplierName.toUpperCase()}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+            <p className="text-muted small">Unit prices on this supplier's purchase orders, oldest first. Only items whose price changed are listed.</p>
+            <Table size="sm" bordered responsive className="mb-0">
+                <thead>
+                <tr>
+                    <th>Item</th>
+                    <th style={{ width: '100px' }}>First</th>
+                    <th style={{ width: '100px' }}>Latest</th>
+                    <th style={{ width: '100px' }}>Change</th>
+                    <th>History</th>
+                </tr>
+                </thead>
+                <tbody>
+                {scorecard?.priceChanges.map(p => (
+                    <tr key={p.itemId}>
+                        <td>{p.itemName}</td>
+                        <td>${p.firstPrice.toFixed(2)}</td>
+                        <td>${p.lastPrice.toFixed(2)}</td>
+                        <td className={p.changePct > 0 ? 'text-danger' : 'text-success'}>
+                            {p.changePct > 0 ? '+' : ''}{(p.changePct * 100).toFixed(1)}%
+                        </td>
+                        <td className="small">
+                            {p.points.map(pt => `${formatOrderDate(pt.date)}: $${pt.price.toFixed(2)} (PO #${pt.orderId})`).join(' → ')}
+                        </td>
+                    </tr>
+                ))}
+                </tbody>
+            </Table>
+        </Modal.Body>
+        <Modal.Footer>
+            <Button variant="secondary" onClick={onHide}>
+                <XCircle size={16} className="me-1" /> Close
+            </Button>
+        </Modal.Footer>
+    </Modal>
+);
+
+export default SupplierPriceHistoryModal;
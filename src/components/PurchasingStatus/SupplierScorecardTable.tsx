@@ -0,0 +1,68 @@
+import React from 'react';
+import { Table, Button } from 'react-bootstrap';
+import { GraphUpArrow } from 'react-bootstrap-icons';
+import { formatRate, type SupplierScorecard } from '../../service/supplierScorecards';
+
+interface SupplierScorecardTableProps {
+    scorecards: SupplierScorecard[];
+    onShowPrices: (card: SupplierScorecard) => void;
+}
+
+// Green from 95%, amber from 80%; cancellations are read the other way round
+const rateClass = (rate: number | null, inverse = false): string => {
+    if (rate === null) return 'text-muted';
+    const score = inverse ? 1 - rate : rate;
+    return score >= 0.95 ? 'text-success' : score >= 0.8 ? 'text-warning' : 'text-danger';
+};
+
+const SupplierScorecardTable: React.FC<SupplierScorecardTableProps> = ({ scorecards, onShowPrices }) => {
+    if (scorecards.length === 0) {
+        return <div className="text-center text-muted py-4">No suppliers to score yet</div>;
+    }
+
+    return (
+        <Table striped bordered hover responsive className="mt-2">
+            <thead>
+            <tr>
+                <th>Supplier</th>
+                <th style={{ width: '80px' }}>Orders</th>
+                <th style={{ width: '120px' }}>On Time</th>
+                <th style={{ width: '110px' }}>Fill Rate</th>
+                <th style={{ width: '120px' }}>Cancelled</th>
+                <th style={{ width: '150px' }}>Avg Lead Time</th>
+                <th style={{ width: '170px' }}>Price Changes</th>
+            </tr>
+            </thead>
+            <tbody>
+            {scorecards.map(c => {
+                const increases = c.priceChanges.filter(p => p.changePct > 0).length;
+                return (
+                    <tr key={c.supplierId}>
+                        <td>{c.supplierName}</td>
+                        <td>{c.orders}</td>
+                        <td className={rateClass(c.onTimeRate)}>{formatRate(c.onTimeRate)}</td>
+                        <td className={rateClass(c.fillRate)}>{formatRate(c.fillRate)}</td>
+                        <td className={rateClass(c.cancelledRate, true)}>{formatRate(c.cancelledRate)}</td>
+                        <td>
+                            {c.averageLeadDays === null ? <span className="text-muted">n/a</span> : `${c.averageLeadDays} days`}
+                            <div className="small text-muted">promised {c.leadTimeDays} day{c.leadTimeDays === 1 ? '' : 's'}</div>
+                        </td>
+                        <td>
+                            {c.priceChanges.length === 0 ? (
+                                <span className="text-muted">None</span>
+                            ) : (
+                                <Button variant="link" size="sm" className="p-0" onClick={() => onShowPrices(c)}>
+                                    <GraphUpArrow size={14} className="me-1" />
+                                    {c.priceChanges.length} item{c.priceChanges.length === 1 ? '' : 's'} ({increases} up)
+                                </Button>
+                            )}
+                        </td>
+                    </tr>
+                );
+            })}
+            </tbody>
+        </Table>
+    );
+};
+
+export default SupplierScorecardTable;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Table } from 'react-bootstrap';
+import { formatReportCell, type ReportSection } from '../../service/reports';
+
+interface ReportTableProps {
+    section: ReportSection;
+}
+
+const ReportTable: React.FC<ReportTableProps> = ({ section }) => (
+    <div className="mb-4">
+        <h6 className="fw-bold mb-2">{section.title}</h6>
+        {section.rows.length === 0 ? (
+            <div className="text-center text-muted py-3 border rounded">No data for this section</div>
+        ) : (
+            <Table size="sm" bordered hover responsive className="mb-0">
+                <thead>
+                <tr>
+                    {section.headers.map((h, i) => (
+                        <th key={h} className={section.moneyColumns.includes(i) ? 'text-end' : ''}>{h}</th>
+                    ))}
+                </tr>
+                </thead>
+                <tbody>
+                {section.rows.map((row, r) => (
+                    <tr key={r}>
+                        {row.map((cell, i) => (
+                            <td key={i} className={section.moneyColumns.includes(i) ? 'text-end' : ''}>
+                                {formatReportCell(cell, section.moneyColumns.includes(i))}
+                            </td>
+                        ))}
+                    </tr>
+                ))}
+                </tbody>
+                {section.footer && (
+                    <tfoot>
+                    <tr className="fw-bold">
+                        {section.footer.map((cell, i) => (
+                            <td key={i} className={section.moneyColumns.includes(i) ? 'text-end' : ''}>
+                                {formatReportCell(cell, section.moneyColumns.includes(i))}
+                            </td>
+                        ))}
+                    </tr>
+                    </tfoot>
+                )}
+            </Table>
+        )}
+    </div>
+);
+
+export default ReportTable;
@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Container, Row, Col, Form, Button, Alert, Spinner, Nav } from 'react-bootstrap';
+import { Clock, ArrowClockwise, FileEarmarkSpreadsheet, FileEarmarkPdf } from 'react-bootstrap-icons';
+import ReportTable from './ReportTable';
+import { getAllOrders, getInventoryProducts, getManualExpenses, getPurchaseOrders, getShifts, type InventoryProduct, type PurchaseOrder } from '../../service/api';
+import { SHIFTS_UPDATED_EVENT, type ShiftRecord } from '../../service/labor';
+import { EXPENSES_UPDATED_EVENT, type ManualExpense } from '../../service/expenses';
+import { toIsoDay, toSalesOrders, type SalesOrder, type SalesRange } from '../../service/salesAnalytics';
+import { downloadCsv, printDocument } from '../../service/exportFile';
+import {
+    buildInventoryValuationReport,
+    buildLaborReport,
+    buildProfitAndLossReport,
+    reportToCsvRows,
+    reportToHtml,
+    REPORT_PRINT_CSS,
+    REPORT_TITLES,
+    type ReportType
+} from '../../service/reports';
+
+interface ReportsStatusProps {
+    onToast: (msg: string, type?: string) => void;
+}
+
+const REPORT_TYPES = Object.keys(REPORT_TITLES) as ReportType[];
+
+const ReportsStatus: React.FC<ReportsStatusProps> = ({ onToast }) => {
+    const [currentTime, setCurrentTime] = useState<Date>(new Date());
+    const [reportType, setReportType] = useState<ReportType>('PNL');
+    const [range, setRange] = useState<SalesRange>(() => {
+        const d = new Date();
+        return { from: toIsoDay(new Date(d.getFullYear(), d.getMonth(), 1)), to: toIsoDay(d) };
+    });
+
+    const [orders, setOrders] = useState<SalesOrder[]>([]);
+    const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+    const [products, setProducts] = useState<InventoryProduct[]>([]);
+    const [shifts, setShifts] = useState<ShiftRecord[]>([]);
+    const [manualExpenses, setManualExpenses] = useState<ManualExpense[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [warnings, setWarnings] = useState<string[]>([]);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setCurrentTime(new Date()), 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    useEffect(() => {
+        const reloadShifts = () => {
+            getShifts()
+                .then(setShifts)
+                .catch(err => console.warn('[ReportsStatus] Could not reload the shift log:', err));
+        };
+        const reloadExpenses = () => {
+            getManualExpenses()
+                .then(setManualExpenses)
+                .catch(err => console.warn('[ReportsStatus] Could not reload expenses:', err));
+        };
+        window.addEventListener(EXPENSES_UPDATED_EVENT, reloadExpenses);
+        window.addEventListener(SHIFTS_UPDATED_EVENT, reloadShifts);
+        return () => {
+            window.removeEventListener(EXPENSES_UPDATED_EVENT, reloadExpenses);
+            window.removeEventListener(SHIFTS_UPDATED_EVENT, reloadShifts);
+        };
+    }, []);
+
+    // Each source loads independently so one failing endpoint only leaves its own figures incomplete
+    const loadData = useCallback(async () => {
+        setLoading(true);
+        const [ordersResult, purchaseResult, inventoryResult, expensesResult, shiftsResult] = await Promise.allSettled([
+            getAllOrders(),
+            getPurchaseOrders(),
+            getInventoryProducts(),
+            getManualExpenses(),
+            getShifts()
+        ]);
+        const failed: string[] = [];
+        const reason = (r: PromiseRejectedResult) => r.reason instanceof Error ? r.reason.message : 'Unknown error';
+
+        if (ordersResult.status === 'fulfilled') setOrders(toSalesOrders(ordersResult.value.data));
+        else failed.push(`Sales could not be loaded (${reason(ordersResult)}).`);
+        if (purchaseResult.status === 'fulfilled') setPurchaseOrders(purchaseResult.value);
+        else failed.push(`Purchase orders could not be loaded (${reason(purchaseResult)}).`);
+        if (inventoryResult.status === 'fulfilled') setProducts(inventoryResult.value);
+        else failed.push(`Inventory could not be loaded (${reason(inventoryResult)}).`);
+        if (expensesResult.status === 'fulfilled') setManualExpenses(expensesResult.value);
+        else failed.push(`Expenses could not be loaded (${reason(expensesResult)}).`);
+        if (shiftsResult.status === 'fulfilled') setShifts(shiftsResult.value);
+        else failed.push(`The shift log could not be loaded (${reason(shiftsResult)}).`);
+
+        setWarnings(failed);
+        setLoading(false);
+    }, []);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const report = useMemo(() => {
+        switch (reportType) {
+            case 'INVENTORY': return buildInventoryValuationReport(products);
+            case 'LABOR': return buildLaborReport(shifts, range);
+            default: return buildProfitAndLossReport(orders, purchaseOrders, shifts, manualExpenses, range);
+        }
+    }, [reportType, orders, purchaseOrders, products, shifts, manualExpenses, range]);
+
+    const handleRangeChange = (next: SalesRange) => {
+        if (!next.from || !next.to) return;
+        if (next.from > next.to) {
+            onToast('The start date must be before the end date', 'warning');
+            return;
+        }
+        setRange(next);
+    };
+
+    const filename = `${report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${reportType === 'INVENTORY' ? toIsoDay(new Date()) : `${range.from}_${range.to}`}`;
+
+    const handleExportCsv = () => {
+        const { headers, rows } = reportToCsvRows(report);
+        downloadCsv(headers, rows, `${filename}.csv`);
+        onToast(`${report.title} exported`, 'success');
+    };
+
+    const handleExportPdf = () => {
+        if (!printDocument(`${report.title} - ${report.period}`, reportToHtml(report), REPORT_PRINT_CSS)) {
+            onToast('Allow pop-ups to export the report as PDF', 'warning');
+        }
+    };
+
+    return (
+        <div className="d-flex flex-column" style={{ backgroundColor: 'white' }}>
+            <Container fluid className="py-4">
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    <div className="d-flex justify-content-between align-items-center mb-4 flex-wrap gap-2">
+                        <div>
+                            <h2 className="mb-1 rounded-heading">REPORTS</h2>
+                            <small className="text-muted"><Clock size={14} className="me-1" />{currentTime.toLocaleTimeString()}</small>
+                        </div>
+                        <div className="d-flex gap-2 align-items-center">
+                            <Button variant="outline-secondary" size="sm" onClick={() => loadData()} disabled={loading}>
+                                {loading ? <Spinner as="span" animation="border" size="sm" /> : <ArrowClockwise size={16} />}
+                            </Button>
+                            <Button variant="outline-secondary" size="sm" onClick={handleExportCsv} className="d-flex align-items-center">
+                                <FileEarmarkSpreadsheet size={16} className="me-1" />Export CSV
+                            </Button>
+                            <Button
+                                size="sm"
+                                onClick={handleExportPdf}
+                                className="d-flex align-items-center"
+                                style={{ backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' }}
+                            >
+                                <FileEarmarkPdf size={16} className="me-1" />Export PDF
+                            </Button>
+                        </div>
+                    </div>
+
+                    {warnings.map(w => <Alert key={w} variant="warning" className="py-2 small">{w}</Alert>)}
+
+                    <Row className="g-2 mb-3 align-items-end">
+                        <Col md={6}>
+                            <Nav variant="pills" activeKey={reportType} onSelect={k => k && setReportType(k as ReportType)}>
+                                {REPORT_TYPES.map(t => (
+                                    <Nav.Item key={t}>
+                                        <Nav.Link eventKey={t} className={reportType === t ? 'text-dark' : ''} style={reportType === t ? { backgroundColor: '#86e5ff' } : {}}>
+                                            {REPORT_TITLES[t]}
+                                        </Nav.Link>
+                                    </Nav.Item>
+                                ))}
+                            </Nav>
+                        </Col>
+                        <Col md={{ span: 2, offset: 2 }}>
+                            <Form.Label className="small mb-1">From</Form.Label>
+                            <Form.Control type="date" size="sm" value={range.from} disabled={reportType === 'INVENTORY'} onChange={e => handleRangeChange({ ...range, from: e.target.value })} />
+                        </Col>
+                        <Col md={2}>
+                            <Form.Label className="small mb-1">To</Form.Label>
+                            <Form.Control type="date" size="sm" value={range.to} disabled={reportType === 'INVENTORY'} onChange={e => handleRangeChange({ ...range, to: e.target.value })} />
+                        </Col>
+                    </Row>
+
+                    <h6 className="mb-3 text-muted">{report.title} · {report.period}</h6>
+
+                    <Row className="g-3 mb-4">
+                        {report.highlights.map(h => (
+                            <Col key={h.label} xs={6} md={3}>
+                                <div className="p-3 border rounded-3 h-100">
+                                    <small className="text-muted d-block">{h.label}</small>
+                                    <span className={`fs-4 fw-bold ${h.money && h.value < 0 ? 'text-danger' : ''}`}>
+                                        {h.money ? `$${h.value.toFixed(2)}` : h.value}
+                                    </span>
+                                </div>
+                            </Col>
+                        ))}
+                    </Row>
+
+                    {report.sections.map(s => <ReportTable key={s.title} section={s} />)}
+                </div>
+            </Container>
+        </div>
+    );
+};
+
+export default ReportsStatus;
@@ -0,0 +1,57 @@
+import React from 'react';
+
+export interface BarChartDatum {
+    label: string;
+    value: number;
+    compare?: number; // same slot in the previous period, drawn as a faded bar behind
+}
+
+interface BarChartProps {
+    data: BarChartDatum[];
+    height?: number;
+    formatValue?: (value: number) => string;
+    // Show only every n-th x label so long ranges stay readable
+    labelEvery?: number;
+}
+
+const CHART_WIDTH = 720;
+const PADDING = { top: 12, right: 8, bottom: 28, left: 48 };
+
+const BarChart: React.FC<BarChartProps> = ({ data, height = 220, formatValue = v => `$${v.toFixed(0)}`, labelEvery = 1 }) => {
+    const max = Math.max(1, ...data.map(d => Math.max(d.value, d.compare ?? 0)));
+    const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+    const innerHeight = height - PADDING.top - PADDING.bottom;
+    const slot = data.length > 0 ? innerWidth / data.length : innerWidth;
+    const barWidth = Math.max(2, slot * 0.6);
+    const y = (v: number) => PADDING.top + innerHeight - (v / max) * innerHeight;
+    const ticks = [0, 0.5, 1].map(f => max * f);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} width="100%" height={height} role="img">
+            {ticks.map(t => (
+                <g key={t}>
+                    <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(t)} y2={y(t)} stroke="#e9ecef" />
+                    <text x={PADDING.left - 6} y={y(t)} textAnchor="end" dominantBaseline="central" fontSize={10} fill="#6c757d">{formatValue(t)}</text>
+                </g>
+            ))}
+            {data.map((d, i) => {
+                const x = PADDING.left + i * slot + (slot - barWidth) / 2;
+                return (
+                    <g key={d.label}>
+                        {d.compare !== undefined && d.compare > 0 && (
+                            <rect x={x - barWidth * 0.15} y={y(d.compare)} width={barWidth} height={PADDING.top + innerHeight - y(d.compare)} fill="#dee2e6" rx={2} />
+                        )}
+                        <rect x={x} y={y(d.value)} width={barWidth} height={PADDING.top + innerHeight - y(d.value)} fill="#86e5ff" rx={2}>
+                            <title>{`${d.label}: ${formatValue(d.value)}${d.compare !== undefined ? ` (previous ${formatValue(d.compare)})` : ''}`}</title>
+                        </rect>
+                        {i % labelEvery === 0 && (
+                            <text x={PADDING.left + i * slot + slot / 2} y={height - 10} textAnchor="middle" fontSize={10} fill="#6c757d">{d.label}</text>
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+export default BarChart;
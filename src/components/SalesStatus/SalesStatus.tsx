@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Container, Row, Col, Form, Button, Spinner, Alert } from 'react-bootstrap';
+import { Clock, ArrowClockwise, ArrowUpShort, ArrowDownShort } from 'react-bootstrap-icons';
+import BarChart from './BarChart';
+import TopProductsTable from './TopProductsTable';
+import { getAllOrders } from '../../service/api';
+import {
+    addDays,
+    buildSalesReport,
+    getPreviousRange,
+    getRangeLength,
+    percentChange,
+    toIsoDay,
+    toSalesOrders,
+    type SalesOrder,
+    type SalesRange
+} from '../../service/salesAnalytics';
+
+interface SalesStatusProps {
+    onToast: (msg: string, type?: string) => void;
+}
+
+type RangePreset = 'TODAY' | 'LAST_7' | 'LAST_30' | 'THIS_MONTH';
+
+const PRESET_LABELS: Record<RangePreset, string> = {
+    TODAY: 'Today',
+    LAST_7: 'Last 7 days',
+    LAST_30: 'Last 30 days',
+    THIS_MONTH: 'This month'
+};
+
+// Longest range the per-day chart is drawn for; beyond that it stops being readable
+const MAX_RANGE_DAYS = 366;
+
+const getPresetRange = (preset: RangePreset): SalesRange => {
+    const today = toIsoDay(new Date());
+    switch (preset) {
+        case 'TODAY': return { from: today, to: today };
+        case 'LAST_7': return { from: addDays(today, -6), to: today };
+        case 'LAST_30': return { from: addDays(today, -29), to: today };
+        case 'THIS_MONTH': return { from: `${today.substring(0, 8)}01`, to: today };
+    }
+};
+
+const formatDay = (day: string): string => {
+    const [, m, d] = day.split('-');
+    return `${Number(m)}/${Number(d)}`;
+};
+
+const ChangeBadge: React.FC<{ current: number; previous: number }> = ({ current, previous }) => {
+    const change = percentChange(current, previous);
+    if (change === null) return <small className="text-muted">no previous data</small>;
+    const up = change >= 0;
+    return (
+        <small className={up ? 'text-success' : 'text-danger'}>
+            {up ? <ArrowUpShort size={16} /> : <ArrowDownShort size={16} />}
+            {Math.abs(change).toFixed(1)}% vs previous
+        </small>
+    );
+};
+
+const SalesStatus: React.FC<SalesStatusProps> = ({ onToast }) => {
+    const [currentTime, setCurrentTime] = useState<Date>(new Date());
+    const [range, setRange] = useState<SalesRange>(() => getPresetRange('LAST_7'));
+    const [orders, setOrders] = useState<SalesOrder[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => setCurrentTime(new Date()), 1000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    const loadOrders = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const resp = await getAllOrders();
+            setOrders(toSalesOrders(resp.data));
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Could not load sales data';
+            setError(msg);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadOrders();
+    }, [loadOrders]);
+
+    const previousRange = useMemo(() => getPreviousRange(range), [range]);
+    const report = useMemo(() => buildSalesReport(orders, range), [orders, range]);
+    const previous = useMemo(() => buildSalesReport(orders, previousRange), [orders, previousRange]);
+
+    const handleRangeChange = (next: SalesRange) => {
+        if (!next.from || !next.to) return;
+        if (next.from > next.to) {
+            onToast('The start date must be before the end date', 'warning');
+            return;
+        }
+        if (getRangeLength(next) > MAX_RANGE_DAYS) {
+            onToast(`Choose a range of at most ${MAX_RANGE_DAYS} days`, 'warning');
+            return;
+        }
+        setRange(next);
+    };
+
+    const activePreset = (Object.keys(PRESET_LABELS) as RangePreset[])
+        .find(p => { const r = getPresetRange(p); return r.from === range.from && r.to === range.to; });
+
+    const kpis = [
+        { label: 'Revenue', value: `$${report.revenue.toFixed(2)}`, current: report.revenue, prev: previous.revenue },
+        { label: 'Orders', value: String(report.orders), current: report.orders, prev: previous.orders },
+        { label: 'Average Ticket', value: `$${report.averageTicket.toFixed(2)}`, current: report.averageTicket, prev: previous.averageTicket },
+        { label: 'Items Sold', value: String(report.itemsSold), current: report.itemsSold, prev: previous.itemsSold }
+    ];
+
+    const dayData = report.byDay.map((d, i) => ({ label: formatDay(d.day), value: d.revenue, compare: previous.byDay[i]?.revenue ?? 0 }));
+    const hourData = report.byHour.map((v, h) => ({ label: String(h).padStart(2, '0'), value: v, compare: previous.byHour[h] }));
+
+    return (
+        <div className="d-flex flex-column" style={{ backgroundColor: 'white' }}>
+            <Container fluid className="py-4">
+                <div className="p-3 border rounded-4 shadow mb-4">
+                    <div className="d-flex justify-content-between align-items-center mb-4 flex-wrap gap-2">
+                        <div>
+                            <h2 className="mb-1 rounded-heading">SALES</h2>
+                            <small className="text-muted"><Clock size={14} className="me-1" />{currentTime.toLocaleTimeString()}</small>
+                        </div>
+                        <div className="d-flex gap-2 align-items-center flex-wrap">
+                            {(Object.keys(PRESET_LABELS) as RangePreset[]).map(p => (
+                                <Button
+                                    key={p}
+                                    size="sm"
+                                    variant={activePreset === p ? 'primary' : 'outline-secondary'}
+                                    onClick={() => setRange(getPresetRange(p))}
+                                    style={activePreset === p ? { backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' } : {}}
+                                >
+                                    {PRESET_LABELS[p]}
+                                </Button>
+                            ))}
+                            <Form.Control type="date" size="sm" style={{ width: 160 }} value={range.from} onChange={e => handleRangeChange({ ...range, from: e.target.value })} />
+                            <span className="text-muted small">to</span>
+                            <Form.Control type="date" size="sm" style={{ width: 160 }} value={range.to} onChange={e => handleRangeChange({ ...range, to: e.target.value })} />
+                            <Button variant="outline-secondary" size="sm" onClick={() => loadOrders()} disabled={loading}>
+                                <ArrowClockwise size={16} />
+                            </Button>
+                        </div>
+                    </div>
+
+                    {error && (
+                        <Alert variant="danger" className="d-flex justify-content-between align-items-center">
+                            <span>{error}</span>
+                            <Button variant="outline-danger" size="sm" onClick={() => loadOrders()}>Retry</Button>
+                        </Alert>
+                    )}
+
+                    {loading ? (
+                        <div className="p-5 text-center">
+                            <Spinner animation="border" variant="primary" />
+                            <div className="mt-2 text-muted">Loading sales...</div>
+                        </div>
+                    ) : (
+                        <>
+                            <small className="text-muted d-block mb-2">
+                                Comparing with {formatDay(previousRange.from)} - {formatDay(previousRange.to)} (grey bars)
+                            </small>
+                            <Row className="g-3 mb-4">
+                                {kpis.map(k => (
+                                    <Col key={k.label} xs={6} lg={3}>
+                                        <div className="border rounded-3 p-3 h-100">
+                                            <div className="text-muted small text-uppercase mb-1">{k.label}</div>
+                                            <div className="fs-4 fw-bold">{k.value}</div>
+                                            <ChangeBadge current={k.current} previous={k.prev} />
+                                        </div>
+                                    </Col>
+                                ))}
+                            </Row>
+
+                            <h5 className="fw-bold">Revenue per Day</h5>
+                            <BarChart data={dayData} labelEvery={Math.ceil(dayData.length / 15)} />
+
+                            <h5 className="fw-bold mt-4">Revenue per Hour</h5>
+                            <BarChart data={hourData} height={180} labelEvery={2} />
+                        </>
+                    )}
+                </div>
+
+                {!loading && (
+                    <div className="p-3 border rounded-4 shadow mb-4">
+                        <TopProductsTable products={report.products} />
+                    </div>
+                )}
+            </Container>
+        </div>
+    );
+};
+
+export default SalesStatus;
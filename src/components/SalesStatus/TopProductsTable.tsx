@@ -0,0 +1,66 @@
+import React, { useMemo, useState } from 'react';
+import { Table, Button } from 'react-bootstrap';
+import type { ProductSales } from '../../service/salesAnalytics';
+
+interface TopProductsTableProps {
+    products: ProductSales[];
+    limit?: number;
+}
+
+const TopProductsTable: React.FC<TopProductsTableProps> = ({ products, limit = 10 }) => {
+    const [sortBy, setSortBy] = useState<'revenue' | 'quantity'>('revenue');
+
+    const rows = useMemo(() => [...products]
+        .sort((a, b) => sortBy === 'revenue' ? b.revenue - a.revenue || b.quantity - a.quantity : b.quantity - a.quantity || b.revenue - a.revenue)
+        .slice(0, limit), [products, sortBy, limit]);
+    const totalRevenue = products.reduce((sum, p) => sum + p.revenue, 0);
+
+    return (
+        <div>
+            <div className="d-flex justify-content-between align-items-center mb-2">
+                <h5 className="mb-0 fw-bold">Top Products</h5>
+                <div className="d-flex gap-2">
+                    {(['revenue', 'quantity'] as const).map(s => (
+                        <Button
+                            key={s}
+                            size="sm"
+                            variant={sortBy === s ? 'primary' : 'outline-secondary'}
+                            onClick={() => setSortBy(s)}
+                            style={sortBy === s ? { backgroundColor: '#86e5ff', borderColor: '#86e5ff', color: '#000' } : {}}
+                        >
+                            By {s === 'revenue' ? 'Revenue' : 'Quantity'}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+            {rows.length === 0 ? (
+                <div className="text-center text-muted py-4">No products sold in this period</div>
+            ) : (
+                <Table striped bordered hover responsive className="mt-2">
+                    <thead>
+                    <tr>
+                        <th style={{ width: '50px' }}>#</th>
+                        <th>Product</th>
+                        <th>Quantity</th>
+                        <th>Revenue</th>
+                        <th>Share</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {rows.map((p, i) => (
+                        <tr key={p.productId}>
+                            <td>{i + 1}</td>
+                            <td><strong className="text-black">{p.productName}</strong></td>
+                            <td>{p.quantity}</td>
+                            <td>${p.revenue.toFixed(2)}</td>
+                            <td>{totalRevenue > 0 ? `${((p.revenue / totalRevenue) * 100).toFixed(1)}%` : '-'}</td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </Table>
+            )}
+        </div>
+    );
+};
+
+export default TopProductsTable;
@@ -1,7 +1,9 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Table, Spinner, Alert, Button, Dropdown, Pagination, Form, InputGroup, Modal } from 'react-bootstrap';
 import { ThreeDots, PencilSquare, Trash, XCircle, CheckCircle } from 'react-bootstrap-icons';
-import { editEmployee, type EmployeeEditRequest, type EmployeeTypeCode } from '../../service/api';
+import { clockIn, clockOut, editEmployee, type EmployeeEditRequest, type EmployeeTypeCode } from '../../service/api';
+import ExportMenu from '../common/ExportMenu';
+import { parseExportDate, type ExportColumn } from '../../service/exportFile';
 
 interface StaffTableProps {
     searchTerm: string;
@@ -56,9 +58,30 @@ const EMPLOYEE_TYPE_TO_POSITION: Record<string,string> = {
     'WAITER': 'Waiter'
 };
 
+const EXPORT_COLUMNS: ExportColumn<Employee>[] = [
+    { header: 'ID Number', value: e => e.id, width: 14 },
+    { header: 'Name(s)', value: e => e.firstName, width: 20 },
+    { header: 'Last Name(s)', value: e => e.lastName, width: 20 },
+    { header: 'Position', value: e => e.position },
+    { header: 'Hourly Rate', value: e => e.hourlyRate, format: 'currency', width: 12 },
+    { header: 'Contract Date', value: e => parseExportDate(e.contractDate), format: 'date', width: 14 },
+    { header: 'Status', value: e => e.status, width: 12 }
+];
+
 const LS_STAFF_STATUS_KEY = 'staffStatusMap';
 const LS_CONTRACT_KEY = 'staffContractMap';
 
+// Clock in/out in the shift log whenever an employee enters or leaves "On Shift" (labor cost)
+const syncShiftLog = (emp: Employee, next: EmployeeStatus, onToast?: (msg: string, type?: string) => void) => {
+    const request = emp.status !== 'On Shift' && next === 'On Shift' ? clockIn(emp.id)
+        : emp.status === 'On Shift' && next !== 'On Shift' ? clockOut(emp.id)
+            : null;
+    request?.catch(err => {
+        const msg = err instanceof Error ? err.message : 'Unknown error';
+        onToast?.(`The shift of ${`${emp.firstName} ${emp.lastName}`.trim()} was not logged (${msg})`, 'warning');
+    });
+};
+
 const StaffTable: React.FC<StaffTableProps> = ({ searchTerm, onToast }) => {
     const [employees, setEmployees] = useState<Employee[]>([]);
     const [loading, setLoading] = useState<boolean>(true);
@@ -396,24 +419,20 @@ const StaffTable: React.FC<StaffTableProps> = ({ searchTerm, onToast }) => {
         return 'On Shift';
     };
 
+    // The shift log is written here, outside the state updater, so it runs exactly once per click
     const toggleStatus = (empId: string) => {
-        setEmployees((prev: Employee[]): Employee[] => {
-             const updated: Employee[] = prev.map(emp => {
-                 if (emp.id !== empId) return emp;
-                 const ns: EmployeeStatus = nextStatus(emp.status);
-                 return { ...emp, status: ns };
-             });
-             try {
-                 const map = loadStatusMap();
-                 const changed = updated.find(e => e.id === empId);
-                 if (changed) {
-                    map[empId] = changed.status as EmployeeStatus;
-                     saveStatusMap(map);
-                 }
-             } catch { /* ignore */ }
-             try { window.dispatchEvent(new CustomEvent('staff-updated', { detail: { employees: updated } })); } catch { /* noop */ }
-             return updated;
-         });
+        const emp = employees.find(e => e.id === empId);
+        if (!emp) return;
+        const ns: EmployeeStatus = nextStatus(emp.status);
+        syncShiftLog(emp, ns, onToast);
+        const updated: Employee[] = employees.map(e => e.id === empId ? { ...e, status: ns } : e);
+        setEmployees(updated);
+        try {
+            const map = loadStatusMap();
+            map[empId] = ns;
+            saveStatusMap(map);
+        } catch { /* ignore */ }
+        try { window.dispatchEvent(new CustomEvent('staff-updated', { detail: { employees: updated } })); } catch { /* noop */ }
     };
 
     const statusButton = (emp: Employee) => {
@@ -497,6 +516,10 @@ const StaffTable: React.FC<StaffTableProps> = ({ searchTerm, onToast }) => {
         }
     };
 
+    // Latest employees for event handlers registered once
+    const employeesRef = useRef<Employee[]>(employees);
+    useEffect(() => { employeesRef.current = employees; }, [employees]);
+
     // Status change listener (new feature)
     useEffect(() => {
         const handler = (e: Event) => {
@@ -507,28 +530,28 @@ const StaffTable: React.FC<StaffTableProps> = ({ searchTerm, onToast }) => {
                 onToast?.('Invalid shift change', 'warning');
                 return;
             }
-            setEmployees((prev: Employee[]): Employee[] => {
-                let changed = false;
-                const updated: Employee[] = prev.map(emp => {
-                    if (emp.id === fromId && emp.status !== 'Shift Ended') {
-                        changed = true;
-                        return { ...emp, status: 'Shift Ended' as EmployeeStatus };
-                    }
-                    if (emp.id === toId && emp.status !== 'On Shift') {
-                        changed = true;
-                        return { ...emp, status: 'On Shift' as EmployeeStatus };
-                    }
-                    return emp;
-                });
-                // persist to LS
-                const map = loadStatusMap();
-                map[fromId] = 'Shift Ended';
-                map[toId] = 'On Shift';
-                saveStatusMap(map);
-                if (!changed) onToast?.('No matching employee IDs found for shift change', 'info');
-                try { window.dispatchEvent(new CustomEvent('staff-updated', { detail: { employees: updated } })); } catch { /* noop */ }
-                return updated;
+            let changed = false;
+            const updated: Employee[] = employeesRef.current.map(emp => {
+                if (emp.id === fromId && emp.status !== 'Shift Ended') {
+                    changed = true;
+                    syncShiftLog(emp, 'Shift Ended', onToast);
+                    return { ...emp, status: 'Shift Ended' as EmployeeStatus };
+                }
+                if (emp.id === toId && emp.status !== 'On Shift') {
+                    changed = true;
+                    syncShiftLog(emp, 'On Shift', onToast);
+                    return { ...emp, status: 'On Shift' as EmployeeStatus };
+                }
+                return emp;
             });
+            setEmployees(updated);
+            // persist to LS
+            const map = loadStatusMap();
+            map[fromId] = 'Shift Ended';
+            map[toId] = 'On Shift';
+            saveStatusMap(map);
+            if (!changed) onToast?.('No matching employee IDs found for shift change', 'info');
+            try { window.dispatchEvent(new CustomEvent('staff-updated', { detail: { employees: updated } })); } catch { /* noop */ }
         };
         window.addEventListener('shift-change', handler as EventListener);
         return () => window.removeEventListener('shift-change', handler as EventListener);
@@ -653,11 +676,14 @@ const StaffTable: React.FC<StaffTableProps> = ({ searchTerm, onToast }) => {
                     </div>
                 </Alert>
             )}
-            {refreshing && (
-                <div className="d-flex align-items-center mb-2 small text-muted" style={{gap: '4px'}}>
-                    <Spinner animation="border" size="sm" /> <span>Refreshing...</span>
-                </div>
-            )}
+            <div className="d-flex justify-content-between align-items-center mb-2">
+                {refreshing ? (
+                    <div className="d-flex align-items-center small text-muted" style={{gap: '4px'}}>
+                        <Spinner animation="border" size="sm" /> <span>Refreshing...</span>
+                    </div>
+                ) : <span />}
+                <ExportMenu rows={filteredEmployees} columns={EXPORT_COLUMNS} fileName="staff" onToast={onToast} />
+            </div>
             <Table striped bordered hover responsive className="mt-2">
                 <thead>
                 <tr>
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, Form, Row, Col, Table, Badge, InputGroup } from 'react-bootstrap';
+import { Receipt, XCircle, Check2Circle, Paperclip, Trash } from 'react-bootstrap-icons';
+import type { SupplierOrder } from './SupplierStatus';
+import { submitSupplierInvoice, withdrawSupplierInvoice } from '../../service/api';
+import { MAX_ATTACHMENT_BYTES, type ExpenseAttachment } from '../../service/expenses';
+import {
+    buildSupplierInvoice,
+    getOrderInvoices,
+    SUPPLIER_PAYMENT_METHOD_LABELS,
+    type SupplierInvoice
+} from '../../service/supplierInvoices';
+
+interface SupplierInvoiceModalProps {
+    order: SupplierOrder | null; // null hides the modal
+    onHide: () => void;
+    onChanged: () => void; // an invoice was attached or withdrawn; the order list is stale
+    onToast: (msg: string, type?: string) => void;
+}
+
+interface InvoiceForm {
+    invoiceNumber: string;
+    invoiceDate: string;
+    dueDate: string;
+    amount: string;
+    notes: string;
+    file: ExpenseAttachment | null;
+}
+
+const today = (): string => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+});
+
+const emptyForm = (order: SupplierOrder | null): InvoiceForm => ({
+    invoiceNumber: '', invoiceDate: today(), dueDate: '', amount: order ? String(order.totalAmount) : '', notes: '', file: null
+});
+
+const SupplierInvoiceModal: React.FC<SupplierInvoiceModalProps> = ({ order, onHide, onChanged, onToast }) => {
+    const [form, setForm] = useState<InvoiceForm>(() => emptyForm(null));
+    const [invoices, setInvoices] = useState<SupplierInvoice[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!order || order.orderId === null) return;
+        setForm(emptyForm(order));
+        setInvoices(getOrderInvoices(order));
+    }, [order]);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            onToast(`${file.name} is larger than ${Math.round(MAX_ATTACHMENT_BYTES / 1024)} KB`, 'warning');
+            return;
+        }
+        try {
+            const dataUrl = await readAsDataUrl(file);
+            setForm(f => ({ ...f, file: { name: file.name, type: file.type, size: file.size, dataUrl } }));
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : `Could not read ${file.name}`, 'warning');
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (!order || order.orderId === null) return;
+        setSaving(true);
+        try {
+            const invoice = await submitSupplierInvoice(buildSupplierInvoice({
+                orderId: order.orderId,
+                orderStatus: order.status,
+                invoiceNumber: form.invoiceNumber,
+                invoiceDate: form.invoiceDate,
+                dueDate: form.dueDate || null,
+                amount: parseFloat(form.amount.replace(/,/g, '.')),
+                notes: form.notes,
+                file: form.file
+            }, invoices));
+            setInvoices(prev => [...prev, invoice].sort((a, b) => a.invoiceDate.localeCompare(b.invoiceDate)));
+            onChanged();
+            onToast(`Invoice ${invoice.invoiceNumber} attached to order ${order.orderId}`, 'success');
+            setForm(emptyForm(order));
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not attach the invoice', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleWithdraw = async (invoice: SupplierInvoice) => {
+        setSaving(true);
+        try {
+            await withdrawSupplierInvoice(invoice);
+            setInvoices(prev => prev.filter(i => i.id !== invoice.id));
+            onChanged();
+            onToast(`Invoice ${invoice.invoiceNumber} withdrawn`, 'info');
+        } catch (err) {
+            onToast(err instanceof Error ? err.message : 'Could not withdraw the invoice', 'warning');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Modal show={order !== null} onHide={onHide} size="lg" centered>
+            <Modal.Header closeButton>
+                <Modal.Title>
+                    <Receipt size={20} className="me-2 text-primary" />
+                    Invoices · Order {order?.orderId}
+                </Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {invoices.length > 0 && (
+                    <Table bordered size="sm" className="mb-4">
+                        <thead>
+                            <tr>
+                                <th>Invoice</th>
+                                <th>Date</th>
+                                <th>Amount</th>
+                                <th>Status</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {invoices.map(i => (
+                                <tr key={i.id}>
+                                    <td>{i.file ? <a href={i.file.dataUrl} download={i.file.name}>{i.invoiceNumber}</a> : i.invoiceNumber}</td>
+                                    <td>{i.invoiceDate}</td>
+                                    <td>{i.amount.toFixed(2)}</td>
+                                    <td>
+                                        {i.payment
+                                            ? <Badge bg="success">Paid {i.payment.paidDate} · {SUPPLIER_PAYMENT_METHOD_LABELS[i.payment.method]}</Badge>
+                                            : <Badge bg="warning" text="dark">Unpaid</Badge>}
+                                    </td>
+                                    <td className="text-center">
+                                        {!i.payment && (
+                                            <Button variant="outline-danger" size="sm" onClick={() => handleWithdraw(i)} disabled={saving} title="Withdraw invoice">
+                                                <Trash size={14} />
+                                            </Button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </Table>
+                )}
+                <h6>Attach Invoice</h6>
+                <Form>
+                    <Row className="g-3">
+                        <Col md={4}>
+                            <Form.Group controlId="supplierInvoiceNumber">
+                                <Form.Label>Invoice Number</Form.Label>
+                                <Form.Control value={form.invoiceNumber} onChange={e => setForm(f => ({ ...f, invoiceNumber: e.target.value }))} />
+                            </Form.Group>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Group controlId="supplierInvoiceDate">
+                                <Form.Label>Invoice Date</Form.Label>
+                                <Form.Control type="date" value={form.invoiceDate} onChange={e => setForm(f => ({ ...f, invoiceDate: e.target.value }))} />
+                            </Form.Group>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Group controlId="supplierInvoiceDue">
+                                <Form.Label>Due Date (optional)</Form.Label>
+                                <Form.Control type="date" value={form.dueDate} min={form.invoiceDate} onChange={e => setForm(f => ({ ...f, dueDate: e.target.value }))} />
+                            </Form.Group>
+                        </Col>
+                        <Col md={4}>
+                            <Form.Group controlId="supplierInvoiceAmount">
+                                <Form.Label>Amount</Form.Label>
+                                <InputGroup>
+                                    <InputGroup.Text>$</InputGroup.Text>
+                                    <Form.Control type="text" inputMode="decimal" value={form.amount} onChange={e => setForm(f => ({ ...f, amount: e.target.value }))} />
+                                </InputGroup>
+                            </Form.Group>
+                        </Col>
+                        <Col md={8}>
+                            <Form.Group controlId="supplierInvoiceFile">
+                                <Form.Label className="d-flex align-items-center"><Paperclip size={14} className="me-1" />Invoice File</Form.Label>
+                                <Form.Control type="file" accept="image/*,application/pdf" onChange={e => { handleFile((e.target as HTMLInputElement).files?.[0]); (e.target as HTMLInputElement).value = ''; }} />
+                                <Form.Text muted>
+                                    {form.file ? `${form.file.name} (${Math.ceil(form.file.size / 1024)} KB)` : `PDF or image up to ${Math.round(MAX_ATTACHMENT_BYTES / 1024)} KB.`}
+                                </Form.Text>
+                            </Form.Group>
+                        </Col>
+                        <Col xs={12}>
+                            <Form.Group controlId="supplierInvoiceNotes">
+                                <Form.Label>Notes</Form.Label>
+                                <Form.Control as="textarea" rows={2} value={form.notes} onChange={e => setForm(f => ({ ...f, notes: e.target.value }))} />
+                            </Form.Group>
+                        </Col>
+                    </Row>
+                </Form>
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>
+                    <XCircle size={16} className="me-1" />
+                    Close
+                </Button>
+                <Button variant="primary" onClick={handleSubmit} disabled={saving}>
+                    <Check2Circle size={16} className="me-1" />
+                    Attach Invoice
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default SupplierInvoiceModal;
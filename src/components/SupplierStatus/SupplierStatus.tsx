@@ -7,6 +7,8 @@ import SupplierTable from './SupplierTable';
 import SupplierSearch from './SupplierSearch';
 import SupplierNotifications from './SupplierNotifications.tsx';
 import { getAllSupplierItems } from '../../service/api';
+import { mapOrderShipments, mapOrderShortClosures, type ShortClosedLine, type SupplierShipment } from '../../service/shipments';
+import { mapOrderInvoices, type SupplierInvoice } from '../../service/supplierInvoices';
 
 export interface SupplierOrder {
     orderId: number | null;
@@ -14,6 +16,9 @@ export interface SupplierOrder {
     orderDate: string;
     totalAmount: number;
     items: SupplierOrderItem[];
+    shipments?: SupplierShipment[];
+    shortClosed?: ShortClosedLine[];
+    invoices?: SupplierInvoice[];
 }
 
 export interface SupplierOrderItem {
@@ -79,7 +84,12 @@ const SupplierStatus: React.FC<SupplierStatusProps> = ({ onToast }) => {
                 const obj = data as { items?: unknown };
                 if (Array.isArray(obj.items)) orders = obj.items as SupplierOrder[];
             }
-            setSupplierOrders(orders);
+            setSupplierOrders(orders.map(o => o.orderId === null ? o : {
+                ...o,
+                shipments: mapOrderShipments(o.orderId, o.shipments),
+                shortClosed: mapOrderShortClosures(o.orderId, o.shortClosed),
+                invoices: mapOrderInvoices(o.orderId, o.invoices)
+            }));
         } catch (err) {
             console.error('Error fetching supplier orders:', err);
             setError('Error loading supplier orders');
@@ -1,13 +1,30 @@
 import React, { useState } from 'react';
-import {Table, Alert, Dropdown, Modal, Button, Form} from 'react-bootstrap';
+import {Table, Alert, Dropdown, Modal, Button, Form, Badge} from 'react-bootstrap';
 import {
     changeSupplierOrderStatus,
     deliverSupplierItem,
     finishSupplierDispatch,
-    getSupplierOrderPdf, initiateDispatch
+    getSupplierOrderPdf, initiateDispatch,
+    shortCloseSupplierOrder
 } from '../../service/api';
 import type { SupplierOrder } from './SupplierStatus';
-import {FileText, HourglassSplit, ThreeDots, Truck, XCircle, Check2Circle} from "react-bootstrap-icons";
+import ExportMenu from '../common/ExportMenu';
+import SupplierInvoiceModal from './SupplierInvoiceModal';
+import { parseExportDate, type ExportColumn } from '../../service/exportFile';
+import { formatQuantity, getItemUnits, getPurchaseUnit } from '../../service/units';
+import {
+    buildBackorderLines,
+    dispatchShipment,
+    getBackorderedLines,
+    getOrderShipments,
+    isOrderFulfilled,
+    validateShipment,
+    type BackorderLine,
+    type ShippableOrder,
+    type SupplierShipment
+} from '../../service/shipments';
+import { getOrderInvoices } from '../../service/supplierInvoices';
+import {FileText, HourglassSplit, ThreeDots, Truck, XCircle, Check2Circle, Receipt} from "react-bootstrap-icons";
 import '../../App.scss';
 
 interface SupplierTableProps {
@@ -17,24 +34,58 @@ interface SupplierTableProps {
     onRefresh: () => void;
 }
 
+// Orders are placed in the pack unit the item is bought in
+const packUnitOf = (itemId: number) => getPurchaseUnit(getItemUnits(itemId)).unit;
+
+const shippableOf = (order: SupplierOrder, orderId: number): ShippableOrder =>
+    ({ orderId, items: order.items, shipments: order.shipments, shortClosed: order.shortClosed });
+
+const backorderOf = (order: SupplierOrder): BackorderLine[] =>
+    order.orderId === null ? [] : getBackorderedLines(shippableOf(order, order.orderId));
+
+// Payment state of the invoices attached to an order, as the supplier sees it
+const InvoiceBadge: React.FC<{ order: SupplierOrder }> = ({ order }) => {
+    const invoices = getOrderInvoices(order);
+    if (invoices.length === 0) return null;
+    return invoices.every(i => i.payment)
+        ? <Badge bg="success" className="ms-2">Paid</Badge>
+        : <Badge bg="info" className="ms-2">Invoiced</Badge>;
+};
+
+const EXPORT_COLUMNS: ExportColumn<SupplierOrder>[] = [
+    { header: 'Order ID', value: o => o.orderId },
+    { header: 'Status', value: o => o.status, width: 14 },
+    { header: 'Request Day', value: o => parseExportDate(o.orderDate) ?? o.orderDate, format: 'date', width: 12 },
+    { header: 'Items', value: o => o.items.map(i => `${formatQuantity(i.quantity, packUnitOf(i.itemId))} ${i.itemName}`).join('; '), width: 50 },
+    { header: 'Units', value: o => o.items.reduce((sum, i) => sum + i.quantity, 0), format: 'number' },
+    { header: 'Backorder', value: o => backorderOf(o).map(l => `${formatQuantity(l.outstanding, packUnitOf(l.itemId))} ${l.itemName}`).join('; '), width: 40 },
+    { header: 'Total Amount', value: o => o.totalAmount, format: 'currency', width: 14 }
+];
+
 const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, items, onRefresh }) => {
     const [dispatchingOrder, setDispatchingOrder] = useState<SupplierOrder | null>(null);
     const [dispatchQuantities, setDispatchQuantities] = useState<{[itemId: number]: number}>({});
     const [showDispatchModal, setShowDispatchModal] = useState(false);
     const [dispatchError, setDispatchError] = useState<string | null>(null);
+    const [dispatchLines, setDispatchLines] = useState<BackorderLine[]>([]);
+    const [dispatchShipments, setDispatchShipments] = useState<SupplierShipment[]>([]);
+    const [shortClose, setShortClose] = useState<{[itemId: number]: boolean}>({});
+    const [shortCloseReason, setShortCloseReason] = useState('');
+    const [submittingDispatch, setSubmittingDispatch] = useState(false);
+    const [partlyDispatched, setPartlyDispatched] = useState(false); // lines went out before a failure
 
     const [showCancelModal, setShowCancelModal] = useState(false);
     const [orderToCancel, setOrderToCancel] = useState<SupplierOrder | null>(null);
 
-    const [acceptedItems, setAcceptedItems] = useState<{[itemId: number]: boolean}>({});
+    const [invoiceOrder, setInvoiceOrder] = useState<SupplierOrder | null>(null);
+    const [invoicesChanged, setInvoicesChanged] = useState(false);
 
     const [showPreviewModal, setShowPreviewModal] = useState(false);
     const [previewOrder, setPreviewOrder] = useState<SupplierOrder | null>(null);
 
-    const [total, setTotal] = useState<number | null>(null);
-
+    // An order that already went out in part stays DISPATCHING until its backorder is shipped or short-closed
     const openDispatchModal = async (order: SupplierOrder) => {
-        if (order.status !== 'ACCEPTED') {
+        if (order.status !== 'ACCEPTED' && order.status !== 'DISPATCHING') {
             onToast('Order must be ACCEPTED before dispatching.', 'warning');
             return;
         }
@@ -43,20 +94,18 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                 onToast('Invalid order ID', 'error');
                 return;
             }
-            await initiateDispatch(order.orderId);
+            if (order.status === 'ACCEPTED') await initiateDispatch(order.orderId);
+            const shippable = shippableOf(order, order.orderId);
+            const lines = buildBackorderLines(shippable);
             setDispatchingOrder(order);
-            // Initialize dispatch quantities to 0 for each item
-            const initialQuantities: { [itemId: number]: number } = {};
-            const initialAccepted: { [itemId: number]: boolean } = {};
-            order.items.forEach(item => {
-                initialQuantities[item.itemId] = 0;
-                initialAccepted[item.itemId] = false;
-            });
-            setDispatchQuantities(initialQuantities);
-            setAcceptedItems(initialAccepted);
+            setDispatchLines(lines);
+            setDispatchShipments(getOrderShipments(shippable));
+            // Each line starts at what is still left to ship
+            setDispatchQuantities(Object.fromEntries(lines.map(l => [l.itemId, l.outstanding])));
+            setShortClose({});
+            setShortCloseReason('');
             setShowDispatchModal(true);
             setDispatchError(null);
-            setTotal(order.totalAmount)
         } catch (error) {
             console.error('Error changing order status to DISPATCHING:', error);
             onToast('Error changing order status', 'error');
@@ -67,85 +116,84 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
         setDispatchQuantities(prev => ({ ...prev, [itemId]: value }));
     };
 
-    const handleAcceptItem = async (itemId: number, orderId: number) => {
-        const order = items.find(o => o.orderId === orderId);
-        if (!order) return;
-
-        const item = order.items.find(i => i.itemId === itemId);
-
-
-        if (!item) return;
-
-        item.quantity = dispatchQuantities[itemId];
-
-        try {
-            console.log('Accepting item:', item);
-            const response = await deliverSupplierItem(item);
-            console.log('Item accepted:', response);
-            setAcceptedItems(prev => ({ ...prev, [itemId]: true }));
-
-            console.log(response.data)
-
-            if (response.data && typeof response.data === 'number') {
-                setTotal(response.data);
-            }
-
-            if (response.data === 0) {
-                setTotal(0)
-            }
+    const closeDispatchModal = () => {
+        setPartlyDispatched(false);
+        setShowDispatchModal(false);
+        setDispatchingOrder(null);
+        setDispatchQuantities({});
+        setDispatchLines([]);
+        setDispatchShipments([]);
+        setShortClose({});
+        setShortCloseReason('');
+        setDispatchError(null);
+    };
 
-        } catch (error) {
-            console.error('Error accepting item:', error);
-            onToast('Error accepting item', 'error');
-        }
+    // Lines that went out before a failure are on the backend; reload so the table shows them
+    const cancelDispatch = () => {
+        if (partlyDispatched) onRefresh();
+        closeDispatchModal();
     };
 
     const confirmDispatch = async () => {
-        if (!dispatchingOrder) return;
-        // Validate that all items have been accepted
-        const allAccepted = dispatchingOrder.items.every(item => acceptedItems[item.itemId]);
-        if (!allAccepted) {
-            setDispatchError('Please accept all items before confirming dispatch.');
-            return;
-        }
-        // Validate that all quantities are valid
-        const allSelected = dispatchingOrder.items.every(item =>
-            dispatchQuantities[item.itemId] !== undefined &&
-            dispatchQuantities[item.itemId] >= 0 &&
-            dispatchQuantities[item.itemId] <= item.quantity
-        );
-        if (!allSelected) {
-            setDispatchError('Please select a valid quantity for each item.');
+        if (!dispatchingOrder || dispatchingOrder.orderId === null) return;
+        const orderId = dispatchingOrder.orderId;
+        const shippable = shippableOf(dispatchingOrder, orderId);
+        const closing = dispatchingOrder.items.filter(i => shortClose[i.itemId]).map(i => i.itemId);
+        try {
+            validateShipment(shippable, dispatchQuantities, closing, shortCloseReason);
+        } catch (e) {
+            setDispatchError(e instanceof Error ? e.message : 'Please select a valid quantity for each item.');
             return;
         }
-        // Here you would call the API to confirm the dispatch
-        const allZero = Object.values(dispatchQuantities).every(qty => qty === 0);
 
+        setSubmittingDispatch(true);
         try {
-            if (dispatchingOrder.orderId === null) {
-                setDispatchError('Invalid order ID');
+            const { order, sent, lines, error } = await dispatchShipment(shippable, dispatchQuantities, closing, shortCloseReason, {
+                deliver: (line, shipment) => {
+                    const item = dispatchingOrder.items.find(i => i.itemId === line.itemId);
+                    if (!item) throw new Error(`${line.itemName} is not on order ${orderId}`);
+                    return deliverSupplierItem({ ...item, quantity: line.quantity }, shipment);
+                },
+                shortClose: shortCloseSupplierOrder
+            });
+            if (error) {
+                // What went out is on the backend already; keep it so confirming again only sends the rest
+                const sentIds = new Set(sent.map(l => l.itemId));
+                setDispatchingOrder({ ...dispatchingOrder, shipments: order.shipments, shortClosed: order.shortClosed });
+                setDispatchLines(lines);
+                setDispatchShipments(getOrderShipments(order));
+                setDispatchQuantities(prev => Object.fromEntries(lines.map(l => [l.itemId, sentIds.has(l.itemId) ? 0 : prev[l.itemId] ?? 0])));
+                if (sent.length > 0) setPartlyDispatched(true);
+                setDispatchError(sent.length > 0
+                    ? `${error}. ${sent.length} line${sent.length === 1 ? ' was' : 's were'} dispatched; confirm again to send the rest.`
+                    : `Error confirming dispatch: ${error}`);
                 return;
             }
-            await finishSupplierDispatch(dispatchingOrder.orderId);
-            if (allZero) {
-                onToast('Order cancelled as no items were dispatched', 'danger');
+            if (isOrderFulfilled(lines)) {
+                await finishSupplierDispatch(orderId);
+                if (lines.every(l => l.shipped === 0)) {
+                    onToast('Order cancelled as no items were dispatched', 'danger');
+                } else {
+                    onToast(`Order ${orderId} dispatched!`, 'success');
+                }
             } else {
-                onToast(`Order ${dispatchingOrder.orderId} dispatched!`, 'success');
+                const backordered = lines.filter(l => l.outstanding > 0).length;
+                onToast(`Shipment for order ${orderId} recorded; ${backordered} item${backordered === 1 ? '' : 's'} on backorder`, 'info');
             }
-            setShowDispatchModal(false);
-            setDispatchingOrder(null);
-            setDispatchQuantities({});
-            setAcceptedItems({});
-            setDispatchError(null);
-            setTotal(null);
+            closeDispatchModal();
             onRefresh();
         } catch (error) {
             console.error(error);
             setDispatchError('Error confirming dispatch');
-            return;
+        } finally {
+            setSubmittingDispatch(false);
         }
     };
 
+    const shipmentValue = dispatchingOrder
+        ? dispatchingOrder.items.reduce((sum, i) => sum + i.unitPrice * (dispatchQuantities[i.itemId] ?? 0), 0)
+        : 0;
+
     const handleSeeOrderReport = async (orderId: number) => {
         if (!orderId) return;
 
@@ -193,7 +241,7 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
     };
 
     const openPreviewModal = (order: SupplierOrder) => {
-        if (order.status === 'ACCEPTED' || order.status === 'DELIVERED') return;
+        if (order.status === 'ACCEPTED' || order.status === 'DISPATCHING' || order.status === 'DELIVERED') return;
         setPreviewOrder(order);
         setShowPreviewModal(true);
     };
@@ -224,6 +272,9 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
 
     return (
         <div>
+            <div className="d-flex justify-content-end">
+                <ExportMenu rows={filteredItems} columns={EXPORT_COLUMNS} fileName="supplier-orders" onToast={onToast} />
+            </div>
             {/* Limit visible rows to ~10; enable scrolling when there are more. */}
             <div style={{ maxHeight: filteredItems.length > 10 ? 560 : 'auto', overflowY: filteredItems.length > 10 ? 'auto' : 'visible' }}>
                 <Table striped bordered hover responsive className="mt-2">
@@ -245,7 +296,13 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                         filteredItems.map(item => (
                             <tr key={item.orderId}>
                                 <td>{item.orderId}</td>
-                                <td>{item.status}</td>
+                                <td>
+                                    {item.status}
+                                    {backorderOf(item).length > 0 && (
+                                        <Badge bg="warning" text="dark" className="ms-2">Backorder: {backorderOf(item).length}</Badge>
+                                    )}
+                                    <InvoiceBadge order={item} />
+                                </td>
                                 <td>{item.orderDate}</td>
                                 <td>{item.totalAmount}</td>
                                 <td>
@@ -266,17 +323,22 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                                             >
                                                 {item.orderId !== null && (
                                                     <>
-                                                        {/* If the order is DELIVERED, only show PDF option */}
+                                                        {/* If the order is DELIVERED, only show the PDF and its invoices */}
                                                         {item.status === 'DELIVERED' ? (
-                                                            <Dropdown.Item
-                                                                onClick={() => handleSeeOrderReport(item.orderId!)}
-                                                            >
-                                                                <FileText size={16} className="me-2" /> See Order Report
-                                                            </Dropdown.Item>
+                                                            <>
+                                                                <Dropdown.Item
+                                                                    onClick={() => handleSeeOrderReport(item.orderId!)}
+                                                                >
+                                                                    <FileText size={16} className="me-2" /> See Order Report
+                                                                </Dropdown.Item>
+                                                                <Dropdown.Item onClick={() => setInvoiceOrder(item)}>
+                                                                    <Receipt size={16} className="me-2" /> Invoices
+                                                                </Dropdown.Item>
+                                                            </>
                                                         ) : (
                                                             <>
-                                                                {/* Show Review only if NOT ACCEPTED and NOT DELIVERED */}
-                                                                {item.status !== 'ACCEPTED' && item.status !== 'DELIVERED' && (
+                                                                {/* Show Review only while the order has not been accepted yet */}
+                                                                {item.status !== 'ACCEPTED' && item.status !== 'DISPATCHING' && (
                                                                     <Dropdown.Item
                                                                         onClick={() => openPreviewModal(item)}
                                                                         disabled={dispatchingOrder?.orderId === item.orderId}
@@ -286,9 +348,9 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                                                                 )}
                                                                 <Dropdown.Item
                                                                     onClick={() => openDispatchModal(item)}
-                                                                    disabled={dispatchingOrder?.orderId === item.orderId || item.status !== 'ACCEPTED'}
+                                                                    disabled={dispatchingOrder?.orderId === item.orderId || (item.status !== 'ACCEPTED' && item.status !== 'DISPATCHING')}
                                                                 >
-                                                                    <Truck size={16} className="me-2" /> Dispatch Order
+                                                                    <Truck size={16} className="me-2" /> {item.status === 'DISPATCHING' ? 'Ship Backorder' : 'Dispatch Order'}
                                                                 </Dropdown.Item>
                                                                 <Dropdown.Item
                                                                     onClick={() => handleSeeOrderReport(item.orderId!)}
@@ -320,8 +382,8 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                 </Table>
             </div>
 
-            <Modal show={showDispatchModal} centered>
-                <Modal.Header>
+            <Modal show={showDispatchModal} onHide={cancelDispatch} size="lg" centered>
+                <Modal.Header closeButton>
                     <Modal.Title>
                         <Truck size={20} className="me-2 text-primary" />
                         Confirm Dispatch
@@ -340,63 +402,95 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                                         <tr>
                                             <th>Item</th>
                                             <th>Requested</th>
+                                            <th>Shipped</th>
                                             <th>Dispatch</th>
                                             <th>Unit Price</th>
                                             <th>Subtotal</th>
-                                            <th>Action</th>
+                                            <th>Short-close</th>
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {dispatchingOrder.items.map(item => (
-                                            <tr key={item.itemId}>
-                                                <td>{item.itemName}</td>
-                                                <td>{item.quantity}</td>
-                                                <td>
-                                                    <Form.Control
-                                                        type="number"
-                                                        min={0}
-                                                        max={item.quantity}
-                                                        value={dispatchQuantities[item.itemId] ?? 0}
-                                                        onChange={e => handleQuantityChange(item.itemId, Math.max(0, Math.min(item.quantity, Number(e.target.value))))}
-                                                        disabled={acceptedItems[item.itemId]}
-                                                    />
-                                                </td>
-                                                <td>{item.unitPrice}</td>
-                                                <td>{(item.unitPrice * (dispatchQuantities[item.itemId] ?? 0)).toFixed(2)}</td>
-                                                <td>
-                                                    <Button
-                                                        variant={acceptedItems[item.itemId] ? "success" : "primary"}
-                                                        size="sm"
-                                                        onClick={() => {
-                                                            if (dispatchingOrder.orderId !== null) {
-                                                                handleAcceptItem(item.itemId, dispatchingOrder.orderId).then(() => {});
-                                                            }
-                                                        }}
-                                                        disabled={acceptedItems[item.itemId]}
-                                                    >
-                                                        {acceptedItems[item.itemId] ? "Accepted" : "Accept"}
-                                                    </Button>
-                                                </td>
-                                            </tr>
-                                        ))}
+                                        {dispatchingOrder.items.map(item => {
+                                            const line = dispatchLines.find(l => l.itemId === item.itemId);
+                                            const outstanding = line?.outstanding ?? item.quantity;
+                                            const quantity = dispatchQuantities[item.itemId] ?? 0;
+                                            return (
+                                                <tr key={item.itemId}>
+                                                    <td>{item.itemName}</td>
+                                                    <td>{formatQuantity(item.quantity, packUnitOf(item.itemId))}</td>
+                                                    <td>
+                                                        {formatQuantity(line?.shipped ?? 0, packUnitOf(item.itemId))}
+                                                        {line && line.shortClosed > 0 && <div className="small text-muted">{line.shortClosed} closed</div>}
+                                                    </td>
+                                                    <td>
+                                                        <Form.Control
+                                                            type="number"
+                                                            min={0}
+                                                            max={outstanding}
+                                                            value={quantity}
+                                                            onChange={e => handleQuantityChange(item.itemId, Math.max(0, Math.min(outstanding, Number(e.target.value))))}
+                                                            disabled={outstanding <= 0}
+                                                        />
+                                                    </td>
+                                                    <td>{item.unitPrice}</td>
+                                                    <td>{(item.unitPrice * quantity).toFixed(2)}</td>
+                                                    <td>
+                                                        <Form.Check
+                                                            type="checkbox"
+                                                            aria-label={`Short-close ${item.itemName}`}
+                                                            checked={!!shortClose[item.itemId]}
+                                                            onChange={e => setShortClose(prev => ({ ...prev, [item.itemId]: e.target.checked }))}
+                                                            disabled={outstanding - quantity <= 0}
+                                                        />
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
                                     </tbody>
                                 </Table>
+                                <div className="text-start small text-muted">
+                                    Quantities not dispatched now stay on backorder for a later shipment. Tick Short-close to stop waiting for the rest of a line.
+                                </div>
+                                {Object.values(shortClose).some(Boolean) && (
+                                    <Form.Control
+                                        className="mt-2"
+                                        size="sm"
+                                        placeholder="Reason for short-closing (e.g. out of stock, discontinued)"
+                                        value={shortCloseReason}
+                                        onChange={e => setShortCloseReason(e.target.value)}
+                                    />
+                                )}
+                                {dispatchShipments.length > 0 && (
+                                    <div className="mt-3 text-start small">
+                                        <strong>Previous shipments</strong>
+                                        <ul className="mb-0">
+                                            {dispatchShipments.map(sh => (
+                                                <li key={sh.id}>
+                                                    {new Date(sh.shippedAt).toLocaleString()}: {sh.lines.map(l => `${formatQuantity(l.quantity, packUnitOf(l.itemId))} ${l.itemName}`).join(', ')}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
                                 <div className="mt-3 p-3 bg-light rounded text-start">
                                     <strong>Order ID:</strong> {dispatchingOrder.orderId}<br />
                                     <strong>Status:</strong> {dispatchingOrder.status}<br />
                                     <strong>Date:</strong> {dispatchingOrder.orderDate}<br />
-                                    <strong>Total:</strong> {total?.toFixed(2)}
+                                    <strong>This shipment:</strong> {shipmentValue.toFixed(2)}
                                 </div>
                             </div>
                         )}
                         <div className="mt-3 text-muted">
-                            <small>This action cannot be undone.</small>
+                            <small>Shipments cannot be undone.</small>
                         </div>
                         {dispatchError && <Alert variant="danger" className="mt-2">{dispatchError}</Alert>}
                     </div>
                 </Modal.Body>
                 <Modal.Footer>
-                    <Button variant="primary" onClick={confirmDispatch} disabled={dispatchingOrder ? !dispatchingOrder.items.every(item => acceptedItems[item.itemId]) : true}>
+                    <Button variant="secondary" onClick={cancelDispatch}>
+                        Cancel
+                    </Button>
+                    <Button variant="primary" onClick={confirmDispatch} disabled={!dispatchingOrder || submittingDispatch}>
                         <Truck size={16} className="me-1" />
                         Dispatch Order
                     </Button>
@@ -448,6 +542,17 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                 </Modal.Footer>
             </Modal>
 
+            <SupplierInvoiceModal
+                order={invoiceOrder}
+                onHide={() => {
+                    setInvoiceOrder(null);
+                    if (invoicesChanged) onRefresh();
+                    setInvoicesChanged(false);
+                }}
+                onChanged={() => setInvoicesChanged(true)}
+                onToast={onToast}
+            />
+
             {/* Order preview modal */}
             <Modal show={showPreviewModal} onHide={() => setShowPreviewModal(false)} centered>
                 <Modal.Header closeButton>
@@ -477,7 +582,7 @@ const SupplierTable: React.FC<SupplierTableProps> = ({ searchTerm, onToast, item
                                         {previewOrder.items.map(item => (
                                             <tr key={item.itemId}>
                                                 <td>{item.itemName}</td>
-                                                <td>{item.quantity}</td>
+                                                <td>{formatQuantity(item.quantity, packUnitOf(item.itemId))}</td>
                                                 <td>{item.unitPrice}</td>
                                                 <td>{(item.unitPrice * item.quantity).toFixed(2)}</td>
                                             </tr>
@@ -0,0 +1,41 @@
+import { Dropdown } from 'react-bootstrap';
+import { Download, FiletypeCsv, FileEarmarkSpreadsheet } from 'react-bootstrap-icons';
+import { exportTable, type ExportColumn, type ExportFormat } from '../../service/exportFile';
+
+interface ExportMenuProps<T> {
+    rows: T[]; // what the table currently shows, after filters and search
+    columns: ExportColumn<T>[];
+    fileName: string;
+    onToast?: (msg: string, type?: string) => void;
+}
+
+const ExportMenu = <T,>({ rows, columns, fileName, onToast }: ExportMenuProps<T>) => {
+    const handleExport = (format: ExportFormat) => {
+        try {
+            exportTable(rows, columns, fileName, format);
+            onToast?.(`Exported ${rows.length} row${rows.length === 1 ? '' : 's'} to ${format.toUpperCase()}`, 'success');
+        } catch (err) {
+            console.error('Export failed', err);
+            onToast?.('Could not export the table', 'danger');
+        }
+    };
+
+    return (
+        <Dropdown>
+            <Dropdown.Toggle variant="outline-secondary" size="sm" disabled={rows.length === 0} className="d-flex align-items-center">
+                <Download size={14} className="me-1" /> Export
+            </Dropdown.Toggle>
+            <Dropdown.Menu popperConfig={{ strategy: 'fixed' }}>
+                <Dropdown.Header>{rows.length} row{rows.length === 1 ? '' : 's'} (current filters)</Dropdown.Header>
+                <Dropdown.Item onClick={() => handleExport('csv')}>
+                    <FiletypeCsv size={16} className="me-2" /> CSV
+                </Dropdown.Item>
+                <Dropdown.Item onClick={() => handleExport('xlsx')}>
+                    <FileEarmarkSpreadsheet size={16} className="me-2" /> Excel (.xlsx)
+                </Dropdown.Item>
+            </Dropdown.Menu>
+        </Dropdown>
+    );
+};
+
+export default ExportMenu;
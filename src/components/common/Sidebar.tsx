@@ -11,7 +11,9 @@ import {
     BarChart,
     Receipt,
     FileEarmarkBarGraph,
-    PersonCircle
+    PersonCircle,
+    Fire,
+    Shop
 } from 'react-bootstrap-icons';
 import { Link } from 'react-router-dom';
 import perfilImage from '../../assets/profilepic.jpg';
@@ -55,8 +57,13 @@ const Sidebar = ({ activeSection, onSectionChange, userName, userType }: Sidebar
             return items.filter(item => item.key === 'supplier');
         }
 
-        // EMPLOYEE, CHEF, WAITER: only orders
-        if (['EMPLOYEE', 'CHEF', 'WAITER'].includes(normalizedUserType)) {
+        // CHEF: orders and the kitchen display
+        if (normalizedUserType === 'CHEF') {
+            return items.filter(item => item.key === 'orders' || item.key === 'kitchen');
+        }
+
+        // EMPLOYEE, WAITER: only orders
+        if (['EMPLOYEE', 'WAITER'].includes(normalizedUserType)) {
             return items.filter(item => item.key === 'orders');
         }
 
@@ -72,9 +79,11 @@ const Sidebar = ({ activeSection, onSectionChange, userName, userType }: Sidebar
     const controlItems: NavItem[] = [
         { key: 'home', route: '/home', icon: <House size={18} />, label: 'Home' },
         { key: 'orders', route: '/orders', icon: <ClipboardCheck size={18} />, label: 'Orders' },
+        { key: 'kitchen', route: '/kitchen', icon: <Fire size={18} />, label: 'Kitchen' },
         { key: 'inventory', route: '/inventory', icon: <Box size={18} />, label: 'Inventory' },
         { key: 'menu', route: '/menu', icon: <Journal size={18} />, label: 'Menu' },
         { key: 'supplier', route: '/supplier', icon: <Truck size={18} />, label: 'Suppliers' },
+        { key: 'purchasing', route: '/purchasing', icon: <Shop size={18} />, label: 'Purchasing' },
         { key: 'staff', route: '/staff', icon: <People size={18} />, label: 'Staff' },
     ];
 
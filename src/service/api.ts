@@ -1,6 +1,64 @@
 import axios from 'axios';
 import type {InventoryItem} from "../components/InventoryStatus/InventoryStatus.tsx";
 import type {SupplierOrderItem} from "../components/SupplierStatus/SupplierStatus.tsx";
+import {
+    normalizeOrderStatus,
+    toBackendStatus,
+    assertTransition,
+    mapOrderStatusHistory,
+    type OrderStatusCode,
+    type OrderStatusHistoryEntry
+} from "./orderLifecycle";
+import { buildPayment, getOrderBalance, getPaidAmount, mapPayments, notifyPaymentRecorded, type OrderPayment, type PaymentRequest } from "./payments";
+import { buildRecipeIngredients, mapRecipes, type Recipe, type RecipeIngredient } from "./recipes";
+import {
+    buildStockMovement,
+    mapStockMovements,
+    notifyStockMovementsRecorded,
+    type StockAdjustment,
+    type StockMovement,
+    type StockMovementRequest
+} from "./stockLedger";
+import { checkExpiryDate, mapLots, notifyLotsUpdated, type StockLot } from "./lots";
+import { buildReorderLevel, mapReorderLevels, notifyReorderLevelsUpdated, type ReorderLevel } from "./reorder";
+import { mapItemUnits, setItemUnitsCatalog, storeItemUnits, validateItemUnits, type ItemUnits } from "./units";
+import {
+    buildStockTakeApproval,
+    mapStockTakeDraft,
+    mapStockTakeRecord,
+    mapStockTakes,
+    mapStorageAreas,
+    type StockTakeDraft,
+    type StockTakeLine,
+    type StockTakeRecord
+} from "./stockTake";
+import { buildCashCount, buildCashMovement, checkOpeningFloat, mapCashSessions, type CashMovementType, type CashSession } from "./cashRegister";
+import { mapOrderShipments, mapOrderShortClosures, type ShortClosedLine, type SupplierShipment } from "./shipments";
+import { buildReceipt, mapOrderReceipts, type PurchaseOrderReceipt, type ReceiptLine } from "./purchaseOrders";
+import { mapOrderInvoices, type InvoicePayment, type SupplierInvoice } from "./supplierInvoices";
+import { buildManualExpense, mapManualExpenses, notifyExpensesUpdated, type ManualExpense } from "./expenses";
+import { mapShifts, notifyShiftsUpdated, type ShiftRecord } from "./labor";
+import { buildTable, mapFloorPlan, notifyTablesUpdated, type ClearedTables, type DiningTable } from "./tables";
+import {
+    buildSupplierCatalog,
+    buildSupplierProfile,
+    dropSupplierProfile,
+    isSupplierActive,
+    mapSupplierProfiles,
+    setSupplierProfiles,
+    storeSupplierProfile,
+    type SupplierCatalogEntry,
+    type SupplierProfile,
+    type SupplierProfileRequest
+} from "./suppliers";
+import {
+    getMenuCatalog,
+    setMenuCatalog,
+    storeMenuItem,
+    validateMenuItem,
+    type MenuItem,
+    type MenuItemDraft
+} from "./menu";
 
 // ==================== AUTH CONSTANTS ====================
 const TOKEN_KEY = 'authToken';
@@ -49,6 +107,11 @@ export interface OrderData {
     totalPrice?: number; // added for price summary
     orderBill?: string;  // added textual bill/notes
     tableNumber?: number; // added for numeric handling
+    orderDate?: string;   // raw backend timestamp (ISO), used for elapsed-time displays
+    statusHistory?: OrderStatusHistoryEntry[]; // oldest first, as recorded by the backend
+    payments?: OrderPayment[]; // oldest first, as recorded by the backend
+    paidAmount?: number;
+    balance?: number;     // left to pay, as computed by the backend
 }
 
 // Backend response DTO (Spring Boot)
@@ -61,6 +124,10 @@ interface OrderResponseDTO {
     tableNumber?: number;
     requestTime?: string;
     deliverTime?: string | null;
+    statusHistory?: unknown[];
+    payments?: unknown[];
+    paidAmount?: number;
+    balanceDue?: number;
 }
 
 export interface SupplierItem {
@@ -256,26 +323,12 @@ const mapBackendToFrontend = (backendOrder: OrderResponseDTO, requestTime?: stri
 
     const tableNumber = backendOrder.tableNumber || 0;
     const tableDisplay = tableNumber > 0 ? String(tableNumber) : 'N/A';
-
-    // Normalize backend status to supported frontend statuses
-    const mapStatus = (status: string | null | undefined): string => {
-        if (!status) return 'PENDING';
-        const statusMap: Record<string, string> = {
-            'PENDING': 'PENDING',
-            'IN_PROGRESS': 'IN_PROGRESS',
-            'READY': 'READY',
-            'COMPLETED': 'READY', // compatibility mapping
-            'DELIVERED': 'DELIVERED',
-            'SERVED': 'DELIVERED', // treat SERVED as DELIVERED
-            'CANCELLED': 'CANCELLED'
-        };
-        return statusMap[status.toUpperCase()] || 'PENDING';
-    };
+    const payments = mapPayments(backendOrder.payments, { orderId: backendOrder.orderId, tableNumber });
 
     return {
         id: backendOrder.orderId,
         code: `ORD-${backendOrder.orderId}`,
-        status: mapStatus(backendOrder.orderStatus),
+        status: normalizeOrderStatus(backendOrder.orderStatus),
         requestTime: backendRequestTime || requestTime || defaultRequestTime,
         deliveryTime: backendDeliveryTime || null,
         requestingClient: '',
@@ -284,66 +337,123 @@ const mapBackendToFrontend = (backendOrder: OrderResponseDTO, requestTime?: stri
         components: [],
         details: backendOrder.orderBill || '',
         orderBill: backendOrder.orderBill || '',
-        totalPrice: backendOrder.totalPrice
+        orderDate: backendOrder.requestTime || backendOrder.orderDate,
+        totalPrice: backendOrder.totalPrice,
+        statusHistory: mapOrderStatusHistory(backendOrder.statusHistory),
+        payments,
+        paidAmount: typeof backendOrder.paidAmount === 'number' ? backendOrder.paidAmount : getPaidAmount(payments),
+        balance: typeof backendOrder.balanceDue === 'number' ? backendOrder.balanceDue : getOrderBalance(backendOrder.totalPrice, payments)
     };
 };
 
+// Decodes the JSON line list stored in an order's orderBill
+export const parseOrderBillItems = (orderBillJson: string): OrderComponentData[] => {
+    interface ParsedBillItem {
+        productId?: number;
+        quantity?: number;
+        productName?: string;
+        productPrice?: number;
+    }
+    try {
+        const parsed: unknown = JSON.parse(orderBillJson);
+        if (!Array.isArray(parsed)) return [];
+        return (parsed as ParsedBillItem[]).map((item, idx) => ({
+            id: (item.productId ?? (idx + 1)) as number,
+            quantity: (item.quantity ?? 1) as number,
+            productId: item.productId,
+            productName: item.productName || `Product ${item.productId}`,
+            productPrice: item.productPrice ?? 0,
+            type: 'PRODUCT'
+        }));
+    } catch {
+        return [];
+    }
+};
+
 // ==================== ORDER CRUD OPERATIONS ====================
 
+// One order line as sent to the backend (real quantity, not one request per unit)
+export interface OrderLineRequest {
+    menuComponentId: number;
+    quantity: number;
+}
+
+// Merge repeated components into single lines and keep their quantities
+const toOrderLines = (components: OrderComponentData[]): OrderLineRequest[] => {
+    const lines: OrderLineRequest[] = [];
+    components.forEach(c => {
+        const quantity = Math.max(1, Math.floor(c.quantity ?? 1));
+        const existing = lines.find(l => l.menuComponentId === c.id);
+        if (existing) existing.quantity += quantity;
+        else lines.push({ menuComponentId: c.id, quantity });
+    });
+    return lines;
+};
+
+// Legacy path for backends without the batch endpoint: create with the first line, add the rest,
+// and delete the order again if any line fails so no half-built order is left behind
+const createOrderSequentially = async (createDTO: { employeeId: string; tableNumber: number }, lines: OrderLineRequest[]): Promise<OrderResponseDTO> => {
+    const [first, ...rest] = lines;
+    const response = await ordersApiClient.post<OrderResponseDTO>('/order', { ...createDTO, ...first });
+    const orderId = response.data.orderId;
+    if (rest.length === 0) return response.data;
+
+    let added = 1;
+    try {
+        for (const line of rest) {
+            await ordersApiClient.post(`/order/${orderId}/items`, line);
+            added++;
+        }
+    } catch (error) {
+        const reason = axios.isAxiosError(error) ? (error.response?.data?.message || error.message) : (error instanceof Error ? error.message : 'unknown error');
+        try {
+            await ordersApiClient.delete(`/order/${orderId}`);
+        } catch {
+            throw new Error(`Order #${orderId} was created partially (${added} of ${lines.length} lines) and could not be rolled back: ${reason}. Review it manually.`);
+        }
+        throw new Error(`Order could not be created (line ${added + 1} of ${lines.length} failed: ${reason}). Nothing was saved.`);
+    }
+
+    const updatedResponse = await ordersApiClient.get<OrderResponseDTO>(`/order/${orderId}`);
+    return updatedResponse.data;
+};
+
 export const createOrder = async (orderData: OrderData) => {
     try {
         if (!orderData.components || orderData.components.length === 0) {
             throw new Error('Order must have at least one item');
         }
-        const firstComponent = orderData.components[0];
+        const lines = toOrderLines(orderData.components);
         const createDTO = {
             employeeId: orderData.requestingClient || 'Customer',
-            menuComponentId: firstComponent.id,
-            quantity: 1,
             tableNumber: parseInt(orderData.table, 10) || 0
         };
 
-        const response = await ordersApiClient.post<OrderResponseDTO>('/order', createDTO);
-
         const currentTime = new Date().toLocaleTimeString('en-US', {
             hour: '2-digit',
             minute: '2-digit',
             hour12: false
         });
 
-        // If there are additional components, add them sequentially
-        if (orderData.components.length > 1) {
-            const orderId = response.data.orderId;
-            for (let i = 1; i < orderData.components.length; i++) {
-                const component = orderData.components[i];
-                await ordersApiClient.post(`/order/${orderId}/items`, {
-                    menuComponentId: component.id,
-                    quantity: 1
-                });
-            }
-
-            const updatedResponse = await ordersApiClient.get<OrderResponseDTO>(`/order/${orderId}`);
-            const mappedOrder = mapBackendToFrontend(updatedResponse.data, currentTime);
-
-            return {
-                data: {
-                    ...mappedOrder,
-                    requestingClient: orderData.requestingClient,
-                    table: orderData.table,
-                    price: updatedResponse.data.totalPrice
-                },
-                requestTime: currentTime
-            };
+        // Single call with the full line list; the backend creates the order atomically
+        let created: OrderResponseDTO;
+        try {
+            const response = await ordersApiClient.post<OrderResponseDTO>('/order/batch', { ...createDTO, items: lines });
+            created = response.data;
+        } catch (error) {
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            if (status !== 404 && status !== 405 && status !== 501) throw error;
+            created = await createOrderSequentially(createDTO, lines);
         }
 
-        const mappedOrder = mapBackendToFrontend(response.data, currentTime);
+        const mappedOrder = mapBackendToFrontend(created, currentTime);
 
         return {
             data: {
                 ...mappedOrder,
                 requestingClient: orderData.requestingClient,
                 table: orderData.table,
-                price: response.data.totalPrice
+                price: created.totalPrice
             },
             requestTime: currentTime
         };
@@ -372,6 +482,42 @@ export const updateOrder = async (id: number, orderData: string) => {
     return { data: mapBackendToFrontend(response.data) };
 };
 
+// One line of an order bill as stored by the backend (price captured when the line was added)
+export interface OrderBillLine {
+    productId: number;
+    productName: string;
+    productPrice: number;
+    quantity: number;
+}
+
+// Replaces the full line list of an existing order; the backend recomputes totalPrice.
+// Older backends without the items endpoint get the rebuilt orderBill and total instead.
+export const updateOrderItems = async (id: number, lines: OrderBillLine[]) => {
+    if (lines.length === 0) throw new Error('An order needs at least one item');
+    const totalPrice = Math.round(lines.reduce((sum, l) => sum + l.productPrice * l.quantity, 0) * 100) / 100;
+    try {
+        let response;
+        try {
+            response = await ordersApiClient.put<OrderResponseDTO>(`/order/${id}/items`, {
+                items: lines.map(l => ({ menuComponentId: l.productId, quantity: l.quantity }))
+            });
+        } catch (error) {
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            if (status !== 404 && status !== 405 && status !== 501) throw error;
+            response = await ordersApiClient.put<OrderResponseDTO>(`/order/${id}`, {
+                orderBill: JSON.stringify(lines),
+                totalPrice
+            });
+        }
+        return { data: mapBackendToFrontend(response.data) };
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
 export const deleteOrder = async (id: number) => {
     const response = await ordersApiClient.delete<OrderResponseDTO>(`/order/${id}`);
     return { data: mapBackendToFrontend(response.data) };
@@ -383,33 +529,362 @@ export const getOrdersByStatus = async (status: string) => {
     return { data: adapted };
 };
 
-export const updateOrderStatus = async (id: number, status: string) => {
+// Moves an order to a new status. When the current status is known the transition is
+// validated against the lifecycle first; the backend adds the change to the order history,
+// and on DELIVERED deducts the ingredients of the order's recipes from stock.
+export const updateOrderStatus = async (id: number, status: OrderStatusCode, currentStatus?: string) => {
+    const from = currentStatus != null ? normalizeOrderStatus(currentStatus) : null;
+    if (from) assertTransition(from, status);
+    const backendStatus = toBackendStatus(status);
     try {
-        const payload = { status, orderStatus: status } as Record<string,string>;
+        // The backend stamps the history entry with the user of the request's token
+        const payload = { status: backendStatus, orderStatus: backendStatus };
         const response = await ordersApiClient.put<OrderResponseDTO>(
             `/order/${id}/status`,
             payload,
-            { params: { status } }
+            { params: { status: backendStatus } }
         );
         return { data: mapBackendToFrontend(response.data) };
     } catch (error) {
-        const fallbackMap: Record<string,string> = {
-            'READY': 'COMPLETED',
-            'DELIVERED': 'SERVED'
-        };
-        const upper = status.toUpperCase();
-        if (fallbackMap[upper]) {
-            const fb = fallbackMap[upper];
-            const payloadFb = { status: fb, orderStatus: fb };
-            return ordersApiClient
-                .put<OrderResponseDTO>(`/order/${id}/status`, payloadFb, { params: { status: fb } })
-                .then(resp2 => ({ data: mapBackendToFrontend(resp2.data) }))
-                .catch(err2 => { throw err2; });
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== PAYMENTS ====================
+// The backend keeps payments with their order and answers a new one with the order, its payments,
+// paid amount and balance. It stamps paidAt and paidBy from the request's token and rejects a
+// payment larger than the balance. Payments are checked in service/payments.
+
+export const recordOrderPayment = async (
+    order: { id: number; code: string; balance: number },
+    payment: PaymentRequest
+): Promise<{ data: OrderData; payment: OrderPayment }> => {
+    const body = buildPayment(payment, order.balance, order.code);
+    try {
+        const response = await ordersApiClient.post<OrderResponseDTO>(`/order/${order.id}/payments`, body);
+        const data = mapBackendToFrontend(response.data);
+        const recorded = data.payments?.[data.payments.length - 1];
+        if (!recorded) throw new Error(`The payment for ${order.code} was not saved`);
+        notifyPaymentRecorded(recorded);
+        return { data, payment: recorded };
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// Payments of a local calendar day (YYYY-MM-DD), or taken between two ISO timestamps
+export const getPayments = async (params: { date: string } | { from: string; to: string }): Promise<OrderPayment[]> => {
+    try {
+        const response = await ordersApiClient.get('/payments', { params });
+        return mapPayments(extractList(response.data));
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== CASH REGISTER ====================
+// The backend keeps drawer sessions and answers every change with the session. It stamps the user
+// from the request's token and, on close, works out the cash sales, expected cash and variance
+// from its own payments. Requests are checked in service/cashRegister.
+
+const toCashSession = (raw: unknown): CashSession => {
+    const [session] = mapCashSessions([raw]);
+    if (!session) throw new Error('The cash drawer session was not returned by the server');
+    return session;
+};
+
+export const getCashSessions = async (): Promise<CashSession[]> => {
+    try {
+        const response = await ordersApiClient.get('/cash-sessions');
+        return mapCashSessions(extractList(response.data));
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const openCashSession = async (openingFloat: number, sessions: CashSession[]): Promise<CashSession> => {
+    const body = { openingFloat: checkOpeningFloat(openingFloat, sessions) };
+    try {
+        const response = await ordersApiClient.post('/cash-sessions', body);
+        return toCashSession(response.data);
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const addCashMovement = async (
+    session: CashSession,
+    movement: { type: CashMovementType; amount: number; reason: string },
+    payments: OrderPayment[]
+): Promise<CashSession> => {
+    const body = buildCashMovement(session, movement, payments);
+    try {
+        const response = await ordersApiClient.post(`/cash-sessions/${encodeURIComponent(session.id)}/movements`, body);
+        return toCashSession(response.data);
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const closeCashSession = async (session: CashSession, counts: Record<string, number>, notes: string): Promise<CashSession> => {
+    const body = buildCashCount(session, counts, notes);
+    try {
+        const response = await ordersApiClient.post(`/cash-sessions/${encodeURIComponent(session.id)}/close`, body);
+        return toCashSession(response.data);
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== FLOOR PLAN ====================
+// The backend keeps the dining tables and when each was last cleared, shared by every terminal.
+// Clearing stamps the time with the server clock. Tables are checked in service/tables.
+
+export const getFloorPlan = async (): Promise<{ tables: DiningTable[]; cleared: ClearedTables }> => {
+    const response = await ordersApiClient.get('/tables');
+    return mapFloorPlan(extractList(response.data));
+};
+
+// Creates the table (originalNumber null) or updates the one stored under originalNumber
+export const saveTable = async (table: DiningTable, originalNumber: number | null, tables: DiningTable[]): Promise<void> => {
+    const body = buildTable(table, originalNumber, tables);
+    try {
+        if (originalNumber == null) await ordersApiClient.post('/tables', body);
+        else await ordersApiClient.put(`/tables/${originalNumber}`, body);
+        notifyTablesUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const removeTable = async (tableNumber: number): Promise<void> => {
+    try {
+        await ordersApiClient.delete(`/tables/${tableNumber}`);
+        notifyTablesUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// Marks the guests of a table as gone so its delivered orders stop counting
+export const clearTable = async (tableNumber: number): Promise<void> => {
+    try {
+        await ordersApiClient.post(`/tables/${tableNumber}/clear`, {});
+        notifyTablesUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
         }
         throw error;
     }
 };
 
+// ==================== REAL-TIME ORDERS ====================
+// Push channel for order changes (Server-Sent Events). A single connection is shared by
+// every subscriber; if the stream keeps failing we fall back to periodic refresh ticks
+// while still retrying the stream in the background.
+
+export type OrderStreamMode = 'connecting' | 'live' | 'polling';
+
+export type OrderStreamEvent =
+    | { type: 'order'; order: OrderData } // pushed change of a single order
+    | { type: 'refresh' };                // full refetch needed (reconnect or polling tick)
+
+type OrderStreamListener = (event: OrderStreamEvent) => void;
+type OrderStreamModeListener = (mode: OrderStreamMode) => void;
+
+// Set VITE_ORDERS_STREAM_URL=/mock/orders/stream to use the dev mock server (see vite.config.ts)
+const ORDERS_STREAM_URL: string = import.meta.env.VITE_ORDERS_STREAM_URL || `${ORDERS_API_BASE_URL}/orders/stream`;
+// Absolute, so a relative stream URL (the dev mock) is not resolved against the API base URL
+const ORDERS_STREAM_TICKET_URL = new URL(`${ORDERS_STREAM_URL}/ticket`, window.location.origin).href;
+const STREAM_POLL_INTERVAL_MS = 30_000;
+const STREAM_FAILURES_BEFORE_POLLING = 3;
+const STREAM_MAX_RETRY_DELAY_MS = 60_000;
+// Keep the connection briefly after the last unsubscribe so re-renders and route changes don't reconnect
+const STREAM_IDLE_CLOSE_MS = 5_000;
+
+const orderStreamListeners = new Set<OrderStreamListener>();
+const orderStreamModeListeners = new Set<OrderStreamModeListener>();
+let orderEventSource: EventSource | null = null;
+let orderStreamMode: OrderStreamMode = 'connecting';
+let orderStreamFailures = 0;
+let orderStreamRetryTimer: ReturnType<typeof setTimeout> | null = null;
+let orderStreamPollTimer: ReturnType<typeof setInterval> | null = null;
+let orderStreamIdleTimer: ReturnType<typeof setTimeout> | null = null;
+// Bumped on every connect and close, so a ticket arriving for a superseded attempt is dropped
+let orderStreamAttempt = 0;
+let orderStreamConnecting = false;
+
+const emitOrderStreamEvent = (event: OrderStreamEvent) => {
+    orderStreamListeners.forEach(listener => {
+        try { listener(event); } catch (err) { console.warn('Order stream listener failed', err); }
+    });
+};
+
+const setOrderStreamMode = (mode: OrderStreamMode) => {
+    if (orderStreamMode === mode) return;
+    orderStreamMode = mode;
+    orderStreamModeListeners.forEach(listener => listener(mode));
+};
+
+const startOrderPolling = () => {
+    setOrderStreamMode('polling');
+    if (orderStreamPollTimer) return;
+    orderStreamPollTimer = setInterval(() => emitOrderStreamEvent({ type: 'refresh' }), STREAM_POLL_INTERVAL_MS);
+};
+
+const stopOrderPolling = () => {
+    if (orderStreamPollTimer) clearInterval(orderStreamPollTimer);
+    orderStreamPollTimer = null;
+};
+
+const closeOrderStream = () => {
+    orderStreamAttempt += 1;
+    orderStreamConnecting = false;
+    if (orderStreamRetryTimer) clearTimeout(orderStreamRetryTimer);
+    orderStreamRetryTimer = null;
+    orderEventSource?.close();
+    orderEventSource = null;
+    stopOrderPolling();
+    orderStreamFailures = 0;
+    orderStreamMode = 'connecting';
+};
+
+const retryOrderStream = () => {
+    orderStreamFailures += 1;
+    if (orderStreamFailures >= STREAM_FAILURES_BEFORE_POLLING) startOrderPolling();
+    else setOrderStreamMode('connecting');
+    const delay = Math.min(1000 * 2 ** orderStreamFailures, STREAM_MAX_RETRY_DELAY_MS);
+    orderStreamRetryTimer = setTimeout(() => {
+        orderStreamRetryTimer = null;
+        if (orderStreamListeners.size > 0) connectOrderStream();
+    }, delay);
+};
+
+// EventSource cannot send headers and the JWT must not end up in URLs (server logs, proxies),
+// so each connection asks for a short-lived single-use ticket first. Backends that do not issue
+// tickets get no credentials in the URL and authenticate the stream with their session cookie.
+const fetchOrderStreamTicket = async (): Promise<string | null> => {
+    try {
+        const response = await ordersApiClient.post<{ ticket?: string }>(ORDERS_STREAM_TICKET_URL);
+        return response.data?.ticket ? String(response.data.ticket) : null;
+    } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        if (status === 404 || status === 405 || status === 501) return null;
+        throw error;
+    }
+};
+
+const openOrderEventSource = (ticket: string | null) => {
+    const source = ticket
+        ? new EventSource(`${ORDERS_STREAM_URL}?ticket=${encodeURIComponent(ticket)}`)
+        : new EventSource(ORDERS_STREAM_URL, { withCredentials: true });
+    orderEventSource = source;
+
+    source.onopen = () => {
+        const wasDisconnected = orderStreamFailures > 0;
+        orderStreamFailures = 0;
+        stopOrderPolling();
+        setOrderStreamMode('live');
+        // Changes made while we were offline were not pushed
+        if (wasDisconnected) emitOrderStreamEvent({ type: 'refresh' });
+    };
+
+    source.addEventListener('order', (e: MessageEvent<string>) => {
+        try {
+            const dto = JSON.parse(e.data) as OrderResponseDTO;
+            if (dto?.orderId == null) return;
+            emitOrderStreamEvent({ type: 'order', order: mapBackendToFrontend(dto) });
+        } catch (err) {
+            console.warn('Ignoring malformed order stream message', err);
+        }
+    });
+
+    // A ticket is only valid once, so reconnects go through connectOrderStream for a new one
+    source.onerror = () => {
+        source.close();
+        if (orderEventSource !== source) return;
+        orderEventSource = null;
+        retryOrderStream();
+    };
+};
+
+const connectOrderStream = () => {
+    if (typeof EventSource === 'undefined') {
+        startOrderPolling();
+        return;
+    }
+    const attempt = ++orderStreamAttempt;
+    orderStreamConnecting = true;
+    fetchOrderStreamTicket()
+        .then(ticket => {
+            // The stream was closed (or reopened) while the ticket was on its way
+            if (attempt === orderStreamAttempt) openOrderEventSource(ticket);
+        })
+        .catch(err => {
+            if (attempt !== orderStreamAttempt) return;
+            console.warn('Could not get an order stream ticket', err);
+            retryOrderStream();
+        })
+        .finally(() => {
+            if (attempt === orderStreamAttempt) orderStreamConnecting = false;
+        });
+};
+
+// Subscribes to order changes; returns the unsubscribe function (usable as an effect cleanup)
+export const subscribeToOrderUpdates = (
+    listener: OrderStreamListener,
+    onModeChange?: OrderStreamModeListener
+): (() => void) => {
+    orderStreamListeners.add(listener);
+    if (orderStreamIdleTimer) {
+        clearTimeout(orderStreamIdleTimer);
+        orderStreamIdleTimer = null;
+    }
+    if (onModeChange) {
+        orderStreamModeListeners.add(onModeChange);
+        onModeChange(orderStreamMode);
+    }
+    if (orderStreamListeners.size === 1 && !orderEventSource && !orderStreamRetryTimer && !orderStreamConnecting) connectOrderStream();
+    return () => {
+        orderStreamListeners.delete(listener);
+        if (onModeChange) orderStreamModeListeners.delete(onModeChange);
+        if (orderStreamListeners.size === 0 && !orderStreamIdleTimer) {
+            orderStreamIdleTimer = setTimeout(() => {
+                orderStreamIdleTimer = null;
+                if (orderStreamListeners.size === 0) closeOrderStream();
+            }, STREAM_IDLE_CLOSE_MS);
+        }
+    };
+};
+
 // ==================== INVENTORY ====================
 
 export const createInventoryItem = (itemData: InventoryItem) => {
@@ -426,6 +901,277 @@ export const searchInventoryItems = (name?: string) => {
     });
 }
 
+// Inventory item as listed by /admin/inventory-list (field names vary between backend versions)
+export interface InventoryProduct {
+    id: number | null;
+    name: string;
+    description: string;
+    category: string;
+    stockQuantity: number;
+    price: number;
+    supplier: string;
+}
+
+const toNumber = (val: unknown, fallback = 0): number => {
+    const n = typeof val === 'number' ? val : (typeof val === 'string' ? Number(val.trim()) : NaN);
+    return isNaN(n) ? fallback : n;
+};
+
+// Accepts a bare array or the list under data/items/inventory/inventoryItems/inventoryList
+export const mapInventoryList = (raw: unknown): InventoryProduct[] => {
+    let list: unknown[] = [];
+    if (Array.isArray(raw)) list = raw;
+    else if (raw && typeof raw === 'object') {
+        const obj = raw as Record<string, unknown>;
+        const key = ['data', 'items', 'inventory', 'inventoryItems', 'inventoryList'].find(k => Array.isArray(obj[k]));
+        if (key) list = obj[key] as unknown[];
+    }
+    return list
+        .filter((p): p is Record<string, unknown> => !!p && typeof p === 'object')
+        .map((p, idx) => ({
+            id: typeof p.id === 'number' ? p.id : (typeof p.itemId === 'number' ? p.itemId : idx + 1),
+            name: String(p.name ?? p.itemName ?? 'Unnamed'),
+            description: String(p.description ?? ''),
+            category: String(p.category ?? p.type ?? 'General'),
+            stockQuantity: typeof p.stockQuantity === 'number' ? p.stockQuantity : (typeof p.quantity === 'number' ? p.quantity : 0),
+            price: toNumber(p.price ?? p.unitPrice ?? p.cost, 0),
+            supplier: String(p.supplier ?? 'Unknown')
+        }));
+};
+
+export const getInventoryProducts = async (): Promise<InventoryProduct[]> => {
+    const response = await ordersApiClient.get('/admin/inventory-list');
+    return mapInventoryList(response.data);
+};
+
+// ==================== STOCK MOVEMENTS ====================
+// The backend keeps the stock ledger and owns the counts: each movement is sent when it is
+// recorded, applied once (by the id chosen in service/stockLedger) and stamped with the user of
+// the request's token and the server time. In the same request it opens a lot for receipts and
+// draws outflows from the item's lots (lotId, or first-expiry-first-out), returning them on the
+// movement (lotId, lots). Screens reload the counts after recording.
+
+export const recordStockMovements = async (requests: StockMovementRequest[]): Promise<StockMovement[]> => {
+    if (requests.length === 0) return [];
+    try {
+        const response = await ordersApiClient.post('/admin/stock-movements', {
+            movements: requests.map(r => ({
+                id: r.id,
+                type: r.type,
+                itemId: r.itemId,
+                quantity: r.quantity,
+                reason: r.reason,
+                lotCode: r.lotCode,
+                expiryDate: r.expiryDate,
+                lotId: r.lotId
+            }))
+        });
+        const stored = mapStockMovements(extractList(response.data));
+        const movements = requests.map(r => stored.find(m => m.id === r.id) ?? {
+            ...r,
+            user: '',
+            timestamp: new Date().toISOString()
+        });
+        notifyStockMovementsRecorded(movements);
+        return movements;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// Posts one movement by hand; currentStock rejects adjustments that would go below zero
+export const recordStockMovement = async (adjustment: StockAdjustment, currentStock?: number): Promise<StockMovement> => {
+    const [movement] = await recordStockMovements([buildStockMovement(adjustment, currentStock)]);
+    return movement;
+};
+
+export const getItemMovements = async (itemId: number): Promise<StockMovement[]> => {
+    const response = await ordersApiClient.get('/admin/stock-movements', { params: { itemId } });
+    return mapStockMovements(extractList(response.data)).filter(m => m.itemId === itemId);
+};
+
+// Lots are listed with what is left in them, as the backend drew them
+export const getLots = async (): Promise<StockLot[]> => {
+    const response = await ordersApiClient.get('/admin/stock-lots');
+    return mapLots(extractList(response.data));
+};
+
+export const setLotExpiry = async (lotId: string, expiryDate: string | null): Promise<void> => {
+    try {
+        await ordersApiClient.put(`/admin/stock-lots/${encodeURIComponent(lotId)}`, { expiryDate: checkExpiryDate(expiryDate) });
+        notifyLotsUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== REORDER LEVELS ====================
+// The backend keeps each item's reorder point and par level; items without them use the
+// defaults from service/reorder.
+
+export const getReorderLevels = async (): Promise<ReorderLevel[]> => {
+    const response = await ordersApiClient.get('/admin/reorder-levels');
+    return mapReorderLevels(extractList(response.data));
+};
+
+export const saveReorderLevel = async (itemId: number, reorderPoint: number, parLevel: number): Promise<ReorderLevel> => {
+    const level = buildReorderLevel(itemId, reorderPoint, parLevel);
+    try {
+        await ordersApiClient.put(`/admin/reorder-levels/${itemId}`, { reorderPoint: level.reorderPoint, parLevel: level.parLevel });
+        notifyReorderLevelsUpdated();
+        return level;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// Goes back to the notification threshold defaults
+export const clearReorderLevel = async (itemId: number): Promise<void> => {
+    try {
+        await ordersApiClient.delete(`/admin/reorder-levels/${itemId}`);
+        notifyReorderLevelsUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== ITEM UNITS ====================
+// The backend keeps each item's base unit, pack conversions, purchase unit and the unit its
+// price is quoted in. Loading them refreshes the copy service/units reads synchronously.
+
+export const getItemUnitDefinitions = async (): Promise<ItemUnits[]> => {
+    const response = await ordersApiClient.get('/admin/item-units');
+    const list = mapItemUnits(extractList(response.data));
+    setItemUnitsCatalog(list);
+    return list;
+};
+
+export const saveItemUnits = async (units: ItemUnits): Promise<ItemUnits> => {
+    const { itemId, ...payload } = validateItemUnits(units);
+    try {
+        const response = await ordersApiClient.put(`/admin/item-units/${itemId}`, payload);
+        const saved = mapItemUnits([{ itemId, ...payload, ...(response.data && typeof response.data === 'object' ? response.data : {}) }])[0];
+        storeItemUnits(saved);
+        return saved;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== STOCK TAKE ====================
+// The backend keeps the count in progress (at most one is open) and the item storage areas.
+// Approving sends the counted lines; the backend posts the differences as count corrections in
+// one batch, stamps the user and time, and returns the closed count with those movements.
+
+export const getStockTakes = async (): Promise<{ open: StockTakeDraft | null; completed: StockTakeRecord[] }> => {
+    const response = await ordersApiClient.get('/admin/stock-takes');
+    return mapStockTakes(extractList(response.data));
+};
+
+export const startStockTake = async (): Promise<StockTakeDraft> => {
+    try {
+        const response = await ordersApiClient.post('/admin/stock-takes', {});
+        return mapStockTakeDraft(response.data && typeof response.data === 'object' ? response.data : {});
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const saveStockTakeCounts = async (draft: StockTakeDraft): Promise<void> => {
+    try {
+        await ordersApiClient.put(`/admin/stock-takes/${encodeURIComponent(draft.id)}/counts`, { counts: draft.counts });
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const discardStockTake = async (draft: StockTakeDraft): Promise<void> => {
+    try {
+        await ordersApiClient.delete(`/admin/stock-takes/${encodeURIComponent(draft.id)}`);
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const approveStockTake = async (draft: StockTakeDraft, lines: StockTakeLine[]): Promise<StockTakeRecord> => {
+    const approval = buildStockTakeApproval(lines);
+    try {
+        const response = await ordersApiClient.post(`/admin/stock-takes/${encodeURIComponent(draft.id)}/approve`, approval);
+        const body = response.data && typeof response.data === 'object' ? response.data as Record<string, unknown> : {};
+        notifyStockMovementsRecorded(mapStockMovements(extractList(body.movements)));
+        return mapStockTakeRecord({ stockTakeId: draft.id, startedAt: draft.startedAt, ...body });
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const getStorageAreas = async (): Promise<Record<number, string>> => {
+    const response = await ordersApiClient.get('/admin/storage-areas');
+    return mapStorageAreas(extractList(response.data));
+};
+
+// A blank area clears it
+export const setStorageArea = async (itemId: number, area: string): Promise<void> => {
+    try {
+        await ordersApiClient.put(`/admin/storage-areas/${itemId}`, { area: area.trim() || null });
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export interface NewInventoryItem {
+    name: string;
+    category?: string;
+    quantity: number;
+    supplier: string;
+    price: number;
+}
+
+// The endpoint may answer with the created item or just a confirmation text
+export const addInventoryItem = async (item: NewInventoryItem): Promise<InventoryProduct> => {
+    const response = await ordersApiClient.post('/admin/add-inventory-item', item);
+    const raw = response.data && typeof response.data === 'object' ? response.data as Record<string, unknown> : {};
+    return {
+        id: typeof raw.id === 'number' ? raw.id : (typeof raw.itemId === 'number' ? raw.itemId : null),
+        name: item.name,
+        description: String(raw.description ?? ''),
+        category: item.category || String(raw.category ?? 'General'),
+        stockQuantity: item.quantity,
+        price: item.price,
+        supplier: item.supplier
+    };
+};
+
 // This is an admin only function
 export const createSupplierItem = (itemData: SupplierItem) => {
     return apiClient.post('/supplier/create', itemData);
@@ -467,8 +1213,24 @@ export const changeSupplierOrderStatus = (orderId: number, status: string) => {
     return apiClient.post(`/kitcheniq/api/v1/suppliers/purchase-order`, null, { params: { orderId, status } });
 }
 
-export const deliverSupplierItem = (item: SupplierOrderItem) => {
-    return apiClient.post(`/kitcheniq/api/v1/suppliers/deliver-order`, item);
+// Stock is not touched here: this runs on the supplier's side, and what arrived is counted in by
+// the restaurant when it receives the purchase order (service/purchaseOrders). The backend keeps
+// the line under its shipment and returns it with the order's shipments.
+export const deliverSupplierItem = (item: SupplierOrderItem, shipment: SupplierShipment) => {
+    return apiClient.post(`/kitcheniq/api/v1/suppliers/deliver-order`, {
+        ...item,
+        shipmentId: shipment.id,
+        shippedAt: shipment.shippedAt,
+        shippedBy: shipment.user
+    });
+}
+
+// Remainders the supplier will not ship; returned with the order's shortClosed lines
+export const shortCloseSupplierOrder = (orderId: number, lines: ShortClosedLine[]) => {
+    return apiClient.post(`/kitcheniq/api/v1/suppliers/short-close`, {
+        orderId,
+        lines: lines.map(l => ({ itemId: l.itemId, quantity: l.quantity, reason: l.reason, closedAt: l.closedAt, closedBy: l.user }))
+    });
 }
 
 export const finishSupplierDispatch = (orderId: number) => {
@@ -479,6 +1241,461 @@ export const initiateDispatch = (orderId: number) => {
     return apiClient.post(`/kitcheniq/api/v1/suppliers/initiate-dispatch`, null, { params: { orderId } });
 }
 
+// ==================== PURCHASE ORDERS (ADMIN) ====================
+
+export interface SupplierSummary {
+    id: string;
+    name: string;
+    contactInfo?: string;
+}
+
+export interface PurchaseOrderLine {
+    itemId: number;
+    itemName: string;
+    quantity: number;
+    unitPrice: number;
+    subtotal: number;
+}
+
+export interface PurchaseOrder {
+    orderId: number;
+    supplierId: string;
+    supplierName: string;
+    status: string; // PENDING | ACCEPTED | DISPATCHING | DELIVERED | CANCELLED
+    orderDate: string;
+    updateDate?: string;
+    leadTimeDays?: number; // supplier lead time the backend stamped when the order was placed
+    totalAmount: number;
+    items: PurchaseOrderLine[];
+    shipments: SupplierShipment[];
+    shortClosed: ShortClosedLine[];
+    receipts: PurchaseOrderReceipt[];
+    invoices: SupplierInvoice[];
+}
+
+// List endpoints answer either a bare array or { data: [...] }
+const extractList = (raw: unknown): Record<string, unknown>[] => {
+    const list = Array.isArray(raw) ? raw
+        : (raw && typeof raw === 'object' && Array.isArray((raw as { data?: unknown }).data)) ? (raw as { data: unknown[] }).data
+            : [];
+    return list.filter((o): o is Record<string, unknown> => !!o && typeof o === 'object');
+};
+
+const mapPurchaseOrder = (o: Record<string, unknown>, supplier?: SupplierSummary): PurchaseOrder => {
+    const items = (Array.isArray(o.items) ? o.items : []) as Record<string, unknown>[];
+    const supplierId = String(o.supplierId ?? supplier?.id ?? '');
+    const orderId = Number(o.orderId ?? o.id);
+    return {
+        orderId,
+        supplierId,
+        supplierName: String(o.supplierName ?? supplier?.name ?? (supplierId || 'Unknown supplier')),
+        status: String(o.status ?? 'PENDING').toUpperCase(),
+        orderDate: String(o.orderDate ?? ''),
+        updateDate: o.updateDate ? String(o.updateDate) : undefined,
+        leadTimeDays: o.leadTimeDays != null && Number.isFinite(Number(o.leadTimeDays)) ? Number(o.leadTimeDays) : undefined,
+        totalAmount: Number(o.totalAmount) || 0,
+        items: items.map(i => {
+            const quantity = Number(i.quantity) || 0;
+            const unitPrice = Number(i.unitPrice) || 0;
+            return {
+                itemId: Number(i.itemId),
+                itemName: String(i.itemName ?? `Item ${i.itemId}`),
+                quantity,
+                unitPrice,
+                subtotal: Number(i.subtotal ?? i.subTotal) || Math.round(quantity * unitPrice * 100) / 100
+            };
+        }),
+        shipments: mapOrderShipments(orderId, o.shipments),
+        shortClosed: mapOrderShortClosures(orderId, o.shortClosed),
+        receipts: mapOrderReceipts(orderId, o.receipts),
+        invoices: mapOrderInvoices(orderId, o.invoices)
+    };
+};
+
+export const getSuppliers = async (): Promise<SupplierSummary[]> => {
+    const response = await ordersApiClient.get('/admin/supplier-list');
+    return extractList(response.data).map((s, idx) => ({
+        id: String(s.id ?? `SUP${idx + 1}`),
+        name: String(s.name ?? `Supplier ${idx + 1}`),
+        contactInfo: s.contactInfo ? String(s.contactInfo) : undefined
+    }));
+};
+
+// Suppliers new purchase orders can go to; deactivated ones stay in getSuppliers for their history
+export const getActiveSuppliers = async (): Promise<SupplierSummary[]> => {
+    const [accounts, profiles] = await Promise.all([getSuppliers(), getSupplierDirectory()]);
+    return accounts.filter(s => isSupplierActive(s.id, profiles));
+};
+
+// All purchase orders for the admin. Backends without the admin list endpoint are
+// queried supplier by supplier through the supplier orders endpoint instead.
+export const getPurchaseOrders = async (): Promise<PurchaseOrder[]> => {
+    try {
+        const response = await ordersApiClient.get('/admin/purchase-orders');
+        return extractList(response.data).map(o => mapPurchaseOrder(o));
+    } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        if (status !== 404 && status !== 405 && status !== 501) throw error;
+    }
+    const suppliers = await getSuppliers();
+    const perSupplier = await Promise.all(suppliers.map(async supplier => {
+        const response = await getAllSupplierItems(supplier.id);
+        return extractList(response.data).map(o => mapPurchaseOrder(o, supplier));
+    }));
+    return perSupplier.flat().filter(o => Number.isFinite(o.orderId));
+};
+
+// Items a supplier can deliver, with its price
+export interface SupplierCatalogItem {
+    id: number;
+    name: string;
+    price: number;
+}
+
+// The items a supplier lists in its portal, what suppliers without a directory catalog deliver
+export const getPortalSupplierCatalog = async (supplierId: string): Promise<SupplierCatalogItem[]> => {
+    const response = await ordersApiClient.get('/admin/supplier-inventory-items', { params: { supplierId } });
+    return extractList(response.data).map((p, idx) => ({
+        id: Number(p.id ?? p.itemId ?? idx + 1),
+        name: String(p.name ?? p.itemName ?? `Product ${idx + 1}`),
+        price: toNumber(p.price ?? p.unitPrice ?? p.cost, 0)
+    }));
+};
+
+export const initializePurchaseOrder = async (supplierId: string): Promise<PurchaseOrder> => {
+    const response = await ordersApiClient.post('/admin/initialize-purchase-order', { id: supplierId });
+    return mapPurchaseOrder(response.data && typeof response.data === 'object' ? response.data : {});
+};
+
+export const addItemToPurchaseOrder = async (orderId: number, line: Omit<PurchaseOrderLine, 'subtotal'>): Promise<PurchaseOrder> => {
+    const response = await ordersApiClient.post('/admin/add-items-to-order', {
+        orderId,
+        itemId: line.itemId,
+        itemName: line.itemName,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        subTotal: Math.round(line.unitPrice * line.quantity * 100) / 100
+    });
+    return mapPurchaseOrder(response.data && typeof response.data === 'object' ? response.data : {});
+};
+
+export const finalizePurchaseOrder = async (orderId: number): Promise<PurchaseOrder> => {
+    const response = await ordersApiClient.post('/admin/finalize-purchase-order', null, { params: { orderId } });
+    return mapPurchaseOrder(response.data && typeof response.data === 'object' ? response.data : { orderId });
+};
+
+export const cancelPurchaseOrder = async (orderId: number) => {
+    return ordersApiClient.post('/admin/cancel-purchase-order', null, { params: { orderId, status: 'CANCEL' } });
+};
+
+// ==================== SUPPLIER DIRECTORY ====================
+// The backend keeps each supplier's purchasing details and its catalog with the supplier, and
+// stamps updatedAt. Creating a supplier creates it on the backend, so purchase orders can go to it
+// once its portal account logs in with the same ID. Loading the directory refreshes the copy
+// service/suppliers reads synchronously; suppliers are checked there.
+
+export const getSupplierDirectory = async (): Promise<SupplierProfile[]> => {
+    const response = await ordersApiClient.get('/admin/suppliers');
+    const profiles = mapSupplierProfiles(extractList(response.data));
+    setSupplierProfiles(profiles);
+    return profiles;
+};
+
+const toSupplierProfile = (sent: SupplierProfileRequest & Partial<Pick<SupplierProfile, 'catalog' | 'updatedAt'>>, data: unknown): SupplierProfile =>
+    mapSupplierProfiles([{ catalog: null, ...sent, ...(data && typeof data === 'object' ? data : {}) }])[0];
+
+export const createSupplier = async (profile: SupplierProfileRequest): Promise<SupplierProfile> => {
+    const request = buildSupplierProfile(profile, true);
+    try {
+        const response = await ordersApiClient.post('/admin/suppliers', request);
+        const saved = toSupplierProfile(request, response.data);
+        storeSupplierProfile(saved);
+        return saved;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// Also saves the profile of a portal account that had none yet
+export const updateSupplier = async (profile: SupplierProfileRequest & { catalog: SupplierCatalogEntry[] | null }): Promise<SupplierProfile> => {
+    const request = buildSupplierProfile(profile);
+    try {
+        const response = await ordersApiClient.put(`/admin/suppliers/${encodeURIComponent(request.id)}`, request);
+        const saved = toSupplierProfile({ ...request, catalog: profile.catalog }, response.data);
+        storeSupplierProfile(saved);
+        return saved;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const setSupplierActive = async (profile: SupplierProfile, active: boolean): Promise<SupplierProfile> =>
+    updateSupplier({ ...profile, active });
+
+export const deleteSupplier = async (id: string): Promise<void> => {
+    try {
+        await ordersApiClient.delete(`/admin/suppliers/${encodeURIComponent(id)}`);
+        dropSupplierProfile(id);
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// The catalog purchase orders for a supplier are priced from: its directory catalog, or the items
+// its portal lists when it has none. The backend picks which.
+export const getSupplierCatalog = async (supplierId: string): Promise<SupplierCatalogItem[]> => {
+    const response = await ordersApiClient.get(`/admin/suppliers/${encodeURIComponent(supplierId)}/catalog`);
+    return extractList(response.data).map((p, idx) => ({
+        id: Number(p.id ?? p.itemId ?? idx + 1),
+        name: String(p.name ?? p.itemName ?? `Product ${idx + 1}`),
+        price: toNumber(p.price ?? p.unitPrice ?? p.cost, 0)
+    }));
+};
+
+// Replaces a supplier's directory catalog; null goes back to the items its portal lists
+export const saveSupplierCatalog = async (profile: SupplierProfile, catalog: SupplierCatalogEntry[] | null): Promise<SupplierProfile> => {
+    const items = buildSupplierCatalog(catalog);
+    try {
+        const response = await ordersApiClient.put(`/admin/suppliers/${encodeURIComponent(profile.id)}/catalog`, { items });
+        const saved = toSupplierProfile({ ...buildSupplierProfile(profile), catalog: items, updatedAt: profile.updatedAt }, response.data);
+        storeSupplierProfile(saved);
+        return saved;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== RECEIVING ====================
+// The backend keeps receipts with their purchase order, returns them with it (receipts) and adds
+// each received line to stock when the receipt is saved, once per receipt id. It stamps receivedAt
+// and receivedBy. Receipts are checked in service/purchaseOrders.
+
+export const receivePurchaseOrder = async (
+    order: PurchaseOrder,
+    lines: Omit<ReceiptLine, 'itemName'>[],
+    notes: string
+): Promise<PurchaseOrderReceipt> => {
+    const body = buildReceipt(order, lines, notes);
+    try {
+        const response = await ordersApiClient.post(`/admin/purchase-orders/${order.orderId}/receipts`, body);
+        const [receipt] = mapOrderReceipts(order.orderId, [response.data]);
+        if (!receipt) throw new Error(`The receipt for PO #${order.orderId} was not saved`);
+        return receipt;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== SUPPLIER INVOICES ====================
+// The backend keeps invoices with their purchase order and returns them with it (invoices), for
+// both the supplier and the admin order lists. Invoices are checked in service/supplierInvoices.
+
+// Supplier side
+export const submitSupplierInvoice = async (invoice: SupplierInvoice): Promise<SupplierInvoice> => {
+    try {
+        await apiClient.post('/kitcheniq/api/v1/suppliers/invoice', invoice);
+        return invoice;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// Only unpaid invoices can be withdrawn; a paid one is part of the payment history
+export const withdrawSupplierInvoice = async (invoice: SupplierInvoice): Promise<void> => {
+    if (invoice.payment) throw new Error('A paid invoice cannot be withdrawn');
+    try {
+        await apiClient.delete(`/kitcheniq/api/v1/suppliers/invoice/${encodeURIComponent(invoice.id)}`);
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// Admin side
+export const recordSupplierInvoicePayment = async (invoice: SupplierInvoice, payment: InvoicePayment): Promise<SupplierInvoice> => {
+    try {
+        await ordersApiClient.put(`/admin/supplier-invoices/${encodeURIComponent(invoice.id)}/payment`, payment);
+        return { ...invoice, payment };
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== EXPENSES ====================
+// The backend keeps manual expenses with their attachments and assigns their ids. Expenses are
+// checked in service/expenses; purchase orders and labor are not stored as expenses.
+
+export const getManualExpenses = async (): Promise<ManualExpense[]> => {
+    const response = await ordersApiClient.get('/admin/expenses');
+    return mapManualExpenses(extractList(response.data));
+};
+
+// Creates (no id) or updates an expense; returns it as the backend stored it
+export const saveManualExpense = async (expense: Omit<ManualExpense, 'id'> & { id?: string }): Promise<ManualExpense> => {
+    const { id, ...payload } = buildManualExpense(expense);
+    try {
+        const response = id
+            ? await ordersApiClient.put(`/admin/expenses/${encodeURIComponent(id)}`, payload)
+            : await ordersApiClient.post('/admin/expenses', payload);
+        const [saved] = mapManualExpenses([{ ...payload, id, ...(response.data && typeof response.data === 'object' ? response.data : {}) }]);
+        if (!saved.id) throw new Error('The backend did not return the id of the expense');
+        notifyExpensesUpdated();
+        return saved;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const deleteManualExpense = async (id: string): Promise<void> => {
+    try {
+        await ordersApiClient.delete(`/admin/expenses/${encodeURIComponent(id)}`);
+        notifyExpensesUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== MENU ====================
+// The sellable catalog is the backend's menu components, so new items get a backend id that
+// orders can reference and price edits change what orders are totalled at. Loaded and saved
+// items are handed to service/menu, which screens read the catalog from.
+
+const mapMenuItem = (m: Record<string, unknown>): MenuItem => {
+    const components = (Array.isArray(m.components) ? m.components : []) as Record<string, unknown>[];
+    const type = String(m.type ?? '').toUpperCase() === 'COMBO' ? 'COMBO' : 'PRODUCT';
+    return {
+        id: Number(m.id ?? m.menuComponentId),
+        name: String(m.name ?? ''),
+        price: toNumber(m.price, 0),
+        type,
+        active: m.active !== false,
+        description: m.description ? String(m.description) : undefined,
+        components: type === 'COMBO'
+            ? components.map(c => ({ productId: Number(c.productId ?? c.menuComponentId), quantity: toNumber(c.quantity, 1) }))
+            : undefined
+    };
+};
+
+export const getMenuItems = async (): Promise<MenuItem[]> => {
+    const response = await ordersApiClient.get('/menu-components');
+    const items = extractList(response.data).map(mapMenuItem).filter(i => Number.isFinite(i.id));
+    setMenuCatalog(items);
+    return items;
+};
+
+// Creates (id null) or updates a menu item; returns it as the backend stored it
+export const saveMenuItem = async (item: MenuItemDraft): Promise<MenuItem> => {
+    const { id, ...payload } = validateMenuItem(item);
+    try {
+        const response = id == null
+            ? await ordersApiClient.post('/menu-component', payload)
+            : await ordersApiClient.put(`/menu-component/${id}`, payload);
+        const body = response.data && typeof response.data === 'object' ? response.data as Record<string, unknown> : {};
+        const saved = mapMenuItem({ ...payload, id, ...body });
+        if (!Number.isFinite(saved.id)) throw new Error('The backend did not return the id of the menu item');
+        storeMenuItem(saved);
+        return saved;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const setMenuItemActive = async (id: number, active: boolean): Promise<MenuItem> => {
+    const item = getMenuCatalog().find(i => i.id === id);
+    if (!item) throw new Error(`Menu item ${id} not found`);
+    return saveMenuItem({ ...item, active });
+};
+
+// Recipes are kept by the backend with the menu; it uses them to deduct stock for delivered orders
+export const getRecipes = async (): Promise<Recipe[]> => {
+    const response = await ordersApiClient.get('/recipes');
+    return mapRecipes(extractList(response.data));
+};
+
+// Replaces a product's recipe; an empty ingredient list removes it (null)
+export const saveRecipe = async (productId: number, ingredients: RecipeIngredient[]): Promise<Recipe | null> => {
+    const merged = buildRecipeIngredients(ingredients);
+    try {
+        const response = await ordersApiClient.put(`/menu-component/${productId}/recipe`, {
+            ingredients: merged.map(i => ({ inventoryItemId: i.inventoryItemId, quantity: i.quantity }))
+        });
+        if (merged.length === 0) return null;
+        const [saved] = mapRecipes([{ productId, ingredients: merged, ...(response.data && typeof response.data === 'object' ? response.data : {}) }]);
+        return saved ?? null;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+// ==================== LABOR ====================
+// The backend keeps the shift log. Clocking in stamps the start with the server clock and the
+// employee's current name and hourly rate; it does nothing while the employee has a shift running.
+// Clocking out ends the running shift, if any.
+
+export const getShifts = async (): Promise<ShiftRecord[]> => {
+    const response = await ordersApiClient.get('/admin/shifts');
+    return mapShifts(extractList(response.data));
+};
+
+export const clockIn = async (employeeId: string): Promise<void> => {
+    try {
+        await ordersApiClient.post('/admin/shifts/clock-in', { employeeId });
+        notifyShiftsUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
+export const clockOut = async (employeeId: string): Promise<void> => {
+    try {
+        await ordersApiClient.post('/admin/shifts/clock-out', { employeeId });
+        notifyShiftsUpdated();
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(error.response?.data?.message || error.message);
+        }
+        throw error;
+    }
+};
+
 // ==================== EMPLOYEES (ADMIN) ====================
 export type EmployeeTypeCode = 'ADMIN' | 'CHEF' | 'WAITER';
 
@@ -557,6 +1774,12 @@ export const editEmployee = async (id: string, payload: EmployeeEditRequest) =>
 export interface DailyEarningsDTO {
     date: string; // ISO date string (YYYY-MM-DD)
     totalEarnings: number;
+    // Breakdown of the payments captured at checkout, as totalled by the backend
+    paidSales?: number;
+    tips?: number;
+    cashSales?: number;
+    cardSales?: number;
+    paidOrders?: number;
 }
 
 export const getDailyEarnings = async (date: string): Promise<DailyEarningsDTO> => {
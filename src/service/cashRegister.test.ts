@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildCashCount, buildCashMovement, countDenominations, getCashSessionTotals, mapCashSessions } from './cashRegister';
+import { mapPayments } from './payments';
+
+const [session] = mapCashSessions([{
+    sessionId: 'CASH-1',
+    openedAt: '2026-05-01T09:00:00.000Z',
+    openedBy: 'ana',
+    openingFloat: 100,
+    movements: [
+        { movementId: 'M1', type: 'PAY_IN', amount: 20, reason: 'Change from the bank' },
+        { movementId: 'M2', type: 'PAY_OUT', amount: 15, reason: 'Delivery driver' }
+    ],
+    close: null
+}]);
+
+const payments = mapPayments([
+    { paymentId: 'P0', orderId: 1, subtotal: 50, tenders: [{ method: 'CASH', amount: 50 }], paidAt: '2026-05-01T08:59:00.000Z' },
+    { paymentId: 'P1', orderId: 2, subtotal: 30, tip: 2, tenders: [{ method: 'CASH', amount: 12 }, { method: 'CARD', amount: 20 }], paidAt: '2026-05-01T10:00:00.000Z' },
+    { paymentId: 'P2', orderId: 3, subtotal: 8, tenders: [{ method: 'CASH', amount: 8 }], paidAt: '2026-05-01T11:00:00.000Z' }
+]);
+
+describe('cash register', () => {
+    it('expects the float, the cash tenders taken while open and the pay-ins, less the pay-outs', () => {
+        const totals = getCashSessionTotals(session, payments, '2026-05-01T12:00:00.000Z');
+        expect(totals.cashSales).toBe(20);
+        expect(totals.expectedCash).toBe(125);
+    });
+
+    it('keeps the figures of a closed session as the backend reconciled them', () => {
+        const [closed] = mapCashSessions([{ ...session, sessionId: 'CASH-1', close: { closedAt: '2026-05-01T12:00:00.000Z', cashSales: 18, countedCash: 120, expectedCash: 123, variance: -3, counts: { '20': 6 } } }]);
+        expect(getCashSessionTotals(closed, payments).cashSales).toBe(18);
+        expect(closed.close?.counts).toEqual({ '20': 6 });
+    });
+
+    it('refuses a pay-out the drawer cannot cover and a movement without a reason', () => {
+        const until = payments.filter(p => p.paidAt <= '2026-05-01T12:00:00.000Z');
+        expect(() => buildCashMovement(session, { type: 'PAY_OUT', amount: 200, reason: 'Rent' }, until)).toThrow('does not hold enough cash');
+        expect(() => buildCashMovement(session, { type: 'PAY_IN', amount: 5, reason: ' ' }, until)).toThrow('A reason is required');
+    });
+
+    it('counts whole pieces only', () => {
+        const { counts } = buildCashCount(session, { '20': 2.5, '0.25': 4, '5': -1 }, '');
+        expect(counts).toEqual({ '20': 2, '0.25': 4 });
+        expect(countDenominations(counts)).toBe(41);
+    });
+});
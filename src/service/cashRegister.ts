@@ -0,0 +1,151 @@
+// ==================== CASH REGISTER ====================
+// Drawer sessions (shifts): opening float, pay-ins/pay-outs, and the closing denomination count
+// reconciled against the cash taken at checkout during the session. The backend keeps the
+// sessions, stamps who did what and when, and on close reconciles the count against the cash
+// payments it recorded; the open session's expected cash is shown from the same payments.
+
+import { roundMoney, type OrderPayment } from './payments';
+
+export type CashMovementType = 'PAY_IN' | 'PAY_OUT';
+
+export interface CashMovement {
+    id: string;
+    type: CashMovementType;
+    amount: number;
+    reason: string;
+    at: string; // ISO timestamp
+    by: string;
+}
+
+export interface CashSessionClose {
+    closedAt: string;
+    closedBy: string;
+    counts: Record<string, number>; // denomination value -> pieces counted
+    countedCash: number;
+    expectedCash: number;
+    cashSales: number;
+    variance: number; // counted - expected
+    notes: string;
+}
+
+export interface CashSession {
+    id: string;
+    openedAt: string;
+    openedBy: string;
+    openingFloat: number;
+    movements: CashMovement[];
+    close: CashSessionClose | null; // null while the drawer is open
+}
+
+export interface CashSessionTotals {
+    openingFloat: number;
+    cashSales: number;
+    payIns: number;
+    payOuts: number;
+    expectedCash: number;
+}
+
+// Bills and coins counted at close, largest first
+export const DENOMINATIONS: number[] = [100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01];
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Sessions as returned by the backend: [{ sessionId, openedAt, openedBy, openingFloat,
+// movements: [{ movementId, type, amount, reason, at, by }], close: { closedAt, closedBy, counts, countedCash, expectedCash, cashSales, variance, notes } | null }]
+export const mapCashSessions = (raw: unknown): CashSession[] =>
+    asRecords(raw).map(s => {
+        const close = s.close && typeof s.close === 'object' ? s.close as Record<string, unknown> : null;
+        const counts: Record<string, number> = {};
+        if (close?.counts && typeof close.counts === 'object') {
+            Object.entries(close.counts as Record<string, unknown>).forEach(([d, n]) => { counts[String(Number(d))] = Number(n) || 0; });
+        }
+        return {
+            id: String(s.sessionId ?? s.id ?? ''),
+            openedAt: String(s.openedAt ?? ''),
+            openedBy: String(s.openedBy ?? ''),
+            openingFloat: Number(s.openingFloat) || 0,
+            movements: asRecords(s.movements).map(m => ({
+                id: String(m.movementId ?? m.id ?? ''),
+                type: m.type === 'PAY_OUT' ? 'PAY_OUT' : 'PAY_IN',
+                amount: Number(m.amount) || 0,
+                reason: String(m.reason ?? ''),
+                at: String(m.at ?? ''),
+                by: String(m.by ?? '')
+            })),
+            close: close ? {
+                closedAt: String(close.closedAt ?? ''),
+                closedBy: String(close.closedBy ?? ''),
+                counts,
+                countedCash: Number(close.countedCash) || 0,
+                expectedCash: Number(close.expectedCash) || 0,
+                cashSales: Number(close.cashSales) || 0,
+                variance: Number(close.variance) || 0,
+                notes: String(close.notes ?? '')
+            } : null
+        };
+    });
+
+export const getOpenCashSession = (sessions: CashSession[]): CashSession | null => sessions.find(s => s.close === null) || null;
+
+// Cash kept from checkouts between open and close (change already returned to the guest)
+export const getSessionCashSales = (session: CashSession, payments: OrderPayment[], until?: string): number => {
+    const from = session.openedAt;
+    const to = session.close?.closedAt ?? until ?? new Date().toISOString();
+    return roundMoney(payments
+        .filter(p => p.paidAt >= from && p.paidAt <= to)
+        .reduce((sum, p) => sum + p.tenders.filter(t => t.method === 'CASH').reduce((s, t) => s + t.amount, 0), 0));
+};
+
+// Closed sessions keep the cash sales counted at close; open ones need the payments taken since opening
+export const getCashSessionTotals = (session: CashSession, payments: OrderPayment[] = [], until?: string): CashSessionTotals => {
+    const cashSales = session.close ? session.close.cashSales : getSessionCashSales(session, payments, until);
+    const payIns = roundMoney(session.movements.filter(m => m.type === 'PAY_IN').reduce((sum, m) => sum + m.amount, 0));
+    const payOuts = roundMoney(session.movements.filter(m => m.type === 'PAY_OUT').reduce((sum, m) => sum + m.amount, 0));
+    return {
+        openingFloat: session.openingFloat,
+        cashSales,
+        payIns,
+        payOuts,
+        expectedCash: roundMoney(session.openingFloat + cashSales + payIns - payOuts)
+    };
+};
+
+export const countDenominations = (counts: Record<string, number>): number => roundMoney(
+    DENOMINATIONS.reduce((sum, d) => sum + d * (Math.max(0, Math.floor(counts[String(d)] || 0))), 0)
+);
+
+// The checks below run before a request is sent; the backend repeats them
+
+export const checkOpeningFloat = (openingFloat: number, sessions: CashSession[]): number => {
+    if (getOpenCashSession(sessions)) throw new Error('A cash drawer session is already open');
+    if (!Number.isFinite(openingFloat) || openingFloat < 0) throw new Error('Opening float must be zero or a positive amount');
+    return roundMoney(openingFloat);
+};
+
+export const buildCashMovement = (
+    session: CashSession,
+    movement: { type: CashMovementType; amount: number; reason: string },
+    payments: OrderPayment[]
+): { type: CashMovementType; amount: number; reason: string } => {
+    if (session.close) throw new Error('This cash drawer session is already closed');
+    const { type, amount } = movement;
+    const reason = movement.reason.trim();
+    if (!Number.isFinite(amount) || amount <= 0) throw new Error('Amount must be greater than zero');
+    if (!reason) throw new Error(`A reason is required for every ${type === 'PAY_IN' ? 'pay-in' : 'pay-out'}`);
+    if (type === 'PAY_OUT' && amount > getCashSessionTotals(session, payments).expectedCash + 0.001) {
+        throw new Error('The drawer does not hold enough cash for this pay-out');
+    }
+    return { type, amount: roundMoney(amount), reason };
+};
+
+// Only whole, non-negative pieces are sent for the closing count
+export const buildCashCount = (session: CashSession, counts: Record<string, number>, notes: string): { counts: Record<string, number>; notes: string } => {
+    if (session.close) throw new Error('This cash drawer session is already closed');
+    const pieces: Record<string, number> = {};
+    DENOMINATIONS.forEach(d => {
+        const n = Math.max(0, Math.floor(counts[String(d)] || 0));
+        if (n > 0) pieces[String(d)] = n;
+    });
+    return { counts: pieces, notes: notes.trim() };
+};
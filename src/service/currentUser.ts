@@ -0,0 +1,29 @@
+// Logged-in user as persisted by the AuthProvider at login ('userData' in localStorage).
+// Used to stamp locally recorded actions (status history, payments, cash movements).
+
+interface StoredUser {
+    id?: string;
+    name?: string;
+    type?: string;
+}
+
+const readStoredUser = (): StoredUser => {
+    try {
+        const raw = localStorage.getItem('userData');
+        return raw ? JSON.parse(raw) as StoredUser : {};
+    } catch {
+        return {};
+    }
+};
+
+export const getCurrentUserName = (): string => {
+    const user = readStoredUser();
+    return user.name || user.id || 'Unknown user';
+};
+
+// Name plus role, e.g. "Ana (WAITER)"
+export const getCurrentUserLabel = (): string => {
+    const user = readStoredUser();
+    const name = getCurrentUserName();
+    return user.type ? `${name} (${user.type})` : name;
+};
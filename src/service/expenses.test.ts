@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { PurchaseOrder } from './api';
+import { expandManualExpenses, purchaseOrderExpenses, type ManualExpense } from './expenses';
+import { mapOrderReceipts } from './purchaseOrders';
+import { mapOrderInvoices } from './supplierInvoices';
+
+const order = (receipts: unknown[], invoices: unknown[] = []): PurchaseOrder => ({
+    orderId: 3,
+    supplierId: 'SUP1',
+    supplierName: 'Fresh Farms',
+    status: 'DELIVERED',
+    orderDate: '2026-01-28',
+    updateDate: '2026-03-15',
+    totalAmount: 100,
+    items: [{ itemId: 1, itemName: 'Tomatoes', quantity: 10, unitPrice: 10, subtotal: 100 }],
+    shipments: [],
+    shortClosed: [],
+    receipts: mapOrderReceipts(3, receipts),
+    invoices: mapOrderInvoices(3, invoices)
+});
+
+const receipts = [
+    { receiptId: 'RCV-1', receivedAt: '2026-01-30T09:00:00', lines: [{ itemId: 1, quantity: 6 }] },
+    { receiptId: 'RCV-2', receivedAt: '2026-02-02T09:00:00', lines: [{ itemId: 1, quantity: 2 }] }
+];
+
+describe('purchaseOrderExpenses', () => {
+    it('costs what was received, dated on the last receipt', () => {
+        expect(purchaseOrderExpenses([order(receipts)], '2026-02-01', '2026-02-28').map(e => [e.date, e.amount]))
+            .toEqual([['2026-02-02', 80]]);
+        expect(purchaseOrderExpenses([order([])], '2026-01-01', '2026-12-31')).toEqual([]);
+    });
+
+    it('costs the invoiced amount once the order is invoiced', () => {
+        const invoices = [{ id: 'INV-1', invoiceNumber: 'F-1', invoiceDate: '2026-02-03', amount: 82.5 }];
+        expect(purchaseOrderExpenses([order(receipts, invoices)], '2026-02-01', '2026-02-28')[0].amount).toBe(82.5);
+    });
+});
+
+describe('expandManualExpenses', () => {
+    it('keeps monthly expenses on their day, clamped for shorter months', () => {
+        const rent: ManualExpense = { id: 'EXP-1', date: '2026-01-31', category: 'RENT', description: 'Rent', amount: 900, recurrence: 'MONTHLY', recurrenceEnd: null, attachments: [] };
+        expect(expandManualExpenses([rent], '2026-01-01', '2026-03-31').map(e => e.date)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+    });
+});
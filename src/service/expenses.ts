@@ -0,0 +1,209 @@
+// ==================== EXPENSES ====================
+// Manual expenses (rent, utilities...) and their attachments are kept by the backend (see the
+// EXPENSES section of api.ts); purchase orders and labor are derived on the fly from what was
+// received or invoiced on supplier orders and from the shift log, so they never drift from the source.
+
+import type { PurchaseOrder } from './api';
+import { getShiftCost, getShiftHours, type ShiftRecord } from './labor';
+import { roundMoney } from './payments';
+import { getOrderReceipts } from './purchaseOrders';
+
+export type ExpenseCategory = 'SUPPLIES' | 'LABOR' | 'RENT' | 'UTILITIES' | 'MAINTENANCE' | 'MARKETING' | 'OTHER';
+export type ExpenseSource = 'MANUAL' | 'PURCHASE_ORDER' | 'LABOR';
+export type ExpenseRecurrence = 'NONE' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+    SUPPLIES: 'Supplies',
+    LABOR: 'Labor',
+    RENT: 'Rent',
+    UTILITIES: 'Utilities',
+    MAINTENANCE: 'Maintenance',
+    MARKETING: 'Marketing',
+    OTHER: 'Other'
+};
+
+export const EXPENSE_RECURRENCE_LABELS: Record<ExpenseRecurrence, string> = {
+    NONE: 'One-time',
+    WEEKLY: 'Weekly',
+    MONTHLY: 'Monthly',
+    YEARLY: 'Yearly'
+};
+
+export interface ExpenseAttachment {
+    name: string;
+    type: string;
+    size: number;
+    dataUrl: string; // sent inline; the backend may answer with a link to the stored file instead
+}
+
+export interface ManualExpense {
+    id: string;                   // assigned by the backend
+    date: string;                 // YYYY-MM-DD of the first occurrence
+    category: ExpenseCategory;
+    description: string;
+    amount: number;
+    recurrence: ExpenseRecurrence;
+    recurrenceEnd: string | null; // last day a recurring expense applies, null = open-ended
+    attachments: ExpenseAttachment[];
+}
+
+// One dated cost line shown on the Expenses page, whatever its origin
+export interface ExpenseEntry {
+    id: string;
+    date: string; // YYYY-MM-DD
+    category: ExpenseCategory;
+    description: string;
+    amount: number;
+    source: ExpenseSource;
+    manualId?: string; // set for manual entries (and each occurrence of a recurring one)
+}
+
+export interface MonthlyExpenseTotal {
+    month: string; // YYYY-MM
+    total: number;
+    byCategory: Partial<Record<ExpenseCategory, number>>;
+}
+
+export const EXPENSES_UPDATED_EVENT = 'expenses-updated';
+
+// Attachments travel inline with the expense: keep them to receipts and scans
+export const MAX_ATTACHMENT_BYTES = 512 * 1024;
+
+const isoDay = (d: Date): string => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Expenses as returned by the backend: [{ expenseId, date, category, description, amount, recurrence, recurrenceEnd, attachments: [{ name, type, size, url }] }]
+export const mapManualExpenses = (raw: unknown): ManualExpense[] =>
+    asRecords(raw).map(e => ({
+        id: String(e.expenseId ?? e.id ?? ''),
+        date: String(e.date ?? '').substring(0, 10),
+        category: Object.keys(EXPENSE_CATEGORY_LABELS).includes(String(e.category)) ? e.category as ExpenseCategory : 'OTHER',
+        description: String(e.description ?? ''),
+        amount: Number(e.amount) || 0,
+        recurrence: Object.keys(EXPENSE_RECURRENCE_LABELS).includes(String(e.recurrence)) ? e.recurrence as ExpenseRecurrence : 'NONE',
+        recurrenceEnd: e.recurrenceEnd ? String(e.recurrenceEnd).substring(0, 10) : null,
+        attachments: asRecords(e.attachments).map(a => ({
+            name: String(a.name ?? 'attachment'),
+            type: String(a.type ?? ''),
+            size: Number(a.size) || 0,
+            dataUrl: String(a.dataUrl ?? a.url ?? '')
+        }))
+    }));
+
+export const notifyExpensesUpdated = () => {
+    try {
+        window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+// Checks an expense before it is sent to the backend; new ones have no id yet
+export const buildManualExpense = (expense: Omit<ManualExpense, 'id'> & { id?: string }): Omit<ManualExpense, 'id'> & { id?: string } => {
+    const description = expense.description.trim();
+    if (!description) throw new Error('Description is required');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expense.date)) throw new Error('A valid date is required');
+    if (!Number.isFinite(expense.amount) || expense.amount <= 0) throw new Error('Amount must be greater than zero');
+    if (expense.recurrenceEnd && expense.recurrenceEnd < expense.date) throw new Error('The recurrence cannot end before the first date');
+    if (expense.attachments.some(a => a.size > MAX_ATTACHMENT_BYTES)) {
+        throw new Error(`Attachments must be smaller than ${Math.round(MAX_ATTACHMENT_BYTES / 1024)} KB`);
+    }
+    return {
+        ...expense,
+        description,
+        amount: roundMoney(expense.amount),
+        recurrenceEnd: expense.recurrence === 'NONE' ? null : expense.recurrenceEnd
+    };
+};
+
+const nextOccurrence = (date: Date, recurrence: ExpenseRecurrence, firstDay: number): Date => {
+    const next = new Date(date);
+    if (recurrence === 'WEEKLY') next.setDate(next.getDate() + 7);
+    if (recurrence === 'MONTHLY' || recurrence === 'YEARLY') {
+        // Keep the original day of month, clamped for shorter months (Jan 31 -> Feb 28)
+        next.setDate(1);
+        next.setMonth(next.getMonth() + (recurrence === 'MONTHLY' ? 1 : 12));
+        const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+        next.setDate(Math.min(firstDay, lastDay));
+    }
+    return next;
+};
+
+// Occurrences of manual expenses dated inside [from, to]
+export const expandManualExpenses = (expenses: ManualExpense[], from: string, to: string): ExpenseEntry[] => {
+    const entries: ExpenseEntry[] = [];
+    expenses.forEach(e => {
+        const toEntry = (date: string, suffix = ''): ExpenseEntry => ({
+            id: `${e.id}${suffix}`,
+            date,
+            category: e.category,
+            description: e.description,
+            amount: e.amount,
+            source: 'MANUAL',
+            manualId: e.id
+        });
+        if (e.recurrence === 'NONE') {
+            if (e.date >= from && e.date <= to) entries.push(toEntry(e.date));
+            return;
+        }
+        const [y, m, d] = e.date.split('-').map(Number);
+        const last = e.recurrenceEnd && e.recurrenceEnd < to ? e.recurrenceEnd : to;
+        for (let current = new Date(y, m - 1, d); isoDay(current) <= last; current = nextOccurrence(current, e.recurrence, d)) {
+            const day = isoDay(current);
+            if (day >= from) entries.push(toEntry(day, `@${day}`));
+        }
+    });
+    return entries;
+};
+
+// Purchase orders cost what was invoiced on them, or until then the received quantities at the
+// order prices, dated on the last receipt; nothing is spent on an order before goods arrive
+export const purchaseOrderExpenses = (orders: PurchaseOrder[], from: string, to: string): ExpenseEntry[] => orders
+    .flatMap(o => {
+        const receipts = getOrderReceipts(o);
+        if (receipts.length === 0) return [];
+        const when = new Date(receipts[receipts.length - 1].receivedAt);
+        if (isNaN(when.getTime())) return [];
+        const date = isoDay(when);
+        if (date < from || date > to) return [];
+        const invoiced = o.invoices.reduce((sum, i) => sum + i.amount, 0);
+        const received = receipts.flatMap(r => r.lines)
+            .reduce((sum, l) => sum + l.quantity * (o.items.find(i => i.itemId === l.itemId)?.unitPrice ?? 0), 0);
+        return [{
+            id: `PO-${o.orderId}`,
+            date,
+            category: 'SUPPLIES' as ExpenseCategory,
+            description: `Purchase order #${o.orderId} · ${o.supplierName}${o.invoices.length > 0 ? ' (invoiced)' : ' (received)'}`,
+            amount: roundMoney(o.invoices.length > 0 ? invoiced : received),
+            source: 'PURCHASE_ORDER' as ExpenseSource
+        }];
+    });
+
+// One labor line per finished shift (hours x hourly rate at clock-in)
+export const laborExpenses = (shifts: ShiftRecord[], from: string, to: string): ExpenseEntry[] => shifts
+    .filter(s => s.end !== null)
+    .flatMap(s => {
+        const date = isoDay(new Date(s.start));
+        if (date < from || date > to) return [];
+        const hours = getShiftHours(s);
+        return [{
+            id: s.id,
+            date,
+            category: 'LABOR' as ExpenseCategory,
+            description: `${s.employeeName} · ${hours.toFixed(2)} h @ $${s.hourlyRate.toFixed(2)}/h`,
+            amount: getShiftCost(s),
+            source: 'LABOR' as ExpenseSource
+        }];
+    });
+
+export const summarizeExpensesByMonth = (entries: ExpenseEntry[]): MonthlyExpenseTotal[] => {
+    const months = new Map<string, MonthlyExpenseTotal>();
+    entries.forEach(e => {
+        const month = e.date.substring(0, 7);
+        const m = months.get(month) || { month, total: 0, byCategory: {} };
+        m.total = roundMoney(m.total + e.amount);
+        m.byCategory[e.category] = roundMoney((m.byCategory[e.category] || 0) + e.amount);
+        months.set(month, m);
+    });
+    return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+};
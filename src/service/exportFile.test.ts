@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './exportFile';
+
+describe('toCsv', () => {
+    it('prefixes text that a spreadsheet would run as a formula', () => {
+        const csv = toCsv(['Note'], [['=HYPERLINK("http://x","y")'], ['+1+2'], ['-2+3'], ['@SUM(A1)'], ['\tindent']]);
+        expect(csv.split('\r\n').slice(1)).toEqual([
+            `"'=HYPERLINK(""http://x"",""y"")"`,
+            `'+1+2`,
+            `'-2+3`,
+            `'@SUM(A1)`,
+            `'\tindent`
+        ]);
+    });
+
+    it('leaves numbers and signed amounts as they are', () => {
+        expect(toCsv(['A', 'B', 'C'], [[-5, '-12.50', '-$3.20']])).toBe('A,B,C\r\n-5,-12.50,-$3.20');
+    });
+});
@@ -0,0 +1,96 @@
+// ==================== FILE EXPORT ====================
+// Client-side downloads for exported data (CSV, XLSX, and PDF through the browser's print dialog);
+// nothing goes through the backend.
+
+import { buildXlsx, XLSX_MIME, type XlsxCell, type XlsxColumn } from './xlsx';
+
+export type CsvCell = string | number | null | undefined;
+
+// Spreadsheets run cells starting with these as formulas (CSV injection), so such text gets a
+// leading quote. Plain numbers like "-12.50" or "-$12.50" cannot be formulas and are left alone.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const SIGNED_NUMBER = /^[-+]\$?\d+(\.\d+)?$/;
+
+const escapeCsvCell = (cell: CsvCell): string => {
+    if (cell === null || cell === undefined) return '';
+    let text = String(cell);
+    if (typeof cell === 'string' && FORMULA_START.test(text) && !SIGNED_NUMBER.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvCell[][]): string => (
+    [headers, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n')
+);
+
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+};
+
+// BOM so Excel opens UTF-8 CSVs with the right encoding
+export const downloadCsv = (headers: string[], rows: CsvCell[][], filename: string) => {
+    downloadFile(`\uFEFF${toCsv(headers, rows)}`, filename, 'text/csv;charset=utf-8');
+};
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// A table column for exports; the format drives the XLSX number format and the CSV text
+export interface ExportColumn<T> extends XlsxColumn {
+    value: (row: T) => XlsxCell;
+}
+
+const pad2 = (n: number): string => String(n).padStart(2, '0');
+
+const formatExportDate = (date: Date, withTime: boolean): string => {
+    if (isNaN(date.getTime())) return '';
+    const day = `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+    return withTime ? `${day} ${pad2(date.getHours())}:${pad2(date.getMinutes())}` : day;
+};
+
+const toCsvValue = (value: XlsxCell, format: ExportColumn<unknown>['format']): CsvCell => {
+    if (value instanceof Date) return formatExportDate(value, format !== 'date');
+    if (typeof value === 'number' && format === 'currency') return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+    return value;
+};
+
+// Backend dates arrive as strings; date-only values are read as local days so they don't shift a day
+export const parseExportDate = (value: string | null | undefined): Date | null => {
+    if (!value) return null;
+    const dayOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    const date = dayOnly ? new Date(Number(dayOnly[1]), Number(dayOnly[2]) - 1, Number(dayOnly[3])) : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+// Downloads the rows as "<baseName>-YYYY-MM-DD.csv|xlsx"
+export const exportTable = <T>(rows: T[], columns: ExportColumn<T>[], baseName: string, format: ExportFormat) => {
+    const filename = `${baseName}-${formatExportDate(new Date(), false)}`;
+    const values = rows.map(row => columns.map(c => c.value(row)));
+    if (format === 'xlsx') {
+        downloadFile(buildXlsx(baseName, columns, values), `${filename}.xlsx`, XLSX_MIME);
+        return;
+    }
+    downloadCsv(columns.map(c => c.header), values.map(row => row.map((v, i) => toCsvValue(v, columns[i].format))), `${filename}.csv`);
+};
+
+export const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, c => (
+    { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string
+));
+
+// Opens the document in a new window and triggers printing ("Save as PDF" in every browser).
+// Returns false when the pop-up was blocked.
+export const printDocument = (title: string, bodyHtml: string, css = '', features = 'width=900,height=700'): boolean => {
+    const win = window.open('', '_blank', features);
+    if (!win) return false;
+    win.document.write(`<!doctype html><html><head><title>${escapeHtml(title)}</title><style>${css}</style></head><body>${bodyHtml}</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
+    return true;
+};
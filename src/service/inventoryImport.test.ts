@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { InventoryProduct } from './api';
+import { guessColumnMapping, parseCsv, parseImportNumber, validateImportRows } from './inventoryImport';
+
+// The api module opens the order stream on load, which needs a browser
+vi.mock('./api', () => ({ addInventoryItem: vi.fn() }));
+
+describe('parseCsv', () => {
+    it('detects the delimiter and keeps quoted semicolons, quotes and line breaks', () => {
+        const csv = parseCsv('\uFEFFName;Price;Supplier\r\n"Flour; ""00""";1,50;Fresh Farms\r\n\r\n"Olive\nOil";12;Fresh Farms');
+        expect(csv.headers).toEqual(['Name', 'Price', 'Supplier']);
+        expect(csv.rows).toEqual([['Flour; "00"', '1,50', 'Fresh Farms'], ['Olive\nOil', '12', 'Fresh Farms']]);
+    });
+});
+
+describe('parseImportNumber', () => {
+    it('reads decimal commas and thousands separators', () => {
+        expect(['12,50', '1,000', '$1,234.50', '1.234,50', 'abc'].map(parseImportNumber)).toEqual([12.5, 1000, 1234.5, 1234.5, NaN]);
+    });
+});
+
+describe('validateImportRows', () => {
+    it('reports every problem of a row against the inventory and the supplier list', () => {
+        const csv = parseCsv('Item,Qty,Unit Cost,Vendor\nTomatoes,,2.5,fresh farms\ntomatoes,3.5,2.555,Nobody\nRice,4,1,Fresh Farms');
+        const existing = [{ name: 'Rice' }] as InventoryProduct[];
+        const rows = validateImportRows(csv, guessColumnMapping(csv.headers), existing, ['Fresh Farms']);
+        expect(rows.map(r => [r.line, r.supplier, r.errors, r.warnings])).toEqual([
+            [2, 'Fresh Farms', [], ['No stock quantity, imported as 0']],
+            [3, 'Nobody', ['Duplicate of line 2', 'Stock "3.5" is not a whole number of 0 or more', 'Price "2.555" has more than 2 decimals', 'Unknown supplier "Nobody"'], []],
+            [4, 'Fresh Farms', ['Already in inventory'], []]
+        ]);
+    });
+});
@@ -0,0 +1,222 @@
+// ==================== INVENTORY IMPORT ====================
+// Bulk onboarding of inventory items from a CSV file: parse, map columns to product fields,
+// validate against the current inventory and supplier list, then post to add-inventory-item
+// in small batches so one bad row never stops the rest.
+
+import { addInventoryItem, type InventoryProduct } from './api';
+
+export type ImportField = 'name' | 'category' | 'stockQuantity' | 'price' | 'supplier';
+
+export interface ImportFieldInfo {
+    field: ImportField;
+    label: string;
+    required: boolean;
+    aliases: string[]; // normalized header names recognised when guessing the mapping
+}
+
+export const IMPORT_FIELDS: ImportFieldInfo[] = [
+    { field: 'name', label: 'Name', required: true, aliases: ['name', 'item', 'itemname', 'product', 'productname'] },
+    { field: 'category', label: 'Category', required: false, aliases: ['category', 'type', 'group'] },
+    { field: 'stockQuantity', label: 'Stock Quantity', required: false, aliases: ['stockquantity', 'stock', 'quantity', 'qty', 'onhand'] },
+    { field: 'price', label: 'Price', required: true, aliases: ['price', 'unitprice', 'cost', 'unitcost'] },
+    { field: 'supplier', label: 'Supplier', required: true, aliases: ['supplier', 'suppliername', 'vendor'] }
+];
+
+// Column index in the file for each field, null when not mapped
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ParsedCsv {
+    headers: string[];
+    rows: string[][];
+}
+
+export interface ImportRow {
+    line: number; // row number in the file counting the header as 1 (blank lines are ignored)
+    name: string;
+    category: string;
+    stockQuantity: number;
+    price: number;
+    supplier: string;
+    errors: string[];   // the row is skipped
+    warnings: string[]; // the row is imported with a default
+}
+
+export interface ImportResult {
+    line: number;
+    name: string;
+    status: 'IMPORTED' | 'FAILED' | 'SKIPPED';
+    message: string;
+    product?: InventoryProduct;
+}
+
+export const IMPORT_BATCH_SIZE = 10;
+
+export const IMPORT_TEMPLATE_HEADERS = ['Name', 'Category', 'Stock Quantity', 'Price', 'Supplier'];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Picks the delimiter (comma, semicolon or tab) that splits the header line into the most columns
+const detectDelimiter = (firstLine: string): string => {
+    const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+    return counts.reduce((best, c) => c.n > best.n ? c : best).d;
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string): ParsedCsv => {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"' && source[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else field += ch;
+        } else if (ch === '"' && field === '') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+    const [headers = [], ...rows] = nonEmpty;
+    return { headers: headers.map(h => h.trim()), rows };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    const used = new Set<number>();
+    const mapping = {} as ColumnMapping;
+    IMPORT_FIELDS.forEach(({ field, aliases }) => {
+        const index = aliases
+            .map(alias => normalized.findIndex((h, i) => h === alias && !used.has(i)))
+            .find(i => i >= 0);
+        mapping[field] = index ?? null;
+        if (index !== undefined) used.add(index);
+    });
+    return mapping;
+};
+
+// Accepts "12.5", "12,50", "1,000", "$1,234.50" and "1.234,50"; NaN for anything else.
+// A lone comma is a decimal separator unless it groups thousands ("1,000").
+export const parseImportNumber = (raw: string): number => {
+    let value = raw.trim().replace(/[$€£\s]/g, '');
+    if (value === '') return NaN;
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+    const thousandsOnly = lastDot === -1 && /^-?\d{1,3}(,\d{3})+$/.test(value);
+    if (lastComma > lastDot && !thousandsOnly) value = value.replace(/\./g, '').replace(',', '.');
+    else value = value.replace(/,/g, '');
+    return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : NaN;
+};
+
+export const validateImportRows = (
+    csv: ParsedCsv,
+    mapping: ColumnMapping,
+    existing: InventoryProduct[],
+    knownSuppliers: string[]
+): ImportRow[] => {
+    const cell = (row: string[], field: ImportField): string => {
+        const index = mapping[field];
+        return index === null ? '' : (row[index] ?? '').trim();
+    };
+    const suppliersByKey = new Map(knownSuppliers.map(s => [normalizeName(s), s]));
+    const inInventory = new Set(existing.map(p => normalizeName(p.name)));
+    const firstLineByName = new Map<string, number>();
+
+    return csv.rows.map((row, idx) => {
+        const line = idx + 2;
+        const errors: string[] = [];
+        const warnings: string[] = [];
+
+        const name = cell(row, 'name').replace(/\s+/g, ' ');
+        if (!name) errors.push('Name is missing');
+        else {
+            const key = normalizeName(name);
+            const firstLine = firstLineByName.get(key);
+            if (firstLine !== undefined) errors.push(`Duplicate of line ${firstLine}`);
+            else firstLineByName.set(key, line);
+            if (inInventory.has(key)) errors.push('Already in inventory');
+        }
+
+        const rawStock = cell(row, 'stockQuantity');
+        let stockQuantity = 0;
+        if (rawStock === '') warnings.push('No stock quantity, imported as 0');
+        else {
+            stockQuantity = parseImportNumber(rawStock);
+            if (!Number.isInteger(stockQuantity) || stockQuantity < 0) errors.push(`Stock "${rawStock}" is not a whole number of 0 or more`);
+        }
+
+        const rawPrice = cell(row, 'price');
+        const price = parseImportNumber(rawPrice);
+        if (rawPrice === '') errors.push('Price is missing');
+        else if (isNaN(price) || price < 0) errors.push(`Price "${rawPrice}" is not a valid amount`);
+        else if (Math.abs(price * 100 - Math.round(price * 100)) > 1e-6) errors.push(`Price "${rawPrice}" has more than 2 decimals`);
+
+        const rawSupplier = cell(row, 'supplier');
+        const supplier = suppliersByKey.get(normalizeName(rawSupplier));
+        if (!rawSupplier) errors.push('Supplier is missing');
+        else if (!supplier) errors.push(`Unknown supplier "${rawSupplier}"`);
+
+        return {
+            line,
+            name,
+            category: cell(row, 'category') || 'General',
+            stockQuantity: isNaN(stockQuantity) ? 0 : stockQuantity,
+            price: isNaN(price) ? 0 : price,
+            supplier: supplier ?? rawSupplier,
+            errors,
+            warnings
+        };
+    });
+};
+
+export const importInventoryRows = async (
+    rows: ImportRow[],
+    onProgress?: (results: ImportResult[]) => void
+): Promise<ImportResult[]> => {
+    const results: ImportResult[] = rows
+        .filter(r => r.errors.length > 0)
+        .map(r => ({ line: r.line, name: r.name, status: 'SKIPPED', message: r.errors.join('; ') }));
+    const toImport = rows.filter(r => r.errors.length === 0);
+
+    for (let i = 0; i < toImport.length; i += IMPORT_BATCH_SIZE) {
+        const batch = toImport.slice(i, i + IMPORT_BATCH_SIZE);
+        const settled = await Promise.allSettled(batch.map(r => addInventoryItem({
+            name: r.name,
+            category: r.category,
+            quantity: r.stockQuantity,
+            supplier: r.supplier,
+            price: r.price
+        })));
+        settled.forEach((s, j) => {
+            const row = batch[j];
+            results.push(s.status === 'fulfilled'
+                ? { line: row.line, name: row.name, status: 'IMPORTED', message: row.warnings.join('; ') || 'Imported', product: s.value }
+                : { line: row.line, name: row.name, status: 'FAILED', message: s.reason instanceof Error ? s.reason.message : 'Import failed' });
+        });
+        onProgress?.([...results]);
+    }
+
+    return results.sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { mapShifts, summarizeLabor } from './labor';
+
+describe('summarizeLabor', () => {
+    it('costs each shift at the rate it was clocked in with, clipped to the period', () => {
+        const shifts = mapShifts([
+            { shiftId: 's1', employeeId: 'E1', employeeName: 'Ana', hourlyRate: 10, start: '2026-03-01T08:00:00.000Z', end: '2026-03-01T12:00:00.000Z' },
+            { shiftId: 's2', employeeId: 'E1', employeeName: 'Ana', hourlyRate: 12, start: '2026-03-01T23:00:00.000Z', end: '2026-03-02T01:00:00.000Z' },
+            { shiftId: 's3', employeeId: 'E2', employeeName: 'Ben', hourlyRate: 20, start: '' }
+        ]);
+        const summary = summarizeLabor(shifts, new Date('2026-03-01T00:00:00.000Z'), new Date('2026-03-02T00:00:00.000Z'));
+        expect(shifts).toHaveLength(2);
+        expect(summary).toEqual([{ employeeId: 'E1', employeeName: 'Ana', hours: 5, cost: 52 }]);
+    });
+});
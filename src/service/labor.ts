@@ -0,0 +1,71 @@
+// ==================== LABOR ====================
+// Worked shifts, recorded when an employee is switched to "On Shift" and back off in the staff
+// table. The backend keeps the shift log (see the LABOR section of api.ts): it stamps clock-in and
+// clock-out with its own clock and captures the hourly rate at clock-in, so later rate changes
+// don't rewrite past costs.
+
+import { roundMoney } from './payments';
+
+export interface ShiftRecord {
+    id: string;
+    employeeId: string;
+    employeeName: string;
+    hourlyRate: number;
+    start: string;      // ISO timestamp
+    end: string | null; // null while the shift is running
+}
+
+export interface LaborSummary {
+    employeeId: string;
+    employeeName: string;
+    hours: number;
+    cost: number;
+}
+
+export const SHIFTS_UPDATED_EVENT = 'staff-shifts-updated';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Shifts as returned by the backend: [{ shiftId, employeeId, employeeName, hourlyRate, start, end }]
+export const mapShifts = (raw: unknown): ShiftRecord[] =>
+    asRecords(raw)
+        .map(s => ({
+            id: String(s.shiftId ?? s.id ?? ''),
+            employeeId: String(s.employeeId ?? ''),
+            employeeName: String(s.employeeName ?? s.employeeId ?? ''),
+            hourlyRate: Number(s.hourlyRate) || 0,
+            start: String(s.start ?? ''),
+            end: s.end ? String(s.end) : null
+        }))
+        .filter(s => s.start !== '');
+
+export const notifyShiftsUpdated = () => {
+    try {
+        window.dispatchEvent(new CustomEvent(SHIFTS_UPDATED_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+// Hours of a shift that fall inside [from, to); running shifts count up to now
+export const getShiftHours = (shift: ShiftRecord, from?: Date, to?: Date): number => {
+    const start = Math.max(new Date(shift.start).getTime(), from ? from.getTime() : -Infinity);
+    const end = Math.min(shift.end ? new Date(shift.end).getTime() : Date.now(), to ? to.getTime() : Infinity);
+    return end > start ? Math.round(((end - start) / HOUR_MS) * 100) / 100 : 0;
+};
+
+export const getShiftCost = (shift: ShiftRecord, from?: Date, to?: Date): number => roundMoney(getShiftHours(shift, from, to) * shift.hourlyRate);
+
+export const summarizeLabor = (shifts: ShiftRecord[], from?: Date, to?: Date): LaborSummary[] => {
+    const byEmployee = new Map<string, LaborSummary>();
+    shifts.forEach(s => {
+        const hours = getShiftHours(s, from, to);
+        if (hours === 0) return;
+        const entry = byEmployee.get(s.employeeId) || { employeeId: s.employeeId, employeeName: s.employeeName, hours: 0, cost: 0 };
+        entry.hours = Math.round((entry.hours + hours) * 100) / 100;
+        entry.cost = roundMoney(entry.cost + hours * s.hourlyRate);
+        byEmployee.set(s.employeeId, entry);
+    });
+    return [...byEmployee.values()].sort((a, b) => b.cost - a.cost);
+};
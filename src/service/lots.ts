@@ -0,0 +1,112 @@
+// ==================== LOTS ====================
+// Received stock is kept in lots with an optional expiry date. Outflows draw from the lot that
+// expires first (first-expiry-first-out); lots without a date go last. Stock received before
+// lots were tracked simply has no lot, so lot totals can be lower than the item's stock.
+// The backend keeps the lots: it opens one for each receipt and draws outflows from them in the
+// same request that applies the stock movement, so remaining quantities follow the count.
+
+export interface StockLot {
+    id: string;
+    itemId: number;
+    itemName: string;
+    lotCode: string;
+    receivedAt: string;        // ISO
+    expiryDate: string | null; // YYYY-MM-DD
+    quantityReceived: number;
+    quantityRemaining: number;
+    purchaseOrderId?: number;
+}
+
+export interface LotAllocation {
+    lotId: string;
+    lotCode: string;
+    quantity: number;
+}
+
+export type ExpiryStatus = 'EXPIRED' | 'EXPIRING' | 'OK' | 'NO_EXPIRY';
+
+const LS_NOTIF_THRESHOLDS_KEY = 'inventory_notif_thresholds'; // written by InventoryNotifications
+export const LOTS_UPDATED_EVENT = 'inventory-lots-updated';
+export const DEFAULT_EXPIRY_WARNING_DAYS = 3;
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+const todayIso = (): string => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Lots as returned by the backend: [{ lotId, itemId, itemName, lotCode, receivedAt, expiryDate, quantityReceived, quantityRemaining, purchaseOrderId }]
+export const mapLots = (raw: unknown): StockLot[] =>
+    asRecords(raw).map(l => ({
+        id: String(l.lotId ?? l.id ?? ''),
+        itemId: Number(l.itemId),
+        itemName: String(l.itemName ?? `Item ${l.itemId}`),
+        lotCode: String(l.lotCode ?? ''),
+        receivedAt: String(l.receivedAt ?? ''),
+        expiryDate: l.expiryDate ? String(l.expiryDate) : null,
+        quantityReceived: roundQuantity(Number(l.quantityReceived) || 0),
+        quantityRemaining: roundQuantity(Number(l.quantityRemaining) || 0),
+        purchaseOrderId: l.purchaseOrderId == null ? undefined : Number(l.purchaseOrderId)
+    }));
+
+export const checkExpiryDate = (expiryDate: string | null): string | null => {
+    if (expiryDate && !/^\d{4}-\d{2}-\d{2}$/.test(expiryDate)) throw new Error('Expiry date must be YYYY-MM-DD');
+    return expiryDate || null;
+};
+
+// Lets lot screens reload after an expiry date changed
+export const notifyLotsUpdated = () => {
+    try {
+        window.dispatchEvent(new CustomEvent(LOTS_UPDATED_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+// First-expiry-first-out order; undated lots last, then oldest received first
+const byExpiry = (a: StockLot, b: StockLot) => {
+    if (a.expiryDate !== b.expiryDate) {
+        if (a.expiryDate === null) return 1;
+        if (b.expiryDate === null) return -1;
+        return a.expiryDate.localeCompare(b.expiryDate);
+    }
+    return a.receivedAt.localeCompare(b.receivedAt);
+};
+
+// Lots of an item that still hold stock, in the order they will be used
+export const getOpenLots = (lots: StockLot[], itemId?: number): StockLot[] =>
+    lots
+        .filter(l => l.quantityRemaining > 0 && (itemId === undefined || l.itemId === itemId))
+        .sort(byExpiry);
+
+export const getDaysUntilExpiry = (expiryDate: string, today: string = todayIso()): number => {
+    const [y1, m1, d1] = expiryDate.split('-').map(Number);
+    const [y2, m2, d2] = today.split('-').map(Number);
+    return Math.round((Date.UTC(y1, m1 - 1, d1) - Date.UTC(y2, m2 - 1, d2)) / 86_400_000);
+};
+
+// Days ahead a lot counts as expiring soon, as configured in the inventory alert settings
+export const getExpiryWarningDays = (): number => {
+    try {
+        const raw = localStorage.getItem(LS_NOTIF_THRESHOLDS_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        if (parsed && typeof parsed.expiryWarningDays === 'number' && parsed.expiryWarningDays >= 0) return parsed.expiryWarningDays;
+    } catch { /* keep the default */ }
+    return DEFAULT_EXPIRY_WARNING_DAYS;
+};
+
+export const getExpiryStatus = (lot: StockLot, warningDays: number = DEFAULT_EXPIRY_WARNING_DAYS, today: string = todayIso()): ExpiryStatus => {
+    if (!lot.expiryDate) return 'NO_EXPIRY';
+    const days = getDaysUntilExpiry(lot.expiryDate, today);
+    if (days < 0) return 'EXPIRED';
+    return days <= warningDays ? 'EXPIRING' : 'OK';
+};
+
+// Open lots already expired or expiring within the warning window, soonest first
+export const getExpiringLots = (lots: StockLot[], warningDays: number = DEFAULT_EXPIRY_WARNING_DAYS): StockLot[] =>
+    getOpenLots(lots).filter(l => {
+        const status = getExpiryStatus(l, warningDays);
+        return status === 'EXPIRED' || status === 'EXPIRING';
+    });
@@ -0,0 +1,101 @@
+// ==================== MENU CATALOG ====================
+// Managed list of sellable products and combos. The catalog is the backend's menu components
+// (see the MENU section of api.ts): their ids are what createOrder sends and their prices are
+// what the backend totals orders with. The last loaded copy is kept here so screens and recipes
+// can read it synchronously; until it is loaded the seeded items, whose ids match the backend, stand in.
+
+export type MenuItemType = 'PRODUCT' | 'COMBO';
+
+export interface ComboComponent {
+    productId: number;
+    quantity: number;
+}
+
+export interface MenuItem {
+    id: number;
+    name: string;
+    price: number;
+    type: MenuItemType;
+    active: boolean;
+    description?: string;
+    components?: ComboComponent[]; // only for COMBO: breakdown into products
+}
+
+export type MenuItemDraft = Omit<MenuItem, 'id'> & { id: number | null }; // id null = new item
+
+export const MENU_UPDATED_EVENT = 'menu-catalog-updated';
+
+export const DEFAULT_MENU_ITEMS: MenuItem[] = [
+    { id: 1, name: 'Hamburger', price: 8.5, type: 'PRODUCT', active: true },
+    { id: 2, name: 'French Fries', price: 3.25, type: 'PRODUCT', active: true },
+    { id: 3, name: 'Drink', price: 2.0, type: 'PRODUCT', active: true },
+    { id: 4, name: 'Hamburger + French Fries', price: 8.5 + 3.25, type: 'COMBO', active: true,
+        components: [ { productId: 1, quantity: 1 }, { productId: 2, quantity: 1 } ] },
+    { id: 5, name: 'Hamburger + Drink', price: 8.5 + 2.0, type: 'COMBO', active: true,
+        components: [ { productId: 1, quantity: 1 }, { productId: 3, quantity: 1 } ] },
+    { id: 6, name: '2 Hamburgers + 2 French Fries + 2 Drinks', price: (2 * 8.5) + (2 * 3.25) + (2 * 2.0), type: 'COMBO', active: true,
+        components: [ { productId: 1, quantity: 2 }, { productId: 2, quantity: 2 }, { productId: 3, quantity: 2 } ] }
+];
+
+let loadedCatalog: MenuItem[] | null = null;
+
+const notify = () => {
+    try {
+        window.dispatchEvent(new CustomEvent(MENU_UPDATED_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+export const getMenuCatalog = (): MenuItem[] => (loadedCatalog ?? DEFAULT_MENU_ITEMS).map(i => ({ ...i }));
+
+export const getActiveMenuItems = (): MenuItem[] => getMenuCatalog().filter(i => i.active);
+
+// Replaces the catalog with the one loaded from the backend
+export const setMenuCatalog = (items: MenuItem[]) => {
+    loadedCatalog = items.map(i => ({ ...i }));
+    notify();
+};
+
+// Puts one item as the backend returned it after a save into the loaded catalog
+export const storeMenuItem = (item: MenuItem) => {
+    const catalog = getMenuCatalog();
+    const idx = catalog.findIndex(i => i.id === item.id);
+    if (idx >= 0) catalog[idx] = { ...item }; else catalog.push({ ...item });
+    setMenuCatalog(catalog);
+};
+
+// Checks an item before it is sent to the backend; returns it trimmed and with the price rounded
+export const validateMenuItem = (item: MenuItemDraft, catalog: MenuItem[] = getMenuCatalog()): MenuItemDraft => {
+    const name = item.name.trim();
+    if (!name) throw new Error('Name is required');
+    if (isNaN(item.price) || item.price < 0) throw new Error('Price must be 0 or greater');
+    if (item.type === 'COMBO' && (!item.components || item.components.length === 0)) {
+        throw new Error('A combo needs at least one product');
+    }
+    const duplicate = catalog.find(i => i.name.toLowerCase() === name.toLowerCase() && i.id !== item.id);
+    if (duplicate) throw new Error(`"${name}" already exists in the menu`);
+    return {
+        ...item,
+        name,
+        price: parseFloat(item.price.toFixed(2)),
+        components: item.type === 'COMBO' ? item.components : undefined
+    };
+};
+
+// Sum of the current product prices that make up a combo (used as a pricing hint)
+export const getComboListPrice = (components: ComboComponent[], catalog: MenuItem[] = getMenuCatalog()): number => {
+    return components.reduce((sum, c) => {
+        const product = catalog.find(i => i.id === c.productId && i.type === 'PRODUCT');
+        return sum + (product ? product.price * c.quantity : 0);
+    }, 0);
+};
+
+// A combo is sold as one line at its own price, so it can only be ordered while every product in
+// it can be served; throws naming the products that are inactive or no longer in the catalog
+export const assertComboAvailable = (combo: MenuItem, catalog: MenuItem[] = getMenuCatalog()) => {
+    const unavailable = (combo.components ?? [])
+        .filter(c => !catalog.some(i => i.id === c.productId && i.type === 'PRODUCT' && i.active))
+        .map(c => catalog.find(i => i.id === c.productId)?.name ?? `Product ${c.productId}`);
+    if (unavailable.length > 0) {
+        throw new Error(`${combo.name} cannot be added: ${unavailable.join(', ')} ${unavailable.length === 1 ? 'is' : 'are'} not available`);
+    }
+};
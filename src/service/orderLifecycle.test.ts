@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { assertTransition, canTransition, getNextOrderStatus } from './orderLifecycle';
+
+describe('getNextOrderStatus', () => {
+    it('starts pending orders instead of bumping them straight to ready', () => {
+        expect(getNextOrderStatus('PENDING')).toBe('IN_PROGRESS');
+        expect(() => assertTransition('PENDING', 'READY')).toThrow('An order cannot go from Pending to Ready');
+    });
+
+    it('bumps started orders to ready and ready orders to delivered', () => {
+        expect(getNextOrderStatus('IN_PROGRESS')).toBe('READY');
+        expect(getNextOrderStatus('COMPLETED')).toBe('DELIVERED');
+    });
+
+    it('offers nothing once an order is closed', () => {
+        expect(getNextOrderStatus('SERVED')).toBeNull();
+        expect(getNextOrderStatus('CANCELLED')).toBeNull();
+    });
+
+    it('only offers moves the lifecycle accepts', () => {
+        ['PENDING', 'IN_PROGRESS', 'READY'].forEach(status => {
+            const next = getNextOrderStatus(status);
+            expect(next).not.toBeNull();
+            expect(canTransition(status, next!)).toBe(true);
+        });
+    });
+});
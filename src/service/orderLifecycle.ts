@@ -0,0 +1,96 @@
+// ==================== ORDER LIFECYCLE ====================
+// Single source of truth for order statuses: normalization of backend/UI values,
+// allowed transitions, and the audit trail of who changed each order and when.
+
+export type OrderStatusCode = 'PENDING' | 'IN_PROGRESS' | 'READY' | 'DELIVERED' | 'CANCELLED';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatusCode, string> = {
+    PENDING: 'Pending',
+    IN_PROGRESS: 'In Progress',
+    READY: 'Ready',
+    DELIVERED: 'Delivered',
+    CANCELLED: 'Cancelled'
+};
+
+// PENDING -> IN_PROGRESS -> READY -> DELIVERED; cancelling is possible until delivery
+const ORDER_TRANSITIONS: Record<OrderStatusCode, OrderStatusCode[]> = {
+    PENDING: ['IN_PROGRESS', 'CANCELLED'],
+    IN_PROGRESS: ['READY', 'CANCELLED'],
+    READY: ['DELIVERED', 'CANCELLED'],
+    DELIVERED: [],
+    CANCELLED: []
+};
+
+// Codes the backend stores for each status (it names READY/DELIVERED differently)
+const BACKEND_STATUS_CODES: Record<OrderStatusCode, string> = {
+    PENDING: 'PENDING',
+    IN_PROGRESS: 'IN_PROGRESS',
+    READY: 'COMPLETED',
+    DELIVERED: 'SERVED',
+    CANCELLED: 'CANCELLED'
+};
+
+// Accepts backend codes (COMPLETED, SERVED), frontend codes and UI labels ('In Progress')
+export const normalizeOrderStatus = (status: string | null | undefined): OrderStatusCode => {
+    if (!status) return 'PENDING';
+    const s = status.trim().toUpperCase().replace(/\s+/g, '_');
+    switch (s) {
+        case 'COMPLETED':
+        case 'READY':
+            return 'READY';
+        case 'SERVED':
+        case 'DELIVERED':
+            return 'DELIVERED';
+        case 'IN_PROGRESS':
+        case 'CANCELLED':
+            return s;
+        default:
+            return 'PENDING';
+    }
+};
+
+export const getOrderStatusLabel = (status: string | null | undefined): string => ORDER_STATUS_LABELS[normalizeOrderStatus(status)];
+
+export const toBackendStatus = (status: OrderStatusCode): string => BACKEND_STATUS_CODES[status];
+
+export const getAllowedTransitions = (from: string | null | undefined): OrderStatusCode[] => ORDER_TRANSITIONS[normalizeOrderStatus(from)];
+
+export const canTransition = (from: string | null | undefined, to: OrderStatusCode): boolean => getAllowedTransitions(from).includes(to);
+
+// The forward step from a status (what a "next" button should offer); null once the order is closed
+export const getNextOrderStatus = (from: string | null | undefined): OrderStatusCode | null =>
+    getAllowedTransitions(from).find(s => s !== 'CANCELLED') ?? null;
+
+export const assertTransition = (from: string | null | undefined, to: OrderStatusCode) => {
+    if (!canTransition(from, to)) {
+        throw new Error(`An order cannot go from ${getOrderStatusLabel(from)} to ${ORDER_STATUS_LABELS[to]}`);
+    }
+};
+
+// ==================== STATUS HISTORY ====================
+
+export interface OrderStatusHistoryEntry {
+    from: OrderStatusCode | null; // null when the order was created
+    to: OrderStatusCode;
+    by: string;
+    at: string; // ISO timestamp
+}
+
+// The backend keeps the history with the order (statusHistory on the order DTO), appending an
+// entry when the order is created and on every status change, stamped with the user we send.
+// Entries may carry backend status codes and are returned oldest first.
+export const mapOrderStatusHistory = (raw: unknown): OrderStatusHistoryEntry[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter((e): e is Record<string, unknown> => !!e && typeof e === 'object')
+        .map(e => {
+            const from = e.fromStatus ?? e.from;
+            return {
+                from: from ? normalizeOrderStatus(String(from)) : null,
+                to: normalizeOrderStatus(String(e.toStatus ?? e.to ?? '')),
+                by: String(e.changedBy ?? e.by ?? 'Unknown user'),
+                at: String(e.changedAt ?? e.at ?? '')
+            };
+        })
+        .sort((a, b) => a.at.localeCompare(b.at));
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { buildPayment, getOrderBalance, getPaidItemQuantities, mapPayments, splitEvenly } from './payments';
+
+const returned = mapPayments([
+    { paymentId: 'PAY-1', label: 'Items', subtotal: 12, tip: 1, tenders: [{ method: 'card', amount: 13 }], paidAt: '2026-05-01T12:00:00Z', paidBy: 'ana',
+        items: [{ productId: 1, productName: 'Hamburger', quantity: 1, amount: 12 }] },
+    { paymentId: 'PAY-2', label: 'Guest 1 of 2', subtotal: 4.5, tip: 0, tenders: [{ method: 'CASH', amount: 4.5 }], cashReceived: 5, changeDue: 0.5 }
+], { orderId: 9, tableNumber: 3 });
+
+describe('payments', () => {
+    it('maps the payments returned with an order onto it', () => {
+        expect(returned.map(p => [p.id, p.orderCode, p.tableNumber])).toEqual([['PAY-1', 'ORD-9', 3], ['PAY-2', 'ORD-9', 3]]);
+        expect(returned[0].tenders).toEqual([{ method: 'CARD', amount: 13 }]);
+        expect(getPaidItemQuantities(returned)).toEqual({ 1: 1 });
+    });
+
+    it('leaves the total less what was paid, tips aside, and never goes below zero', () => {
+        expect(getOrderBalance(20, returned)).toBe(3.5);
+        expect(getOrderBalance(10, returned)).toBe(0);
+    });
+
+    it('refuses a payment above the balance or with tenders that do not add up', () => {
+        const payment = { label: 'Full bill', items: [], subtotal: 3.5, tip: 0.5, tenders: [{ method: 'CASH' as const, amount: 4 }], cashReceived: 5 };
+        expect(buildPayment(payment, 3.5, 'ORD-9').subtotal).toBe(3.5);
+        expect(() => buildPayment(payment, 3, 'ORD-9')).toThrow('Only $3.00 is left to pay on ORD-9');
+        expect(() => buildPayment({ ...payment, tenders: [{ method: 'CARD', amount: 3.5 }] }, 3.5, 'ORD-9')).toThrow('must add up');
+        expect(() => buildPayment({ ...payment, cashReceived: 2 }, 3.5, 'ORD-9')).toThrow('Cash received must cover $4.00');
+    });
+
+    it('splits evenly down to the cent', () => {
+        expect(splitEvenly(10, 3)).toEqual([3.34, 3.33, 3.33]);
+    });
+});
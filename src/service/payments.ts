@@ -0,0 +1,157 @@
+// ==================== PAYMENTS ====================
+// Payments captured when closing delivered orders. The backend keeps them with the order and
+// returns them with it, together with the paid amount and the balance it computed; the payments
+// of a day or a drawer session come from its payments list. Payments are checked here before
+// they are sent, and the backend stamps who took them and when.
+
+export type PaymentMethod = 'CASH' | 'CARD';
+
+export interface PaymentTender {
+    method: PaymentMethod;
+    amount: number; // portion of the amount due covered by this tender (change excluded)
+}
+
+export interface PaidItem {
+    productId: number;
+    productName: string;
+    quantity: number;
+    amount: number;
+}
+
+export interface OrderPayment {
+    id: string;
+    orderId: number;
+    orderCode: string;
+    tableNumber: number;
+    label: string;          // e.g. "Full bill", "Guest 2 of 4", "Items"
+    items: PaidItem[];      // only when split by item
+    subtotal: number;       // share of the order total covered by this payment
+    tip: number;
+    tenders: PaymentTender[];
+    cashReceived: number;   // cash handed over by the guest (>= cash tender)
+    changeDue: number;
+    paidAt: string;         // ISO timestamp
+    paidBy: string;
+}
+
+// What the checkout sends; the backend adds the id, change, paidAt and paidBy
+export type PaymentRequest = Pick<OrderPayment, 'label' | 'items' | 'subtotal' | 'tip' | 'tenders' | 'cashReceived'>;
+
+export interface PaymentSummary {
+    sales: number;
+    tips: number;
+    cash: number;   // cash kept in the drawer (sales + tips paid in cash, change already returned)
+    card: number;
+    payments: number;
+    orders: number;
+}
+
+export const PAYMENT_RECORDED_EVENT = 'order-payment-recorded';
+
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Payments as returned with an order or by the payments list:
+// [{ paymentId, orderId, tableNumber, label, items, subtotal, tip, tenders: [{ method, amount }], cashReceived, changeDue, paidAt, paidBy }]
+export const mapPayments = (raw: unknown, order?: { orderId: number; tableNumber: number }): OrderPayment[] =>
+    asRecords(raw).map(p => {
+        const orderId = order?.orderId ?? Number(p.orderId);
+        return {
+            id: String(p.paymentId ?? p.id ?? ''),
+            orderId,
+            orderCode: `ORD-${orderId}`,
+            tableNumber: order?.tableNumber ?? (Number(p.tableNumber) || 0),
+            label: String(p.label ?? ''),
+            items: asRecords(p.items).map(i => ({
+                productId: Number(i.productId),
+                productName: String(i.productName ?? `Product ${i.productId}`),
+                quantity: Number(i.quantity) || 0,
+                amount: Number(i.amount) || 0
+            })),
+            subtotal: Number(p.subtotal) || 0,
+            tip: Number(p.tip) || 0,
+            tenders: asRecords(p.tenders).map(t => ({
+                method: String(t.method).toUpperCase() === 'CARD' ? 'CARD' : 'CASH',
+                amount: Number(t.amount) || 0
+            })),
+            cashReceived: Number(p.cashReceived) || 0,
+            changeDue: Number(p.changeDue) || 0,
+            paidAt: String(p.paidAt ?? ''),
+            paidBy: String(p.paidBy ?? '')
+        };
+    });
+
+export const getPaidAmount = (payments: OrderPayment[]): number => roundMoney(payments.reduce((sum, p) => sum + p.subtotal, 0));
+
+export const getOrderBalance = (orderTotal: number, payments: OrderPayment[]): number => Math.max(0, roundMoney(orderTotal - getPaidAmount(payments)));
+
+// Quantity of each product already paid through item splits
+export const getPaidItemQuantities = (payments: OrderPayment[]): Record<number, number> => {
+    const paid: Record<number, number> = {};
+    payments.forEach(p => p.items.forEach(i => {
+        paid[i.productId] = (paid[i.productId] || 0) + i.quantity;
+    }));
+    return paid;
+};
+
+// Splits an amount into N shares that add up exactly (the first shares absorb the leftover cents)
+export const splitEvenly = (amount: number, guests: number): number[] => {
+    const n = Math.max(1, Math.floor(guests));
+    const cents = Math.round(amount * 100);
+    const base = Math.floor(cents / n);
+    const extra = cents - base * n;
+    return Array.from({ length: n }, (_, i) => (base + (i < extra ? 1 : 0)) / 100);
+};
+
+// Checks a payment against the balance the backend reported for the order; the caller sends it
+export const buildPayment = (payment: PaymentRequest, balance: number, orderCode: string): PaymentRequest => {
+    const subtotal = roundMoney(payment.subtotal);
+    const tip = roundMoney(payment.tip);
+    if (subtotal <= 0) throw new Error('Nothing to pay');
+    if (tip < 0) throw new Error('Tip cannot be negative');
+    if (subtotal > balance + 0.001) throw new Error(`Only $${balance.toFixed(2)} is left to pay on ${orderCode}`);
+
+    const tendered = roundMoney(payment.tenders.reduce((sum, t) => sum + t.amount, 0));
+    if (payment.tenders.some(t => t.amount < 0)) throw new Error('Tender amounts cannot be negative');
+    if (Math.abs(tendered - (subtotal + tip)) > 0.001) {
+        throw new Error(`Tenders ($${tendered.toFixed(2)}) must add up to the amount due ($${(subtotal + tip).toFixed(2)})`);
+    }
+    const cashPortion = roundMoney(payment.tenders.filter(t => t.method === 'CASH').reduce((sum, t) => sum + t.amount, 0));
+    if (payment.cashReceived + 0.001 < cashPortion) throw new Error(`Cash received must cover $${cashPortion.toFixed(2)}`);
+
+    return {
+        ...payment,
+        subtotal,
+        tip,
+        tenders: payment.tenders.map(t => ({ method: t.method, amount: roundMoney(t.amount) })),
+        cashReceived: roundMoney(payment.cashReceived)
+    };
+};
+
+export const notifyPaymentRecorded = (payment: OrderPayment) => {
+    try {
+        window.dispatchEvent(new CustomEvent(PAYMENT_RECORDED_EVENT, { detail: { id: payment.id, orderId: payment.orderId, timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+export const summarizePayments = (payments: OrderPayment[]): PaymentSummary => {
+    const summary = payments.reduce<PaymentSummary>((acc, p) => {
+        acc.sales += p.subtotal;
+        acc.tips += p.tip;
+        p.tenders.forEach(t => {
+            if (t.method === 'CASH') acc.cash += t.amount; else acc.card += t.amount;
+        });
+        acc.payments += 1;
+        return acc;
+    }, { sales: 0, tips: 0, cash: 0, card: 0, payments: 0, orders: 0 });
+    return {
+        sales: roundMoney(summary.sales),
+        tips: roundMoney(summary.tips),
+        cash: roundMoney(summary.cash),
+        card: roundMoney(summary.card),
+        payments: summary.payments,
+        orders: new Set(payments.map(p => p.orderId)).size
+    };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { PurchaseOrder } from './api';
+import { buildReceipt, buildReceivingLines, getOrderReceivingStatus, mapOrderReceipts } from './purchaseOrders';
+import type { ItemUnits } from './units';
+
+const units: ItemUnits[] = [{ itemId: 1, baseUnit: 'g', conversions: [{ unit: 'bag', factor: 5000 }], purchaseUnit: 'bag', priceUnit: 'bag' }];
+
+const order = (receipts: unknown[]): PurchaseOrder => ({
+    orderId: 4,
+    supplierId: 'SUP1',
+    supplierName: 'Fresh Farms',
+    status: 'DISPATCHING',
+    orderDate: '2026-03-01',
+    totalAmount: 100,
+    items: [
+        { itemId: 1, itemName: 'Flour', quantity: 4, unitPrice: 20, subtotal: 80 },
+        { itemId: 2, itemName: 'Eggs', quantity: 10, unitPrice: 2, subtotal: 20 }
+    ],
+    shipments: [],
+    shortClosed: [],
+    invoices: [],
+    receipts: mapOrderReceipts(4, receipts)
+});
+
+describe('buildReceivingLines', () => {
+    it('adds up the receipts returned with the order', () => {
+        const lines = buildReceivingLines(order([
+            { receiptId: 'RCV-2', receivedAt: '2026-03-04T09:00:00Z', receivedBy: 'ana', lines: [{ itemId: 1, quantity: 1 }] },
+            { receiptId: 'RCV-1', receivedAt: '2026-03-03T09:00:00Z', receivedBy: 'ana', lines: [{ itemId: 1, quantity: 2 }, { itemId: 2, quantity: 12 }] }
+        ]), units);
+        expect(lines.map(l => [l.unit, l.received, l.status])).toEqual([['bag', 3, 'SHORT'], ['unit', 12, 'OVER']]);
+        expect(getOrderReceivingStatus(lines)).toBe('OVER');
+    });
+});
+
+describe('buildReceipt', () => {
+    it('sends the counted lines with their quantity in base units', () => {
+        const request = buildReceipt(order([]), [{ itemId: 1, quantity: 1.5, lotCode: ' L-7 ' }, { itemId: 2, quantity: 0 }], ' at the door ', units);
+        expect(request.notes).toBe('at the door');
+        expect(request.lines).toEqual([{ itemId: 1, quantity: 1.5, baseQuantity: 7500, lotCode: 'L-7', expiryDate: null }]);
+    });
+
+    it('refuses empty receipts and items that are not on the order', () => {
+        expect(() => buildReceipt(order([]), [{ itemId: 1, quantity: 0 }], '', units)).toThrow('at least one item');
+        expect(() => buildReceipt(order([]), [{ itemId: 9, quantity: 1 }], '', units)).toThrow('not on purchase order #4');
+    });
+});
@@ -0,0 +1,150 @@
+// ==================== PURCHASE ORDERS ====================
+// Lifecycle statuses of supplier purchase orders and receiving against them: what actually
+// arrived for each order, counted at the door against the ordered quantities. The backend keeps
+// receipts with the purchase order and returns them with it (receipts). Receipts are the only
+// thing that posts purchase orders to stock: the backend adds each one to the stock ledger when
+// it is saved, while deliveries the supplier reports from the portal do not change stock.
+
+import type { PurchaseOrder } from './api';
+import { getAllItemUnits, getItemUnits, getPurchaseUnit, type ItemUnits } from './units';
+
+export const PURCHASE_ORDER_STATUSES = ['PENDING', 'ACCEPTED', 'DISPATCHING', 'DELIVERED', 'CANCELLED'] as const;
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+// Goods can arrive once the supplier accepted the order, even before they mark it delivered
+export const RECEIVABLE_STATUSES: string[] = ['ACCEPTED', 'DISPATCHING', 'DELIVERED'];
+
+export type LineReceivingStatus = 'NOT_RECEIVED' | 'SHORT' | 'RECEIVED' | 'OVER';
+export type OrderReceivingStatus = 'NOT_RECEIVED' | 'SHORT' | 'RECEIVED' | 'OVER';
+
+export const RECEIVING_STATUS_LABELS: Record<LineReceivingStatus, string> = {
+    NOT_RECEIVED: 'Not received',
+    SHORT: 'Short',
+    RECEIVED: 'Received',
+    OVER: 'Over'
+};
+
+export interface ReceiptLine {
+    itemId: number;
+    itemName: string;
+    quantity: number; // purchase units received in this receipt
+    lotCode?: string;
+    expiryDate?: string | null;
+}
+
+export interface PurchaseOrderReceipt {
+    id: string;
+    orderId: number;
+    receivedAt: string; // ISO
+    user: string;
+    notes: string;
+    lines: ReceiptLine[];
+}
+
+// What receiving sends: purchase-unit quantities, plus the same in base units for the stock ledger
+export interface ReceiptRequest {
+    id: string; // chosen here so a retried request is not received twice
+    notes: string;
+    lines: (Omit<ReceiptLine, 'itemName'> & { baseQuantity: number })[];
+}
+
+// Ordered against received so far for one line of an order
+export interface ReceivingLine {
+    itemId: number;
+    itemName: string;
+    unit: string; // purchase unit both quantities are in
+    ordered: number;
+    received: number;
+    status: LineReceivingStatus;
+}
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Order and update dates come from the backend as strings; unreadable ones are shown as sent
+export const formatOrderDate = (value: string | undefined): string => {
+    if (!value) return '-';
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Receipts as returned with an order: [{ receiptId, receivedAt, receivedBy, notes, lines: [{ itemId, itemName, quantity, lotCode, expiryDate }] }]
+export const mapOrderReceipts = (orderId: number, raw: unknown): PurchaseOrderReceipt[] =>
+    asRecords(raw).map(r => ({
+        id: String(r.receiptId ?? r.id ?? ''),
+        orderId,
+        receivedAt: String(r.receivedAt ?? ''),
+        user: String(r.receivedBy ?? r.user ?? ''),
+        notes: String(r.notes ?? ''),
+        lines: asRecords(r.lines).map(l => ({
+            itemId: Number(l.itemId),
+            itemName: String(l.itemName ?? `Item ${l.itemId}`),
+            quantity: Number(l.quantity) || 0,
+            lotCode: l.lotCode ? String(l.lotCode) : undefined,
+            expiryDate: l.expiryDate ? String(l.expiryDate) : null
+        }))
+    }));
+
+export const getOrderReceipts = (order: PurchaseOrder): PurchaseOrderReceipt[] =>
+    [...(order.receipts ?? [])].sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+
+// Day the first goods of an order were received, if any were
+export const getFirstReceiptDate = (order: PurchaseOrder): string | null => getOrderReceipts(order)[0]?.receivedAt ?? null;
+
+export const getLineReceivingStatus = (ordered: number, received: number): LineReceivingStatus =>
+    received <= 0 ? 'NOT_RECEIVED' : received < ordered ? 'SHORT' : received > ordered ? 'OVER' : 'RECEIVED';
+
+export const buildReceivingLines = (order: PurchaseOrder, units: ItemUnits[] = getAllItemUnits()): ReceivingLine[] => {
+    const received = new Map<number, number>();
+    getOrderReceipts(order).forEach(r => r.lines.forEach(l =>
+        received.set(l.itemId, roundQuantity((received.get(l.itemId) || 0) + l.quantity))));
+    return order.items.map(i => {
+        const quantity = received.get(i.itemId) || 0;
+        return {
+            itemId: i.itemId,
+            itemName: i.itemName,
+            unit: getPurchaseUnit(getItemUnits(i.itemId, units)).unit,
+            ordered: i.quantity,
+            received: quantity,
+            status: getLineReceivingStatus(i.quantity, quantity)
+        };
+    });
+};
+
+// Over wins over short so overcharges are noticed; an order without receipts is not received
+export const getOrderReceivingStatus = (lines: ReceivingLine[]): OrderReceivingStatus => {
+    if (lines.every(l => l.status === 'NOT_RECEIVED')) return 'NOT_RECEIVED';
+    if (lines.some(l => l.status === 'OVER')) return 'OVER';
+    if (lines.some(l => l.status === 'SHORT' || l.status === 'NOT_RECEIVED')) return 'SHORT';
+    return 'RECEIVED';
+};
+
+// Checks a receipt against the order; the caller sends it
+export const buildReceipt = (
+    order: PurchaseOrder,
+    lines: Omit<ReceiptLine, 'itemName'>[],
+    notes: string,
+    units: ItemUnits[] = getAllItemUnits()
+): ReceiptRequest => {
+    if (!RECEIVABLE_STATUSES.includes(order.status)) throw new Error(`A ${order.status.toLowerCase()} purchase order cannot be received`);
+    if (lines.some(l => !Number.isFinite(l.quantity) || l.quantity < 0)) throw new Error('Received quantities cannot be negative');
+    const counted = lines.filter(l => l.quantity > 0);
+    if (counted.length === 0) throw new Error('Enter the quantity received for at least one item');
+    const unknown = counted.find(l => !order.items.some(i => i.itemId === l.itemId));
+    if (unknown) throw new Error(`Item ${unknown.itemId} is not on purchase order #${order.orderId}`);
+    if (counted.some(l => l.expiryDate && !/^\d{4}-\d{2}-\d{2}$/.test(l.expiryDate))) throw new Error('Expiry date must be YYYY-MM-DD');
+
+    return {
+        id: `RCV-${Date.now()}`,
+        notes: notes.trim(),
+        lines: counted.map(l => ({
+            itemId: l.itemId,
+            quantity: roundQuantity(l.quantity),
+            baseQuantity: roundQuantity(l.quantity * getPurchaseUnit(getItemUnits(l.itemId, units)).factor),
+            lotCode: l.lotCode?.trim() || undefined,
+            expiryDate: l.expiryDate || null
+        }))
+    };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { buildRecipeIngredients, mapRecipes } from './recipes';
+
+describe('buildRecipeIngredients', () => {
+    it('merges repeated items so each ingredient is deducted once per unit sold', () => {
+        const ingredients = buildRecipeIngredients([
+            { inventoryItemId: 1, itemName: 'Flour', quantity: 0.1 },
+            { inventoryItemId: 2, itemName: 'Cheese', quantity: 0.05 },
+            { inventoryItemId: 1, itemName: 'Flour', quantity: 0.2 }
+        ]);
+        expect(ingredients.map(i => [i.inventoryItemId, i.quantity])).toEqual([[1, 0.3], [2, 0.05]]);
+    });
+
+    it('refuses ingredients without a quantity', () => {
+        expect(() => buildRecipeIngredients([{ inventoryItemId: 1, itemName: 'Flour', quantity: 0 }])).toThrow('"Flour" must be greater than 0');
+    });
+});
+
+describe('mapRecipes', () => {
+    it('reads the recipes the backend deducts delivered orders with', () => {
+        const [recipe] = mapRecipes([{ menuComponentId: 5, ingredients: [{ itemId: 1, itemName: 'Flour', quantity: '0.25' }], updatedAt: '2026-03-01T10:00:00Z' }]);
+        expect(recipe).toEqual({ productId: 5, ingredients: [{ inventoryItemId: 1, itemName: 'Flour', quantity: 0.25 }], updatedAt: '2026-03-01T10:00:00Z' });
+    });
+});
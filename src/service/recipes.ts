@@ -0,0 +1,50 @@
+// ==================== RECIPES ====================
+// Bill of materials per menu product: which inventory items (and how much of each) one unit
+// uses. Combos have no recipe of their own; they consume the recipes of their products. The
+// backend keeps recipes with the menu and, when an order moves to DELIVERED, deducts its
+// ingredients from stock itself, once per order.
+
+export interface RecipeIngredient {
+    inventoryItemId: number;
+    itemName: string;
+    quantity: number; // per unit of the product sold
+}
+
+export interface Recipe {
+    productId: number;
+    ingredients: RecipeIngredient[];
+    updatedAt: string;
+}
+
+// Avoids float noise when fractional quantities (0.15 kg) are summed
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Recipes as returned by the backend: [{ productId, ingredients: [{ inventoryItemId, itemName, quantity }], updatedAt }]
+export const mapRecipes = (raw: unknown): Recipe[] =>
+    asRecords(raw)
+        .map(r => ({
+            productId: Number(r.productId ?? r.menuComponentId),
+            ingredients: asRecords(r.ingredients).map(i => ({
+                inventoryItemId: Number(i.inventoryItemId ?? i.itemId),
+                itemName: String(i.itemName ?? `Item ${i.inventoryItemId ?? i.itemId}`),
+                quantity: Number(i.quantity) || 0
+            })),
+            updatedAt: String(r.updatedAt ?? '')
+        }))
+        .filter(r => Number.isFinite(r.productId));
+
+// Checks a product's ingredients and merges repeated items; the caller sends them.
+// An empty list removes the recipe.
+export const buildRecipeIngredients = (ingredients: RecipeIngredient[]): RecipeIngredient[] => {
+    const merged: RecipeIngredient[] = [];
+    ingredients.forEach(ing => {
+        if (!(ing.quantity > 0)) throw new Error(`Quantity for "${ing.itemName}" must be greater than 0`);
+        const existing = merged.find(m => m.inventoryItemId === ing.inventoryItemId);
+        if (existing) existing.quantity = roundQuantity(existing.quantity + ing.quantity);
+        else merged.push({ ...ing, quantity: roundQuantity(ing.quantity) });
+    });
+    return merged;
+};
@@ -0,0 +1,142 @@
+// ==================== REORDER LEVELS ====================
+// Per-item reorder point and par level. When the stock of an item falls to its reorder point
+// a draft purchase order is proposed to bring it back up to par. Items without their own
+// levels fall back to the low stock threshold configured in the inventory notifications.
+// Levels and stock are in base units; drafts are rounded up to whole purchase units. The
+// backend keeps the levels with the inventory items; they are checked here before they are sent.
+
+import type { InventoryProduct, PurchaseOrder } from './api';
+import { getAllItemUnits, getItemUnits, getPurchaseUnit, getPurchaseUnitPrice, type ItemUnits } from './units';
+
+export interface ReorderLevel {
+    itemId: number;
+    reorderPoint: number; // propose an order at or below this stock
+    parLevel: number;     // stock the order should bring the item back to
+}
+
+export interface ReorderLine {
+    itemId: number;
+    itemName: string;
+    baseUnit: string;
+    stock: number;
+    onOrder: number; // already on open purchase orders, in base units
+    reorderPoint: number;
+    parLevel: number;
+    purchaseUnit: string;
+    packFactor: number;        // base units in one purchase unit
+    suggestedQuantity: number; // in purchase units
+    unitPrice: number;         // per purchase unit
+    customLevel: boolean; // false when the notification threshold defaults were used
+}
+
+// Suggestions for one supplier, keyed by the supplier name stored on the inventory items
+export interface ReorderDraft {
+    supplier: string;
+    lines: ReorderLine[];
+    total: number;
+}
+
+const LS_NOTIF_THRESHOLDS_KEY = 'inventory_notif_thresholds'; // written by InventoryNotifications
+export const REORDER_LEVELS_EVENT = 'inventory-reorder-levels-updated';
+
+const DEFAULT_REORDER_POINT = 10;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Levels as returned by the backend: [{ itemId, reorderPoint, parLevel }]
+export const mapReorderLevels = (raw: unknown): ReorderLevel[] =>
+    asRecords(raw)
+        .map(l => ({ itemId: Number(l.itemId), reorderPoint: Number(l.reorderPoint), parLevel: Number(l.parLevel) }))
+        .filter(l => Number.isFinite(l.itemId) && Number.isFinite(l.reorderPoint) && Number.isFinite(l.parLevel));
+
+// Lets the inventory table pick up levels saved from the reorder screen
+export const notifyReorderLevelsUpdated = () => {
+    try {
+        window.dispatchEvent(new CustomEvent(REORDER_LEVELS_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+// Levels used for items that were never configured: the low stock threshold as reorder
+// point and twice that as par
+export const getDefaultReorderLevel = (): Omit<ReorderLevel, 'itemId'> => {
+    let reorderPoint = DEFAULT_REORDER_POINT;
+    try {
+        const raw = localStorage.getItem(LS_NOTIF_THRESHOLDS_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        if (parsed && typeof parsed.lowStockThreshold === 'number' && parsed.lowStockThreshold > 0) {
+            reorderPoint = parsed.lowStockThreshold;
+        }
+    } catch { /* keep the default */ }
+    return { reorderPoint, parLevel: reorderPoint * 2 };
+};
+
+// Checks an item's levels; the caller sends them
+export const buildReorderLevel = (itemId: number, reorderPoint: number, parLevel: number): ReorderLevel => {
+    if (!Number.isFinite(reorderPoint) || reorderPoint < 0) throw new Error('Reorder point must be 0 or more');
+    if (!Number.isFinite(parLevel) || parLevel <= reorderPoint) throw new Error('Par level must be greater than the reorder point');
+    return { itemId, reorderPoint, parLevel };
+};
+
+export const getItemReorderLevel = (
+    itemId: number | null,
+    levels: ReorderLevel[],
+    defaults: Omit<ReorderLevel, 'itemId'> = getDefaultReorderLevel()
+): { reorderPoint: number; parLevel: number; customLevel: boolean } => {
+    const level = itemId != null ? levels.find(l => l.itemId === itemId) : undefined;
+    return level
+        ? { reorderPoint: level.reorderPoint, parLevel: level.parLevel, customLevel: true }
+        : { ...defaults, customLevel: false };
+};
+
+// Quantity per item (in purchase units) on orders the supplier has not delivered or cancelled yet
+export const getQuantitiesOnOrder = (orders: PurchaseOrder[]): Map<number, number> => {
+    const onOrder = new Map<number, number>();
+    orders
+        .filter(o => o.status !== 'DELIVERED' && o.status !== 'CANCELLED')
+        .forEach(o => o.items.forEach(i => onOrder.set(i.itemId, (onOrder.get(i.itemId) || 0) + i.quantity)));
+    return onOrder;
+};
+
+// Items whose stock plus open orders is at or below their reorder point, grouped by
+// supplier, each topped up to par
+export const buildReorderDrafts = (
+    products: InventoryProduct[],
+    levels: ReorderLevel[],
+    onOrder: Map<number, number> = new Map(),
+    units: ItemUnits[] = getAllItemUnits()
+): ReorderDraft[] => {
+    const defaults = getDefaultReorderLevel();
+    const bySupplier = new Map<string, ReorderLine[]>();
+    products.forEach(p => {
+        if (p.id == null) return;
+        const level = getItemReorderLevel(p.id, levels, defaults);
+        const itemUnits = getItemUnits(p.id, units);
+        const purchase = getPurchaseUnit(itemUnits);
+        const pending = (onOrder.get(p.id) || 0) * purchase.factor;
+        if (p.stockQuantity + pending > level.reorderPoint) return;
+        const suggestedQuantity = Math.ceil((level.parLevel - p.stockQuantity - pending) / purchase.factor);
+        if (suggestedQuantity <= 0) return;
+        const lines = bySupplier.get(p.supplier) || [];
+        lines.push({
+            itemId: p.id,
+            itemName: p.name,
+            baseUnit: itemUnits.baseUnit,
+            stock: p.stockQuantity,
+            onOrder: pending,
+            ...level,
+            purchaseUnit: purchase.unit,
+            packFactor: purchase.factor,
+            suggestedQuantity,
+            unitPrice: getPurchaseUnitPrice(p.price, itemUnits)
+        });
+        bySupplier.set(p.supplier, lines);
+    });
+    return [...bySupplier.entries()]
+        .map(([supplier, lines]) => ({
+            supplier,
+            lines: lines.sort((a, b) => a.stock / (a.parLevel || 1) - b.stock / (b.parLevel || 1)),
+            total: Math.round(lines.reduce((sum, l) => sum + l.unitPrice * l.suggestedQuantity, 0) * 100) / 100
+        }))
+        .sort((a, b) => a.supplier.localeCompare(b.supplier));
+};
@@ -0,0 +1,240 @@
+// ==================== REPORTS ====================
+// Period reports built from the same sources as the Sales and Expenses pages, as plain tables
+// so each one renders on screen and exports to CSV or a printable (PDF) document unchanged.
+
+import type { InventoryProduct, PurchaseOrder } from './api';
+import { expandManualExpenses, laborExpenses, purchaseOrderExpenses, EXPENSE_CATEGORY_LABELS, type ManualExpense } from './expenses';
+import { getShiftHours, summarizeLabor, type ShiftRecord } from './labor';
+import { roundMoney } from './payments';
+import { buildSalesReport, toIsoDay, type SalesOrder, type SalesRange } from './salesAnalytics';
+import { escapeHtml, type CsvCell } from './exportFile';
+import { getAllItemUnits, getBaseUnitCost, getItemUnits, type ItemUnits } from './units';
+
+export type ReportType = 'PNL' | 'INVENTORY' | 'LABOR';
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+    PNL: 'Profit & Loss',
+    INVENTORY: 'Inventory Valuation',
+    LABOR: 'Labor'
+};
+
+// Cells that hold money are numbers; the UI formats them as currency, CSV keeps 2 decimals
+export interface ReportSection {
+    title: string;
+    headers: string[];
+    rows: CsvCell[][];
+    footer?: CsvCell[];
+    moneyColumns: number[];
+}
+
+export interface ReportHighlight {
+    label: string;
+    value: number;
+    money: boolean;
+}
+
+export interface Report {
+    type: ReportType;
+    title: string;
+    period: string;
+    highlights: ReportHighlight[];
+    sections: ReportSection[];
+}
+
+const formatPeriod = (range: SalesRange): string => range.from === range.to ? range.from : `${range.from} to ${range.to}`;
+
+const sum = (values: number[]): number => roundMoney(values.reduce((acc, v) => acc + v, 0));
+
+// Sales minus purchase orders (cost of goods), labor and the manual operating expenses
+export const buildProfitAndLossReport = (
+    orders: SalesOrder[],
+    purchaseOrders: PurchaseOrder[],
+    shifts: ShiftRecord[],
+    manualExpenses: ManualExpense[],
+    range: SalesRange
+): Report => {
+    const sales = buildSalesReport(orders, range);
+    const supplies = sum(purchaseOrderExpenses(purchaseOrders, range.from, range.to).map(e => e.amount));
+    const labor = sum(laborExpenses(shifts, range.from, range.to).map(e => e.amount));
+    const byCategory = new Map<string, number>();
+    expandManualExpenses(manualExpenses, range.from, range.to).forEach(e => {
+        const label = EXPENSE_CATEGORY_LABELS[e.category];
+        byCategory.set(label, roundMoney((byCategory.get(label) || 0) + e.amount));
+    });
+    const other = sum([...byCategory.values()]);
+    const grossProfit = roundMoney(sales.revenue - supplies);
+    const netProfit = roundMoney(grossProfit - labor - other);
+    const margin = sales.revenue > 0 ? Math.round((netProfit / sales.revenue) * 1000) / 10 : 0;
+
+    return {
+        type: 'PNL',
+        title: REPORT_TITLES.PNL,
+        period: formatPeriod(range),
+        highlights: [
+            { label: 'Revenue', value: sales.revenue, money: true },
+            { label: 'Total Costs', value: roundMoney(supplies + labor + other), money: true },
+            { label: 'Net Profit', value: netProfit, money: true },
+            { label: 'Net Margin %', value: margin, money: false }
+        ],
+        sections: [
+            {
+                title: 'Income',
+                headers: ['Line', 'Detail', 'Amount'],
+                rows: [['Sales', `${sales.orders} delivered orders`, sales.revenue]],
+                moneyColumns: [2]
+            },
+            {
+                title: 'Costs',
+                headers: ['Line', 'Detail', 'Amount'],
+                rows: [
+                    ['Purchase orders', 'Delivered supplier orders', supplies],
+                    ['Labor', 'Finished shifts (hours x hourly rate)', labor],
+                    ...[...byCategory.entries()].map(([label, amount]) => [label, 'Manual expenses', amount])
+                ],
+                footer: ['Total costs', '', roundMoney(supplies + labor + other)],
+                moneyColumns: [2]
+            },
+            {
+                title: 'Result',
+                headers: ['Line', 'Detail', 'Amount'],
+                rows: [
+                    ['Gross profit', 'Sales - purchase orders', grossProfit],
+                    ['Net profit', 'Gross profit - labor - other expenses', netProfit]
+                ],
+                moneyColumns: [2]
+            }
+        ]
+    };
+};
+
+// Current stock valued at unit price (a snapshot, independent of the period)
+// Stock is in base units and prices are per purchase unit, so items are valued at base unit cost
+export const buildInventoryValuationReport = (products: InventoryProduct[], units: ItemUnits[] = getAllItemUnits()): Report => {
+    const sorted = [...products].sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+    const unitsOf = (p: InventoryProduct) => getItemUnits(p.id, units);
+    const unitCost = (p: InventoryProduct) => Math.round(getBaseUnitCost(p.price, unitsOf(p)) * 10000) / 10000;
+    const value = (p: InventoryProduct) => roundMoney(p.stockQuantity * getBaseUnitCost(p.price, unitsOf(p)));
+    const byCategory = new Map<string, { items: number; units: number; value: number }>();
+    sorted.forEach(p => {
+        const c = byCategory.get(p.category) || { items: 0, units: 0, value: 0 };
+        c.items += 1;
+        c.units += p.stockQuantity;
+        c.value = roundMoney(c.value + value(p));
+        byCategory.set(p.category, c);
+    });
+    const total = sum(sorted.map(value));
+
+    return {
+        type: 'INVENTORY',
+        title: REPORT_TITLES.INVENTORY,
+        period: `As of ${new Date().toLocaleString()}`,
+        highlights: [
+            { label: 'Inventory Value', value: total, money: true },
+            { label: 'Items', value: sorted.length, money: false },
+            { label: 'Categories', value: byCategory.size, money: false },
+            { label: 'Out of Stock', value: sorted.filter(p => p.stockQuantity <= 0).length, money: false }
+        ],
+        sections: [
+            {
+                title: 'By Category',
+                headers: ['Category', 'Items', 'Units', 'Value'],
+                rows: [...byCategory.entries()].map(([category, c]) => [category, c.items, c.units, c.value]),
+                footer: ['Total', sorted.length, sorted.reduce((acc, p) => acc + p.stockQuantity, 0), total],
+                moneyColumns: [3]
+            },
+            {
+                title: 'Items',
+                headers: ['Item', 'Category', 'Supplier', 'Stock', 'Unit', 'Unit Cost', 'Value'],
+                rows: sorted.map(p => [p.name, p.category, p.supplier, p.stockQuantity, unitsOf(p).baseUnit, unitCost(p), value(p)]),
+                footer: ['Total', '', '', '', '', '', total],
+                moneyColumns: [5, 6]
+            }
+        ]
+    };
+};
+
+// Hours x hourly rate per employee, over the shifts finished in the period (same basis as Expenses)
+export const buildLaborReport = (shifts: ShiftRecord[], range: SalesRange): Report => {
+    const inPeriod = shifts.filter(s => {
+        const day = toIsoDay(new Date(s.start));
+        return s.end !== null && day >= range.from && day <= range.to;
+    });
+    const summary = summarizeLabor(inPeriod);
+    const totalHours = Math.round(inPeriod.reduce((acc, s) => acc + getShiftHours(s), 0) * 100) / 100;
+    const totalCost = sum(summary.map(s => s.cost));
+
+    return {
+        type: 'LABOR',
+        title: REPORT_TITLES.LABOR,
+        period: formatPeriod(range),
+        highlights: [
+            { label: 'Labor Cost', value: totalCost, money: true },
+            { label: 'Hours', value: totalHours, money: false },
+            { label: 'Employees', value: summary.length, money: false },
+            { label: 'Average Cost / Hour', value: totalHours > 0 ? roundMoney(totalCost / totalHours) : 0, money: true }
+        ],
+        sections: [
+            {
+                title: 'Per Employee',
+                headers: ['Employee', 'Shifts', 'Hours', 'Hourly Rate', 'Cost'],
+                rows: summary.map(e => [
+                    e.employeeName,
+                    inPeriod.filter(s => s.employeeId === e.employeeId).length,
+                    e.hours,
+                    e.hours > 0 ? roundMoney(e.cost / e.hours) : 0,
+                    e.cost
+                ]),
+                footer: ['Total', inPeriod.length, totalHours, '', totalCost],
+                moneyColumns: [3, 4]
+            }
+        ]
+    };
+};
+
+export const formatReportCell = (cell: CsvCell, money: boolean): string => {
+    if (cell === null || cell === undefined || cell === '') return '';
+    if (money && typeof cell === 'number') return `$${cell.toFixed(2)}`;
+    return String(cell);
+};
+
+// Flattens every section into one CSV table: Section, then the section's own columns
+export const reportToCsvRows = (report: Report): { headers: string[]; rows: CsvCell[][] } => {
+    const width = Math.max(...report.sections.map(s => s.headers.length));
+    const pad = (cells: CsvCell[]) => [...cells, ...Array.from({ length: width - cells.length }, () => '')];
+    const money = (section: ReportSection, cells: CsvCell[]) => cells.map((c, i) => section.moneyColumns.includes(i) && typeof c === 'number' ? c.toFixed(2) : c);
+    const rows: CsvCell[][] = [];
+    report.sections.forEach(section => {
+        rows.push(pad([section.title, ...section.headers]));
+        section.rows.forEach(r => rows.push(pad(['', ...money(section, r)])));
+        if (section.footer) rows.push(pad(['', ...money(section, section.footer)]));
+    });
+    return { headers: ['Section', ...Array.from({ length: width }, () => '')], rows: [[report.title, report.period], ...rows] };
+};
+
+export const REPORT_PRINT_CSS = `
+body{font-family:Arial,Helvetica,sans-serif;font-size:12px;margin:24px;color:#212529;}
+h1{font-size:20px;margin:0;}h2{font-size:14px;margin:20px 0 6px;}
+.muted{color:#6c757d;}
+.highlights{display:flex;gap:12px;margin:16px 0;}
+.highlights div{border:1px solid #dee2e6;border-radius:8px;padding:8px 12px;}
+table{width:100%;border-collapse:collapse;}
+th,td{border:1px solid #dee2e6;padding:4px 6px;text-align:left;}
+th{background:#f8f9fa;}tfoot td{font-weight:bold;}
+`;
+
+export const reportToHtml = (report: Report): string => {
+    const highlight = (h: ReportHighlight) => `<div><div class="muted">${escapeHtml(h.label)}</div><b>${escapeHtml(h.money ? `$${h.value.toFixed(2)}` : String(h.value))}</b></div>`;
+    const row = (section: ReportSection, cells: CsvCell[], tag: 'td' | 'th' = 'td') => `<tr>${cells
+        .map((c, i) => `<${tag}>${escapeHtml(formatReportCell(c, section.moneyColumns.includes(i)))}</${tag}>`).join('')}</tr>`;
+    return `
+<h1>KitchenIQ · ${escapeHtml(report.title)}</h1>
+<div class="muted">${escapeHtml(report.period)} · generated ${escapeHtml(new Date().toLocaleString())}</div>
+<div class="highlights">${report.highlights.map(highlight).join('')}</div>
+${report.sections.map(s => `
+<h2>${escapeHtml(s.title)}</h2>
+<table>
+<thead><tr>${s.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+<tbody>${s.rows.map(r => row(s, r)).join('')}</tbody>
+${s.footer ? `<tfoot>${row(s, s.footer)}</tfoot>` : ''}
+</table>`).join('')}`;
+};
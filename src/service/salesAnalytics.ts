@@ -0,0 +1,140 @@
+// ==================== SALES ANALYTICS ====================
+// Aggregations over delivered orders for the Sales page (and reports). Everything is computed
+// client-side from GET /orders: revenue is the order total, products come from the parsed orderBill.
+
+import { parseOrderBillItems, type OrderData } from './api';
+import { normalizeOrderStatus } from './orderLifecycle';
+import { roundMoney } from './payments';
+
+export interface SalesRange {
+    from: string; // YYYY-MM-DD, inclusive
+    to: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface SalesOrderLine {
+    productId: number;
+    productName: string;
+    quantity: number;
+    revenue: number;
+}
+
+export interface SalesOrder {
+    id: number;
+    day: string;          // YYYY-MM-DD (local)
+    hour: number | null;  // null when the backend only sent a date
+    total: number;
+    lines: SalesOrderLine[];
+}
+
+export interface DailySales {
+    day: string;
+    revenue: number;
+    orders: number;
+}
+
+export interface ProductSales {
+    productId: number;
+    productName: string;
+    quantity: number;
+    revenue: number;
+}
+
+export interface SalesReport {
+    range: SalesRange;
+    revenue: number;
+    orders: number;
+    itemsSold: number;
+    averageTicket: number;
+    byDay: DailySales[];
+    byHour: number[]; // revenue per hour of the day, index 0-23
+    products: ProductSales[]; // sorted by revenue, highest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toIsoDay = (d: Date): string => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Local midnight of a YYYY-MM-DD string (new Date('YYYY-MM-DD') would be UTC)
+export const parseIsoDay = (day: string): Date => {
+    const [y, m, d] = day.split('-').map(Number);
+    return new Date(y, (m || 1) - 1, d || 1);
+};
+
+export const addDays = (day: string, days: number): string => {
+    const d = parseIsoDay(day);
+    d.setDate(d.getDate() + days);
+    return toIsoDay(d);
+};
+
+export const getRangeLength = (range: SalesRange): number => Math.round((parseIsoDay(range.to).getTime() - parseIsoDay(range.from).getTime()) / DAY_MS) + 1;
+
+export const listRangeDays = (range: SalesRange): string[] => Array.from({ length: Math.max(0, getRangeLength(range)) }, (_, i) => addDays(range.from, i));
+
+// Period of the same length that ends the day before the range starts
+export const getPreviousRange = (range: SalesRange): SalesRange => {
+    const length = getRangeLength(range);
+    return { from: addDays(range.from, -length), to: addDays(range.from, -1) };
+};
+
+// Delivered orders with a usable date; cancelled and open orders are not sales
+export const toSalesOrders = (orders: OrderData[]): SalesOrder[] => orders.flatMap(o => {
+    if (o.id == null || !o.orderDate || normalizeOrderStatus(o.status) !== 'DELIVERED') return [];
+    const hasTime = o.orderDate.length > 10;
+    const date = hasTime ? new Date(o.orderDate) : parseIsoDay(o.orderDate.substring(0, 10));
+    if (isNaN(date.getTime())) return [];
+    const lines = parseOrderBillItems(o.orderBill || '[]').map(item => {
+        const quantity = item.quantity ?? 1;
+        return {
+            productId: item.productId ?? item.id,
+            productName: item.productName || `Product ${item.productId ?? item.id}`,
+            quantity,
+            revenue: roundMoney((item.productPrice ?? 0) * quantity)
+        };
+    });
+    const total = typeof o.totalPrice === 'number' ? o.totalPrice : roundMoney(lines.reduce((sum, l) => sum + l.revenue, 0));
+    return [{ id: o.id, day: toIsoDay(date), hour: hasTime ? date.getHours() : null, total, lines }];
+});
+
+export const buildSalesReport = (orders: SalesOrder[], range: SalesRange): SalesReport => {
+    const inRange = orders.filter(o => o.day >= range.from && o.day <= range.to);
+    const byDay = new Map<string, DailySales>(listRangeDays(range).map(day => [day, { day, revenue: 0, orders: 0 }]));
+    const byHour: number[] = Array.from({ length: 24 }, () => 0);
+    const products = new Map<number, ProductSales>();
+    let itemsSold = 0;
+
+    inRange.forEach(o => {
+        const day = byDay.get(o.day);
+        if (day) {
+            day.revenue += o.total;
+            day.orders += 1;
+        }
+        if (o.hour !== null) byHour[o.hour] += o.total;
+        o.lines.forEach(l => {
+            itemsSold += l.quantity;
+            const p = products.get(l.productId) || { productId: l.productId, productName: l.productName, quantity: 0, revenue: 0 };
+            p.quantity += l.quantity;
+            p.revenue += l.revenue;
+            products.set(l.productId, p);
+        });
+    });
+
+    const revenue = roundMoney(inRange.reduce((sum, o) => sum + o.total, 0));
+    return {
+        range,
+        revenue,
+        orders: inRange.length,
+        itemsSold,
+        averageTicket: inRange.length > 0 ? roundMoney(revenue / inRange.length) : 0,
+        byDay: [...byDay.values()].map(d => ({ ...d, revenue: roundMoney(d.revenue) })),
+        byHour: byHour.map(roundMoney),
+        products: [...products.values()]
+            .map(p => ({ ...p, revenue: roundMoney(p.revenue) }))
+            .sort((a, b) => b.revenue - a.revenue || b.quantity - a.quantity)
+    };
+};
+
+// Relative change in percent; null when there is nothing to compare with
+export const percentChange = (current: number, previous: number): number | null => {
+    if (previous === 0) return current === 0 ? 0 : null;
+    return Math.round(((current - previous) / previous) * 1000) / 10;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { dispatchShipment, isOrderFulfilled, type ShipmentLine, type ShippableOrder } from './shipments';
+
+const order: ShippableOrder = {
+    orderId: 7,
+    items: [
+        { itemId: 1, itemName: 'Flour', quantity: 5 },
+        { itemId: 2, itemName: 'Sugar', quantity: 3 }
+    ]
+};
+
+describe('dispatchShipment', () => {
+    it('keeps the lines delivered before a failure, so a retry only sends the rest', async () => {
+        const delivered: ShipmentLine[] = [];
+        const closed: number[] = [];
+        const failing = {
+            deliver: async (line: ShipmentLine) => {
+                if (line.itemId === 2) throw new Error('Network Error');
+                delivered.push(line);
+            },
+            shortClose: async (orderId: number) => { closed.push(orderId); }
+        };
+
+        const first = await dispatchShipment(order, { 1: 5, 2: 2 }, [2], 'Out of stock', failing);
+        expect(first.error).toBe('Network Error');
+        expect(first.sent.map(l => l.itemId)).toEqual([1]);
+        expect(first.lines.map(l => l.outstanding)).toEqual([0, 3]);
+        expect(closed).toEqual([]);
+
+        const retry = await dispatchShipment(first.order, { 1: 0, 2: 2 }, [2], 'Out of stock', {
+            deliver: async line => { delivered.push(line); },
+            shortClose: async orderId => { closed.push(orderId); }
+        });
+        expect(retry.error).toBeNull();
+        expect(delivered.map(l => [l.itemId, l.quantity])).toEqual([[1, 5], [2, 2]]);
+        expect(closed).toEqual([7]);
+        expect(isOrderFulfilled(retry.lines)).toBe(true);
+    });
+});
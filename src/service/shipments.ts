@@ -0,0 +1,200 @@
+// ==================== SHIPMENTS & BACKORDERS ====================
+// Suppliers can dispatch a purchase order in several shipments. The backend keeps every delivered
+// line under its shipment and every short-closed remainder with the order, and returns both with
+// it, so the supplier and the restaurant see the same backorder. Whatever was ordered but not
+// shipped yet is on backorder. An order is only fulfilled once every line was shipped in full or
+// its remainder was explicitly short-closed.
+
+import { getCurrentUserLabel } from './currentUser';
+
+export interface ShipmentLine {
+    itemId: number;
+    itemName: string;
+    quantity: number; // purchase units shipped
+}
+
+export interface SupplierShipment {
+    id: string;
+    orderId: number;
+    shippedAt: string; // ISO
+    user: string;
+    lines: ShipmentLine[];
+}
+
+// A remainder the supplier will not ship; the line counts as fulfilled with what was shipped
+export interface ShortClosedLine {
+    orderId: number;
+    itemId: number;
+    quantity: number; // purchase units written off
+    reason: string;
+    closedAt: string; // ISO
+    user: string;
+}
+
+// Ordered against shipped so far for one line of an order
+export interface BackorderLine {
+    itemId: number;
+    itemName: string;
+    ordered: number;
+    shipped: number;
+    shortClosed: number;
+    outstanding: number;
+}
+
+// Just what shipments need from an order; both the supplier and the admin order shapes fit
+export interface ShippableOrder {
+    orderId: number;
+    items: { itemId: number; itemName: string; quantity: number }[];
+    shipments?: SupplierShipment[];
+    shortClosed?: ShortClosedLine[];
+}
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// Shipments as returned with an order: [{ shipmentId, shippedAt, shippedBy, lines: [{ itemId, itemName, quantity }] }]
+export const mapOrderShipments = (orderId: number, raw: unknown): SupplierShipment[] =>
+    asRecords(raw).map(s => ({
+        id: String(s.shipmentId ?? s.id ?? ''),
+        orderId,
+        shippedAt: String(s.shippedAt ?? ''),
+        user: String(s.shippedBy ?? s.user ?? ''),
+        lines: asRecords(s.lines).map(l => ({
+            itemId: Number(l.itemId),
+            itemName: String(l.itemName ?? `Item ${l.itemId}`),
+            quantity: Number(l.quantity) || 0
+        }))
+    }));
+
+// Short-closed remainders as returned with an order: [{ itemId, quantity, reason, closedAt, closedBy }]
+export const mapOrderShortClosures = (orderId: number, raw: unknown): ShortClosedLine[] =>
+    asRecords(raw).map(c => ({
+        orderId,
+        itemId: Number(c.itemId),
+        quantity: Number(c.quantity) || 0,
+        reason: String(c.reason ?? ''),
+        closedAt: String(c.closedAt ?? ''),
+        user: String(c.closedBy ?? c.user ?? '')
+    }));
+
+export const getOrderShipments = (order: ShippableOrder): SupplierShipment[] =>
+    [...(order.shipments ?? [])].sort((a, b) => a.shippedAt.localeCompare(b.shippedAt));
+
+export const getOrderShortClosures = (order: ShippableOrder): ShortClosedLine[] => order.shortClosed ?? [];
+
+export const buildBackorderLines = (order: ShippableOrder): BackorderLine[] => {
+    const shipped = new Map<number, number>();
+    getOrderShipments(order).forEach(s => s.lines.forEach(l =>
+        shipped.set(l.itemId, roundQuantity((shipped.get(l.itemId) || 0) + l.quantity))));
+    const closed = new Map<number, number>();
+    getOrderShortClosures(order).forEach(c =>
+        closed.set(c.itemId, roundQuantity((closed.get(c.itemId) || 0) + c.quantity)));
+    return order.items.map(i => {
+        const lineShipped = shipped.get(i.itemId) || 0;
+        const lineClosed = closed.get(i.itemId) || 0;
+        return {
+            itemId: i.itemId,
+            itemName: i.itemName,
+            ordered: i.quantity,
+            shipped: lineShipped,
+            shortClosed: lineClosed,
+            outstanding: Math.max(0, roundQuantity(i.quantity - lineShipped - lineClosed))
+        };
+    });
+};
+
+export const isOrderFulfilled = (lines: BackorderLine[]): boolean => lines.every(l => l.outstanding <= 0);
+
+// Lines still waiting for a shipment, once at least one shipment went out
+export const getBackorderedLines = (order: ShippableOrder): BackorderLine[] => {
+    const lines = buildBackorderLines(order);
+    return lines.some(l => l.shipped > 0) ? lines.filter(l => l.outstanding > 0) : [];
+};
+
+const planShipment = (order: ShippableOrder, quantities: Record<number, number>, shortCloseItemIds: number[], reason: string) => {
+    const current = buildBackorderLines(order);
+    const shipLines: ShipmentLine[] = [];
+    current.forEach(l => {
+        const quantity = quantities[l.itemId] ?? 0;
+        if (!Number.isFinite(quantity) || quantity < 0) throw new Error(`Invalid quantity for ${l.itemName}`);
+        if (roundQuantity(quantity) > l.outstanding) throw new Error(`Only ${l.outstanding} of ${l.itemName} is left to ship`);
+        if (quantity > 0) shipLines.push({ itemId: l.itemId, itemName: l.itemName, quantity: roundQuantity(quantity) });
+    });
+    const closing = current
+        .filter(l => shortCloseItemIds.includes(l.itemId))
+        .map(l => ({ itemId: l.itemId, quantity: roundQuantity(l.outstanding - (quantities[l.itemId] ?? 0)) }))
+        .filter(c => c.quantity > 0);
+    if (closing.length > 0 && !reason.trim()) throw new Error('Give a reason for short-closing the remaining quantities');
+    if (shipLines.length === 0 && closing.length === 0) throw new Error('Enter a quantity to ship or short-close the remaining lines');
+    return { shipLines, closing };
+};
+
+// Throws what dispatchShipment would reject, so callers can check before telling the backend
+export const validateShipment = (order: ShippableOrder, quantities: Record<number, number>, shortCloseItemIds: number[], reason: string) => {
+    planShipment(order, quantities, shortCloseItemIds, reason);
+};
+
+// How a dispatch reaches the backend (service/api on the supplier side)
+export interface ShipmentSender {
+    deliver: (line: ShipmentLine, shipment: SupplierShipment) => Promise<unknown>;
+    shortClose: (orderId: number, lines: ShortClosedLine[]) => Promise<unknown>;
+}
+
+export interface DispatchResult {
+    order: ShippableOrder;   // with what the backend accepted
+    sent: ShipmentLine[];    // lines of this shipment the backend accepted
+    lines: BackorderLine[];  // as they stand afterwards
+    error: string | null;    // why the rest was not sent
+}
+
+// Sends one dispatch line by line, then short-closes the remainder of the given lines. Each line
+// counts as shipped as soon as the backend accepted it, so when a later call fails the result
+// still holds what went out and a retry only sends what is outstanding.
+export const dispatchShipment = async (
+    order: ShippableOrder,
+    quantities: Record<number, number>,
+    shortCloseItemIds: number[],
+    reason: string,
+    sender: ShipmentSender
+): Promise<DispatchResult> => {
+    const { shipLines, closing } = planShipment(order, quantities, shortCloseItemIds, reason);
+
+    const now = new Date().toISOString();
+    const user = getCurrentUserLabel();
+    const shipment: SupplierShipment = { id: `SHP-${Date.now()}`, orderId: order.orderId, shippedAt: now, user, lines: shipLines };
+    const shortClosed: ShortClosedLine[] = closing.map(c => ({
+        orderId: order.orderId,
+        itemId: c.itemId,
+        quantity: c.quantity,
+        reason: reason.trim(),
+        closedAt: now,
+        user
+    }));
+
+    const sent: ShipmentLine[] = [];
+    let closed = false;
+    const result = (error: string | null): DispatchResult => {
+        const updated: ShippableOrder = {
+            ...order,
+            shipments: sent.length > 0 ? [...getOrderShipments(order), { ...shipment, lines: sent }] : getOrderShipments(order),
+            shortClosed: closed ? [...getOrderShortClosures(order), ...shortClosed] : getOrderShortClosures(order)
+        };
+        return { order: updated, sent, lines: buildBackorderLines(updated), error };
+    };
+
+    try {
+        for (const line of shipLines) {
+            await sender.deliver(line, shipment);
+            sent.push(line);
+        }
+        if (shortClosed.length > 0) {
+            await sender.shortClose(order.orderId, shortClosed);
+            closed = true;
+        }
+    } catch (e) {
+        return result(e instanceof Error ? e.message : 'The shipment could not be sent');
+    }
+    return result(null);
+};
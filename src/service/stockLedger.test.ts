@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { buildStockMovement, mapStockMovements, withRunningBalance } from './stockLedger';
+
+describe('withRunningBalance', () => {
+    it('works back from the current count, so the last balance is the stock shown', () => {
+        const movements = mapStockMovements([
+            { movementId: 'b', type: 'WASTE', itemId: 1, quantity: -2, timestamp: '2026-01-02T10:00:00.000Z' },
+            { movementId: 'a', type: 'RECEIVING', itemId: 1, quantity: 5, timestamp: '2026-01-01T10:00:00.000Z' }
+        ]);
+        expect(withRunningBalance(movements, 9).map(m => [m.id, m.balance])).toEqual([['a', 11], ['b', 9]]);
+    });
+});
+
+describe('buildStockMovement', () => {
+    it('refuses movements that would take the item below zero', () => {
+        expect(() => buildStockMovement({ type: 'WASTE', itemId: 1, itemName: 'Flour', quantity: -3, reason: 'Dropped' }, 2))
+            .toThrow('Only 2 in stock for "Flour"');
+    });
+
+    it('sends the lot only with receipts', () => {
+        const request = buildStockMovement({ type: 'TRANSFER', itemId: 1, itemName: 'Flour', quantity: 2, reason: ' From bar ', lotCode: 'L1' });
+        expect(request).toMatchObject({ type: 'TRANSFER', quantity: 2, reason: 'From bar', lotCode: undefined });
+    });
+});
@@ -0,0 +1,150 @@
+// ==================== STOCK LEDGER ====================
+// Every stock movement with its reason, user and time. The backend keeps the ledger and owns the
+// stock count: each movement is sent to it when it is recorded (recordStockMovements in api.ts),
+// it applies the movement to the count once (by id) and stamps the user and time. Purchase order
+// receipts and the consumption of delivered orders are posted by the backend itself. Movements
+// are checked here before they are sent.
+
+import type { LotAllocation } from './lots';
+
+export type StockMovementType =
+    | 'OPENING'
+    | 'RECEIVING'
+    | 'WASTE'
+    | 'SPOILAGE'
+    | 'COUNT_CORRECTION'
+    | 'TRANSFER'
+    | 'CONSUMPTION';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+    OPENING: 'Opening balance',
+    RECEIVING: 'Receiving',
+    WASTE: 'Waste',
+    SPOILAGE: 'Spoilage',
+    COUNT_CORRECTION: 'Count correction',
+    TRANSFER: 'Transfer',
+    CONSUMPTION: 'Consumption'
+};
+
+const MOVEMENT_TYPES = Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementType[];
+
+// Movements an admin can post by hand from the inventory table
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = ['RECEIVING', 'WASTE', 'SPOILAGE', 'COUNT_CORRECTION', 'TRANSFER'];
+
+export interface StockMovement {
+    id: string;
+    type: StockMovementType;
+    itemId: number;
+    itemName: string;
+    quantity: number; // signed: negative takes stock out
+    reason: string;
+    user: string;
+    timestamp: string; // ISO
+    orderId?: number;         // customer order that consumed the stock
+    purchaseOrderId?: number; // supplier order that delivered it
+    lotId?: string;           // lot opened by a receipt
+    lots?: LotAllocation[];   // lots an outflow was drawn from
+}
+
+export interface StockAdjustment {
+    type: StockMovementType;
+    itemId: number;
+    itemName: string;
+    quantity: number; // signed
+    reason: string;
+    lotCode?: string;          // receipts: supplier lot/batch code
+    expiryDate?: string | null; // receipts: YYYY-MM-DD
+    lotId?: string;            // outflows: draw from this lot instead of first-expiry-first-out
+}
+
+// What is sent for a movement; the backend adds the user and time
+export interface StockMovementRequest extends StockAdjustment {
+    id: string; // chosen here so a retried request is not applied twice
+}
+
+export const STOCK_LEDGER_EVENT = 'stock-ledger-updated';
+
+// Avoids float noise when fractional quantities (0.15 kg) are summed
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+const optionalNumber = (value: unknown): number | undefined => value == null || value === '' ? undefined : Number(value);
+
+// Movements as returned by the backend: [{ movementId, type, itemId, itemName, quantity, reason, user, timestamp,
+// orderId, purchaseOrderId, lotId, lots: [{ lotId, lotCode, quantity }] }]
+export const mapStockMovements = (raw: unknown): StockMovement[] =>
+    asRecords(raw).map(m => {
+        const type = String(m.type ?? '').toUpperCase() as StockMovementType;
+        const lots = asRecords(m.lots).map(l => ({ lotId: String(l.lotId ?? ''), lotCode: String(l.lotCode ?? ''), quantity: Number(l.quantity) || 0 }));
+        return {
+            id: String(m.movementId ?? m.id ?? ''),
+            type: MOVEMENT_TYPES.includes(type) ? type : 'COUNT_CORRECTION',
+            itemId: Number(m.itemId),
+            itemName: String(m.itemName ?? `Item ${m.itemId}`),
+            quantity: Number(m.quantity) || 0,
+            reason: String(m.reason ?? ''),
+            user: String(m.user ?? m.createdBy ?? ''),
+            timestamp: String(m.timestamp ?? m.createdAt ?? ''),
+            orderId: optionalNumber(m.orderId),
+            purchaseOrderId: optionalNumber(m.purchaseOrderId),
+            lotId: m.lotId ? String(m.lotId) : undefined,
+            lots: lots.length > 0 ? lots : undefined
+        };
+    });
+
+// Oldest first, as the running balance is built
+export const sortMovements = (movements: StockMovement[]): StockMovement[] =>
+    [...movements].sort((a, b) => (a.type === 'OPENING' ? -1 : 0) - (b.type === 'OPENING' ? -1 : 0) || a.timestamp.localeCompare(b.timestamp));
+
+let movementSeq = 0;
+const movementId = (itemId: number): string => `MOV-${Date.now()}-${itemId}-${++movementSeq}`;
+
+// Checks a movement posted by hand; adjustments that would take the item below zero are rejected.
+// The caller sends it.
+export const buildStockMovement = (adjustment: StockAdjustment, currentStock?: number): StockMovementRequest => {
+    if (adjustment.type === 'OPENING' || adjustment.type === 'CONSUMPTION') {
+        throw new Error(`${STOCK_MOVEMENT_LABELS[adjustment.type]} movements are posted automatically`);
+    }
+    if (!Number.isFinite(adjustment.quantity) || adjustment.quantity === 0) throw new Error('Quantity must be different from 0');
+    if ((adjustment.type === 'WASTE' || adjustment.type === 'SPOILAGE') && adjustment.quantity > 0) {
+        throw new Error(`${STOCK_MOVEMENT_LABELS[adjustment.type]} can only take stock out`);
+    }
+    if (adjustment.type === 'RECEIVING' && adjustment.quantity < 0) throw new Error('Receiving can only add stock');
+    if (!adjustment.reason.trim()) throw new Error('A reason is required');
+    if (currentStock !== undefined && currentStock + adjustment.quantity < 0) {
+        throw new Error(`Only ${currentStock} in stock for "${adjustment.itemName}"`);
+    }
+    if (adjustment.expiryDate && !/^\d{4}-\d{2}-\d{2}$/.test(adjustment.expiryDate)) throw new Error('Expiry date must be YYYY-MM-DD');
+    const receiving = adjustment.type === 'RECEIVING';
+    return {
+        id: movementId(adjustment.itemId),
+        type: adjustment.type,
+        itemId: adjustment.itemId,
+        itemName: adjustment.itemName,
+        quantity: roundQuantity(adjustment.quantity),
+        reason: adjustment.reason.trim(),
+        lotCode: receiving ? adjustment.lotCode?.trim() || undefined : undefined,
+        expiryDate: receiving ? adjustment.expiryDate || null : undefined,
+        lotId: adjustment.quantity < 0 ? adjustment.lotId : undefined
+    };
+};
+
+// Balance left after each movement, oldest first, worked back from the item's current count so the
+// last balance is always the stock shown. The opening balance is the stock before the first movement.
+export const withRunningBalance = (movements: StockMovement[], currentStock: number): (StockMovement & { balance: number })[] => {
+    let balance = roundQuantity(currentStock);
+    return sortMovements(movements).reverse().map(m => {
+        const entry = { ...m, balance };
+        balance = roundQuantity(balance - m.quantity);
+        return entry;
+    }).reverse();
+};
+
+// Lets stock screens reload the backend count after movements were recorded
+export const notifyStockMovementsRecorded = (movements: StockMovement[]) => {
+    try {
+        window.dispatchEvent(new CustomEvent(STOCK_LEDGER_EVENT, { detail: { movements, timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
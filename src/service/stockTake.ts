@@ -0,0 +1,163 @@
+// ==================== STOCK TAKE ====================
+// Physical counts against the system quantities. The backend keeps the count in progress, so it
+// survives a reload and can be continued from another device while staff walk the storage
+// areas, and the item storage areas. Approving a count makes the backend post every difference
+// to the stock ledger as a count correction in one batch and close the count.
+
+import type { InventoryProduct } from './api';
+import { getAllItemUnits, getBaseUnitCost, getItemUnits, type ItemUnits } from './units';
+
+export type StockTakeGrouping = 'CATEGORY' | 'AREA';
+
+export const UNASSIGNED_AREA = 'Unassigned';
+
+export interface StockTakeDraft {
+    id: string;
+    startedAt: string; // ISO
+    startedBy: string;
+    counts: Record<number, number>; // item id -> counted quantity
+}
+
+export interface StockTakeLine {
+    item: InventoryProduct & { id: number };
+    area: string;
+    unit: string; // base unit every quantity of the line is in
+    system: number;
+    counted: number | null; // null while not counted yet
+    variance: number;
+    varianceValue: number;
+}
+
+export interface StockTakeRecord {
+    id: string;
+    startedAt: string;
+    completedAt: string;
+    user: string;
+    itemsCounted: number;
+    adjustments: number;
+    varianceValue: number;
+}
+
+// What approving sends: each counted item with the system quantity it was counted against
+export interface StockTakeApproval {
+    lines: { itemId: number; counted: number; expected: number }[];
+    varianceValue: number;
+}
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+// ---------- Backend records ----------
+
+// Counts come as { "<itemId>": counted } or [{ itemId, counted }]
+const mapCounts = (raw: unknown): Record<number, number> => {
+    const entries: [unknown, unknown][] = Array.isArray(raw)
+        ? asRecords(raw).map(c => [c.itemId, c.counted])
+        : raw && typeof raw === 'object' ? Object.entries(raw) : [];
+    const counts: Record<number, number> = {};
+    entries.forEach(([itemId, counted]) => {
+        const value = Number(counted);
+        if (Number.isFinite(Number(itemId)) && Number.isFinite(value) && value >= 0) counts[Number(itemId)] = value;
+    });
+    return counts;
+};
+
+export const mapStockTakeDraft = (t: Record<string, unknown>): StockTakeDraft => ({
+    id: String(t.stockTakeId ?? t.id ?? ''),
+    startedAt: String(t.startedAt ?? ''),
+    startedBy: String(t.startedBy ?? ''),
+    counts: mapCounts(t.counts)
+});
+
+export const mapStockTakeRecord = (t: Record<string, unknown>): StockTakeRecord => ({
+    id: String(t.stockTakeId ?? t.id ?? ''),
+    startedAt: String(t.startedAt ?? ''),
+    completedAt: String(t.completedAt ?? ''),
+    user: String(t.completedBy ?? t.user ?? ''),
+    itemsCounted: Number(t.itemsCounted) || 0,
+    adjustments: Number(t.adjustments) || 0,
+    varianceValue: Number(t.varianceValue) || 0
+});
+
+// Stock takes as returned by the backend: [{ stockTakeId, status: OPEN|APPROVED|DISCARDED, startedAt, startedBy,
+// counts, completedAt, completedBy, itemsCounted, adjustments, varianceValue }]. At most one is open.
+export const mapStockTakes = (raw: unknown): { open: StockTakeDraft | null; completed: StockTakeRecord[] } => {
+    const takes = asRecords(raw);
+    const statusOf = (t: Record<string, unknown>) => String(t.status ?? '').toUpperCase();
+    const open = takes.find(t => statusOf(t) === 'OPEN');
+    return {
+        open: open ? mapStockTakeDraft(open) : null,
+        completed: takes
+            .filter(t => statusOf(t) === 'APPROVED')
+            .map(mapStockTakeRecord)
+            .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+    };
+};
+
+// Storage areas as returned by the backend: [{ itemId, area }]
+export const mapStorageAreas = (raw: unknown): Record<number, string> => {
+    const areas: Record<number, string> = {};
+    asRecords(raw).forEach(a => {
+        const area = String(a.area ?? '').trim();
+        if (Number.isFinite(Number(a.itemId)) && area) areas[Number(a.itemId)] = area;
+    });
+    return areas;
+};
+
+// ---------- Count in progress ----------
+
+// Sets, or clears on blank, negative or unreadable input, the count of one item
+export const setStockTakeCount = (draft: StockTakeDraft, itemId: number, raw: string): StockTakeDraft => {
+    const counts = { ...draft.counts };
+    const value = Number(raw.replace(/,/g, '.'));
+    if (raw.trim() === '' || !Number.isFinite(value) || value < 0) delete counts[itemId];
+    else counts[itemId] = value;
+    return { ...draft, counts };
+};
+
+// ---------- Variance ----------
+
+export const buildStockTakeLines = (
+    products: InventoryProduct[],
+    counts: Record<number, number>,
+    areas: Record<number, string>,
+    units: ItemUnits[] = getAllItemUnits()
+): StockTakeLine[] =>
+    products
+        .filter((p): p is InventoryProduct & { id: number } => p.id != null)
+        .map(item => {
+            const counted = typeof counts[item.id] === 'number' ? counts[item.id] : null;
+            const variance = counted === null ? 0 : Math.round((counted - item.stockQuantity) * 1000) / 1000;
+            const itemUnits = getItemUnits(item.id, units);
+            return {
+                item,
+                area: areas[item.id] || UNASSIGNED_AREA,
+                unit: itemUnits.baseUnit,
+                system: item.stockQuantity,
+                counted,
+                variance,
+                varianceValue: Math.round(variance * getBaseUnitCost(item.price, itemUnits) * 100) / 100
+            };
+        });
+
+export const groupStockTakeLines = (lines: StockTakeLine[], grouping: StockTakeGrouping): [string, StockTakeLine[]][] => {
+    const groups = new Map<string, StockTakeLine[]>();
+    lines.forEach(l => {
+        const key = grouping === 'AREA' ? l.area : (l.item.category || 'General');
+        groups.set(key, [...(groups.get(key) || []), l]);
+    });
+    return [...groups.entries()]
+        .map(([key, list]): [string, StockTakeLine[]] => [key, list.sort((a, b) => a.item.name.localeCompare(b.item.name))])
+        .sort(([a], [b]) => a.localeCompare(b));
+};
+
+// Checks the count before approving; the caller sends it and the backend posts the corrections.
+// Lines that were not counted are left alone.
+export const buildStockTakeApproval = (lines: StockTakeLine[]): StockTakeApproval => {
+    const counted = lines.filter((l): l is StockTakeLine & { counted: number } => l.counted !== null);
+    if (counted.length === 0) throw new Error('Count at least one item before approving');
+    return {
+        lines: counted.map(l => ({ itemId: l.item.id, counted: l.counted, expected: l.system })),
+        varianceValue: Math.round(counted.reduce((sum, l) => sum + l.varianceValue, 0) * 100) / 100
+    };
+};
@@ -0,0 +1,244 @@
+// ==================== SUPPLIER INVOICES ====================
+// Invoices suppliers attach to delivered purchase orders, and what the restaurant paid on them.
+// The backend keeps them with their purchase order and returns them with it (service/api), so the
+// restaurant sees what the supplier submitted. Each order's invoiced total is matched against the
+// order and the quantities actually received (three-way match), and unpaid balances are aged by
+// due date: the invoice's own, or the supplier's payment terms.
+
+import type { PurchaseOrder } from './api';
+import { getCurrentUserLabel } from './currentUser';
+import { MAX_ATTACHMENT_BYTES, type ExpenseAttachment } from './expenses';
+import { roundMoney } from './payments';
+import { buildReceivingLines } from './purchaseOrders';
+import { PAYMENT_TERMS_DAYS, type PaymentTerms } from './suppliers';
+
+export type SupplierPaymentMethod = 'BANK_TRANSFER' | 'CHECK' | 'CASH' | 'CARD';
+
+export const SUPPLIER_PAYMENT_METHOD_LABELS: Record<SupplierPaymentMethod, string> = {
+    BANK_TRANSFER: 'Bank transfer',
+    CHECK: 'Check',
+    CASH: 'Cash',
+    CARD: 'Card'
+};
+
+export interface InvoicePayment {
+    paidDate: string; // YYYY-MM-DD
+    method: SupplierPaymentMethod;
+    reference: string;
+    recordedAt: string; // ISO
+    recordedBy: string;
+}
+
+export interface SupplierInvoice {
+    id: string;
+    orderId: number;
+    invoiceNumber: string;
+    invoiceDate: string;     // YYYY-MM-DD
+    dueDate: string | null;  // as printed on the invoice; null = from the supplier's payment terms
+    amount: number;
+    notes: string;
+    file: ExpenseAttachment | null;
+    submittedAt: string;     // ISO
+    submittedBy: string;
+    payment: InvoicePayment | null;
+}
+
+// PO = purchase order total, received = received quantities at the PO unit prices
+export type InvoiceMatchStatus = 'MATCHED' | 'RECEIPT_VARIANCE' | 'INVOICE_VARIANCE' | 'NOT_RECEIVED';
+
+export const INVOICE_MATCH_LABELS: Record<InvoiceMatchStatus, string> = {
+    MATCHED: 'Matched',
+    RECEIPT_VARIANCE: 'Matches receipt, not PO',
+    INVOICE_VARIANCE: 'Invoice differs',
+    NOT_RECEIVED: 'Not received'
+};
+
+export interface InvoiceMatch {
+    orderAmount: number;
+    receivedAmount: number | null; // null until something was received
+    invoicedAmount: number;        // all invoices on the order
+    status: InvoiceMatchStatus;
+}
+
+export type AgingBucket = 'CURRENT' | 'DAYS_1_30' | 'DAYS_31_60' | 'DAYS_61_90' | 'DAYS_90_PLUS';
+
+export const AGING_BUCKETS: AgingBucket[] = ['CURRENT', 'DAYS_1_30', 'DAYS_31_60', 'DAYS_61_90', 'DAYS_90_PLUS'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+    CURRENT: 'Not due',
+    DAYS_1_30: '1-30 days',
+    DAYS_31_60: '31-60 days',
+    DAYS_61_90: '61-90 days',
+    DAYS_90_PLUS: '90+ days'
+};
+
+export interface SupplierAging {
+    supplierId: string;
+    supplierName: string;
+    buckets: Record<AgingBucket, number>;
+    total: number;
+    invoices: number;
+}
+
+// Differences up to a cent are rounding, not a mismatch
+const MATCH_TOLERANCE = 0.01;
+
+const isoDay = (d: Date): string => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const addDays = (day: string, days: number): string => {
+    const [y, m, d] = day.split('-').map(Number);
+    return isoDay(new Date(y, m - 1, d + days));
+};
+
+const daysBetween = (from: string, to: string): number => {
+    const [fy, fm, fd] = from.split('-').map(Number);
+    const [ty, tm, td] = to.split('-').map(Number);
+    return Math.round((new Date(ty, tm - 1, td).getTime() - new Date(fy, fm - 1, fd).getTime()) / 86400000);
+};
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+const mapInvoicePayment = (raw: unknown): InvoicePayment | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const p = raw as Record<string, unknown>;
+    const method = String(p.method ?? '') as SupplierPaymentMethod;
+    return {
+        paidDate: String(p.paidDate ?? ''),
+        method: SUPPLIER_PAYMENT_METHOD_LABELS[method] ? method : 'BANK_TRANSFER',
+        reference: String(p.reference ?? ''),
+        recordedAt: String(p.recordedAt ?? ''),
+        recordedBy: String(p.recordedBy ?? '')
+    };
+};
+
+// Invoices as returned with an order (invoices: [...]); the attachment is { name, type, size, dataUrl }
+export const mapOrderInvoices = (orderId: number, raw: unknown): SupplierInvoice[] =>
+    asRecords(raw).map(i => {
+        const file = i.file && typeof i.file === 'object' ? i.file as Record<string, unknown> : null;
+        return {
+            id: String(i.invoiceId ?? i.id ?? ''),
+            orderId,
+            invoiceNumber: String(i.invoiceNumber ?? ''),
+            invoiceDate: String(i.invoiceDate ?? ''),
+            dueDate: i.dueDate ? String(i.dueDate) : null,
+            amount: Number(i.amount) || 0,
+            notes: String(i.notes ?? ''),
+            file: file && file.dataUrl
+                ? { name: String(file.name ?? 'invoice'), type: String(file.type ?? ''), size: Number(file.size) || 0, dataUrl: String(file.dataUrl) }
+                : null,
+            submittedAt: String(i.submittedAt ?? ''),
+            submittedBy: String(i.submittedBy ?? ''),
+            payment: mapInvoicePayment(i.payment)
+        };
+    });
+
+export const getOrderInvoices = (order: { invoices?: SupplierInvoice[] }): SupplierInvoice[] =>
+    [...(order.invoices ?? [])].sort((a, b) => a.invoiceDate.localeCompare(b.invoiceDate));
+
+// Checks a new invoice against the order and the invoices already on it; the caller sends it
+export const buildSupplierInvoice = (invoice: {
+    orderId: number;
+    orderStatus: string;
+    invoiceNumber: string;
+    invoiceDate: string;
+    dueDate: string | null;
+    amount: number;
+    notes: string;
+    file: ExpenseAttachment | null;
+}, existing: SupplierInvoice[]): SupplierInvoice => {
+    if (invoice.orderStatus !== 'DELIVERED') throw new Error('Invoices can only be attached to delivered orders');
+    const invoiceNumber = invoice.invoiceNumber.trim();
+    if (!invoiceNumber) throw new Error('Invoice number is required');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(invoice.invoiceDate)) throw new Error('A valid invoice date is required');
+    if (invoice.dueDate && invoice.dueDate < invoice.invoiceDate) throw new Error('The due date cannot be before the invoice date');
+    if (!Number.isFinite(invoice.amount) || invoice.amount <= 0) throw new Error('Amount must be greater than zero');
+    if (invoice.file && invoice.file.size > MAX_ATTACHMENT_BYTES) {
+        throw new Error(`The invoice file must be smaller than ${Math.round(MAX_ATTACHMENT_BYTES / 1024)} KB`);
+    }
+    if (existing.some(i => i.orderId === invoice.orderId && i.invoiceNumber.toLowerCase() === invoiceNumber.toLowerCase())) {
+        throw new Error(`Invoice ${invoiceNumber} is already attached to order #${invoice.orderId}`);
+    }
+    return {
+        id: `SINV-${Date.now()}`,
+        orderId: invoice.orderId,
+        invoiceNumber,
+        invoiceDate: invoice.invoiceDate,
+        dueDate: invoice.dueDate || null,
+        amount: roundMoney(invoice.amount),
+        notes: invoice.notes.trim(),
+        file: invoice.file,
+        submittedAt: new Date().toISOString(),
+        submittedBy: getCurrentUserLabel(),
+        payment: null
+    };
+};
+
+// Checks a payment against the invoice; the caller sends it
+export const buildInvoicePayment = (invoice: SupplierInvoice, payment: { paidDate: string; method: SupplierPaymentMethod; reference: string }): InvoicePayment => {
+    if (invoice.payment) throw new Error(`Invoice ${invoice.invoiceNumber} is already paid`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(payment.paidDate)) throw new Error('A valid payment date is required');
+    if (payment.paidDate > isoDay(new Date())) throw new Error('The payment date cannot be in the future');
+    if (!SUPPLIER_PAYMENT_METHOD_LABELS[payment.method]) throw new Error('Choose a payment method');
+    return {
+        paidDate: payment.paidDate,
+        method: payment.method,
+        reference: payment.reference.trim(),
+        recordedAt: new Date().toISOString(),
+        recordedBy: getCurrentUserLabel()
+    };
+};
+
+export const getInvoiceDueDate = (invoice: SupplierInvoice, terms: PaymentTerms | null): string =>
+    invoice.dueDate || addDays(invoice.invoiceDate, terms ? PAYMENT_TERMS_DAYS[terms] : 0);
+
+const amountsMatch = (a: number, b: number): boolean => Math.abs(a - b) <= MATCH_TOLERANCE;
+
+export const matchOrderInvoices = (order: PurchaseOrder): InvoiceMatch => {
+    const lines = buildReceivingLines(order);
+    const received = lines.some(l => l.received > 0)
+        ? roundMoney(lines.reduce((sum, l) => sum + l.received * (order.items.find(i => i.itemId === l.itemId)?.unitPrice ?? 0), 0))
+        : null;
+    const invoiced = roundMoney(getOrderInvoices(order).reduce((sum, i) => sum + i.amount, 0));
+    const status: InvoiceMatchStatus = received === null ? 'NOT_RECEIVED'
+        : !amountsMatch(invoiced, received) ? 'INVOICE_VARIANCE'
+            : !amountsMatch(received, order.totalAmount) ? 'RECEIPT_VARIANCE'
+                : 'MATCHED';
+    return { orderAmount: order.totalAmount, receivedAmount: received, invoicedAmount: invoiced, status };
+};
+
+export const getAgingBucket = (dueDate: string, today: string = isoDay(new Date())): AgingBucket => {
+    const overdue = daysBetween(dueDate, today);
+    if (overdue <= 0) return 'CURRENT';
+    if (overdue <= 30) return 'DAYS_1_30';
+    if (overdue <= 60) return 'DAYS_31_60';
+    if (overdue <= 90) return 'DAYS_61_90';
+    return 'DAYS_90_PLUS';
+};
+
+// Unpaid balances per supplier; invoices whose order is not loaded are left out
+export const buildSupplierAging = (
+    invoices: SupplierInvoice[],
+    orders: PurchaseOrder[],
+    termsOf: (supplierId: string) => PaymentTerms | null,
+    today: string = isoDay(new Date())
+): SupplierAging[] => {
+    const bySupplier = new Map<string, SupplierAging>();
+    invoices.filter(i => !i.payment).forEach(invoice => {
+        const order = orders.find(o => o.orderId === invoice.orderId);
+        if (!order) return;
+        const row = bySupplier.get(order.supplierId) ?? {
+            supplierId: order.supplierId,
+            supplierName: order.supplierName,
+            buckets: { CURRENT: 0, DAYS_1_30: 0, DAYS_31_60: 0, DAYS_61_90: 0, DAYS_90_PLUS: 0 },
+            total: 0,
+            invoices: 0
+        };
+        const bucket = getAgingBucket(getInvoiceDueDate(invoice, termsOf(order.supplierId)), today);
+        row.buckets[bucket] = roundMoney(row.buckets[bucket] + invoice.amount);
+        row.total = roundMoney(row.total + invoice.amount);
+        row.invoices += 1;
+        bySupplier.set(order.supplierId, row);
+    });
+    return Array.from(bySupplier.values()).sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { PurchaseOrder } from './api';
+import { mapOrderReceipts } from './purchaseOrders';
+import { buildSupplierScorecard } from './supplierScorecards';
+
+const order = (orderId: number, status: string, shipped: number | null, extra: Partial<PurchaseOrder> = {}): PurchaseOrder => ({
+    orderId,
+    supplierId: 'SUP1',
+    supplierName: 'Fresh Farms',
+    status,
+    orderDate: '2026-03-01',
+    totalAmount: 100,
+    items: [{ itemId: 1, itemName: 'Tomatoes', quantity: 10, unitPrice: 10, subtotal: 100 }],
+    shipments: shipped === null ? [] : [{
+        id: `SHP-${orderId}`,
+        orderId,
+        shippedAt: '2026-03-02T10:00:00.000Z',
+        user: 'supplier',
+        lines: [{ itemId: 1, itemName: 'Tomatoes', quantity: shipped }]
+    }],
+    shortClosed: [],
+    invoices: [],
+    receipts: [],
+    ...extra
+});
+
+const receivedOn = (orderId: number, receivedAt: string) =>
+    mapOrderReceipts(orderId, [{ receiptId: `RCV-${orderId}`, receivedAt, receivedBy: 'ana', lines: [{ itemId: 1, quantity: 10 }] }]);
+
+describe('buildSupplierScorecard', () => {
+    it('takes the fill rate from completed orders only', () => {
+        const shortClosed = [{ orderId: 2, itemId: 1, quantity: 5, reason: 'Out of stock', closedAt: '2026-03-02T10:00:00.000Z', user: 'supplier' }];
+        const card = buildSupplierScorecard('SUP1', 'Fresh Farms', [
+            order(1, 'DELIVERED', 10),
+            order(2, 'DISPATCHING', 5, { shortClosed }),
+            order(3, 'DISPATCHING', 2),
+            order(4, 'ACCEPTED', null)
+        ], []);
+        expect(card.fillRate).toBe(0.75);
+    });
+
+    it('measures on time against the lead time stamped on each order', () => {
+        const card = buildSupplierScorecard('SUP1', 'Fresh Farms', [
+            order(1, 'DELIVERED', 10, { leadTimeDays: 5, receipts: receivedOn(1, '2026-03-05T09:00:00') }),
+            order(2, 'DELIVERED', 10, { leadTimeDays: 2, receipts: receivedOn(2, '2026-03-05T09:00:00') }),
+            order(3, 'DELIVERED', 10, { updateDate: '2026-03-02' })
+        ], [{ id: 'SUP1', name: 'Fresh Farms', active: true, paymentTerms: 'COD', leadTimeDays: 1, notes: '', contacts: [], catalog: [], updatedAt: '' }]);
+        expect(card.onTimeRate).toBe(0.5);
+        expect(card.leadTimeDays).toBe(1);
+    });
+
+    it('counts every cancelled order past pending, whoever cancelled it', () => {
+        const card = buildSupplierScorecard('SUP1', 'Fresh Farms', [order(1, 'DELIVERED', 10), order(2, 'CANCELLED', null), order(3, 'PENDING', null)], []);
+        expect(card.cancelledRate).toBe(0.5);
+    });
+});
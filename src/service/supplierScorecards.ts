@@ -0,0 +1,152 @@
+// ==================== SUPPLIER SCORECARDS ====================
+// How reliable each supplier has been, derived on the fly from its purchase orders, the shipments
+// the backend returns with them and what was received, so the scores never drift from the orders themselves.
+// An order arrived on the day of its first receipt and is on time when that is within the lead time
+// the backend stamped on it when it was placed (the supplier's current one for orders without it).
+// Only completed orders count towards the fill rate: delivered, or with every line shipped or short-closed.
+
+import type { PurchaseOrder } from './api';
+import { parseExportDate } from './exportFile';
+import { getFirstReceiptDate, getOrderReceipts } from './purchaseOrders';
+import { buildBackorderLines, isOrderFulfilled } from './shipments';
+import { DEFAULT_LEAD_TIME_DAYS, getSupplierProfiles, type SupplierProfile } from './suppliers';
+
+export interface PricePoint {
+    orderId: number;
+    date: string; // as on the order
+    price: number;
+}
+
+export interface PriceChange {
+    itemId: number;
+    itemName: string;
+    firstPrice: number;
+    lastPrice: number;
+    changePct: number;
+    points: PricePoint[];
+}
+
+export interface SupplierScorecard {
+    supplierId: string;
+    supplierName: string;
+    orders: number;
+    leadTimeDays: number;               // promised, from the supplier directory
+    onTimeRate: number | null;          // 0..1 of arrived orders; null = nothing arrived yet
+    fillRate: number | null;            // 0..1 of ordered quantities shipped (from the order's shipments) or received, completed orders only
+    cancelledRate: number | null;       // 0..1 of orders past pending that ended cancelled, by either side
+    averageLeadDays: number | null;
+    priceChanges: PriceChange[];        // items whose price moved, biggest change first
+}
+
+const DAY_MS = 86400000;
+
+const dayIndex = (date: Date): number => Math.round(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / DAY_MS);
+
+const sumBy = <T>(list: T[], value: (item: T) => number): number => list.reduce((sum, item) => sum + value(item), 0);
+
+const arrivalOf = (order: PurchaseOrder): Date | null => {
+    const first = getFirstReceiptDate(order);
+    return first ? parseExportDate(first) : null;
+};
+
+// Orders still in progress would count their open lines as unfilled
+const isOrderComplete = (order: PurchaseOrder): boolean =>
+    order.status === 'DELIVERED' || (order.shortClosed.length > 0 && isOrderFulfilled(buildBackorderLines(order)));
+
+// Shipped quantities per item once the supplier recorded shipments, else what was received
+const dispatchedOf = (order: PurchaseOrder): Map<number, number> | null => {
+    const source = order.shipments.length > 0
+        ? order.shipments.flatMap(s => s.lines)
+        : getOrderReceipts(order).flatMap(r => r.lines);
+    if (source.length === 0) return null;
+    const quantities = new Map<number, number>();
+    source.forEach(l => quantities.set(l.itemId, (quantities.get(l.itemId) || 0) + l.quantity));
+    return quantities;
+};
+
+const buildPriceChanges = (orders: PurchaseOrder[]): PriceChange[] => {
+    const history = new Map<number, { itemName: string; points: PricePoint[] }>();
+    [...orders]
+        .filter(o => o.status !== 'CANCELLED')
+        .sort((a, b) => (parseExportDate(a.orderDate)?.getTime() ?? 0) - (parseExportDate(b.orderDate)?.getTime() ?? 0) || a.orderId - b.orderId)
+        .forEach(o => o.items.filter(i => i.unitPrice > 0).forEach(i => {
+            const entry = history.get(i.itemId) ?? { itemName: i.itemName, points: [] };
+            const last = entry.points[entry.points.length - 1];
+            if (!last || last.price !== i.unitPrice) entry.points.push({ orderId: o.orderId, date: o.orderDate, price: i.unitPrice });
+            history.set(i.itemId, entry);
+        }));
+    return Array.from(history.entries())
+        .filter(([, h]) => h.points.length > 1)
+        .map(([itemId, h]) => {
+            const firstPrice = h.points[0].price;
+            const lastPrice = h.points[h.points.length - 1].price;
+            return { itemId, itemName: h.itemName, firstPrice, lastPrice, changePct: (lastPrice - firstPrice) / firstPrice, points: h.points };
+        })
+        .sort((a, b) => Math.abs(b.changePct) - Math.abs(a.changePct));
+};
+
+export const buildSupplierScorecard = (
+    supplierId: string,
+    supplierName: string,
+    orders: PurchaseOrder[],
+    profiles: SupplierProfile[] = getSupplierProfiles()
+): SupplierScorecard => {
+    const own = orders.filter(o => o.supplierId === supplierId);
+    const leadTimeDays = profiles.find(p => p.id === supplierId)?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+
+    const arrivals = own.flatMap(o => {
+        const ordered = parseExportDate(o.orderDate);
+        const arrived = o.status === 'CANCELLED' ? null : arrivalOf(o);
+        return ordered && arrived
+            ? [{ days: Math.max(0, dayIndex(arrived) - dayIndex(ordered)), promised: o.leadTimeDays ?? leadTimeDays }]
+            : [];
+    });
+    const leadDays = arrivals.map(a => a.days);
+
+    let ordered = 0;
+    let filled = 0;
+    own.filter(isOrderComplete).forEach(o => {
+        const dispatched = dispatchedOf(o);
+        if (!dispatched) return;
+        o.items.forEach(i => {
+            ordered += i.quantity;
+            filled += Math.min(i.quantity, dispatched.get(i.itemId) || 0);
+        });
+    });
+
+    const decided = own.filter(o => o.status !== 'PENDING');
+    return {
+        supplierId,
+        supplierName,
+        orders: own.length,
+        leadTimeDays,
+        onTimeRate: arrivals.length > 0 ? arrivals.filter(a => a.days <= a.promised).length / arrivals.length : null,
+        fillRate: ordered > 0 ? filled / ordered : null,
+        cancelledRate: decided.length > 0 ? decided.filter(o => o.status === 'CANCELLED').length / decided.length : null,
+        averageLeadDays: leadDays.length > 0 ? Math.round(sumBy(leadDays, d => d) / leadDays.length * 10) / 10 : null,
+        priceChanges: buildPriceChanges(own)
+    };
+};
+
+// One scorecard per supplier that has orders, plus the given suppliers without any yet
+export const buildSupplierScorecards = (
+    orders: PurchaseOrder[],
+    suppliers: { id: string; name: string }[] = []
+): SupplierScorecard[] => {
+    const names = new Map<string, string>(suppliers.map(s => [s.id, s.name]));
+    orders.forEach(o => { if (!names.has(o.supplierId)) names.set(o.supplierId, o.supplierName); });
+    const profiles = getSupplierProfiles();
+    return Array.from(names.entries())
+        .map(([id, name]) => buildSupplierScorecard(id, name, orders, profiles))
+        .sort((a, b) => a.supplierName.localeCompare(b.supplierName));
+};
+
+export const formatRate = (rate: number | null): string => rate === null ? 'n/a' : `${Math.round(rate * 100)}%`;
+
+// Short line for supplier pickers, e.g. "92% on time · 97% fill · 2.5 d lead"
+export const formatScorecardSummary = (card: SupplierScorecard): string => {
+    if (card.orders === 0) return 'no orders yet';
+    const parts = [`${formatRate(card.onTimeRate)} on time`, `${formatRate(card.fillRate)} fill`];
+    if (card.averageLeadDays !== null) parts.push(`${card.averageLeadDays} d lead`);
+    return parts.join(' · ');
+};
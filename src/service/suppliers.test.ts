@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { buildSupplierCatalog, buildSupplierDirectory, buildSupplierProfile, mapSupplierProfiles } from './suppliers';
+
+describe('mapSupplierProfiles', () => {
+    it('fills in the defaults for suppliers the backend returns without purchasing details', () => {
+        const [profile] = mapSupplierProfiles([{ id: 'SUP1', name: 'Fresh Farms', paymentTerms: 'NET_90' }]);
+        expect(profile).toMatchObject({ active: true, paymentTerms: 'COD', leadTimeDays: 2, contacts: [], catalog: null });
+    });
+});
+
+describe('buildSupplierDirectory', () => {
+    it('lists portal accounts without a profile next to the saved suppliers', () => {
+        const profiles = mapSupplierProfiles([{ id: 'SUP2', name: 'Bakery', leadTimeDays: 1 }]);
+        const directory = buildSupplierDirectory([{ id: 'SUP1', name: 'Fresh Farms' }, { id: 'SUP2', name: 'Bakery' }], profiles);
+        expect(directory.map(d => [d.id, d.hasAccount, d.hasProfile])).toEqual([['SUP2', true, true], ['SUP1', true, false]]);
+    });
+});
+
+describe('buildSupplierProfile', () => {
+    it('refuses new IDs already in the directory and drops empty contacts', () => {
+        const profiles = mapSupplierProfiles([{ id: 'SUP1', name: 'Fresh Farms' }]);
+        const draft = { id: ' SUP1 ', name: 'Fresh', active: true, contacts: [{ name: '', role: '', phone: '', email: '' }], paymentTerms: 'COD' as const, leadTimeDays: 2, notes: '' };
+        expect(() => buildSupplierProfile(draft, true, profiles)).toThrow('already in the directory');
+        expect(buildSupplierProfile(draft, false, profiles)).toMatchObject({ id: 'SUP1', contacts: [] });
+    });
+});
+
+describe('buildSupplierCatalog', () => {
+    it('rounds prices and refuses items listed twice', () => {
+        const entry = { itemId: 1, itemName: 'Flour', price: 10.456, sku: ' F-1 ' };
+        expect(buildSupplierCatalog([entry])).toEqual([{ itemId: 1, itemName: 'Flour', price: 10.46, sku: 'F-1' }]);
+        expect(() => buildSupplierCatalog([entry, entry])).toThrow('"Flour" is in the catalog twice');
+        expect(buildSupplierCatalog(null)).toBeNull();
+    });
+});
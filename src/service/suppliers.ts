@@ -0,0 +1,202 @@
+// ==================== SUPPLIER DIRECTORY ====================
+// Purchasing details the admin keeps about each supplier (contacts, payment terms, lead time,
+// catalog and prices) are kept by the backend with the supplier (see the SUPPLIER DIRECTORY
+// section of api.ts), keyed by the supplier ID its portal account logs in with, so portal accounts
+// show up even before they have a profile. The last loaded copy is kept here so screens can read
+// it synchronously. A supplier's own catalog replaces the items its portal lists
+// (admin/supplier-inventory-items).
+
+import type { SupplierSummary } from './api';
+
+export type PaymentTerms = 'PREPAID' | 'COD' | 'NET_7' | 'NET_15' | 'NET_30' | 'NET_60';
+
+export const PAYMENT_TERMS_LABELS: Record<PaymentTerms, string> = {
+    PREPAID: 'Prepaid',
+    COD: 'Cash on delivery',
+    NET_7: 'Net 7',
+    NET_15: 'Net 15',
+    NET_30: 'Net 30',
+    NET_60: 'Net 60'
+};
+
+// Days after delivery the payment is due
+export const PAYMENT_TERMS_DAYS: Record<PaymentTerms, number> = {
+    PREPAID: 0,
+    COD: 0,
+    NET_7: 7,
+    NET_15: 15,
+    NET_30: 30,
+    NET_60: 60
+};
+
+export interface SupplierContact {
+    name: string;
+    role: string;
+    phone: string;
+    email: string;
+}
+
+export interface SupplierCatalogEntry {
+    itemId: number; // inventory item
+    itemName: string;
+    price: number;  // per purchase unit
+    sku: string;    // supplier's own reference, optional
+}
+
+export interface SupplierProfile {
+    id: string; // supplier ID, the portal account ID when there is one
+    name: string;
+    active: boolean;
+    contacts: SupplierContact[];
+    paymentTerms: PaymentTerms;
+    leadTimeDays: number;
+    notes: string;
+    catalog: SupplierCatalogEntry[] | null; // null uses the items the supplier lists in its portal
+    updatedAt: string; // ISO, stamped by the backend
+}
+
+// What is sent to create or update a supplier; the catalog is saved on its own
+export type SupplierProfileRequest = Omit<SupplierProfile, 'catalog' | 'updatedAt'>;
+
+// One row of the directory: the profile plus whether the supplier can log in to receive orders
+export interface SupplierDirectoryEntry extends SupplierProfile {
+    hasAccount: boolean;
+    hasProfile: boolean;
+}
+
+export const SUPPLIERS_UPDATED_EVENT = 'suppliers-updated';
+
+export const DEFAULT_LEAD_TIME_DAYS = 2;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+let loadedProfiles: SupplierProfile[] = [];
+
+export const getSupplierProfiles = (): SupplierProfile[] => loadedProfiles.map(p => ({ ...p }));
+
+export const getSupplierProfile = (id: string, profiles: SupplierProfile[] = getSupplierProfiles()): SupplierProfile | null =>
+    profiles.find(p => p.id === id) ?? null;
+
+// Replaces the directory with the one loaded from the backend
+export const setSupplierProfiles = (profiles: SupplierProfile[]) => {
+    loadedProfiles = profiles.map(p => ({ ...p }));
+    try {
+        window.dispatchEvent(new CustomEvent(SUPPLIERS_UPDATED_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+// Puts one supplier as the backend returned it after a save into the loaded directory
+export const storeSupplierProfile = (profile: SupplierProfile) =>
+    setSupplierProfiles([...loadedProfiles.filter(p => p.id !== profile.id), profile]);
+
+export const dropSupplierProfile = (id: string) =>
+    setSupplierProfiles(loadedProfiles.filter(p => p.id !== id));
+
+const mapCatalog = (raw: unknown): SupplierCatalogEntry[] | null =>
+    Array.isArray(raw)
+        ? asRecords(raw).map(e => ({
+            itemId: Number(e.itemId),
+            itemName: String(e.itemName ?? `Item ${e.itemId}`),
+            price: Number(e.price) || 0,
+            sku: String(e.sku ?? '')
+        }))
+        : null;
+
+// Suppliers as returned by the backend: [{ id, name, active, contacts, paymentTerms, leadTimeDays, notes, catalog, updatedAt }]
+export const mapSupplierProfiles = (raw: unknown): SupplierProfile[] =>
+    asRecords(raw)
+        .map(r => ({
+            id: String(r.id ?? r.supplierId ?? ''),
+            name: String(r.name ?? r.id ?? ''),
+            active: r.active !== false,
+            contacts: asRecords(r.contacts).map(c => ({
+                name: String(c.name ?? ''),
+                role: String(c.role ?? ''),
+                phone: String(c.phone ?? ''),
+                email: String(c.email ?? '')
+            })),
+            paymentTerms: Object.keys(PAYMENT_TERMS_LABELS).includes(String(r.paymentTerms)) ? r.paymentTerms as PaymentTerms : 'COD',
+            leadTimeDays: r.leadTimeDays != null && Number.isFinite(Number(r.leadTimeDays)) ? Number(r.leadTimeDays) : DEFAULT_LEAD_TIME_DAYS,
+            notes: String(r.notes ?? ''),
+            catalog: mapCatalog(r.catalog),
+            updatedAt: String(r.updatedAt ?? '')
+        }))
+        .filter(p => p.id !== '');
+
+// contactInfo is free text; keep it as the email or phone it looks like
+const splitContactInfo = (info: string): Partial<SupplierContact> =>
+    EMAIL_PATTERN.test(info.trim()) ? { email: info.trim() } : { phone: info.trim() };
+
+// Profile a portal account starts from before the admin saves one
+export const defaultSupplierProfile = (account: SupplierSummary): SupplierProfile => ({
+    id: account.id,
+    name: account.name,
+    active: true,
+    contacts: account.contactInfo ? [{ name: '', role: '', phone: '', email: '', ...splitContactInfo(account.contactInfo) }] : [],
+    paymentTerms: 'COD',
+    leadTimeDays: DEFAULT_LEAD_TIME_DAYS,
+    notes: '',
+    catalog: null,
+    updatedAt: ''
+});
+
+export const buildSupplierDirectory = (
+    accounts: SupplierSummary[],
+    profiles: SupplierProfile[] = getSupplierProfiles()
+): SupplierDirectoryEntry[] => {
+    const accountIds = new Set(accounts.map(a => a.id));
+    const profileIds = new Set(profiles.map(p => p.id));
+    return [
+        ...profiles.map(p => ({ ...p, hasAccount: accountIds.has(p.id), hasProfile: true })),
+        ...accounts.filter(a => !profileIds.has(a.id)).map(a => ({ ...defaultSupplierProfile(a), hasAccount: true, hasProfile: false }))
+    ].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Checks a supplier before it is sent to the backend; returns it trimmed, without empty contacts
+export const buildSupplierProfile = (
+    profile: SupplierProfileRequest,
+    isNew = false,
+    profiles: SupplierProfile[] = getSupplierProfiles()
+): SupplierProfileRequest => {
+    const id = profile.id.trim();
+    const name = profile.name.trim();
+    if (!id) throw new Error('Supplier ID is required');
+    if (!name) throw new Error('Supplier name is required');
+    if (isNew && profiles.some(p => p.id === id)) throw new Error(`Supplier ID "${id}" is already in the directory`);
+    if (!Number.isInteger(profile.leadTimeDays) || profile.leadTimeDays < 0) throw new Error('Lead time must be a whole number of days');
+    const contacts = profile.contacts
+        .map(c => ({ name: c.name.trim(), role: c.role.trim(), phone: c.phone.trim(), email: c.email.trim() }))
+        .filter(c => c.name || c.phone || c.email);
+    const badEmail = contacts.find(c => c.email && !EMAIL_PATTERN.test(c.email));
+    if (badEmail) throw new Error(`"${badEmail.email}" is not a valid email`);
+    return {
+        id,
+        name,
+        active: profile.active,
+        contacts,
+        paymentTerms: profile.paymentTerms,
+        leadTimeDays: profile.leadTimeDays,
+        notes: profile.notes.trim()
+    };
+};
+
+// Suppliers without a profile are active
+export const isSupplierActive = (id: string, profiles: SupplierProfile[] = getSupplierProfiles()): boolean =>
+    getSupplierProfile(id, profiles)?.active ?? true;
+
+// ---------- Catalog ----------
+
+// Checks a catalog before it is sent to the backend; null goes back to the portal items
+export const buildSupplierCatalog = (catalog: SupplierCatalogEntry[] | null): SupplierCatalogEntry[] | null => {
+    if (!catalog) return null;
+    const seen = new Set<number>();
+    catalog.forEach(e => {
+        if (seen.has(e.itemId)) throw new Error(`"${e.itemName}" is in the catalog twice`);
+        if (!Number.isFinite(e.price) || e.price < 0) throw new Error(`Enter a valid price for "${e.itemName}"`);
+        seen.add(e.itemId);
+    });
+    return catalog.map(e => ({ ...e, sku: e.sku.trim(), price: Math.round(e.price * 100) / 100 }));
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { buildTable, mapFloorPlan } from './tables';
+
+describe('mapFloorPlan', () => {
+    it('sorts the tables and keeps when each was cleared', () => {
+        const plan = mapFloorPlan([
+            { number: 2, seats: 4, area: 'Terrace', clearedAt: '2026-03-01T20:00:00.000Z' },
+            { number: 1, seats: 2, area: 'Main Hall', clearedAt: null },
+            { number: 0, seats: 1 }
+        ]);
+        expect(plan.tables.map(t => t.number)).toEqual([1, 2]);
+        expect(plan.cleared).toEqual({ '2': new Date('2026-03-01T20:00:00.000Z').getTime() });
+    });
+});
+
+describe('buildTable', () => {
+    it('refuses a number another table already has', () => {
+        const tables = [{ number: 1, seats: 2, area: '' }, { number: 2, seats: 4, area: '' }];
+        expect(() => buildTable({ number: 2, seats: 4, area: '' }, 1, tables)).toThrow('Table 2 already exists');
+        expect(buildTable({ number: 1, seats: 6, area: ' Terrace ' }, 1, tables)).toEqual({ number: 1, seats: 6, area: 'Terrace' });
+    });
+});
@@ -0,0 +1,104 @@
+// ==================== FLOOR PLAN ====================
+// Dining tables configured for the floor plan. The backend keeps the layout and the last time
+// each table was cleared (see the FLOOR PLAN section of api.ts), so every terminal sees the
+// same tables; the state of each table is never stored, it is derived from the current orders.
+
+import type { OrderData } from './api';
+
+export interface DiningTable {
+    number: number; // matches the order tableNumber (0 is reserved for takeout)
+    seats: number;
+    area: string;
+}
+
+export type TableState = 'FREE' | 'OCCUPIED' | 'AWAITING_FOOD' | 'READY_TO_SERVE';
+
+// Last time each table was cleared, keyed by table number; delivered orders older than this
+// no longer occupy it
+export type ClearedTables = Record<string, number>;
+
+export const TABLES_UPDATED_EVENT = 'floor-tables-updated';
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+export const notifyTablesUpdated = () => {
+    try {
+        window.dispatchEvent(new CustomEvent(TABLES_UPDATED_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+// Floor plan as returned by the backend: [{ number, seats, area, clearedAt }]
+export const mapFloorPlan = (raw: unknown): { tables: DiningTable[]; cleared: ClearedTables } => {
+    const cleared: ClearedTables = {};
+    const tables = asRecords(raw)
+        .map(r => {
+            const table = { number: Number(r.number ?? r.tableNumber), seats: Number(r.seats) || 0, area: String(r.area ?? '') };
+            const clearedAt = r.clearedAt ? new Date(String(r.clearedAt)).getTime() : NaN;
+            if (!isNaN(clearedAt)) cleared[String(table.number)] = clearedAt;
+            return table;
+        })
+        .filter(t => Number.isInteger(t.number) && t.number > 0)
+        .sort((a, b) => a.number - b.number);
+    return { tables, cleared };
+};
+
+// Checks a new (originalNumber null) or edited table against the others; returns it ready to send
+export const buildTable = (table: DiningTable, originalNumber: number | null, tables: DiningTable[]): DiningTable => {
+    if (!Number.isInteger(table.number) || table.number <= 0) throw new Error('Table number must be a whole number greater than 0');
+    if (!Number.isInteger(table.seats) || table.seats <= 0) throw new Error('Seats must be a whole number greater than 0');
+    if (tables.some(t => t.number === table.number && t.number !== originalNumber)) {
+        throw new Error(`Table ${table.number} already exists`);
+    }
+    return { ...table, area: table.area.trim() };
+};
+
+const orderTimestamp = (order: OrderData): number | null => {
+    if (!order.orderDate || order.orderDate.length <= 10) return null;
+    const t = new Date(order.orderDate).getTime();
+    return isNaN(t) ? null : t;
+};
+
+const startOfToday = (): number => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    return start.getTime();
+};
+
+const isClosedStatus = (order: OrderData): boolean => ['DELIVERED', 'CANCELLED'].includes((order.status || '').toUpperCase());
+
+// Orders that still keep a table busy: today's orders placed after the table was last cleared
+// that are not cancelled. Orders without a time cannot be dated and only count while open.
+export const getOpenOrdersForTable = (
+    orders: OrderData[],
+    tableNumber: number,
+    cleared: ClearedTables
+): OrderData[] => {
+    const clearedAt = cleared[String(tableNumber)] || 0;
+    const today = startOfToday();
+    return orders.filter(o => {
+        if ((o.tableNumber ?? 0) !== tableNumber) return false;
+        const status = (o.status || '').toUpperCase();
+        if (status === 'CANCELLED') return false;
+        const ts = orderTimestamp(o);
+        return ts == null ? status !== 'DELIVERED' : ts >= today && ts > clearedAt;
+    });
+};
+
+// Orders from earlier days that were never delivered or cancelled; they no longer occupy
+// a table but still need to be closed in the orders list
+export const getStaleOpenOrders = (orders: OrderData[]): OrderData[] => {
+    const today = startOfToday();
+    return orders.filter(o => {
+        const ts = orderTimestamp(o);
+        return !isClosedStatus(o) && ts != null && ts < today;
+    });
+};
+
+export const deriveTableState = (openOrders: OrderData[]): TableState => {
+    const statuses = openOrders.map(o => (o.status || '').toUpperCase());
+    if (statuses.includes('READY')) return 'READY_TO_SERVE';
+    if (statuses.includes('PENDING') || statuses.includes('IN_PROGRESS')) return 'AWAITING_FOOD';
+    if (statuses.length > 0) return 'OCCUPIED';
+    return 'FREE';
+};
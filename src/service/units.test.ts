@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { fromBaseQuantity, getBaseUnitCost, getPurchaseUnitPrice, mapItemUnits, toBaseQuantity, validateItemUnits, type ItemUnits } from './units';
+
+const flour: ItemUnits = { itemId: 1, baseUnit: 'g', conversions: [{ unit: 'bag', factor: 5000 }], purchaseUnit: 'bag', priceUnit: 'kg' };
+
+describe('unit conversion', () => {
+    it('converts standard and item specific units to and from the base unit', () => {
+        expect(toBaseQuantity(1.5, 'kg', flour)).toBe(1500);
+        expect(toBaseQuantity(2, 'bag', flour)).toBe(10000);
+        expect(fromBaseQuantity(2500, 'bag', flour)).toBe(0.5);
+        expect(toBaseQuantity(3, null, flour)).toBe(3);
+    });
+
+    it('costs the price per its own unit, whatever the purchase unit is', () => {
+        expect(getBaseUnitCost(2, flour)).toBe(0.002);
+        expect(getPurchaseUnitPrice(2, flour)).toBe(10);
+        expect(getPurchaseUnitPrice(2, { ...flour, purchaseUnit: 'kg' })).toBe(2);
+    });
+});
+
+describe('mapItemUnits', () => {
+    it('quotes prices per purchase unit for definitions saved without a price unit', () => {
+        const [units] = mapItemUnits([{ itemId: 1, baseUnit: 'g', conversions: [{ unit: 'bag', factor: 5000 }], purchaseUnit: 'bag' }]);
+        expect(units.priceUnit).toBe('bag');
+        expect(getBaseUnitCost(10, units)).toBe(0.002);
+    });
+});
+
+describe('validateItemUnits', () => {
+    it('refuses units defined twice and unknown price units', () => {
+        expect(() => validateItemUnits({ ...flour, conversions: [{ unit: ' KG ', factor: 1000 }] })).toThrow('"kg" is defined twice');
+        expect(() => validateItemUnits({ ...flour, priceUnit: 'case' })).toThrow('Unknown price unit "case"');
+    });
+});
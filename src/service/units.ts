@@ -0,0 +1,130 @@
+// ==================== UNITS OF MEASURE ====================
+// Stock, recipes and the ledger count every item in its base unit (unit, g or ml). Suppliers
+// sell in packs, so each item can define extra units as multiples of the base (case = 24 units)
+// and pick one of them as the purchase unit: purchase orders are placed and priced per purchase
+// unit and converted back to base units when received. The price stored on an inventory item
+// is quoted per the item's price unit, so changing the purchase unit does not change what the
+// price means. The backend keeps the definitions (see the ITEM UNITS section of api.ts); the
+// last loaded copy is kept here so screens can read it synchronously.
+
+export type BaseUnit = 'unit' | 'g' | 'ml';
+
+export const BASE_UNITS: BaseUnit[] = ['unit', 'g', 'ml'];
+
+export interface UnitConversion {
+    unit: string;
+    factor: number; // base units in one of this unit
+}
+
+export interface ItemUnits {
+    itemId: number;
+    baseUnit: BaseUnit;
+    conversions: UnitConversion[]; // item specific (case, box, bag...)
+    purchaseUnit: string | null;   // null buys in the base unit
+    priceUnit: string | null;      // unit the inventory price is quoted in; null = base unit
+}
+
+// Conversions every item with that base unit gets
+export const STANDARD_CONVERSIONS: Record<BaseUnit, UnitConversion[]> = {
+    unit: [{ unit: 'dozen', factor: 12 }],
+    g: [{ unit: 'kg', factor: 1000 }, { unit: 'lb', factor: 453.592 }, { unit: 'oz', factor: 28.3495 }],
+    ml: [{ unit: 'l', factor: 1000 }, { unit: 'gal', factor: 3785.41 }]
+};
+
+export const ITEM_UNITS_EVENT = 'inventory-units-updated';
+
+const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+const asRecords = (raw: unknown): Record<string, unknown>[] =>
+    (Array.isArray(raw) ? raw : []).filter((r): r is Record<string, unknown> => !!r && typeof r === 'object');
+
+let loadedUnits: ItemUnits[] = [];
+
+export const getAllItemUnits = (): ItemUnits[] => loadedUnits.map(u => ({ ...u }));
+
+export const getItemUnits = (itemId: number | null, all: ItemUnits[] = getAllItemUnits()): ItemUnits =>
+    all.find(u => u.itemId === itemId) ?? { itemId: itemId ?? 0, baseUnit: 'unit', conversions: [], purchaseUnit: null, priceUnit: null };
+
+// Replaces the definitions with the ones loaded from the backend
+export const setItemUnitsCatalog = (list: ItemUnits[]) => {
+    loadedUnits = list.map(u => ({ ...u }));
+    try {
+        window.dispatchEvent(new CustomEvent(ITEM_UNITS_EVENT, { detail: { timestamp: Date.now() } }));
+    } catch { /* ignore */ }
+};
+
+// Puts one item's definition as the backend returned it after a save into the loaded copy
+export const storeItemUnits = (units: ItemUnits) =>
+    setItemUnitsCatalog([...loadedUnits.filter(u => u.itemId !== units.itemId), units]);
+
+// Definitions as returned by the backend: [{ itemId, baseUnit, conversions: [{ unit, factor }], purchaseUnit, priceUnit }].
+// Definitions saved before the price unit existed quote the price per purchase unit.
+export const mapItemUnits = (raw: unknown): ItemUnits[] =>
+    asRecords(raw)
+        .map(r => {
+            const purchaseUnit = r.purchaseUnit ? String(r.purchaseUnit) : null;
+            return {
+                itemId: Number(r.itemId ?? r.inventoryItemId),
+                baseUnit: (BASE_UNITS as string[]).includes(String(r.baseUnit)) ? r.baseUnit as BaseUnit : 'unit',
+                conversions: asRecords(r.conversions).map(c => ({ unit: String(c.unit ?? ''), factor: Number(c.factor) || 0 })),
+                purchaseUnit,
+                priceUnit: r.priceUnit === undefined ? purchaseUnit : r.priceUnit ? String(r.priceUnit) : null
+            };
+        })
+        .filter(u => Number.isFinite(u.itemId));
+
+// Checks an item's definition before it is sent to the backend; returns it with the unit names normalised
+export const validateItemUnits = (units: ItemUnits): ItemUnits => {
+    const seen = new Set<string>([units.baseUnit, ...STANDARD_CONVERSIONS[units.baseUnit].map(c => c.unit)]);
+    const conversions = units.conversions.map(c => {
+        const unit = c.unit.trim().toLowerCase();
+        if (!unit) throw new Error('Every unit needs a name');
+        if (seen.has(unit)) throw new Error(`"${unit}" is defined twice`);
+        if (!(c.factor > 0)) throw new Error(`"${unit}" must hold more than 0 ${units.baseUnit}`);
+        seen.add(unit);
+        return { unit, factor: roundQuantity(c.factor) };
+    });
+    if (units.purchaseUnit && !seen.has(units.purchaseUnit)) throw new Error(`Unknown purchase unit "${units.purchaseUnit}"`);
+    if (units.priceUnit && !seen.has(units.priceUnit)) throw new Error(`Unknown price unit "${units.priceUnit}"`);
+    return { ...units, conversions, purchaseUnit: units.purchaseUnit || null, priceUnit: units.priceUnit || null };
+};
+
+// Standard and item specific conversions, largest first
+export const getConversions = (units: ItemUnits): UnitConversion[] =>
+    [...STANDARD_CONVERSIONS[units.baseUnit], ...units.conversions].sort((a, b) => b.factor - a.factor);
+
+// Base units in one of the given unit (1 for the base unit itself)
+export const getUnitFactor = (units: ItemUnits, unit: string | null): number => {
+    if (!unit || unit === units.baseUnit) return 1;
+    return getConversions(units).find(c => c.unit === unit)?.factor ?? 1;
+};
+
+export const getPurchaseUnit = (units: ItemUnits): { unit: string; factor: number } => ({
+    unit: units.purchaseUnit || units.baseUnit,
+    factor: getUnitFactor(units, units.purchaseUnit)
+});
+
+export const toBaseQuantity = (quantity: number, unit: string | null, units: ItemUnits): number =>
+    roundQuantity(quantity * getUnitFactor(units, unit));
+
+export const fromBaseQuantity = (quantity: number, unit: string | null, units: ItemUnits): number =>
+    roundQuantity(quantity / getUnitFactor(units, unit));
+
+export const getPriceUnit = (units: ItemUnits): string => units.priceUnit || units.baseUnit;
+
+// Price per base unit of an inventory price quoted per the item's price unit
+export const getBaseUnitCost = (price: number, units: ItemUnits): number => price / getUnitFactor(units, units.priceUnit);
+
+// Price of one purchase unit, what purchase orders are priced with
+export const getPurchaseUnitPrice = (price: number, units: ItemUnits): number =>
+    Math.round(getBaseUnitCost(price, units) * getPurchaseUnit(units).factor * 10000) / 10000;
+
+export const formatQuantity = (quantity: number, unit: string): string =>
+    `${quantity.toLocaleString('en-US', { maximumFractionDigits: 3 })} ${unit}`;
+
+// "48 unit (2 case)" when the item is bought in packs
+export const formatStock = (quantity: number, units: ItemUnits): string => {
+    const base = formatQuantity(quantity, units.baseUnit);
+    const purchase = getPurchaseUnit(units);
+    return purchase.factor === 1 ? base : `${base} (${formatQuantity(roundQuantity(quantity / purchase.factor), purchase.unit)})`;
+};
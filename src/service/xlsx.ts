@@ -0,0 +1,208 @@
+// ==================== XLSX ====================
+// Minimal Office Open XML writer: a single worksheet with inline strings, a bold frozen header and
+// currency/date number formats, packed in an uncompressed (stored) zip. Enough for table exports
+// without pulling a spreadsheet library into the bundle.
+
+export type XlsxCellFormat = 'text' | 'number' | 'currency' | 'date' | 'datetime';
+export type XlsxCell = string | number | Date | null | undefined;
+
+export interface XlsxColumn {
+    header: string;
+    format?: XlsxCellFormat;
+    width?: number; // in characters
+}
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Indexes into cellXfs in STYLES_XML
+const STYLE_HEADER = 1;
+const STYLE_BY_FORMAT: Record<XlsxCellFormat, number> = { text: 0, number: 0, currency: 2, date: 3, datetime: 4 };
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd"/><numFmt numFmtId="166" formatCode="yyyy-mm-dd hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Control characters other than tab and newlines are not allowed in XML 1.0
+const escapeXml = (value: string): string => Array.from(value)
+    .filter(ch => ch >= ' ' || ch === '\t' || ch === '\n' || ch === '\r')
+    .join('')
+    .replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c] as string));
+
+// Sheet names are limited to 31 characters and cannot contain []:*?/\
+const toSheetName = (name: string): string => name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet1';
+
+const columnLetter = (index: number): string => {
+    let n = index + 1;
+    let letters = '';
+    while (n > 0) {
+        const rem = (n - 1) % 26;
+        letters = String.fromCharCode(65 + rem) + letters;
+        n = Math.floor((n - 1) / 26);
+    }
+    return letters;
+};
+
+// Excel stores dates as days since 1899-12-30 in local (wall-clock) time
+const toExcelSerial = (date: Date): number => (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+
+const cellXml = (ref: string, value: XlsxCell, format: XlsxCellFormat): string => {
+    if (value === null || value === undefined || value === '') return '';
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) return '';
+        return `<c r="${ref}" s="${STYLE_BY_FORMAT[format === 'date' ? 'date' : 'datetime']}"><v>${toExcelSerial(value)}</v></c>`;
+    }
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) return '';
+        return `<c r="${ref}" s="${STYLE_BY_FORMAT[format]}"><v>${value}</v></c>`;
+    }
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const sheetXml = (columns: XlsxColumn[], rows: XlsxCell[][]): string => {
+    const cols = columns.map((c, i) => {
+        const width = c.width ?? Math.min(60, Math.max(10, c.header.length + 2));
+        return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`;
+    }).join('');
+    const header = `<row r="1">${columns.map((c, i) => (
+        `<c r="${columnLetter(i)}1" t="inlineStr" s="${STYLE_HEADER}"><is><t>${escapeXml(c.header)}</t></is></c>`
+    )).join('')}</row>`;
+    const body = rows.map((row, r) => (
+        `<row r="${r + 2}">${row.map((value, i) => cellXml(`${columnLetter(i)}${r + 2}`, value, columns[i]?.format ?? 'text')).join('')}</row>`
+    )).join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData>${header}${body}</sheetData>
+</worksheet>`;
+};
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Zip with every entry stored (method 0); the xlsx parts are small text files
+const zipStore = (files: { name: string; content: string }[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const now = new Date();
+    const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach(file => {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + name.length);
+        const l = new DataView(local.buffer);
+        l.setUint32(0, 0x04034b50, true);
+        l.setUint16(4, 20, true);
+        l.setUint16(6, 0x0800, true); // UTF-8 names
+        l.setUint16(8, 0, true);
+        l.setUint16(10, dosTime, true);
+        l.setUint16(12, dosDate, true);
+        l.setUint32(14, crc, true);
+        l.setUint32(18, data.length, true);
+        l.setUint32(22, data.length, true);
+        l.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const entry = new Uint8Array(46 + name.length);
+        const c = new DataView(entry.buffer);
+        c.setUint32(0, 0x02014b50, true);
+        c.setUint16(4, 20, true);
+        c.setUint16(6, 20, true);
+        c.setUint16(8, 0x0800, true);
+        c.setUint16(10, 0, true);
+        c.setUint16(12, dosTime, true);
+        c.setUint16(14, dosDate, true);
+        c.setUint32(16, crc, true);
+        c.setUint32(20, data.length, true);
+        c.setUint32(24, data.length, true);
+        c.setUint16(28, name.length, true);
+        c.setUint32(42, offset, true);
+        entry.set(name, 46);
+
+        parts.push(local, data);
+        central.push(entry);
+        offset += local.length + data.length;
+    });
+
+    const centralSize = central.reduce((acc, e) => acc + e.length, 0);
+    const end = new Uint8Array(22);
+    const e = new DataView(end.buffer);
+    e.setUint32(0, 0x06054b50, true);
+    e.setUint16(8, files.length, true);
+    e.setUint16(10, files.length, true);
+    e.setUint32(12, centralSize, true);
+    e.setUint32(16, offset, true);
+
+    const all = [...parts, ...central, end];
+    const out = new Uint8Array(all.reduce((acc, p) => acc + p.length, 0));
+    let pos = 0;
+    all.forEach(p => { out.set(p, pos); pos += p.length; });
+    return out;
+};
+
+export const buildXlsx = (sheetName: string, columns: XlsxColumn[], rows: XlsxCell[][]): Uint8Array => {
+    const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+    return zipStore([
+        { name: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+        { name: '_rels/.rels', content: ROOT_RELS_XML },
+        { name: 'xl/workbook.xml', content: workbook },
+        { name: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS_XML },
+        { name: 'xl/styles.xml', content: STYLES_XML },
+        { name: 'xl/worksheets/sheet1.xml', content: sheetXml(columns, rows) }
+    ]);
+};
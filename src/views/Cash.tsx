@@ -0,0 +1,20 @@
+import {type ToastContextType} from '../context/toastContext.ts';
+import {useToast} from "../components/hooks/useToast.ts";
+import CashStatus from "../components/CashStatus/CashStatus.tsx";
+
+function Cash() {
+    const { showSuccess, showError, showWarning, showInfo } : ToastContextType = useToast();
+
+    const handleToast = (message: string, type = 'info') => {
+        switch (type) {
+            case 'success': return showSuccess(message);
+            case 'danger': return showError(message);
+            case 'warning': return showWarning(message);
+            default: return showInfo(message);
+        }
+    };
+
+    return <CashStatus onToast={handleToast} />;
+}
+
+export default Cash;
@@ -0,0 +1,20 @@
+import {type ToastContextType} from '../context/toastContext.ts';
+import {useToast} from "../components/hooks/useToast.ts";
+import KitchenDisplay from "../components/KitchenDisplay/KitchenDisplay.tsx";
+
+function Kitchen() {
+    const { showSuccess, showError, showWarning, showInfo } : ToastContextType = useToast();
+
+    const handleToast = (message: string, type = 'info') => {
+        switch (type) {
+            case 'success': return showSuccess(message);
+            case 'danger': return showError(message);
+            case 'warning': return showWarning(message);
+            default: return showInfo(message);
+        }
+    };
+
+    return <KitchenDisplay onToast={handleToast} />;
+}
+
+export default Kitchen;
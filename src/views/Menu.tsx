@@ -0,0 +1,20 @@
+import {type ToastContextType} from '../context/toastContext.ts';
+import {useToast} from "../components/hooks/useToast.ts";
+import MenuStatus from "../components/MenuStatus/MenuStatus.tsx";
+
+function Menu() {
+    const { showSuccess, showError, showWarning, showInfo } : ToastContextType = useToast();
+
+    const handleToast = (message: string, type = 'info') => {
+        switch (type) {
+            case 'success': return showSuccess(message);
+            case 'danger': return showError(message);
+            case 'warning': return showWarning(message);
+            default: return showInfo(message);
+        }
+    };
+
+    return <MenuStatus onToast={handleToast} />;
+}
+
+export default Menu;
@@ -0,0 +1,20 @@
+import {type ToastContextType} from '../context/toastContext.ts';
+import {useToast} from "../components/hooks/useToast.ts";
+import PurchasingStatus from "../components/PurchasingStatus/PurchasingStatus.tsx";
+
+function Purchasing() {
+    const { showSuccess, showError, showWarning, showInfo } : ToastContextType = useToast();
+
+    const handleToast = (message: string, type = 'info') => {
+        switch (type) {
+            case 'success': return showSuccess(message);
+            case 'danger': return showError(message);
+            case 'warning': return showWarning(message);
+            default: return showInfo(message);
+        }
+    };
+
+    return <PurchasingStatus onToast={handleToast} />;
+}
+
+export default Purchasing;